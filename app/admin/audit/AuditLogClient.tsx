@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import type { AuditEvent } from '@/lib/schemas';
+
+type AuditEventType = AuditEvent['type'];
+
+interface AuditLogClientProps {
+  events: AuditEvent[];
+}
+
+const typeLabels: Record<AuditEventType, { label: string; className: string }> = {
+  LOGIN_FAILED: { label: 'Failed login', className: 'bg-amber-100 text-amber-800' },
+  ACCOUNT_LOCKED: { label: 'Account locked', className: 'bg-red-100 text-red-800' },
+  RATE_LIMITED: { label: 'Rate limited', className: 'bg-purple-100 text-purple-800' },
+};
+
+export default function AuditLogClient({ events: initialEvents }: AuditLogClientProps) {
+  const [events, setEvents] = useState<AuditEvent[]>(initialEvents);
+  const [type, setType] = useState('');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleFilter = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const { data } = await axios.get('/api/audit-events', {
+        params: { type: type || undefined, email: email.trim() || undefined },
+      });
+      setEvents(data.events);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load audit events');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+      <form onSubmit={handleFilter} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">All events</option>
+          {(Object.keys(typeLabels) as AuditEventType[]).map((key) => (
+            <option key={key} value={key}>
+              {typeLabels[key].label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Filter by email"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {loading ? 'Loading...' : 'Filter'}
+        </button>
+      </form>
+
+      {events.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No matching events</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-3 pr-4 font-semibold">When</th>
+                <th className="py-3 pr-4 font-semibold">Event</th>
+                <th className="py-3 pr-4 font-semibold">Email</th>
+                <th className="py-3 pr-4 font-semibold">IP address</th>
+                <th className="py-3 font-semibold">Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-b border-gray-100 last:border-b-0 align-top">
+                  <td className="py-3 pr-4 text-gray-600 whitespace-nowrap">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${typeLabels[event.type].className}`}>
+                      {typeLabels[event.type].label}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-4 text-gray-900">{event.email || '—'}</td>
+                  <td className="py-3 pr-4 text-gray-600 font-mono text-xs">{event.ipAddress || '—'}</td>
+                  <td className="py-3 text-gray-600" title={event.userAgent || undefined}>
+                    {event.detail || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
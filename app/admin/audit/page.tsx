@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import DashboardNav from '@/components/DashboardNav';
+import AdminSidebar from '@/components/AdminSidebar';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { auditEventSchema, serialize } from '@/lib/schemas';
+import AuditLogClient from './AuditLogClient';
+
+export default async function AdminAuditPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (!can(user, 'audit-log:view')) {
+    redirect('/dashboard');
+  }
+
+  const events = await ServiceFactory.createAuditService().listEvents();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardNav />
+      <AdminSidebar role={user.role} />
+
+      <div className="lg:ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12 relative z-10">
+        <div className="mb-8 md:mb-12">
+          <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-3">Audit Log</h1>
+          <p className="text-gray-600 text-lg">Failed sign-ins, account lockouts and rate-limited requests</p>
+        </div>
+
+        <AuditLogClient
+          events={events.map((e) => serialize(auditEventSchema, e.toJSON()))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+'use client';
+
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import type { Course, Enrollment } from '@/lib/schemas';
+
+interface CourseForm {
+  code: string;
+  name: string;
+  term: string;
+  description: string;
+}
+
+interface AdminCoursesClientProps {
+  courses: Course[];
+  // Teaching assistants manage enrollments but can't create, edit or delete courses
+  canManageCourses: boolean;
+}
+
+const emptyForm: CourseForm = { code: '', name: '', term: '', description: '' };
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none';
+
+export default function AdminCoursesClient({ courses: initialCourses, canManageCourses }: AdminCoursesClientProps) {
+  const [courses, setCourses] = useState<Course[]>(initialCourses);
+  const [form, setForm] = useState<CourseForm>(emptyForm);
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<CourseForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [loadingEnrollments, setLoadingEnrollments] = useState(false);
+  const [csv, setCsv] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.code.trim() || !form.name.trim()) {
+      toast.error('Code and name are required');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { data } = await axios.post('/api/courses', form);
+      setCourses([...courses, data.course].sort((a, b) => a.code.localeCompare(b.code)));
+      setForm(emptyForm);
+      toast.success('Course created successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create course');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startEdit = (course: Course) => {
+    setEditingId(course.id);
+    setEditForm({
+      code: course.code,
+      name: course.name,
+      term: course.term || '',
+      description: course.description || '',
+    });
+  };
+
+  const handleUpdate = async (id: string) => {
+    setSaving(true);
+    try {
+      const { data } = await axios.patch(`/api/courses/${id}`, editForm);
+      setCourses(courses.map((course) => (course.id === id ? data.course : course)));
+      setEditingId(null);
+      toast.success('Course updated successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update course');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (course: Course) => {
+    if (!confirm(`Delete ${course.code}? Its content is kept but no longer linked to a course. This action cannot be undone.`)) {
+      return;
+    }
+
+    setDeletingId(course.id);
+    try {
+      await axios.delete(`/api/courses/${course.id}`);
+      setCourses(courses.filter((c) => c.id !== course.id));
+      if (expandedId === course.id) {
+        setExpandedId(null);
+      }
+      toast.success('Course deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete course');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const loadEnrollments = async (id: string) => {
+    setLoadingEnrollments(true);
+    try {
+      const { data } = await axios.get(`/api/courses/${id}/enrollments`);
+      setEnrollments(data.enrollments);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load enrollments');
+    } finally {
+      setLoadingEnrollments(false);
+    }
+  };
+
+  const toggleEnrollments = (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(id);
+    setEnrollments([]);
+    setCsv('');
+    loadEnrollments(id);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+    }
+    e.target.value = '';
+  };
+
+  const handleImport = async (id: string) => {
+    if (!csv.trim()) {
+      toast.error('Paste a CSV or choose a file first');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const { data } = await axios.post(`/api/courses/${id}/enrollments`, { csv });
+      setCourses(courses.map((course) =>
+        course.id === id ? { ...course, studentCount: course.studentCount + data.enrolled } : course
+      ));
+      setCsv('');
+
+      toast.success(`Enrolled ${data.enrolled} student${data.enrolled === 1 ? '' : 's'}`, {
+        description: [
+          data.alreadyEnrolled > 0 && `${data.alreadyEnrolled} already enrolled`,
+          data.unknownEmails.length > 0 && `No account for: ${data.unknownEmails.join(', ')}`,
+          data.invalidRows.length > 0 && `Skipped rows: ${data.invalidRows.join(', ')}`,
+        ].filter(Boolean).join('. ') || undefined,
+      });
+      loadEnrollments(id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to import students');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleUnenroll = async (courseId: string, enrollment: Enrollment) => {
+    if (!confirm(`Remove ${enrollment.user.email} from this course?`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/courses/${courseId}/enrollments/${enrollment.userId}`);
+      setEnrollments(enrollments.filter((e) => e.userId !== enrollment.userId));
+      setCourses(courses.map((course) =>
+        course.id === courseId ? { ...course, studentCount: course.studentCount - 1 } : course
+      ));
+      toast.success('Student removed from course');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to remove student');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Create Course */}
+      {canManageCourses && (
+        <form onSubmit={handleCreate} className="bg-white rounded-xl border-2 border-gray-200 p-4 sm:p-6">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">New course</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+            <input
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+              placeholder="Code, e.g. CS-101"
+              className={inputClassName}
+            />
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name"
+              className={inputClassName}
+            />
+            <input
+              value={form.term}
+              onChange={(e) => setForm({ ...form, term: e.target.value })}
+              placeholder="Term (optional)"
+              className={inputClassName}
+            />
+          </div>
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="Description (optional)"
+            rows={2}
+            className={`${inputClassName} mb-3`}
+          />
+          <button
+            type="submit"
+            disabled={creating}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Creating...' : 'Create Course'}
+          </button>
+        </form>
+      )}
+
+      {/* Course List */}
+      {courses.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border-2 border-gray-200">
+          <p className="text-gray-500">No courses yet</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border-2 border-gray-200 divide-y divide-gray-200">
+          {courses.map((course) => (
+            <div key={course.id} className="p-4">
+              {editingId === course.id ? (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <input
+                      value={editForm.code}
+                      onChange={(e) => setEditForm({ ...editForm, code: e.target.value })}
+                      placeholder="Code"
+                      className={inputClassName}
+                    />
+                    <input
+                      value={editForm.name}
+                      onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                      placeholder="Name"
+                      className={inputClassName}
+                    />
+                    <input
+                      value={editForm.term}
+                      onChange={(e) => setEditForm({ ...editForm, term: e.target.value })}
+                      placeholder="Term (optional)"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <textarea
+                    value={editForm.description}
+                    onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                    placeholder="Description (optional)"
+                    rows={2}
+                    className={inputClassName}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleUpdate(course.id)}
+                      disabled={saving}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="px-2.5 py-1 bg-gray-100 text-gray-700 rounded-full text-sm font-semibold">
+                        {course.code}
+                      </span>
+                      <span className="font-semibold text-gray-900">{course.name}</span>
+                      {course.term && <span className="text-sm text-gray-500">{course.term}</span>}
+                    </div>
+                    {course.description && (
+                      <p className="text-sm text-gray-600 mt-1">{course.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => toggleEnrollments(course.id)}
+                      className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                    >
+                      {course.studentCount} student{course.studentCount === 1 ? '' : 's'}
+                    </button>
+                    {canManageCourses && (
+                      <>
+                        <button
+                          onClick={() => startEdit(course)}
+                          className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(course)}
+                          disabled={deletingId === course.id}
+                          className="px-3 py-1.5 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          {deletingId === course.id ? 'Deleting...' : 'Delete'}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Enrollments */}
+              {expandedId === course.id && (
+                <div className="mt-4 pt-4 border-t border-gray-100 space-y-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-900 mb-2">
+                      Import students
+                    </label>
+                    <p className="text-xs text-gray-500 mb-2">
+                      One student per row as <code>email,section</code>. The section is optional and students need an account first.
+                    </p>
+                    <textarea
+                      value={csv}
+                      onChange={(e) => setCsv(e.target.value)}
+                      placeholder={'email,section\nada@example.edu,A1'}
+                      rows={4}
+                      className={`${inputClassName} font-mono`}
+                    />
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      <label className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors cursor-pointer">
+                        Choose file
+                        <input type="file" accept=".csv,text/csv,text/plain" onChange={handleFile} className="hidden" />
+                      </label>
+                      <button
+                        onClick={() => handleImport(course.id)}
+                        disabled={importing}
+                        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        {importing ? 'Importing...' : 'Enroll Students'}
+                      </button>
+                    </div>
+                  </div>
+
+                  {loadingEnrollments ? (
+                    <p className="text-sm text-gray-500">Loading students...</p>
+                  ) : enrollments.length === 0 ? (
+                    <p className="text-sm text-gray-500">No students enrolled yet</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                      {enrollments.map((enrollment) => (
+                        <li key={enrollment.userId} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                          <div className="min-w-0">
+                            <span className="font-medium text-gray-900">{enrollment.user.name || enrollment.user.email}</span>
+                            {enrollment.user.name && <span className="text-gray-500 ml-2">{enrollment.user.email}</span>}
+                            {enrollment.section && (
+                              <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">
+                                {enrollment.section}
+                              </span>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => handleUnenroll(course.id, enrollment)}
+                            className="text-red-600 hover:text-red-700 font-medium"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
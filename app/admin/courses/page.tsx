@@ -0,0 +1,42 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { courseSchema, serialize } from '@/lib/schemas';
+import DashboardNav from '@/components/DashboardNav';
+import AdminSidebar from '@/components/AdminSidebar';
+import AdminCoursesClient from './AdminCoursesClient';
+
+export default async function AdminCoursesPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (!can(user, 'enrollment:manage')) {
+    redirect('/dashboard');
+  }
+
+  const courseService = ServiceFactory.createCourseService();
+  const courses = await courseService.listCourses();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardNav />
+      <AdminSidebar role={user.role} />
+      
+      <div className="lg:ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12 relative z-10">
+        <div className="mb-8 md:mb-12">
+          <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-3">Courses</h1>
+          <p className="text-gray-600 text-lg">Create courses and enroll students from a class list</p>
+        </div>
+
+        <AdminCoursesClient
+          courses={courses.map((course) => serialize(courseSchema, course.toJSON()))}
+          canManageCourses={can(user, 'course:manage')}
+        />
+      </div>
+    </div>
+  );
+}
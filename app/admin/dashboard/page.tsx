@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation';
 import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
 import { getPrismaClient } from '@/lib/prisma';
 import DashboardNav from '@/components/DashboardNav';
 import AdminSidebar from '@/components/AdminSidebar';
@@ -12,7 +13,7 @@ export default async function AdminDashboard() {
     redirect('/login');
   }
 
-  if (user.role !== 'ADMIN') {
+  if (!can(user, 'admin:access')) {
     redirect('/dashboard');
   }
 
@@ -36,7 +37,7 @@ export default async function AdminDashboard() {
   return (
     <div className="min-h-screen bg-white">
       <DashboardNav />
-      <AdminSidebar />
+      <AdminSidebar role={user.role} />
       
       <div className="lg:ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 relative z-10">
         {/* Header */}
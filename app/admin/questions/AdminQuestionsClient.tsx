@@ -6,37 +6,7 @@ import Image from 'next/image';
 import QuestionModal from '@/components/QuestionModal';
 import axios from 'axios';
 import { toast } from 'sonner';
-
-interface Answer {
-  id: string;
-  description: string;
-  images: string[];
-  userId: string;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-  };
-}
-
-interface Question {
-  id: string;
-  title: string;
-  type: string;
-  description: string;
-  images: string[];
-  userId: string | null;
-  createdAt: Date;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-  } | null;
-  _count?: {
-    answers: number;
-  };
-}
+import type { Answer, Question } from '@/lib/schemas';
 
 interface AdminQuestionsClientProps {
   questions: Question[];
@@ -53,6 +23,9 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
   const [loadingAnswers, setLoadingAnswers] = useState<Record<string, boolean>>({});
   const [deletingQuestionId, setDeletingQuestionId] = useState<string | null>(null);
   const [deletingAnswerId, setDeletingAnswerId] = useState<string | null>(null);
+  const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [merging, setMerging] = useState(false);
 
   const toggleExpand = (id: string) => {
     const newExpanded = new Set(expandedIds);
@@ -87,10 +60,7 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
   };
 
   const handleQuestionClick = (question: Question) => {
-    setSelectedQuestion({
-      ...question,
-      createdAt: question.createdAt instanceof Date ? question.createdAt.toISOString() : question.createdAt,
-    } as any);
+    setSelectedQuestion(question);
     setIsModalOpen(true);
   };
 
@@ -130,6 +100,46 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
     }
   };
 
+  const handleMergeQuestion = async (sourceId: string) => {
+    if (!mergeTargetId) {
+      toast.error('Choose the question to merge into');
+      return;
+    }
+
+    if (!confirm('Move all answers and comments to the selected question? This question will then redirect to it.')) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      await axios.post(`/api/questions/${sourceId}/merge`, { targetId: mergeTargetId });
+      toast.success('Questions merged successfully');
+      const movedAnswers = questions.find((q) => q.id === sourceId)?.answerCount ?? 0;
+      setQuestions(
+        questions
+          .filter((q) => q.id !== sourceId)
+          .map((q) =>
+            q.id === mergeTargetId
+              ? { ...q, answerCount: (q.answerCount ?? 0) + movedAnswers }
+              : q
+          )
+      );
+      setQuestionAnswers(prev => {
+        const newAnswers = { ...prev };
+        delete newAnswers[sourceId];
+        delete newAnswers[mergeTargetId];
+        return newAnswers;
+      });
+      setMergeSourceId(null);
+      setMergeTargetId('');
+      router.refresh();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to merge questions');
+    } finally {
+      setMerging(false);
+    }
+  };
+
   const handleDeleteAnswer = async (answerId: string, questionId: string) => {
     if (!confirm('Are you sure you want to delete this answer?')) {
       return;
@@ -172,9 +182,7 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
         {questions.map((question) => {
           const isExpanded = expandedIds.has(question.id);
           const isAnswersExpanded = answersExpandedIds.has(question.id);
-          const createdAt = question.createdAt instanceof Date 
-            ? question.createdAt 
-            : new Date(question.createdAt);
+          const createdAt = new Date(question.createdAt);
 
           return (
             <div
@@ -237,7 +245,7 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
                             className="flex items-center justify-between w-full mb-3 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 hover:from-blue-100 hover:to-indigo-100 rounded-xl transition-all shadow-sm hover:shadow-md"
                           >
                             <span className="font-semibold text-gray-900">
-                              Answers ({questionAnswers[question.id]?.length ?? question._count?.answers ?? 0})
+                              Answers ({questionAnswers[question.id]?.length ?? question.answerCount ?? 0})
                             </span>
                             <svg
                               className={`w-5 h-5 transition-transform ${
@@ -332,8 +340,51 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
                         dangerouslySetInnerHTML={{ __html: question.description }}
                       />
                     )}
+                    {mergeSourceId === question.id && (
+                      <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-xl flex flex-col sm:flex-row gap-2">
+                        <select
+                          value={mergeTargetId}
+                          onChange={(e) => setMergeTargetId(e.target.value)}
+                          className="flex-1 min-w-0 px-3 py-2 border-2 border-gray-200 rounded-lg bg-white text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                        >
+                          <option value="">Merge into…</option>
+                          {questions
+                            .filter((q) => q.id !== question.id)
+                            .map((q) => (
+                              <option key={q.id} value={q.id}>
+                                {q.title}
+                              </option>
+                            ))}
+                        </select>
+                        <button
+                          onClick={() => handleMergeQuestion(question.id)}
+                          disabled={merging || !mergeTargetId}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          {merging ? 'Merging...' : 'Merge'}
+                        </button>
+                        <button
+                          onClick={() => setMergeSourceId(null)}
+                          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => {
+                        setMergeSourceId(mergeSourceId === question.id ? null : question.id);
+                        setMergeTargetId('');
+                      }}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all hover:scale-110"
+                      title="Merge into another question"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                      </svg>
+                    </button>
                     <button
                       onClick={() => handleDeleteQuestion(question.id)}
                       disabled={deletingQuestionId === question.id}
@@ -374,12 +425,7 @@ export default function AdminQuestionsClient({ questions: initialQuestions }: Ad
       </div>
 
       <QuestionModal
-        question={selectedQuestion ? {
-          ...selectedQuestion,
-          createdAt: selectedQuestion.createdAt instanceof Date 
-            ? selectedQuestion.createdAt.toISOString() 
-            : selectedQuestion.createdAt,
-        } as any : null}
+        question={selectedQuestion}
         isOpen={isModalOpen}
         onClose={() => {
           setIsModalOpen(false);
@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation';
 import { getCurrentUser } from '@/lib/auth';
-import { getPrismaClient } from '@/lib/prisma';
+import { can } from '@/lib/permissions';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { questionSchema, serialize } from '@/lib/schemas';
 import DashboardNav from '@/components/DashboardNav';
 import AdminSidebar from '@/components/AdminSidebar';
 import AdminQuestionsClient from './AdminQuestionsClient';
@@ -12,33 +14,17 @@ export default async function AdminQuestionsPage() {
     redirect('/login');
   }
 
-  if (user.role !== 'ADMIN') {
+  if (!can(user, 'question:delete')) {
     redirect('/dashboard');
   }
 
-  const prisma = await getPrismaClient();
-  const questions = await prisma.question.findMany({
-    orderBy: { createdAt: 'desc' },
-    include: {
-      user: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      _count: {
-        select: {
-          answers: true,
-        },
-      },
-    },
-  });
+  const questionService = ServiceFactory.createQuestionService();
+  const questions = await questionService.getAllQuestions();
 
   return (
     <div className="min-h-screen bg-white">
       <DashboardNav />
-      <AdminSidebar />
+      <AdminSidebar role={user.role} />
       
       <div className="lg:ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12 relative z-10">
         <div className="mb-8 md:mb-12">
@@ -46,7 +32,7 @@ export default async function AdminQuestionsPage() {
           <p className="text-gray-600 text-lg">Monitor and manage all questions from students</p>
         </div>
 
-        <AdminQuestionsClient questions={questions} />
+        <AdminQuestionsClient questions={questions.map((q) => serialize(questionSchema, q.toJSON()))} />
       </div>
     </div>
   );
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import type { SignupDomain } from '@/lib/schemas';
+
+interface SignupDomainsClientProps {
+  domains: SignupDomain[];
+}
+
+export default function SignupDomainsClient({ domains: initialDomains }: SignupDomainsClientProps) {
+  const [domains, setDomains] = useState<SignupDomain[]>(initialDomains);
+  const [domain, setDomain] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!domain.trim()) {
+      toast.error('Domain is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await axios.post('/api/signup-domains', { domain });
+      setDomains([...domains, data.domain].sort((a, b) => a.domain.localeCompare(b.domain)));
+      setDomain('');
+      toast.success(`Signups now allowed from @${data.domain.domain}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to add domain');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (item: SignupDomain) => {
+    if (domains.length === 1 && !confirm('Removing the last domain opens signups to any email address. Continue?')) {
+      return;
+    }
+
+    setRemovingId(item.id);
+    try {
+      await axios.delete(`/api/signup-domains/${item.id}`);
+      setDomains(domains.filter((d) => d.id !== item.id));
+      toast.success(`Removed @${item.domain}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to remove domain');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 mb-8">
+      <h2 className="text-2xl font-bold text-gray-900">Signup Domains</h2>
+      <p className="text-gray-600 mt-1 mb-4">
+        {domains.length === 0
+          ? 'Anyone can sign up. Add a campus email domain to restrict new signups to it.'
+          : 'Only email addresses at these domains (or their subdomains) can sign up.'}
+      </p>
+
+      {domains.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {domains.map((item) => (
+            <span
+              key={item.id}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-blue-50 text-blue-800 text-sm font-medium"
+            >
+              @{item.domain}
+              <button
+                onClick={() => handleRemove(item)}
+                disabled={removingId === item.id}
+                className="text-blue-500 hover:text-red-600 disabled:opacity-50"
+                aria-label={`Remove ${item.domain}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={domain}
+          onChange={(e) => setDomain(e.target.value)}
+          placeholder="university.edu"
+          className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-2.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Adding...' : 'Add Domain'}
+        </button>
+      </form>
+    </div>
+  );
+}
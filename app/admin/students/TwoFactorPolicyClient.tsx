@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import type { TwoFactorPolicy } from '@/lib/schemas';
+
+type PolicyRole = TwoFactorPolicy['role'];
+
+interface TwoFactorPolicyClientProps {
+  policies: TwoFactorPolicy[];
+}
+
+const roleLabels: Record<PolicyRole, string> = {
+  ADMIN: 'Admins',
+  MODERATOR: 'Moderators',
+  TEACHING_ASSISTANT: 'Teaching assistants',
+  STUDENT: 'Students',
+};
+
+export default function TwoFactorPolicyClient({ policies: initialPolicies }: TwoFactorPolicyClientProps) {
+  const [policies, setPolicies] = useState<TwoFactorPolicy[]>(initialPolicies);
+  const [savingRole, setSavingRole] = useState<PolicyRole | null>(null);
+
+  const handleToggle = async (policy: TwoFactorPolicy) => {
+    const required = !policy.required;
+    if (
+      required &&
+      !confirm(`${roleLabels[policy.role]} without two-factor authentication will be signed out and asked to set it up. Continue?`)
+    ) {
+      return;
+    }
+
+    setSavingRole(policy.role);
+    try {
+      const { data } = await axios.put('/api/two-factor-policies', { role: policy.role, required });
+      setPolicies(policies.map((p) => (p.role === policy.role ? { ...p, required: data.policy.required } : p)));
+      toast.success(`Two-factor authentication ${required ? 'required' : 'optional'} for ${roleLabels[policy.role].toLowerCase()}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update two-factor requirement');
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 mb-8">
+      <h2 className="text-2xl font-bold text-gray-900">Two-Factor Authentication</h2>
+      <p className="text-gray-600 mt-1 mb-4">
+        Members of a role that requires it must enroll an authenticator app before they can sign in.
+      </p>
+
+      <ul className="divide-y divide-gray-200">
+        {policies.map((policy) => (
+          <li key={policy.role} className="flex items-center justify-between py-3">
+            <span className="text-sm font-medium text-gray-900">Require for {roleLabels[policy.role].toLowerCase()}</span>
+            <button
+              onClick={() => handleToggle(policy)}
+              disabled={savingRole === policy.role}
+              role="switch"
+              aria-checked={policy.required}
+              aria-label={`Require two-factor authentication for ${roleLabels[policy.role].toLowerCase()}`}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                policy.required ? 'bg-blue-600' : 'bg-gray-300'
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 rounded-full bg-white transition-transform ${
+                  policy.required ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
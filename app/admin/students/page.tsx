@@ -1,9 +1,22 @@
 import { redirect } from 'next/navigation';
 import { getCurrentUser } from '@/lib/auth';
+import { can, ROLE_LABELS } from '@/lib/permissions';
+import type { Role } from '@/lib/models/User';
 import { getPrismaClient } from '@/lib/prisma';
 import DashboardNav from '@/components/DashboardNav';
 import AdminSidebar from '@/components/AdminSidebar';
 import UserManagementClient from '@/components/UserManagementClient';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { serialize, signupDomainSchema, twoFactorPolicySchema } from '@/lib/schemas';
+import SignupDomainsClient from './SignupDomainsClient';
+import TwoFactorPolicyClient from './TwoFactorPolicyClient';
+
+const roleBadgeClasses: Record<Role, string> = {
+  STUDENT: 'bg-indigo-100 text-indigo-800',
+  TEACHING_ASSISTANT: 'bg-green-100 text-green-800',
+  MODERATOR: 'bg-amber-100 text-amber-800',
+  ADMIN: 'bg-purple-100 text-purple-800',
+};
 
 export default async function AdminStudentsPage() {
   const user = await getCurrentUser();
@@ -12,7 +25,7 @@ export default async function AdminStudentsPage() {
     redirect('/login');
   }
 
-  if (user.role !== 'ADMIN') {
+  if (!can(user, 'user:manage')) {
     redirect('/dashboard');
   }
 
@@ -24,18 +37,22 @@ export default async function AdminStudentsPage() {
       email: true,
       name: true,
       role: true,
+      emailVerifiedAt: true,
       createdAt: true,
     },
   });
 
+  const signupDomains = await ServiceFactory.createSignupDomainService().listDomains();
+  const twoFactorPolicies = await ServiceFactory.createTwoFactorService().listPolicies();
+
   const students = allUsers.filter((u) => u.role === 'STUDENT');
-  const admins = allUsers.filter((u) => u.role === 'ADMIN');
+  const staff = allUsers.filter((u) => u.role !== 'STUDENT');
   const totalUsers = allUsers.length;
 
   return (
     <div className="min-h-screen bg-white">
       <DashboardNav />
-      <AdminSidebar />
+      <AdminSidebar role={user.role} />
       
       <div className="lg:ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12 relative z-10">
         <div className="mb-8 md:mb-12">
@@ -76,8 +93,8 @@ export default async function AdminStudentsPage() {
           <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-100 hover:shadow-xl transition-shadow">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600 mb-1">Admins</p>
-                <p className="text-3xl font-bold text-purple-600">{admins.length}</p>
+                <p className="text-sm font-medium text-gray-600 mb-1">Staff</p>
+                <p className="text-3xl font-bold text-purple-600">{staff.length}</p>
               </div>
               <div className="bg-gradient-to-br from-purple-500 to-purple-600 rounded-xl p-4 shadow-md">
                 <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -88,6 +105,10 @@ export default async function AdminStudentsPage() {
           </div>
         </div>
 
+        <SignupDomainsClient domains={signupDomains.map((d) => serialize(signupDomainSchema, d.toJSON()))} />
+
+        <TwoFactorPolicyClient policies={twoFactorPolicies.map((p) => serialize(twoFactorPolicySchema, p.toJSON()))} />
+
         {/* Users Table */}
         <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
           <div className="p-6 border-b border-gray-200 bg-white">
@@ -133,30 +154,30 @@ export default async function AdminStudentsPage() {
                           </span>
                         </div>
                       </td>
-                      <td className="py-4 px-6 text-gray-600">{userItem.email}</td>
+                      <td className="py-4 px-6 text-gray-600">
+                        {userItem.email}
+                        {!userItem.emailVerifiedAt && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                            Unverified
+                          </span>
+                        )}
+                      </td>
                       <td className="py-4 px-6">
                         <span
                           className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${
-                            userItem.role === 'ADMIN'
-                              ? 'bg-purple-100 text-purple-800'
-                              : 'bg-indigo-100 text-indigo-800'
+                            roleBadgeClasses[userItem.role]
                           }`}
                         >
-                          {userItem.role === 'ADMIN' ? (
-                            <>
-                              <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                              </svg>
-                              Admin
-                            </>
+                          {userItem.role === 'STUDENT' ? (
+                            <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                              <path d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" />
+                            </svg>
                           ) : (
-                            <>
-                              <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                                <path d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" />
-                              </svg>
-                              Student
-                            </>
+                            <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                            </svg>
                           )}
+                          {ROLE_LABELS[userItem.role]}
                         </span>
                       </td>
                       <td className="py-4 px-6 text-gray-600">
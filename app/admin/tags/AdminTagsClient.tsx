@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { toast } from 'sonner';
+import type { Tag } from '@/lib/schemas';
+
+interface AdminTagsClientProps {
+  tags: Tag[];
+}
+
+type Action = { type: 'rename' | 'merge'; name: string } | null;
+
+export default function AdminTagsClient({ tags: initialTags }: AdminTagsClientProps) {
+  const [tags, setTags] = useState<Tag[]>(initialTags);
+  const [action, setAction] = useState<Action>(null);
+  const [value, setValue] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deletingName, setDeletingName] = useState<string | null>(null);
+
+  const startAction = (type: 'rename' | 'merge', name: string) => {
+    setAction({ type, name });
+    setValue(type === 'rename' ? name : '');
+  };
+
+  const cancelAction = () => {
+    setAction(null);
+    setValue('');
+  };
+
+  const handleRename = async (name: string) => {
+    if (!value.trim()) {
+      toast.error('New tag name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await axios.patch(`/api/tags/${encodeURIComponent(name)}`, { name: value });
+      setTags(tags.map((tag) => (tag.name === name ? { ...tag, name: data.tag.name } : tag)));
+      toast.success('Tag renamed successfully');
+      cancelAction();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to rename tag');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMerge = async (name: string) => {
+    if (!value) {
+      toast.error('Select a tag to merge into');
+      return;
+    }
+
+    if (!confirm(`Move every question tagged "${name}" to "${value}" and delete "${name}"?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await axios.post(`/api/tags/${encodeURIComponent(name)}/merge`, { target: value });
+      setTags(
+        tags
+          .filter((tag) => tag.name !== name)
+          .map((tag) => (tag.id === data.tag.id ? { ...tag, questionCount: data.tag.questionCount } : tag))
+      );
+      toast.success('Tags merged successfully');
+      cancelAction();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to merge tags');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete the tag "${name}"? It will be removed from every question. This action cannot be undone.`)) {
+      return;
+    }
+
+    setDeletingName(name);
+    try {
+      await axios.delete(`/api/tags/${encodeURIComponent(name)}`);
+      setTags(tags.filter((tag) => tag.name !== name));
+      toast.success('Tag deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete tag');
+    } finally {
+      setDeletingName(null);
+    }
+  };
+
+  if (tags.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white rounded-xl border-2 border-gray-200">
+        <p className="text-gray-500">No tags yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-gray-200 divide-y divide-gray-200">
+      {tags.map((tag) => (
+        <div key={tag.id} className="p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <Link
+                href={`/tags/${encodeURIComponent(tag.name)}`}
+                className="px-2.5 py-1 bg-blue-50 text-blue-700 rounded-full text-sm font-medium hover:bg-blue-100"
+              >
+                #{tag.name}
+              </Link>
+              <span className="text-sm text-gray-500">
+                {tag.questionCount} question{tag.questionCount === 1 ? '' : 's'}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => startAction('rename', tag.name)}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => startAction('merge', tag.name)}
+                disabled={tags.length < 2}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleDelete(tag.name)}
+                disabled={deletingName === tag.name}
+                className="px-3 py-1.5 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {deletingName === tag.name ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+
+          {action?.name === tag.name && (
+            <div className="flex flex-col sm:flex-row gap-2 mt-3">
+              {action.type === 'rename' ? (
+                <input
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder="New tag name"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                />
+              ) : (
+                <select
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                >
+                  <option value="">Merge into...</option>
+                  {tags
+                    .filter((t) => t.name !== tag.name)
+                    .map((t) => (
+                      <option key={t.id} value={t.name}>
+                        {t.name} ({t.questionCount})
+                      </option>
+                    ))}
+                </select>
+              )}
+              <button
+                onClick={() => (action.type === 'rename' ? handleRename(tag.name) : handleMerge(tag.name))}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : action.type === 'rename' ? 'Save' : 'Merge'}
+              </button>
+              <button
+                onClick={cancelAction}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
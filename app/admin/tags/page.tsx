@@ -0,0 +1,41 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/auth';
+import { can } from '@/lib/permissions';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { serialize, tagSchema } from '@/lib/schemas';
+import DashboardNav from '@/components/DashboardNav';
+import AdminSidebar from '@/components/AdminSidebar';
+import AdminTagsClient from './AdminTagsClient';
+
+export default async function AdminTagsPage() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (!can(user, 'tag:manage')) {
+    redirect('/dashboard');
+  }
+
+  const tagService = ServiceFactory.createTagService();
+  const tags = await tagService.listTags();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardNav />
+      <AdminSidebar role={user.role} />
+      
+      <div className="lg:ml-64 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12 relative z-10">
+        <div className="mb-8 md:mb-12">
+          <h1 className="text-4xl md:text-5xl font-bold text-gray-900 mb-3">Tags</h1>
+          <p className="text-gray-600 text-lg">Rename, merge and remove the tags used on questions</p>
+        </div>
+
+        <AdminTagsClient
+          tags={tags.map((tag) => serialize(tagSchema, tag.toJSON()))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { apiRoute } from '@/lib/apiRoute';
+import { aiEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+const MODEL_NAME = 'gemini-2.5-flash';
+
+// Keep note-based prompts well inside the model's context window
+const MAX_NOTE_CHARS = 6000;
+const MAX_TOTAL_NOTE_CHARS = 24000;
+const MAX_CARDS = 40;
+
+interface ExtractedCard {
+  front: string;
+  back: string;
+  sourceNote?: number; // 1-based index of the note the card was built from
+}
+
+function parseCardsResponse(text: string): ExtractedCard[] {
+  try {
+    const cleanedText = text.trim().replace(/```json\s*/g, '').replace(/```\s*/g, '');
+    const jsonMatch = cleanedText.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      console.error('No JSON array found in response');
+      return [];
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map((c: any) => ({
+        front: String(c?.front || '').trim(),
+        back: String(c?.back || '').trim(),
+        sourceNote: typeof c?.sourceNote === 'number' ? c.sourceNote : undefined,
+      }))
+      .filter((c: ExtractedCard) => c.front && c.back)
+      .slice(0, MAX_CARDS);
+  } catch (error) {
+    console.error('Error parsing flashcards JSON:', error);
+    return [];
+  }
+}
+
+/**
+ * POST - Extract flashcards from the user's notes with AI
+ * Body: { noteIds: string[], deckId?: string }
+ * Without a deckId the cards go to a deck named after the notes
+ */
+export const POST = apiRoute(aiEndpoints.flashcards, async ({ user, body }) => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    return ResponseBuilder.internalError('AI is not configured. Missing GEMINI_API_KEY.');
+  }
+
+  const { noteIds, deckId } = body;
+
+  const noteRepository = ServiceFactory.getNoteRepository();
+  const sourceNotes: { id: string; title: string; text: string }[] = [];
+  let remaining = MAX_TOTAL_NOTE_CHARS;
+
+  for (const noteId of Array.from(new Set(noteIds))) {
+    const note = await noteRepository.findById(noteId);
+    if (!note || !note.belongsTo(user.id)) {
+      return ResponseBuilder.notFound('Note not found');
+    }
+
+    const text = note.getPlainText().slice(0, Math.min(MAX_NOTE_CHARS, remaining));
+    if (text) {
+      sourceNotes.push({ id: note.id, title: note.title, text });
+      remaining -= text.length;
+    }
+  }
+
+  if (sourceNotes.length === 0) {
+    return ResponseBuilder.badRequest('The selected notes have no text to build flashcards from');
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: MODEL_NAME });
+
+  const prompt = `You are a study assistant that turns a student's notes into flashcards for spaced repetition.
+
+Return ONLY a JSON array (no markdown, no extra text) of at most ${MAX_CARDS} cards with this exact structure:
+[
+  { "front": "Short question or term", "back": "Concise answer or definition", "sourceNote": 1 }
+]
+
+Rules:
+1. Use ONLY facts stated in the notes below - no outside knowledge
+2. One fact or concept per card; keep the back under 40 words
+3. Prefer key definitions, formulas, dates, causes/effects and distinctions
+4. "sourceNote" is the number of the note (1 to ${sourceNotes.length}) the card was built from
+5. Escape quotes in strings with a backslash
+
+${sourceNotes.map((n, i) => `--- Note ${i + 1}: ${n.title} ---\n${n.text}`).join('\n\n')}
+--- End of notes ---`;
+
+  const result = await model.generateContent(prompt);
+  const response = await result.response;
+  const cards = parseCardsResponse(response.text());
+
+  if (cards.length === 0) {
+    return ResponseBuilder.internalError('Failed to extract flashcards. Please try again.');
+  }
+
+  const flashcardService = ServiceFactory.createFlashcardService();
+  const deck = deckId
+    ? { id: deckId }
+    : await flashcardService.createDeck(
+        user.id,
+        sourceNotes.length === 1 ? sourceNotes[0].title : 'From my notes'
+      );
+
+  const created = await flashcardService.addCardsFromNotes(
+    user.id,
+    deck.id,
+    cards.map((c) => ({
+      front: c.front,
+      back: c.back,
+      sourceNoteId:
+        sourceNotes.length === 1
+          ? sourceNotes[0].id
+          : c.sourceNote && c.sourceNote >= 1 && c.sourceNote <= sourceNotes.length
+            ? sourceNotes[c.sourceNote - 1].id
+            : null,
+    }))
+  );
+
+  return { deckId: deck.id, created };
+});
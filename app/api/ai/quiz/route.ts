@@ -1,14 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { aiEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
 const MODEL_NAME = 'gemini-2.5-flash';
 
+// Keep note-based prompts well inside the model's context window
+const MAX_NOTE_CHARS = 6000;
+const MAX_TOTAL_NOTE_CHARS = 24000;
+
 interface QuizQuestion {
   question: string;
   options: string[];
   correctAnswer: number; // 0-based index
   explanation?: string;
+  sourceNote?: number; // 1-based index of the note the question was built from
 }
 
 interface Quiz {
@@ -84,6 +91,7 @@ function parseQuizResponse(text: string): Quiz | null {
             options,
             correctAnswer, // This is stored and used for evaluation
             explanation: String(q.explanation || '').trim(),
+            sourceNote: typeof q.sourceNote === 'number' ? q.sourceNote : undefined,
           };
         }).filter((q: QuizQuestion) => q.question && q.options.length >= 2);
 
@@ -158,44 +166,72 @@ function extractQuizFromText(text: string): Quiz | null {
   return null;
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+/**
+ * Map the model's 1-based note number back to a note ID.
+ * A single selected note is always the source, whatever the model returned.
+ */
+function resolveSourceNoteId(sourceNote: number | undefined, notes: { id: string }[]): string | null {
+  if (notes.length === 1) return notes[0].id;
+  if (!sourceNote || sourceNote < 1 || sourceNote > notes.length) return null;
+  return notes[sourceNote - 1].id;
+}
+
+// POST - Generate a quiz with AI from a prompt, or only from the selected notes when noteIds is given
+export const POST = apiRoute(aiEndpoints.quiz, async ({ user, body }) => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    return ResponseBuilder.internalError('AI is not configured. Missing GEMINI_API_KEY.');
+  }
+
+  const { prompt, subject, difficulty, numQuestions, noteIds, courseId } = body;
+  const fromNotes = Array.isArray(noteIds) && noteIds.length > 0;
+
+  const courseService = ServiceFactory.createCourseService();
+  const course = await courseService.resolveCourseForContent(user, courseId);
+
+  // In notes mode, questions may only use the text of the selected notes
+  const sourceNotes: { id: string; title: string; text: string }[] = [];
+  if (fromNotes) {
+    const noteRepository = ServiceFactory.getNoteRepository();
+    let remaining = MAX_TOTAL_NOTE_CHARS;
+
+    for (const noteId of Array.from(new Set(noteIds))) {
+      const note = await noteRepository.findById(noteId);
+      if (!note || !note.belongsTo(user.id)) {
+        return ResponseBuilder.notFound('Note not found');
+      }
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'AI is not configured. Missing GEMINI_API_KEY.' },
-        { status: 500 }
-      );
+      const text = note.getPlainText().slice(0, Math.min(MAX_NOTE_CHARS, remaining));
+      if (text) {
+        sourceNotes.push({ id: note.id, title: note.title, text });
+        remaining -= text.length;
+      }
     }
 
-    const body = await request.json();
-    const { prompt, subject, difficulty, numQuestions } = body as {
-      prompt?: string;
-      subject?: string;
-      difficulty?: string;
-      numQuestions?: number;
-    };
-
-    if (!prompt || !prompt.trim()) {
-      return NextResponse.json(
-        { error: 'Prompt is required' },
-        { status: 400 }
-      );
+    if (sourceNotes.length === 0) {
+      return ResponseBuilder.badRequest('The selected notes have no text to build a quiz from');
     }
+  }
+
+  const topic = prompt?.trim() || sourceNotes.map((n) => n.title).join(', ');
+  const notesSection = fromNotes
+    ? `
+SOURCE NOTES - build every question ONLY from the content below. Do not use outside knowledge for facts, and do not ask about anything the notes do not cover.
+${sourceNotes.map((n, i) => `--- Note ${i + 1}: ${n.title} ---\n${n.text}`).join('\n\n')}
+--- End of notes ---
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
+Every question MUST also include a "sourceNote" field: the number of the note (1 to ${sourceNotes.length}) it was built from.
+`
+    : '';
 
-    const questionsCount = numQuestions || 5;
-    const difficultyLevel = difficulty || 'medium';
-    const subjectType = subject || 'General';
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: MODEL_NAME });
 
-    const systemPrompt = `You are an expert quiz generator for educational purposes. Your task is to create a high-quality quiz that tests understanding and knowledge.
+  const questionsCount = numQuestions || 5;
+  const difficultyLevel = difficulty || 'medium';
+  const subjectType = subject || 'General';
+
+  const systemPrompt = `You are an expert quiz generator for educational purposes. Your task is to create a high-quality quiz that tests understanding and knowledge.
 
 Generate a quiz in JSON format with this exact structure:
 {
@@ -219,7 +255,7 @@ CRITICAL REQUIREMENTS - READ CAREFULLY:
    - Medium: Moderate complexity, requires some understanding
    - Hard: Advanced concepts, requires deep understanding
 3. Subject focus: ${subjectType}
-4. Topic: ${prompt}
+4. Topic: ${topic}
 5. Each question MUST have exactly 4 options (A, B, C, D)
 6. **MANDATORY: correctAnswer field is REQUIRED for EVERY question**
    - correctAnswer MUST be a number: 0 (first option/A), 1 (second option/B), 2 (third option/C), or 3 (fourth option/D)
@@ -238,7 +274,7 @@ VALIDATION CHECKLIST (before returning):
 - Every question has exactly 4 options
 - Every question has a correctAnswer field (0, 1, 2, or 3)
 - The correctAnswer index actually points to the correct option
-- All questions are relevant to the topic: ${prompt}
+- All questions are relevant to the topic: ${topic}
 - All questions match the difficulty level: ${difficultyLevel}
 
 Example of properly formatted JSON with correct answer:
@@ -250,35 +286,33 @@ Example of properly formatted JSON with correct answer:
 }
 
 IMPORTANT: The correctAnswer field is essential for automatic scoring. Make sure it is accurate and present in every question.
-
+${notesSection}
 Now generate the quiz:`;
 
-    const result = await model.generateContent(systemPrompt);
-    const response = await result.response;
-    const text = response.text();
+  const result = await model.generateContent(systemPrompt);
+  const response = await result.response;
+  const text = response.text();
 
-    const quiz = parseQuizResponse(text);
+  const quiz = parseQuizResponse(text);
 
-    if (!quiz || quiz.questions.length === 0) {
-      return NextResponse.json(
-        { error: 'Failed to generate valid quiz. Please try again.' },
-        { status: 500 }
-      );
-    }
-
-    // Log to console
-    console.log('Generated Quiz:', JSON.stringify(quiz, null, 2));
-
-    return NextResponse.json({ quiz }, { status: 200 });
-  } catch (error: any) {
-    console.error('Error generating quiz:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to generate quiz',
-        details: error?.message ?? 'Unknown error',
-      },
-      { status: 500 }
-    );
+  if (!quiz || quiz.questions.length === 0) {
+    return ResponseBuilder.internalError('Failed to generate valid quiz. Please try again.');
   }
-}
+
+  // Persist the quiz so it can be retaken and compared across devices
+  const quizService = ServiceFactory.createQuizService();
+  const savedQuiz = await quizService.saveGeneratedQuiz({
+    ...quiz,
+    difficulty: difficultyLevel,
+    prompt: topic,
+    userId: user.id,
+    courseId: course,
+    questions: quiz.questions.map((q) => ({
+      ...q,
+      sourceNoteId: fromNotes ? resolveSourceNoteId(q.sourceNote, sourceNotes) : null,
+    })),
+  });
+
+  return { quiz: savedQuiz.toJSON() };
+});
 
@@ -0,0 +1,17 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { answerEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+const setAccepted = (contract: typeof answerEndpoints.accept, accepted: boolean) =>
+  apiRoute(contract, async ({ user, params }) => {
+    const questionService = ServiceFactory.createQuestionService();
+    const answer = await questionService.setAcceptedAnswer(params.id, user, accepted);
+
+    return { answer: answer.toJSON() };
+  });
+
+// POST - Mark an answer as accepted (question author or staff); replaces any earlier accepted answer
+export const POST = setAccepted(answerEndpoints.accept, true);
+
+// DELETE - Unmark an accepted answer (question author or staff)
+export const DELETE = setAccepted(answerEndpoints.unaccept, false);
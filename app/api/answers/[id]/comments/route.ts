@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { commentEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Comment on an answer, or reply to one of its comments
+export const POST = apiRoute(commentEndpoints.createOnAnswer, async ({ user, params, body }) => {
+  const commentService = ServiceFactory.createCommentService();
+  const comment = await commentService.addAnswerComment(params.id, user.id, body.body, body.parentId || null);
+
+  return { comment: comment.toJSON() };
+});
@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { answerEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get the edit history of an answer, newest first (public)
+export const GET = apiRoute(answerEndpoints.revisions, async ({ params }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const revisions = await questionService.getAnswerRevisions(params.id);
+
+  return { revisions: revisions.map((r) => r.toJSON()) };
+});
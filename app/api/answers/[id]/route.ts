@@ -1,57 +1,41 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { answerEndpoints } from '@/lib/schemas';
 import { getPrismaClient } from '@/lib/prisma';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
-// DELETE - Delete an answer (only admin can delete)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Only admins can delete answers
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Only admins can delete answers' },
-        { status: 403 }
-      );
-    }
-
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-    
-    if (!prisma) {
-      return NextResponse.json(
-        { error: 'Database connection error' },
-        { status: 500 }
-      );
-    }
-
-    // Check if answer exists
-    const answer = await prisma.answer.findUnique({
-      where: { id },
-    });
-
-    if (!answer) {
-      return NextResponse.json({ error: 'Answer not found' }, { status: 404 });
-    }
-
-    // Delete answer
-    await prisma.answer.delete({
-      where: { id },
-    });
-
-    return NextResponse.json({ success: true, message: 'Answer deleted successfully' });
-  } catch (error: any) {
-    console.error('Error deleting answer:', error);
-    return NextResponse.json(
-      { error: 'Internal server error', details: error.message },
-      { status: 500 }
-    );
+// DELETE - Delete an answer (moderators and admins)
+export const DELETE = apiRoute(answerEndpoints.delete, async ({ params }) => {
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return ResponseBuilder.error('Database connection error', 500);
+  }
+
+  // Check if answer exists
+  const answer = await prisma.answer.findUnique({
+    where: { id: params.id },
+  });
+
+  if (!answer) {
+    return ResponseBuilder.notFound('Answer not found');
   }
-}
 
+  // Delete answer
+  await prisma.answer.delete({
+    where: { id: params.id },
+  });
+
+  return { success: true, message: 'Answer deleted successfully' };
+});
+
+// PUT - Edit an answer (author or staff); the previous version is kept as a revision
+export const PUT = apiRoute(answerEndpoints.edit, async ({ user, params, body }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const answer = await questionService.editAnswer(params.id, user, {
+    description: body.description,
+    images: body.images?.filter((url) => url.trim().length > 0),
+  });
+
+  return { answer: answer.toJSON() };
+});
@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { answerEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Upvote (1), downvote (-1) or clear (0) the current user's vote on a answer
+export const POST = apiRoute(answerEndpoints.vote, async ({ user, params, body }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const answer = await questionService.voteAnswer(params.id, user.id, body.value);
+
+  return { voteScore: answer.voteScore, myVote: body.value };
+});
@@ -0,0 +1,16 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { adminEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - List recent auth audit events, newest first (only admin)
+// Query: ?type=LOGIN_FAILED|ACCOUNT_LOCKED|RATE_LIMITED&email=&limit=
+export const GET = apiRoute(adminEndpoints.auditEvents, async ({ query }) => {
+  const auditService = ServiceFactory.createAuditService();
+  const events = await auditService.listEvents({
+    type: query.type,
+    email: query.email || undefined,
+    limit: query.limit || undefined,
+  });
+
+  return { events: events.map((e) => e.toJSON()) };
+});
@@ -1,37 +1,29 @@
-import { NextRequest } from 'next/server';
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
 import { ServiceFactory } from '@/lib/di/ServiceFactory';
 import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+import { enforceAuthRateLimit } from '@/lib/rateLimit';
 
 /**
  * Login API Route - Refactored to use OOP Service Pattern with Dependency Injection
  * Uses ServiceFactory to create AuthService with proper dependencies
  */
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { email, password } = body;
-
-    // Validation
-    if (!email || !password) {
-      return ResponseBuilder.error('Email and password are required', 400);
-    }
-
-    // Use ServiceFactory to create AuthService with dependencies (DIP)
-    const authService = ServiceFactory.createAuthService();
-    const { user, token } = await authService.login(email, password);
+export const POST = apiRoute(authEndpoints.login, async ({ body }) => {
+  const limited = await enforceAuthRateLimit('login', body.email);
+  if (limited) {
+    return limited;
+  }
 
-    return ResponseBuilder.success({
-      user: user.toJSON(),
-    });
-  } catch (error: any) {
-    console.error('Login error:', error);
-    
-    // Handle known errors
-    if (error.message === 'Invalid email or password') {
-      return ResponseBuilder.unauthorized(error.message);
-    }
+  // Use ServiceFactory to create AuthService with dependencies (DIP)
+  const authService = ServiceFactory.createAuthService();
+  const { user, twoFactor } = await authService.login(body.email, body.password);
 
-    return ResponseBuilder.error('Internal server error', 500, error.message);
+  // The password was right but a second step is owed; no user details until it's done
+  if (twoFactor) {
+    return ResponseBuilder.success({ twoFactor });
   }
-}
 
+  return ResponseBuilder.success({
+    user: user.toJSON(),
+  });
+});
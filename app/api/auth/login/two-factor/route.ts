@@ -0,0 +1,21 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+import { enforceAuthRateLimit } from '@/lib/rateLimit';
+
+/**
+ * POST - Finish signing in with an authenticator code or a recovery code
+ * Only works after /api/auth/login answered { twoFactor: 'verify' }
+ */
+export const POST = apiRoute(authEndpoints.loginTwoFactor, async ({ body }) => {
+  const limited = await enforceAuthRateLimit('two-factor');
+  if (limited) {
+    return limited;
+  }
+
+  const authService = ServiceFactory.createAuthService();
+  const { user } = await authService.completeTwoFactorLogin(body.code);
+
+  return ResponseBuilder.success({ user: user.toJSON() });
+});
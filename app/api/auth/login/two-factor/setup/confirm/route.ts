@@ -0,0 +1,21 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+import { enforceAuthRateLimit } from '@/lib/rateLimit';
+
+/**
+ * POST - Confirm the required two-factor setup with a code from the new app and sign in
+ * Returns the recovery codes, which are only ever shown this once
+ */
+export const POST = apiRoute(authEndpoints.loginTwoFactorSetupConfirm, async ({ body }) => {
+  const limited = await enforceAuthRateLimit('two-factor');
+  if (limited) {
+    return limited;
+  }
+
+  const authService = ServiceFactory.createAuthService();
+  const { user, recoveryCodes } = await authService.completeTwoFactorSetup(body.code);
+
+  return ResponseBuilder.success({ user: user.toJSON(), recoveryCodes });
+});
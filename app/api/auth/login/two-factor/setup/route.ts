@@ -0,0 +1,15 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * POST - Start the two-factor setup that a user's role requires before they can sign in
+ * Only works after /api/auth/login answered { twoFactor: 'setup' }
+ */
+export const POST = apiRoute(authEndpoints.loginTwoFactorSetup, async () => {
+  const authService = ServiceFactory.createAuthService();
+  const enrollment = await authService.beginTwoFactorSetup();
+
+  return ResponseBuilder.success(enrollment);
+});
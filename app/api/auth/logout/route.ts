@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
-import { clearAuthToken } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
 
-export async function POST() {
-  await clearAuthToken();
+export const POST = apiRoute(authEndpoints.logout, async () => {
+  const authService = ServiceFactory.createAuthService();
+  await authService.logout();
   return NextResponse.json({ success: true });
-}
-
+});
@@ -1,16 +1,12 @@
 import { NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
-export async function GET() {
-  const user = await getCurrentUser();
-  
+export const GET = apiRoute(authEndpoints.me, async ({ user }) => {
   if (!user) {
-    return NextResponse.json(
-      { error: 'Not authenticated' },
-      { status: 401 }
-    );
+    return ResponseBuilder.unauthorized('Not authenticated');
   }
 
   return NextResponse.json({ user });
-}
-
+});
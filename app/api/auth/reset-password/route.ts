@@ -0,0 +1,35 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+import { enforceAuthRateLimit } from '@/lib/rateLimit';
+
+/**
+ * GET - Check a reset link before showing the new password form
+ * Query: ?token=
+ */
+export const GET = apiRoute(authEndpoints.checkResetToken, async ({ query }) => {
+  const passwordResetService = ServiceFactory.createPasswordResetService();
+  const valid = await passwordResetService.isValidToken(query.token);
+
+  return ResponseBuilder.success({ valid });
+});
+
+/**
+ * POST - Reset Password
+ * Sets a new password from a reset link and signs the account out everywhere
+ */
+export const POST = apiRoute(authEndpoints.resetPassword, async ({ body }) => {
+  const limited = await enforceAuthRateLimit('reset-password');
+  if (limited) {
+    return limited;
+  }
+
+  const passwordResetService = ServiceFactory.createPasswordResetService();
+  await passwordResetService.resetPassword(body.token, body.password);
+
+  return ResponseBuilder.success({
+    success: true,
+    message: 'Password reset successfully. Please sign in with your new password.',
+  });
+});
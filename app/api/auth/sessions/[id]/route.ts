@@ -0,0 +1,21 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { sessionEndpoints } from '@/lib/schemas';
+import { getCurrentSession, clearAuthToken } from '@/lib/auth';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * DELETE - Log out one of the current user's devices
+ * Logging out the device making the request also clears its cookie
+ */
+export const DELETE = apiRoute(sessionEndpoints.revoke, async ({ user, params }) => {
+  const sessionService = ServiceFactory.createSessionService();
+  await sessionService.revokeSession(user.id, params.id);
+
+  const current = (await getCurrentSession())?.sessionId === params.id;
+  if (current) {
+    await clearAuthToken();
+  }
+
+  return ResponseBuilder.success({ success: true, current });
+});
@@ -0,0 +1,30 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { sessionEndpoints } from '@/lib/schemas';
+import { getCurrentSession, clearAuthToken } from '@/lib/auth';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - List the current user's signed-in devices
+ * The session making this request is flagged with current: true
+ */
+export const GET = apiRoute(sessionEndpoints.list, async ({ user }) => {
+  const current = await getCurrentSession();
+  const sessionService = ServiceFactory.createSessionService();
+  const sessions = await sessionService.listSessions(user.id);
+
+  return ResponseBuilder.success({
+    sessions: sessions.map((s) => ({ ...s.toJSON(), current: s.id === current?.sessionId })),
+  });
+});
+
+/**
+ * DELETE - Log out everywhere, including this device
+ */
+export const DELETE = apiRoute(sessionEndpoints.revokeAll, async ({ user }) => {
+  const sessionService = ServiceFactory.createSessionService();
+  const revoked = await sessionService.revokeAllSessions(user.id);
+  await clearAuthToken();
+
+  return ResponseBuilder.success({ success: true, revoked });
+});
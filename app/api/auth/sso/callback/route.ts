@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints, SsoLoginError } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { takeSsoState } from '@/lib/auth';
+import { homePathFor } from '@/lib/permissions';
+import { enforceAuthRateLimit } from '@/lib/rateLimit';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+// Sign-in failures the user can act on, by the start of the service's message
+const KNOWN_ERRORS: [string, SsoLoginError][] = [
+  ['Your SSO account has no email address', 'no-email'],
+  ['Your SSO email address is not verified', 'unverified-email'],
+  ['Signups are limited', 'signups-limited'],
+  ['Account is temporarily locked', 'locked'],
+];
+
+/**
+ * GET - Where the SSO provider sends the user back
+ * Signs them in (creating or linking their account) and redirects to the app; errors go back to /login
+ */
+export const GET = apiRoute(authEndpoints.ssoCallback, async ({ request, query }) => {
+  const redirectTo = (path: string) => NextResponse.redirect(new URL(path, request.url));
+  const backToLogin = (error: SsoLoginError) => redirectTo(`/login?error=${error}`);
+
+  const provider = ServiceFactory.getSsoProvider();
+  if (!provider) {
+    return ResponseBuilder.notFound('Single sign-on is not configured');
+  }
+
+  // Failures here are shown on the login page rather than answered as JSON
+  try {
+    const limited = await enforceAuthRateLimit('sso');
+    if (limited) {
+      return backToLogin('rate-limited');
+    }
+
+    const saved = await takeSsoState();
+
+    // The provider's own message is only logged
+    if (query.error) {
+      console.error('SSO provider returned an error:', query.error, query.error_description);
+      return backToLogin('refused');
+    }
+
+    if (!saved || !query.code || query.state !== saved.state) {
+      return backToLogin('expired');
+    }
+
+    const profile = await provider.handleCallback(query.code, saved);
+    const authService = ServiceFactory.createAuthService();
+    const { user, twoFactor } = await authService.loginWithSso(profile);
+
+    if (twoFactor) {
+      return redirectTo(`/login?two-factor=${twoFactor}`);
+    }
+
+    return redirectTo(homePathFor(user));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : '';
+    const known = KNOWN_ERRORS.find(([prefix]) => message.startsWith(prefix));
+    if (known) {
+      return backToLogin(known[1]);
+    }
+
+    // 'SSO sign-in failed' comes from a bad answer at the provider and needs no stack trace
+    if (message !== 'SSO sign-in failed') {
+      console.error('SSO callback error:', error);
+    }
+    return backToLogin('failed');
+  }
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { setSsoState } from '@/lib/auth';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - Start signing in through the SSO provider
+ * Redirects to the provider, which sends the user back to /api/auth/sso/callback
+ */
+export const GET = apiRoute(authEndpoints.sso, async () => {
+  const provider = ServiceFactory.getSsoProvider();
+  if (!provider) {
+    return ResponseBuilder.notFound('Single sign-on is not configured');
+  }
+
+  try {
+    const { url, state } = await provider.createAuthorizationRequest();
+    await setSsoState(state);
+
+    return NextResponse.redirect(url);
+  } catch (error: any) {
+    console.error('SSO start error:', error);
+    return ResponseBuilder.internalError('Single sign-on is unavailable');
+  }
+});
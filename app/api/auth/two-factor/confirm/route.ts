@@ -0,0 +1,15 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { twoFactorEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * POST - Turn two-factor authentication on with a code from the newly added app
+ * Returns the recovery codes, which are only ever shown this once
+ */
+export const POST = apiRoute(twoFactorEndpoints.confirm, async ({ user, body }) => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  const recoveryCodes = await twoFactorService.confirmEnrollment(user.id, body.code);
+
+  return ResponseBuilder.success({ success: true, recoveryCodes });
+});
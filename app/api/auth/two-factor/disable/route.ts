@@ -0,0 +1,15 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { twoFactorEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * POST - Turn two-factor authentication off
+ * Needs a current authenticator or recovery code, and isn't allowed when the user's role requires 2FA
+ */
+export const POST = apiRoute(twoFactorEndpoints.disable, async ({ user, body }) => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  await twoFactorService.disable(user, body.code);
+
+  return ResponseBuilder.success({ success: true });
+});
@@ -0,0 +1,15 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { twoFactorEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * POST - Replace the current user's recovery codes, invalidating the old ones
+ * Needs a current authenticator or recovery code
+ */
+export const POST = apiRoute(twoFactorEndpoints.regenerateRecoveryCodes, async ({ user, body }) => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user.id, body.code);
+
+  return ResponseBuilder.success({ recoveryCodes });
+});
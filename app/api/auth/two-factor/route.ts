@@ -0,0 +1,25 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { twoFactorEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - The current user's two-factor status
+ */
+export const GET = apiRoute(twoFactorEndpoints.status, async ({ user }) => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  const status = await twoFactorService.getStatus(user);
+
+  return ResponseBuilder.success(status);
+});
+
+/**
+ * POST - Start enrolling an authenticator app
+ * Returns the secret and a QR code; nothing changes for sign-in until the setup is confirmed
+ */
+export const POST = apiRoute(twoFactorEndpoints.enroll, async ({ user }) => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  const enrollment = await twoFactorService.beginEnrollment(user);
+
+  return ResponseBuilder.success(enrollment);
+});
@@ -0,0 +1,15 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * POST - Resend Verification Email
+ * Sends the signed-in user a new verification link
+ */
+export const POST = apiRoute(authEndpoints.resendVerification, async ({ user }) => {
+  const emailVerificationService = ServiceFactory.createEmailVerificationService();
+  await emailVerificationService.resendVerification(user.id);
+
+  return ResponseBuilder.success({ success: true, message: `Verification email sent to ${user.email}` });
+});
@@ -0,0 +1,21 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { authEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+import { enforceAuthRateLimit } from '@/lib/rateLimit';
+
+/**
+ * POST - Verify Email
+ * Confirms an account's address with the token from the emailed link
+ */
+export const POST = apiRoute(authEndpoints.verifyEmail, async ({ body }) => {
+  const limited = await enforceAuthRateLimit('verify-email');
+  if (limited) {
+    return limited;
+  }
+
+  const emailVerificationService = ServiceFactory.createEmailVerificationService();
+  const user = await emailVerificationService.verifyEmail(body.token);
+
+  return ResponseBuilder.success({ success: true, user: user.toJSON() });
+});
@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { commentEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// DELETE - Delete a comment and its replies (moderators and admins)
+export const DELETE = apiRoute(commentEndpoints.delete, async ({ params }) => {
+  const commentService = ServiceFactory.createCommentService();
+  await commentService.deleteComment(params.id);
+
+  return { success: true, message: 'Comment deleted successfully' };
+});
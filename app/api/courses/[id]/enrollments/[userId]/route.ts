@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { courseEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// DELETE - Remove a student from a course (teaching assistants and admins)
+export const DELETE = apiRoute(courseEndpoints.unenroll, async ({ params }) => {
+  const courseService = ServiceFactory.createCourseService();
+  await courseService.unenroll(params.id, params.userId);
+
+  return { message: 'Student removed from course' };
+});
@@ -0,0 +1,18 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { courseEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - List the students enrolled in a course (teaching assistants and admins)
+export const GET = apiRoute(courseEndpoints.enrollments, async ({ params }) => {
+  const courseService = ServiceFactory.createCourseService();
+  const enrollments = await courseService.getEnrollments(params.id);
+
+  return { enrollments: enrollments.map((e) => e.toJSON()) };
+});
+
+// POST - Bulk-enroll students from CSV text (teaching assistants and admins)
+// Body: { csv } with rows of email[,section]; students need an account already, unknown emails are reported back
+export const POST = apiRoute(courseEndpoints.enroll, async ({ params, body }) => {
+  const courseService = ServiceFactory.createCourseService();
+  return await courseService.enrollFromCsv(params.id, body.csv);
+});
@@ -0,0 +1,19 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { courseEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// PATCH - Update a course's code, name, description or term (only admin can edit courses)
+export const PATCH = apiRoute(courseEndpoints.update, async ({ params, body }) => {
+  const courseService = ServiceFactory.createCourseService();
+  const course = await courseService.updateCourse(params.id, body);
+
+  return { course: course.toJSON() };
+});
+
+// DELETE - Delete a course; its content is kept without a course (only admin can delete courses)
+export const DELETE = apiRoute(courseEndpoints.delete, async ({ params }) => {
+  const courseService = ServiceFactory.createCourseService();
+  await courseService.deleteCourse(params.id);
+
+  return { message: 'Course deleted successfully' };
+});
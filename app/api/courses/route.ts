@@ -0,0 +1,19 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { courseEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - List the courses the current user can use: every course for admins and teaching assistants, enrolled courses otherwise
+export const GET = apiRoute(courseEndpoints.list, async ({ user }) => {
+  const courseService = ServiceFactory.createCourseService();
+  const courses = await courseService.getCoursesForUser(user);
+
+  return { courses: courses.map((c) => c.toJSON()) };
+});
+
+// POST - Create a course (only admin can create courses)
+export const POST = apiRoute(courseEndpoints.create, async ({ body }) => {
+  const courseService = ServiceFactory.createCourseService();
+  const course = await courseService.createCourse(body);
+
+  return { course: course.toJSON() };
+});
@@ -0,0 +1,14 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { flashcardEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * DELETE - Delete one of the current user's flashcards
+ */
+export const DELETE = apiRoute(flashcardEndpoints.delete, async ({ user, params }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  await flashcardService.deleteCard(params.id, user.id);
+
+  return ResponseBuilder.success({ message: 'Flashcard deleted successfully' });
+});
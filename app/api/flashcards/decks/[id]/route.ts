@@ -0,0 +1,14 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { flashcardEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * DELETE - Delete a flashcard deck and all of its cards
+ */
+export const DELETE = apiRoute(flashcardEndpoints.deleteDeck, async ({ user, params }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  await flashcardService.deleteDeck(params.id, user.id);
+
+  return ResponseBuilder.success({ message: 'Deck deleted successfully' });
+});
@@ -0,0 +1,26 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { flashcardEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - List the current user's flashcard decks with due counts
+ */
+export const GET = apiRoute(flashcardEndpoints.decks, async ({ user }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  const decks = await flashcardService.getDecks(user.id);
+
+  return ResponseBuilder.success({
+    decks: decks.map((deck) => deck.toJSON()),
+  });
+});
+
+/**
+ * POST - Create a flashcard deck
+ */
+export const POST = apiRoute(flashcardEndpoints.createDeck, async ({ user, body }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  const deck = await flashcardService.createDeck(user.id, body.name, body.description?.trim() || null);
+
+  return ResponseBuilder.created({ deck: deck.toJSON() });
+});
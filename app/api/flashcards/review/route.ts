@@ -0,0 +1,31 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { flashcardEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - Get the current user's cards that are due for review
+ * Optional query params: deckId, limit
+ */
+export const GET = apiRoute(flashcardEndpoints.due, async ({ user, query }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  const cards = await flashcardService.getDueCards(
+    user.id,
+    query.deckId || undefined,
+    Math.min(Math.max(query.limit, 1), 100)
+  );
+
+  return ResponseBuilder.success({
+    cards: cards.map((card) => card.toJSON()),
+  });
+});
+
+/**
+ * POST - Grade a reviewed card (0 = forgot, 5 = perfect) and reschedule it
+ */
+export const POST = apiRoute(flashcardEndpoints.review, async ({ user, body }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  const card = await flashcardService.reviewCard(body.cardId, user.id, body.grade);
+
+  return ResponseBuilder.success({ card: card.toJSON() });
+});
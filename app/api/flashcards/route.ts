@@ -0,0 +1,14 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { flashcardEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * POST - Add a hand-written card to one of the current user's decks
+ */
+export const POST = apiRoute(flashcardEndpoints.create, async ({ user, body }) => {
+  const flashcardService = ServiceFactory.createFlashcardService();
+  const card = await flashcardService.addCard(user.id, body.deckId, body.front, body.back);
+
+  return ResponseBuilder.created({ card: card.toJSON() });
+});
@@ -1,58 +1,78 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { noteEndpoints } from '@/lib/schemas';
+import { can } from '@/lib/permissions';
 import { getPrismaClient } from '@/lib/prisma';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+// PATCH - Edit a note's title, content or course
+// courseId null moves the note out of its course; people who opened the note through its share link are notified
+export const PATCH = apiRoute(noteEndpoints.update, async ({ user, params, body }) => {
+  const noteRepository = ServiceFactory.getNoteRepository();
+  const note = await noteRepository.findById(params.id);
+
+  if (!note) {
+    return ResponseBuilder.notFound('Note not found');
+  }
+
+  if (!can(user, 'note:manage', note)) {
+    return ResponseBuilder.forbidden('You can only edit your own notes');
+  }
+
+  const { title, content, courseId } = body;
+
+  const courseService = ServiceFactory.createCourseService();
+  const course = courseId !== undefined ? await courseService.resolveCourseForContent(user, courseId) : undefined;
+
+  const updated = await noteRepository.update(params.id, {
+    ...(title !== undefined && { title }),
+    ...(course !== undefined && { courseId: course }),
+    // Same JSON structure as POST /api/notes
+    ...(content !== undefined && {
+      content: { html: typeof content === 'string' ? content : JSON.stringify(content), type: 'html' },
+    }),
+  });
+
+  await ServiceFactory.createNotificationService().notifyNoteUpdated(updated, user);
+
+  const contentObj = updated.content as any;
+
+  return {
+    note: {
+      id: updated.id,
+      title: updated.title,
+      content: contentObj?.html || JSON.stringify(updated.content),
+      createdAt: updated.createdAt.toISOString(),
+      updatedAt: updated.updatedAt.toISOString(),
+      courseId: updated.courseId,
+    },
+  };
+});
 
 // DELETE - Delete a note
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-
-    if (!prisma) {
-      return NextResponse.json(
-        { error: 'Database connection error' },
-        { status: 500 }
-      );
-    }
-
-    // Verify note belongs to user
-    const note = await prisma.note.findUnique({
-      where: { id },
-    });
-
-    if (!note) {
-      return NextResponse.json(
-        { error: 'Note not found' },
-        { status: 404 }
-      );
-    }
-
-    if (note.userId !== user.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 403 }
-      );
-    }
-
-    await prisma.note.delete({
-      where: { id },
-    });
-
-    return NextResponse.json({ success: true });
-  } catch (error: any) {
-    console.error('Error deleting note:', error);
-    return NextResponse.json(
-      { error: 'Internal server error', details: error.message },
-      { status: 500 }
-    );
+export const DELETE = apiRoute(noteEndpoints.delete, async ({ user, params }) => {
+  const prisma = await getPrismaClient();
+
+  if (!prisma) {
+    return ResponseBuilder.error('Database connection error', 500);
   }
-}
 
+  // Verify note belongs to user
+  const note = await prisma.note.findUnique({
+    where: { id: params.id },
+  });
+
+  if (!note) {
+    return ResponseBuilder.notFound('Note not found');
+  }
+
+  if (!can(user, 'note:manage', note)) {
+    return ResponseBuilder.forbidden('Unauthorized');
+  }
+
+  await prisma.note.delete({
+    where: { id: params.id },
+  });
+
+  return { success: true };
+});
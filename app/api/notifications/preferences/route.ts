@@ -0,0 +1,20 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { notificationEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get the current user's email notification preferences
+export const GET = apiRoute(notificationEndpoints.preferences, async ({ user }) => {
+  const digestService = ServiceFactory.createDigestService();
+  const preferences = await digestService.getPreferences(user.id);
+
+  return { preferences: preferences.toJSON() };
+});
+
+// PUT - Update the current user's email notification preferences
+// Body: { digestFrequency: 'NEVER' | 'DAILY' | 'WEEKLY', digestAnswers, digestDeadlines }
+export const PUT = apiRoute(notificationEndpoints.updatePreferences, async ({ user, body }) => {
+  const digestService = ServiceFactory.createDigestService();
+  const preferences = await digestService.updatePreferences(user.id, body);
+
+  return { preferences: preferences.toJSON() };
+});
@@ -0,0 +1,21 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { notificationEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get the current user's most recent notifications (?limit=, default 20)
+export const GET = apiRoute(notificationEndpoints.list, async ({ user, query }) => {
+  const notificationService = ServiceFactory.createNotificationService();
+  const notifications = await notificationService.getNotifications(user.id, query.limit || undefined);
+
+  return { notifications: notifications.map((n) => n.toJSON()) };
+});
+
+// PATCH - Mark notifications as read
+// Body: { ids } to mark some, or an empty body to mark all of them
+export const PATCH = apiRoute(notificationEndpoints.markRead, async ({ user, body }) => {
+  const notificationService = ServiceFactory.createNotificationService();
+  const updated = await notificationService.markAsRead(user.id, body.ids);
+  const unreadCount = await notificationService.getUnreadCount(user.id);
+
+  return { updated, unreadCount };
+});
@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { notificationEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Count the current user's unread notifications
+export const GET = apiRoute(notificationEndpoints.unreadCount, async ({ user }) => {
+  const notificationService = ServiceFactory.createNotificationService();
+  const unreadCount = await notificationService.getUnreadCount(user.id);
+
+  return { unreadCount };
+});
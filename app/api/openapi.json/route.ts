@@ -0,0 +1,6 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { docsEndpoints, endpoints } from '@/lib/schemas';
+import { OpenApiBuilder } from '@/lib/utils/OpenApiBuilder';
+
+// GET - The OpenAPI document generated from the endpoint contracts (public)
+export const GET = apiRoute(docsEndpoints.openApi, async () => OpenApiBuilder.build(endpoints));
@@ -1,60 +1,40 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { answerEndpoints } from '@/lib/schemas';
 import { supabase } from '@/lib/supabase';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
-      );
-    }
-
-    const bucketName = process.env.BUCKET_NAME || 'musa-bucket';
-    const folder = process.env.SOLUTION_FOLDER || 'SOLUION';
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${Date.now()}.${fileExt}`;
-    const filePath = `${folder}/${user.id}/${fileName}`;
-
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    const { data, error } = await supabase.storage
-      .from(bucketName)
-      .upload(filePath, buffer, {
-        contentType: file.type,
-        upsert: false,
-      });
-
-    if (error) {
-      return NextResponse.json(
-        { error: 'Failed to upload file', details: error.message },
-        { status: 500 }
-      );
-    }
-
-    const { data: { publicUrl } } = supabase.storage
-      .from(bucketName)
-      .getPublicUrl(filePath);
-
-    return NextResponse.json({ url: publicUrl, path: filePath });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+// POST - Upload an image for an answer (multipart form with a "file" field)
+export const POST = apiRoute(answerEndpoints.upload, async ({ request, user }) => {
+  const formData = await request.formData();
+  const file = formData.get('file') as File;
+
+  if (!file) {
+    return ResponseBuilder.badRequest('No file provided');
   }
-}
 
+  const bucketName = process.env.BUCKET_NAME || 'musa-bucket';
+  const folder = process.env.SOLUTION_FOLDER || 'SOLUION';
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${Date.now()}.${fileExt}`;
+  const filePath = `${folder}/${user.id}/${fileName}`;
+
+  const arrayBuffer = await file.arrayBuffer();
+  const buffer = Buffer.from(arrayBuffer);
+
+  const { error } = await supabase.storage
+    .from(bucketName)
+    .upload(filePath, buffer, {
+      contentType: file.type,
+      upsert: false,
+    });
+
+  if (error) {
+    return ResponseBuilder.internalError('Failed to upload file', error.message);
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(bucketName)
+    .getPublicUrl(filePath);
+
+  return { url: publicUrl, path: filePath };
+});
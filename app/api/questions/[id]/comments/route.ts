@@ -0,0 +1,19 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { commentEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get all comments on a question and its answers, oldest first
+export const GET = apiRoute(commentEndpoints.listForQuestion, async ({ params }) => {
+  const commentService = ServiceFactory.createCommentService();
+  const comments = await commentService.getCommentsForQuestion(params.id);
+
+  return { comments: comments.map((c) => c.toJSON()) };
+});
+
+// POST - Comment on a question, or reply to one of its comments
+export const POST = apiRoute(commentEndpoints.createOnQuestion, async ({ user, params, body }) => {
+  const commentService = ServiceFactory.createCommentService();
+  const comment = await commentService.addQuestionComment(params.id, user.id, body.body, body.parentId || null);
+
+  return { comment: comment.toJSON() };
+});
@@ -0,0 +1,12 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Merge this question into a canonical one (moderators and admins)
+// Answers and comments move to the target; this question then redirects to it
+export const POST = apiRoute(questionEndpoints.merge, async ({ params, body }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const question = await questionService.mergeQuestion(params.id, body.targetId);
+
+  return { question: question.toJSON() };
+});
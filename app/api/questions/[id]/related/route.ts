@@ -0,0 +1,14 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get the questions most similar to this one by embedding (public)
+// Empty until the question has an embedding; ?limit= caps the count (default 5, max 20)
+export const GET = apiRoute(questionEndpoints.related, async ({ params, query }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const related = await questionService.getRelatedQuestions(params.id, query.limit);
+
+  return {
+    related: related.map((r) => ({ ...r.question.toJSON(), similarity: r.similarity })),
+  };
+});
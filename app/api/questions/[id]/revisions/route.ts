@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get the edit history of a question, newest first (public)
+export const GET = apiRoute(questionEndpoints.revisions, async ({ params }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const revisions = await questionService.getQuestionRevisions(params.id);
+
+  return { revisions: revisions.map((r) => r.toJSON()) };
+});
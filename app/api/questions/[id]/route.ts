@@ -1,80 +1,54 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
 import { getPrismaClient } from '@/lib/prisma';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
-// GET - Get a single question (public)
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-    const question = await prisma.question.findUnique({
-      where: { id },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    });
+// GET - Get a single question (public); includes the current user's vote when signed in
+// A question merged into another redirects to the canonical question
+export const GET = apiRoute(questionEndpoints.get, async ({ request, user, params }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const question = await questionService.getQuestionById(params.id);
 
-    if (!question) {
-      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
-    }
+  if (!question) {
+    return ResponseBuilder.notFound('Question not found');
+  }
 
-    return NextResponse.json({ question });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  if (question.isMerged()) {
+    return NextResponse.redirect(new URL(`/api/questions/${question.mergedIntoId}`, request.url), 308);
   }
-}
 
-// DELETE - Delete a question (only admin can delete)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  const myVote = user ? await questionService.getUserQuestionVote(params.id, user.id) : 0;
+
+  return { question: { ...question.toJSON(), myVote } };
+});
 
-    // Only admins can delete questions
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Only admins can delete questions' },
-        { status: 403 }
-      );
-    }
+// DELETE - Delete a question (moderators and admins)
+export const DELETE = apiRoute(questionEndpoints.delete, async ({ params }) => {
+  const prisma = await getPrismaClient();
+  const question = await prisma.question.findUnique({
+    where: { id: params.id },
+  });
 
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-    const question = await prisma.question.findUnique({
-      where: { id },
-    });
+  if (!question) {
+    return ResponseBuilder.notFound('Question not found');
+  }
 
-    if (!question) {
-      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
-    }
+  await prisma.question.delete({
+    where: { id: params.id },
+  });
 
-    await prisma.question.delete({
-      where: { id },
-    });
+  return { success: true };
+});
 
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
+// PUT - Edit a question (author or staff); the previous version is kept as a revision
+export const PUT = apiRoute(questionEndpoints.edit, async ({ user, params, body }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const question = await questionService.editQuestion(params.id, user, {
+    ...body,
+    images: body.images?.filter((url) => url.trim().length > 0),
+  });
 
+  return { question: question.toJSON() };
+});
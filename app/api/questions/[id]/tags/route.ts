@@ -0,0 +1,12 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// PUT - Replace a question's tags (author or staff)
+// Body: { tags: string[] }; tags that do not exist yet are created
+export const PUT = apiRoute(questionEndpoints.setTags, async ({ user, params, body }) => {
+  const tagService = ServiceFactory.createTagService();
+  const names = await tagService.setQuestionTags(params.id, user, body.tags);
+
+  return { tags: names };
+});
@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Upvote (1), downvote (-1) or clear (0) the current user's vote on a question
+export const POST = apiRoute(questionEndpoints.vote, async ({ user, params, body }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const question = await questionService.voteQuestion(params.id, user.id, body.value);
+
+  return { voteScore: question.voteScore, myVote: body.value };
+});
@@ -1,36 +1,11 @@
-import { NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
-import { getPrismaClient } from '@/lib/prisma';
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
 
 // GET - Get current user's questions
-export async function GET() {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const prisma = await getPrismaClient();
-    const questions = await prisma.question.findMany({
-      where: { userId: user.id },
-      orderBy: { createdAt: 'desc' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    });
-
-    return NextResponse.json({ questions });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
+export const GET = apiRoute(questionEndpoints.mine, async ({ user }) => {
+  const questionService = ServiceFactory.createQuestionService();
+  const questions = await questionService.getQuestionsByUserId(user.id);
 
+  return { questions: questions.map((q) => q.toJSON()) };
+});
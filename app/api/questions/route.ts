@@ -1,195 +1,80 @@
-import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
-import { getPrismaClient } from '@/lib/prisma';
-import { Prisma } from '@prisma/client';
-import { randomUUID } from 'crypto';
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
-// GET - Get all questions (public, everyone can see)
-export async function GET() {
-  try {
-    const prisma = await getPrismaClient();
-    const questions = await prisma.question.findMany({
-      orderBy: { createdAt: 'desc' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    });
-
-    return NextResponse.json({ questions });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+// GET - List questions with answer/accepted flags and vote totals (public, everyone can see)
+// Query params: type, tag (tag name), course (course id, or "mine" for the signed-in user's courses),
+// author (user id), from / to (YYYY-MM-DD, inclusive), hasImages=true, unanswered=true,
+// sort (newest | answers | votes), limit, cursor (nextCursor of the previous page)
+export const GET = apiRoute(questionEndpoints.list, async ({ query }) => {
+  // Only "mine" depends on who is asking
+  const user = query.course === 'mine' ? await getCurrentUser() : null;
+  if (query.course === 'mine' && !user) {
+    return ResponseBuilder.unauthorized();
   }
-}
-
-// POST - Create a new question
-export async function POST(request: NextRequest) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
-    const body = await request.json();
-    const { title, type, description, images } = body;
+  // "to" is inclusive, so stop at the start of the following day
+  const to = query.to;
+  if (to) to.setUTCDate(to.getUTCDate() + 1);
 
-    if (!title || !type || !description) {
-      return NextResponse.json(
-        { error: 'Title, type, and description are required' },
-        { status: 400 }
-      );
-    }
+  const courseService = ServiceFactory.createCourseService();
+  const courseIds = await courseService.resolveCourseFilter(query.course || null, user?.id);
 
-    const prisma = await getPrismaClient();
-    
-    // Generate embedding for the question (title + description)
-    let embedding: number[] | null = null;
-    try {
-      const embeddingText = `${title.trim()} ${description.trim()}`;
-      
-      // Call embedding API directly (internal call)
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (apiKey) {
-        const embeddingResponse = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'models/text-embedding-004',
-              content: {
-                parts: [{ text: embeddingText }]
-              }
-            }),
-          }
-        );
-        
-        if (embeddingResponse.ok) {
-          const embeddingData = await embeddingResponse.json();
-          embedding = embeddingData.embedding?.values || embeddingData.embedding;
-        } else {
-          console.warn('Failed to generate embedding, continuing without it');
-        }
-      }
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      // Continue without embedding
-    }
+  const questionService = ServiceFactory.createQuestionService();
+  const { questions, nextCursor } = await questionService.listQuestions({
+    type: query.type || undefined,
+    tag: query.tag || undefined,
+    courseIds,
+    authorId: query.author || undefined,
+    createdAfter: query.from,
+    createdBefore: to,
+    hasImages: query.hasImages === 'true',
+    unanswered: query.unanswered === 'true',
+    sort: query.sort,
+    limit: query.limit,
+    cursor: query.cursor || null,
+  });
 
-    // Use raw SQL to insert with vector embedding if available
-    const questionId = randomUUID();
-    const imageList = Array.isArray(images)
-      ? images.filter((url: unknown) => typeof url === 'string' && url.trim().length > 0)
-      : [];
-    const imagesSql =
-      imageList.length > 0
-        ? Prisma.sql`ARRAY[${Prisma.join(imageList.map((url) => Prisma.sql`${url}`))}]::text[]`
-        : Prisma.sql`ARRAY[]::text[]`;
+  return { questions: questions.map((q) => q.toJSON()), nextCursor };
+});
 
-    // Try to insert with embedding if available, otherwise insert without it
-    // This handles the case where pgvector extension is not installed
-    try {
-      if (embedding && Array.isArray(embedding) && embedding.length > 0) {
-        // Try to insert with embedding using raw SQL
-        const embeddingArray = Prisma.sql`ARRAY[${Prisma.join(embedding.map((val) => Prisma.sql`${val}`))}]::real[]`;
-        
-        await prisma.$executeRaw`
-          INSERT INTO questions (id, title, type, description, images, "userId", embedding, "createdAt", "updatedAt")
-          VALUES (
-            ${questionId},
-            ${title.trim()},
-            ${type.trim()},
-            ${description.trim()},
-            ${imagesSql},
-            ${user.id},
-            ${embeddingArray}::vector,
-            NOW(),
-            NOW()
-          )
-        `;
-      } else {
-        // No embedding generated, insert without it
-        await prisma.$executeRaw`
-          INSERT INTO questions (id, title, type, description, images, "userId", "createdAt", "updatedAt")
-          VALUES (
-            ${questionId},
-            ${title.trim()},
-            ${type.trim()},
-            ${description.trim()},
-            ${imagesSql},
-            ${user.id},
-            NOW(),
-            NOW()
-          )
-        `;
-      }
-    } catch (error: any) {
-      // If embedding column doesn't exist (pgvector not installed), insert without it
-      const errorMessage = error.message || '';
-      if (errorMessage.includes('embedding') || errorMessage.includes('column') || errorMessage.includes('42703')) {
-        console.warn('Embedding column not available (pgvector may not be installed), inserting without embedding');
-        await prisma.$executeRaw`
-          INSERT INTO questions (id, title, type, description, images, "userId", "createdAt", "updatedAt")
-          VALUES (
-            ${questionId},
-            ${title.trim()},
-            ${type.trim()},
-            ${description.trim()},
-            ${imagesSql},
-            ${user.id},
-            NOW(),
-            NOW()
-          )
-        `;
-      } else {
-        // Re-throw if it's a different error
-        throw error;
-      }
-    }
+// POST - Create a new question
+// Returns 409 with the likely duplicates instead of saving, unless allowDuplicates is true
+// Optional tags: string[]; questions posted without tags are tagged in the background from AI suggestions
+// Optional courseId: students can only post to courses they are enrolled in
+export const POST = apiRoute(questionEndpoints.create, async ({ user, body }) => {
+  if (!user.emailVerified) {
+    return ResponseBuilder.forbidden('Verify your email address before posting questions');
+  }
 
-    // Fetch the created question with user info
-    const results = await prisma.$queryRaw`
-      SELECT q.*, u.id as "user_id", u.name, u.email
-      FROM questions q
-      JOIN users u ON q."userId" = u.id
-      WHERE q.id = ${questionId}
-    `;
-    const createdQuestion = Array.isArray(results) && results.length > 0 ? (results[0] as any) : null;
+  const tagService = ServiceFactory.createTagService();
+  const tagNames = tagService.normalizeTagNames(body.tags || []);
 
-    if (!createdQuestion) {
-      return NextResponse.json({ error: 'Failed to create question' }, { status: 500 });
-    }
+  const courseService = ServiceFactory.createCourseService();
+  const course = await courseService.resolveCourseForContent(user, body.courseId);
 
-    const question = {
-      id: createdQuestion.id,
-      title: createdQuestion.title,
-      type: createdQuestion.type,
-      description: createdQuestion.description,
-      images: createdQuestion.images || [],
-      userId: createdQuestion.userId,
-      createdAt: createdQuestion.createdAt,
-      updatedAt: createdQuestion.updatedAt,
-      user: {
-        id: createdQuestion.user_id,
-        name: createdQuestion.name,
-        email: createdQuestion.email,
-      },
-    };
+  const questionService = ServiceFactory.createQuestionService();
+  const { question, duplicates } = await questionService.createQuestion(
+    {
+      title: body.title,
+      type: body.type,
+      description: body.description,
+      images: (body.images || []).filter((url) => url.trim().length > 0),
+      userId: user.id,
+      courseId: course,
+    },
+    { allowDuplicates: body.allowDuplicates === true }
+  );
 
-    return NextResponse.json({ question }, { status: 201 });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  if (!question) {
+    return ResponseBuilder.error('Possible duplicate questions found', 409, {
+      duplicates: duplicates.map((d) => ({ ...d.question.toJSON(), similarity: d.similarity })),
+    });
   }
-}
 
+  question.tags = await tagService.tagNewQuestion(question.id, tagNames);
+
+  return { question: question.toJSON() };
+});
@@ -1,118 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getPrismaClient } from '@/lib/prisma';
-import { Prisma } from '@prisma/client';
-
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { query, limit = 3 } = body as { query?: string; limit?: number };
-
-    if (!query || !query.trim()) {
-      return NextResponse.json(
-        { error: 'Search query is required' },
-        { status: 400 }
-      );
-    }
-
-    // Generate embedding for the search query
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'AI is not configured. Missing GEMINI_API_KEY.' },
-        { status: 500 }
-      );
-    }
-
-    const embeddingResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'models/text-embedding-004',
-          content: {
-            parts: [{ text: query.trim() }]
-          }
-        }),
-      }
-    );
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text();
-      console.error('Gemini API error:', errorText);
-      return NextResponse.json(
-        { error: 'Failed to generate search embedding' },
-        { status: 500 }
-      );
-    }
-
-    const embeddingData = await embeddingResponse.json();
-    const searchEmbedding = embeddingData.embedding?.values || embeddingData.embedding;
-
-    if (!searchEmbedding || !Array.isArray(searchEmbedding)) {
-      return NextResponse.json(
-        { error: 'Invalid embedding response' },
-        { status: 500 }
-      );
-    }
-
-    const prisma = await getPrismaClient();
-    
-    // Perform vector similarity search using PostgreSQL
-    // Using <-> operator for cosine distance (or Euclidean distance)
-    const embeddingArray = Prisma.sql`ARRAY[${Prisma.join(searchEmbedding.map((val) => Prisma.sql`${val}`))}]::real[]`;
-    
-    const results = await prisma.$queryRaw`
-      SELECT 
-        q.id,
-        q.title,
-        q.type,
-        q.description,
-        q.images,
-        q."userId",
-        q."createdAt",
-        q."updatedAt",
-        u.id as "user_id",
-        u.name,
-        u.email,
-        q.embedding <-> ${embeddingArray}::vector as distance
-      FROM questions q
-      LEFT JOIN users u ON q."userId" = u.id
-      WHERE q.embedding IS NOT NULL
-      ORDER BY q.embedding <-> ${embeddingArray}::vector
-      LIMIT ${limit}
-    `;
-
-    const questions = (results as any[]).map((row) => ({
-      id: row.id,
-      title: row.title,
-      type: row.type,
-      description: row.description,
-      images: row.images || [],
-      userId: row.userId,
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-      distance: parseFloat(row.distance),
-      user: row.user_id ? {
-        id: row.user_id,
-        name: row.name,
-        email: row.email,
-      } : null,
-    }));
-
-    return NextResponse.json({ 
-      questions,
-      query: query.trim(),
-      count: questions.length 
-    });
-  } catch (error: any) {
-    console.error('Error searching questions:', error);
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        details: error.message,
-      },
-      { status: 500 }
-    );
-  }
-}
+import { apiRoute } from '@/lib/apiRoute';
+import { questionEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Hybrid keyword + semantic search over questions
+// Works without GEMINI_API_KEY: results then come from full-text search alone (mode: 'keyword')
+export const POST = apiRoute(questionEndpoints.search, async ({ body }) => {
+  const safeLimit = Math.min(Math.max(Math.floor(body.limit) || 3, 1), 50);
+  const questionService = ServiceFactory.createQuestionService();
+  const { results, mode } = await questionService.searchQuestions(body.query, safeLimit);
+
+  return {
+    questions: results.map((r) => r.toJSON()),
+    query: body.query,
+    count: results.length,
+    mode,
+  };
+});
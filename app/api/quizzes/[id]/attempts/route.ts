@@ -0,0 +1,37 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { quizEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - List the current user's attempts for a quiz, newest first
+ */
+export const GET = apiRoute(quizEndpoints.attempts, async ({ user, params }) => {
+  const quizService = ServiceFactory.createQuizService();
+  const attempts = await quizService.getAttempts(params.id, user.id);
+
+  return ResponseBuilder.success({
+    attempts: attempts.map((attempt) => attempt.toJSON()),
+  });
+});
+
+/**
+ * POST - Submit answers for a quiz
+ * The score is computed on the server from the stored correct answers
+ */
+export const POST = apiRoute(quizEndpoints.submitAttempt, async ({ user, params, body }) => {
+  const quizService = ServiceFactory.createQuizService();
+  const attempt = await quizService.submitAttempt(params.id, user.id, body.answers);
+
+  // Missed questions become flashcards so they come back in spaced review
+  // The attempt is already saved, so a failure here is logged rather than failing the request and inviting a resubmit
+  let flashcardsAdded = 0;
+  try {
+    const flashcardService = ServiceFactory.createFlashcardService();
+    flashcardsAdded = await flashcardService.addCardsFromQuizMisses(params.id, user.id, body.answers);
+  } catch (error) {
+    console.error('Error adding flashcards from quiz misses:', error);
+  }
+
+  return ResponseBuilder.created({ attempt: attempt.toJSON(), flashcardsAdded });
+});
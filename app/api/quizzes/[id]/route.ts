@@ -0,0 +1,24 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { quizEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - Get a saved quiz with its questions and attempts
+ */
+export const GET = apiRoute(quizEndpoints.get, async ({ user, params }) => {
+  const quizService = ServiceFactory.createQuizService();
+  const quiz = await quizService.getQuizForUser(params.id, user.id);
+
+  return ResponseBuilder.success({ quiz: quiz.toJSON() });
+});
+
+/**
+ * DELETE - Delete a saved quiz and all of its attempts
+ */
+export const DELETE = apiRoute(quizEndpoints.delete, async ({ user, params }) => {
+  const quizService = ServiceFactory.createQuizService();
+  await quizService.deleteQuiz(params.id, user.id);
+
+  return ResponseBuilder.success({ message: 'Quiz deleted successfully' });
+});
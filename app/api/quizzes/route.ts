@@ -0,0 +1,17 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { quizEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
+
+/**
+ * GET - Quiz history for the current user
+ * Returns every saved quiz with its attempts, newest first
+ */
+export const GET = apiRoute(quizEndpoints.list, async ({ user }) => {
+  const quizService = ServiceFactory.createQuizService();
+  const quizzes = await quizService.getQuizHistory(user.id);
+
+  return ResponseBuilder.success({
+    quizzes: quizzes.map((quiz) => quiz.toJSON()),
+  });
+});
@@ -0,0 +1,11 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { adminEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// DELETE - Stop allowing signups from an email domain (only admin)
+export const DELETE = apiRoute(adminEndpoints.removeSignupDomain, async ({ params }) => {
+  const signupDomainService = ServiceFactory.createSignupDomainService();
+  await signupDomainService.removeDomain(params.id);
+
+  return { success: true };
+});
@@ -0,0 +1,20 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { adminEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - List the email domains allowed to sign up (only admin)
+// An empty list means signups are open to any address
+export const GET = apiRoute(adminEndpoints.signupDomains, async () => {
+  const signupDomainService = ServiceFactory.createSignupDomainService();
+  const domains = await signupDomainService.listDomains();
+
+  return { domains: domains.map((d) => d.toJSON()) };
+});
+
+// POST - Allow signups from an email domain (only admin)
+export const POST = apiRoute(adminEndpoints.addSignupDomain, async ({ body }) => {
+  const signupDomainService = ServiceFactory.createSignupDomainService();
+  const signupDomain = await signupDomainService.addDomain(body.domain);
+
+  return { domain: signupDomain.toJSON() };
+});
@@ -0,0 +1,12 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { tagEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Merge this tag into another (moderators and admins)
+// Questions carrying this tag get the target tag instead; this tag is then deleted
+export const POST = apiRoute(tagEndpoints.merge, async ({ params, body }) => {
+  const tagService = ServiceFactory.createTagService();
+  const tag = await tagService.mergeTags(decodeURIComponent(params.name), body.target);
+
+  return { tag: tag.toJSON() };
+});
@@ -0,0 +1,27 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { tagEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Get a tag with its question count (public); its questions come from /api/questions?tag=<name>
+export const GET = apiRoute(tagEndpoints.get, async ({ params }) => {
+  const tagService = ServiceFactory.createTagService();
+  const tag = await tagService.getTag(decodeURIComponent(params.name));
+
+  return { tag: tag.toJSON() };
+});
+
+// PATCH - Rename a tag (moderators and admins)
+export const PATCH = apiRoute(tagEndpoints.rename, async ({ params, body }) => {
+  const tagService = ServiceFactory.createTagService();
+  const tag = await tagService.renameTag(decodeURIComponent(params.name), body.name);
+
+  return { tag: tag.toJSON() };
+});
+
+// DELETE - Delete a tag and remove it from every question (moderators and admins)
+export const DELETE = apiRoute(tagEndpoints.delete, async ({ params }) => {
+  const tagService = ServiceFactory.createTagService();
+  await tagService.deleteTag(decodeURIComponent(params.name));
+
+  return { message: 'Tag deleted successfully' };
+});
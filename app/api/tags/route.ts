@@ -0,0 +1,12 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { tagEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - List tags with question counts, most used first (public)
+// With ?q=<prefix> returns autocomplete matches instead
+export const GET = apiRoute(tagEndpoints.list, async ({ query }) => {
+  const tagService = ServiceFactory.createTagService();
+  const tags = query.q !== undefined ? await tagService.searchTags(query.q) : await tagService.listTags();
+
+  return { tags: tags.map((t) => t.toJSON()) };
+});
@@ -0,0 +1,12 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { tagEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// POST - Suggest tags for a question being written
+// Works without GEMINI_API_KEY: suggestions then come from existing tags named in the text
+export const POST = apiRoute(tagEndpoints.suggest, async ({ body }) => {
+  const tagService = ServiceFactory.createTagService();
+  const tags = await tagService.suggestTags(body.title, body.description);
+
+  return { tags };
+});
@@ -1,135 +1,95 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { taskEndpoints } from '@/lib/schemas';
+import { can } from '@/lib/permissions';
 import { getPrismaClient } from '@/lib/prisma';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
 // GET - Get a single task
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-    const task = await prisma.task.findUnique({
-      where: { id },
-    });
-
-    if (!task) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
-    }
-
-    if (task.userId !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
-
-    return NextResponse.json({ task });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+export const GET = apiRoute(taskEndpoints.get, async ({ user, params }) => {
+  const prisma = await getPrismaClient();
+  const task = await prisma.task.findUnique({
+    where: { id: params.id },
+  });
+
+  if (!task) {
+    return ResponseBuilder.notFound('Task not found');
   }
-}
 
-// PUT - Update a task
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  if (!can(user, 'task:manage', task)) {
+    return ResponseBuilder.forbidden();
+  }
 
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-    const task = await prisma.task.findUnique({
-      where: { id },
-    });
+  return { task };
+});
 
-    if (!task) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
-    }
+// PUT - Update a task
+// An empty or invalid deadline clears it; courseId null moves the task out of its course
+export const PUT = apiRoute(taskEndpoints.update, async ({ user, params, body }) => {
+  const { id } = params;
+  const prisma = await getPrismaClient();
+  const task = await prisma.task.findUnique({
+    where: { id },
+  });
+
+  if (!task) {
+    return ResponseBuilder.notFound('Task not found');
+  }
 
-    if (task.userId !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
+  if (!can(user, 'task:manage', task)) {
+    return ResponseBuilder.forbidden();
+  }
 
-    const body = await request.json();
-    const { title, content, completed, deadline } = body;
+  const { title, content, completed, deadline, courseId } = body;
 
-    let deadlineDate: Date | null | undefined = undefined;
-    if (deadline !== undefined) {
-      if (deadline === null || deadline === '') {
+  let deadlineDate: Date | null | undefined = undefined;
+  if (deadline !== undefined) {
+    if (deadline === null || deadline === '') {
+      deadlineDate = null;
+    } else {
+      deadlineDate = new Date(deadline);
+      if (isNaN(deadlineDate.getTime())) {
         deadlineDate = null;
-      } else {
-        deadlineDate = new Date(deadline);
-        if (isNaN(deadlineDate.getTime())) {
-          deadlineDate = null;
-        }
       }
     }
-
-    const updatedTask = await prisma.task.update({
-      where: { id },
-      data: {
-        ...(title !== undefined && { title: title.trim() }),
-        ...(content !== undefined && { content: content || '' }),
-        ...(completed !== undefined && { completed }),
-        ...(deadlineDate !== undefined && { deadline: deadlineDate }),
-      },
-    });
-
-    return NextResponse.json({ task: updatedTask });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
-
-// DELETE - Delete a task
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-    const task = await prisma.task.findUnique({
-      where: { id },
-    });
+  const courseService = ServiceFactory.createCourseService();
+  const course = courseId !== undefined ? await courseService.resolveCourseForContent(user, courseId) : undefined;
 
-    if (!task) {
-      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
-    }
+  const updatedTask = await prisma.task.update({
+    where: { id },
+    data: {
+      ...(title !== undefined && { title }),
+      ...(content !== undefined && { content: content || '' }),
+      ...(completed !== undefined && { completed }),
+      ...(deadlineDate !== undefined && { deadline: deadlineDate }),
+      ...(course !== undefined && { courseId: course }),
+    },
+    include: { course: { select: { id: true, code: true, name: true } } },
+  });
 
-    if (task.userId !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
+  return { task: updatedTask };
+});
 
-    await prisma.task.delete({
-      where: { id },
-    });
+// DELETE - Delete a task
+export const DELETE = apiRoute(taskEndpoints.delete, async ({ user, params }) => {
+  const prisma = await getPrismaClient();
+  const task = await prisma.task.findUnique({
+    where: { id: params.id },
+  });
+
+  if (!task) {
+    return ResponseBuilder.notFound('Task not found');
+  }
 
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  if (!can(user, 'task:manage', task)) {
+    return ResponseBuilder.forbidden();
   }
-}
 
+  await prisma.task.delete({
+    where: { id: params.id },
+  });
+
+  return { success: true };
+});
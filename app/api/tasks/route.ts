@@ -1,72 +1,52 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { taskEndpoints } from '@/lib/schemas';
 import { getPrismaClient } from '@/lib/prisma';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
 
 // GET - Get all tasks for current user
-export async function GET() {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const prisma = await getPrismaClient();
-    const tasks = await prisma.task.findMany({
-      where: { userId: user.id },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    return NextResponse.json({ tasks });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
+// Optional course query param: a course id, or "mine" for tasks in any of the user's courses
+export const GET = apiRoute(taskEndpoints.list, async ({ user, query }) => {
+  const courseService = ServiceFactory.createCourseService();
+  const courseIds = await courseService.resolveCourseFilter(query.course || null, user.id);
+
+  const prisma = await getPrismaClient();
+  const tasks = await prisma.task.findMany({
+    where: {
+      userId: user.id,
+      ...(courseIds && { courseId: { in: courseIds } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    include: { course: { select: { id: true, code: true, name: true } } },
+  });
+
+  return { tasks };
+});
 
 // POST - Create a new task
-export async function POST(request: NextRequest) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+// A deadline that isn't a valid date is dropped rather than rejected
+export const POST = apiRoute(taskEndpoints.create, async ({ user, body }) => {
+  let deadlineDate: Date | null = null;
+  if (body.deadline) {
+    deadlineDate = new Date(body.deadline);
+    if (isNaN(deadlineDate.getTime())) {
+      deadlineDate = null;
     }
-
-    const body = await request.json();
-    const { title, content, deadline } = body;
-
-    if (!title || !title.trim()) {
-      return NextResponse.json(
-        { error: 'Title is required' },
-        { status: 400 }
-      );
-    }
-
-    let deadlineDate: Date | null = null;
-    if (deadline) {
-      deadlineDate = new Date(deadline);
-      if (isNaN(deadlineDate.getTime())) {
-        deadlineDate = null;
-      }
-    }
-
-    const prisma = await getPrismaClient();
-    const task = await prisma.task.create({
-      data: {
-        title: title.trim(),
-        content: content || '',
-        deadline: deadlineDate,
-        userId: user.id,
-      },
-    });
-
-    return NextResponse.json({ task }, { status: 201 });
-  } catch (error) {
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
 
+  const courseService = ServiceFactory.createCourseService();
+  const course = await courseService.resolveCourseForContent(user, body.courseId);
+
+  const prisma = await getPrismaClient();
+  const task = await prisma.task.create({
+    data: {
+      title: body.title,
+      content: body.content || '',
+      deadline: deadlineDate,
+      userId: user.id,
+      courseId: course,
+    },
+    include: { course: { select: { id: true, code: true, name: true } } },
+  });
+
+  return { task };
+});
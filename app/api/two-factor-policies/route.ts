@@ -0,0 +1,20 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { adminEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Which roles must use two-factor authentication (only admin)
+export const GET = apiRoute(adminEndpoints.twoFactorPolicies, async () => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  const policies = await twoFactorService.listPolicies();
+
+  return { policies: policies.map((p) => p.toJSON()) };
+});
+
+// PUT - Require (or stop requiring) two-factor authentication for a role (only admin)
+// Body: { role: 'STUDENT' | 'TEACHING_ASSISTANT' | 'MODERATOR' | 'ADMIN', required: boolean }
+export const PUT = apiRoute(adminEndpoints.updateTwoFactorPolicy, async ({ user, body }) => {
+  const twoFactorService = ServiceFactory.createTwoFactorService();
+  const policy = await twoFactorService.setRequired(body.role, body.required, user);
+
+  return { policy: policy.toJSON() };
+});
@@ -1,133 +1,78 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/lib/auth';
+import { apiRoute } from '@/lib/apiRoute';
+import { userEndpoints } from '@/lib/schemas';
 import { getPrismaClient } from '@/lib/prisma';
+import { ResponseBuilder } from '@/lib/utils/ResponseBuilder';
 
 // DELETE - Delete a user (admin only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+export const DELETE = apiRoute(userEndpoints.delete, async ({ user, params }) => {
+  const { id } = params;
+  const prisma = await getPrismaClient();
 
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
-
-    const { id } = await params;
-    const prisma = await getPrismaClient();
-
-    // Prevent admin from deleting themselves
-    if (id === user.id) {
-      return NextResponse.json(
-        { error: 'You cannot delete your own account' },
-        { status: 400 }
-      );
-    }
-
-    // Check if user exists
-    const targetUser = await prisma.user.findUnique({
-      where: { id },
-    });
-
-    if (!targetUser) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
-    // Before deleting user, set all their questions' userId to null
-    // This preserves questions for the community even after user deletion
-    await prisma.question.updateMany({
-      where: { userId: id },
-      data: { userId: null },
-    });
-
-    // Delete user (questions are preserved with userId = null)
-    await prisma.user.delete({
-      where: { id },
-    });
-
-    return NextResponse.json({ success: true, message: 'User deleted successfully' });
-  } catch (error: any) {
-    console.error('Error deleting user:', error);
-    return NextResponse.json(
-      { error: 'Internal server error', details: error.message },
-      { status: 500 }
-    );
+  // Prevent admin from deleting themselves
+  if (id === user.id) {
+    return ResponseBuilder.badRequest('You cannot delete your own account');
   }
-}
-
-// PUT - Update user role (admin only)
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
+  // Check if user exists
+  const targetUser = await prisma.user.findUnique({
+    where: { id },
+  });
 
-    const { id } = await params;
-    const body = await request.json();
-    const { role } = body as { role?: 'STUDENT' | 'ADMIN' };
-
-    if (!role || !['STUDENT', 'ADMIN'].includes(role)) {
-      return NextResponse.json(
-        { error: 'Invalid role. Must be STUDENT or ADMIN' },
-        { status: 400 }
-      );
-    }
-
-    const prisma = await getPrismaClient();
-
-    // Check if user exists
-    const targetUser = await prisma.user.findUnique({
-      where: { id },
-    });
-
-    if (!targetUser) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
-    // Prevent admin from changing their own role
-    if (id === user.id && role === 'STUDENT') {
-      return NextResponse.json(
-        { error: 'You cannot change your own role to STUDENT' },
-        { status: 400 }
-      );
-    }
+  if (!targetUser) {
+    return ResponseBuilder.notFound('User not found');
+  }
 
-    // Update user role
-    const updatedUser = await prisma.user.update({
-      where: { id },
-      data: { role },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true,
-      },
-    });
+  // Before deleting user, set all their questions' userId to null
+  // This preserves questions for the community even after user deletion
+  await prisma.question.updateMany({
+    where: { userId: id },
+    data: { userId: null },
+  });
+
+  // Delete user (questions are preserved with userId = null)
+  await prisma.user.delete({
+    where: { id },
+  });
+
+  return { success: true, message: 'User deleted successfully' };
+});
+
+// PUT - Assign a user's role: STUDENT, TEACHING_ASSISTANT, MODERATOR or ADMIN (admin only)
+export const PUT = apiRoute(userEndpoints.updateRole, async ({ user, params, body }) => {
+  const { id } = params;
+  const { role } = body;
+  const prisma = await getPrismaClient();
+
+  // Check if user exists
+  const targetUser = await prisma.user.findUnique({
+    where: { id },
+  });
+
+  if (!targetUser) {
+    return ResponseBuilder.notFound('User not found');
+  }
 
-    return NextResponse.json({
-      success: true,
-      message: `User role updated to ${role}`,
-      user: updatedUser,
-    });
-  } catch (error: any) {
-    console.error('Error updating user role:', error);
-    return NextResponse.json(
-      { error: 'Internal server error', details: error.message },
-      { status: 500 }
-    );
+  // Prevent admin from changing their own role and locking themselves out
+  if (id === user.id && role !== user.role) {
+    return ResponseBuilder.badRequest('You cannot change your own role');
   }
-}
 
+  // Update user role
+  const updatedUser = await prisma.user.update({
+    where: { id },
+    data: { role },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      createdAt: true,
+    },
+  });
+
+  return {
+    success: true,
+    message: `User role updated to ${role}`,
+    user: updatedUser,
+  };
+});
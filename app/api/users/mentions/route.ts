@@ -0,0 +1,17 @@
+import { apiRoute } from '@/lib/apiRoute';
+import { userEndpoints } from '@/lib/schemas';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+
+// GET - Suggest users for @mention autocomplete (?q=prefix)
+export const GET = apiRoute(userEndpoints.mentions, async ({ query }) => {
+  const userService = ServiceFactory.createUserService();
+  const users = await userService.searchMentionableUsers(query.q);
+
+  return {
+    users: users.map((u) => ({
+      id: u.id,
+      name: u.name,
+      handle: u.getMentionHandle(),
+    })),
+  };
+});
@@ -1,40 +1,47 @@
 import { redirect } from 'next/navigation';
 import { getCurrentUser } from '@/lib/auth';
+import { can, homePathFor, ROLE_LABELS } from '@/lib/permissions';
 import { getPrismaClient } from '@/lib/prisma';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
 import DashboardNav from '@/components/DashboardNav';
 import Link from 'next/link';
+import type { Question } from '@/lib/schemas';
 
-interface Question {
-  id: string;
-  title: string;
-  type: string;
-  createdAt: string;
-}
-
-export default async function StudentDashboard() {
+export default async function StudentDashboard({
+  searchParams,
+}: {
+  searchParams: Promise<{ course?: string }>;
+}) {
   const user = await getCurrentUser();
 
   if (!user) {
     redirect('/login');
   }
 
-  if (user.role === 'ADMIN') {
-    redirect('/admin/dashboard');
+  if (homePathFor(user) !== '/dashboard') {
+    redirect(homePathFor(user));
   }
 
   const prisma = await getPrismaClient();
+
+  // ?course=<id> or ?course=mine narrows every panel to those courses
+  const { course } = await searchParams;
+  const courseService = ServiceFactory.createCourseService();
+  const courses = await courseService.getCoursesForUser(user);
+  const courseIds = await courseService.resolveCourseFilter(course || null, user.id);
+  const courseFilter = courseIds ? { courseId: { in: courseIds } } : {};
   
   let taskCount = 0;
   let completedTaskCount = 0;
   let overdueCount = 0;
   let pendingCount = 0;
   let myQuestionsCount = 0;
-  let myQuestions: Question[] = [];
+  let myQuestions: Pick<Question, 'id' | 'title' | 'type' | 'createdAt'>[] = [];
   
   try {
     if (prisma && prisma.task) {
       const allTasks = await prisma.task.findMany({
-        where: { userId: user.id },
+        where: { userId: user.id, ...courseFilter },
       });
       
       taskCount = allTasks.length;
@@ -54,7 +61,7 @@ export default async function StudentDashboard() {
 
     if (prisma && prisma.question) {
       const questions = await prisma.question.findMany({
-        where: { userId: user.id },
+        where: { userId: user.id, ...courseFilter },
         orderBy: { createdAt: 'desc' },
         take: 3,
         select: {
@@ -69,7 +76,7 @@ export default async function StudentDashboard() {
         createdAt: q.createdAt.toISOString(),
       }));
       myQuestionsCount = await prisma.question.count({
-        where: { userId: user.id },
+        where: { userId: user.id, ...courseFilter },
       });
     }
   } catch (error) {
@@ -87,8 +94,41 @@ export default async function StudentDashboard() {
             Welcome back, {user.name || user.email.split('@')[0]}!
           </h1>
           <p className="text-sm sm:text-base text-gray-600">Here's an overview of your progress</p>
+          {/* Moderators and teaching assistants keep this dashboard and reach their tools from here */}
+          {can(user, 'admin:access') && (
+            <Link
+              href="/admin/dashboard"
+              className="inline-flex items-center gap-2 mt-3 px-3 py-1.5 bg-purple-100 text-purple-800 rounded-full text-sm font-medium hover:bg-purple-200 transition-colors"
+            >
+              {ROLE_LABELS[user.role]} tools →
+            </Link>
+          )}
         </div>
 
+        {/* Course filter */}
+        {courses.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6 sm:mb-8 text-sm">
+            {[
+              { value: '', label: 'Everything', title: undefined },
+              { value: 'mine', label: 'My courses', title: undefined },
+              ...courses.map((c) => ({ value: c.id, label: c.code, title: c.name })),
+            ].map((option) => (
+              <Link
+                key={option.value || 'all'}
+                href={option.value ? `/dashboard?course=${option.value}` : '/dashboard'}
+                title={option.title}
+                className={`px-3 py-1.5 rounded-full font-medium transition-colors ${
+                  (course || '') === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-6 sm:mb-8">
           <Link href="/tasks" className="bg-white rounded-xl shadow-sm p-6 border border-gray-200 hover:shadow-md transition-all hover:-translate-y-1">
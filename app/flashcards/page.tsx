@@ -0,0 +1,420 @@
+'use client';
+
+import { useCallback, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import DashboardNav from '@/components/DashboardNav';
+import { toast } from 'sonner';
+import axios from 'axios';
+import type { Flashcard, FlashcardDeck, Note } from '@/lib/schemas';
+
+// SM-2 grades sent to the review endpoint (0-5 scale)
+const REVIEW_GRADES = [
+  { grade: 1, label: 'Again', className: 'bg-red-600 hover:bg-red-700' },
+  { grade: 3, label: 'Hard', className: 'bg-orange-500 hover:bg-orange-600' },
+  { grade: 4, label: 'Good', className: 'bg-blue-600 hover:bg-blue-700' },
+  { grade: 5, label: 'Easy', className: 'bg-green-600 hover:bg-green-700' },
+];
+
+type NoteSummary = Pick<Note, 'id' | 'title'>;
+
+export default function FlashcardsPage() {
+  const router = useRouter();
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [decksLoading, setDecksLoading] = useState(true);
+  const [notes, setNotes] = useState<NoteSummary[]>([]);
+  const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [cardDeckId, setCardDeckId] = useState('');
+  const [cardFront, setCardFront] = useState('');
+  const [cardBack, setCardBack] = useState('');
+  const [reviewCards, setReviewCards] = useState<Flashcard[] | null>(null);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [showBack, setShowBack] = useState(false);
+  const [grading, setGrading] = useState(false);
+
+  const fetchDecks = useCallback(async () => {
+    try {
+      const { data } = await axios.get('/api/flashcards/decks');
+      setDecks(data.decks || []);
+    } catch (error: any) {
+      if (error?.response?.status === 401) {
+        router.push('/login');
+        return;
+      }
+      console.error('Error fetching decks:', error);
+      toast.error('Failed to load your decks');
+    } finally {
+      setDecksLoading(false);
+    }
+  }, [router]);
+
+  const fetchNotes = async () => {
+    try {
+      const { data } = await axios.get('/api/notes');
+      setNotes((data.notes || []).map((n: NoteSummary) => ({ id: n.id, title: n.title })));
+    } catch (error) {
+      console.error('Error fetching notes:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDecks();
+    fetchNotes();
+  }, [fetchDecks]);
+
+  const toggleNote = (noteId: string) => {
+    setSelectedNoteIds((prev) =>
+      prev.includes(noteId) ? prev.filter((id) => id !== noteId) : [...prev, noteId]
+    );
+  };
+
+  const handleGenerate = async () => {
+    if (selectedNoteIds.length === 0) {
+      toast.error('Please select at least one note');
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const { data } = await axios.post('/api/ai/flashcards', { noteIds: selectedNoteIds });
+      toast.success(`${data.created} flashcard${data.created === 1 ? '' : 's'} created`);
+      setSelectedNoteIds([]);
+      fetchDecks();
+    } catch (error: any) {
+      console.error('Flashcard generation error', error);
+      toast.error(error?.response?.data?.error || 'Failed to generate flashcards');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCreateDeck = async () => {
+    if (!newDeckName.trim()) return;
+
+    try {
+      await axios.post('/api/flashcards/decks', { name: newDeckName.trim() });
+      setNewDeckName('');
+      fetchDecks();
+    } catch (error: any) {
+      console.error('Deck create error', error);
+      toast.error(error?.response?.data?.error || 'Failed to create deck');
+    }
+  };
+
+  const handleDeleteDeck = async (deckId: string) => {
+    if (!confirm('Delete this deck and all of its cards?')) return;
+
+    try {
+      await axios.delete(`/api/flashcards/decks/${deckId}`);
+      setDecks((prev) => prev.filter((d) => d.id !== deckId));
+      toast.success('Deck deleted');
+    } catch (error: any) {
+      console.error('Deck delete error', error);
+      toast.error(error?.response?.data?.error || 'Failed to delete deck');
+    }
+  };
+
+  const handleAddCard = async () => {
+    if (!cardDeckId || !cardFront.trim() || !cardBack.trim()) {
+      toast.error('Choose a deck and fill in both sides');
+      return;
+    }
+
+    try {
+      await axios.post('/api/flashcards', { deckId: cardDeckId, front: cardFront, back: cardBack });
+      setCardFront('');
+      setCardBack('');
+      toast.success('Card added');
+      fetchDecks();
+    } catch (error: any) {
+      console.error('Card create error', error);
+      toast.error(error?.response?.data?.error || 'Failed to add card');
+    }
+  };
+
+  const startReview = async (deckId?: string) => {
+    try {
+      const { data } = await axios.get('/api/flashcards/review', {
+        params: deckId ? { deckId } : undefined,
+      });
+      if (!data.cards || data.cards.length === 0) {
+        toast.success('Nothing due right now - come back later!');
+        return;
+      }
+      setReviewCards(data.cards);
+      setReviewIndex(0);
+      setShowBack(false);
+    } catch (error: any) {
+      console.error('Review load error', error);
+      toast.error(error?.response?.data?.error || 'Failed to load cards');
+    }
+  };
+
+  const handleGrade = async (grade: number) => {
+    if (!reviewCards) return;
+    const card = reviewCards[reviewIndex];
+
+    setGrading(true);
+    try {
+      await axios.post('/api/flashcards/review', { cardId: card.id, grade });
+      if (reviewIndex + 1 < reviewCards.length) {
+        setReviewIndex(reviewIndex + 1);
+        setShowBack(false);
+      } else {
+        toast.success('Review session complete!');
+        setReviewCards(null);
+        fetchDecks();
+      }
+    } catch (error: any) {
+      console.error('Review grade error', error);
+      toast.error(error?.response?.data?.error || 'Failed to save review');
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const totalDue = decks.reduce((sum, deck) => sum + deck.dueCount, 0);
+  const currentCard = reviewCards ? reviewCards[reviewIndex] : null;
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardNav />
+
+      <div className="w-full max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+        {/* Header */}
+        <div className="mb-8 lg:mb-12">
+          <div className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 border border-blue-200 rounded-lg mb-4">
+            <span className="text-xs font-bold text-blue-700 uppercase tracking-wider">Spaced Repetition</span>
+          </div>
+          <h1 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-gray-900 mb-3 leading-tight">
+            Flashcards
+          </h1>
+          <p className="text-base sm:text-lg text-gray-600 max-w-2xl">
+            Review cards right before you would forget them. Cards come from your notes and the quiz questions you miss.
+          </p>
+        </div>
+
+        {currentCard && reviewCards ? (
+          /* Review Session */
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 sm:p-8 lg:p-10">
+            <div className="flex items-center justify-between mb-6">
+              <span className="text-sm font-semibold text-gray-500">
+                Card {reviewIndex + 1} of {reviewCards.length}
+              </span>
+              <button
+                onClick={() => setReviewCards(null)}
+                className="text-sm font-semibold text-gray-500 hover:text-gray-900"
+              >
+                End session
+              </button>
+            </div>
+
+            <div className="min-h-[12rem] p-6 rounded-xl border-2 border-gray-200 bg-gray-50/50">
+              <p className="text-xl font-semibold text-gray-900 whitespace-pre-wrap">{currentCard.front}</p>
+              {showBack && (
+                <>
+                  <hr className="my-5 border-gray-200" />
+                  <p className="text-base text-gray-700 whitespace-pre-wrap">{currentCard.back}</p>
+                  {currentCard.sourceNoteId && (
+                    <Link
+                      href={`/notes?note=${currentCard.sourceNoteId}`}
+                      className="inline-block mt-4 text-sm text-blue-600 font-semibold hover:underline"
+                    >
+                      Open source note
+                    </Link>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="mt-6">
+              {!showBack ? (
+                <button
+                  onClick={() => setShowBack(true)}
+                  className="w-full px-6 py-3.5 bg-blue-600 text-white rounded-xl text-sm font-bold shadow-md hover:bg-blue-700 transition-all"
+                >
+                  Show Answer
+                </button>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {REVIEW_GRADES.map((option) => (
+                    <button
+                      key={option.grade}
+                      onClick={() => handleGrade(option.grade)}
+                      disabled={grading}
+                      className={`px-4 py-3 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50 ${option.className}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Decks */}
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 sm:p-8">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Your Decks</h2>
+                <button
+                  onClick={() => startReview()}
+                  disabled={totalDue === 0}
+                  className="px-5 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold shadow-md hover:bg-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Review all ({totalDue} due)
+                </button>
+              </div>
+
+              {decksLoading ? (
+                <p className="text-sm text-gray-500">Loading decks...</p>
+              ) : decks.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No decks yet. Generate cards from your notes below, or take a{' '}
+                  <Link href="/quiz" className="text-blue-600 font-semibold hover:underline">
+                    quiz
+                  </Link>{' '}
+                  - questions you miss are added automatically.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {decks.map((deck) => (
+                    <div
+                      key={deck.id}
+                      className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-xl border-2 border-gray-200 hover:border-blue-300 transition-all"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-gray-900 truncate">{deck.name}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {deck.cardCount} card{deck.cardCount === 1 ? '' : 's'} · {deck.dueCount} due
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => startReview(deck.id)}
+                          disabled={deck.dueCount === 0}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Review
+                        </button>
+                        <button
+                          onClick={() => handleDeleteDeck(deck.id)}
+                          className="px-4 py-2 border-2 border-gray-200 text-gray-600 rounded-lg text-sm font-semibold hover:bg-red-50 hover:border-red-200 hover:text-red-600 transition-all"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-2 mt-6">
+                <input
+                  value={newDeckName}
+                  onChange={(e) => setNewDeckName(e.target.value)}
+                  placeholder="New deck name"
+                  className="flex-1 px-4 py-2.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400 bg-gray-50/50"
+                />
+                <button
+                  onClick={handleCreateDeck}
+                  disabled={!newDeckName.trim()}
+                  className="px-4 py-2.5 border-2 border-blue-600 text-blue-600 rounded-xl text-sm font-semibold hover:bg-blue-50 transition-all disabled:opacity-50"
+                >
+                  Create Deck
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+              {/* Generate From Notes */}
+              <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 sm:p-8">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Generate From Notes</h2>
+                {notes.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    You have no notes yet.{' '}
+                    <Link href="/notes" className="text-blue-600 font-semibold hover:underline">
+                      Create one
+                    </Link>{' '}
+                    to turn it into flashcards.
+                  </p>
+                ) : (
+                  <>
+                    <div className="max-h-64 overflow-y-auto space-y-2 p-3 border-2 border-gray-200 rounded-xl bg-gray-50/50">
+                      {notes.map((note) => (
+                        <label
+                          key={note.id}
+                          className={`flex items-center gap-3 px-4 py-2.5 rounded-lg cursor-pointer transition-all ${
+                            selectedNoteIds.includes(note.id)
+                              ? 'bg-blue-50 border border-blue-300'
+                              : 'bg-white border border-gray-200 hover:border-blue-300'
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedNoteIds.includes(note.id)}
+                            onChange={() => toggleNote(note.id)}
+                            className="w-4 h-4 text-blue-600 rounded"
+                          />
+                          <span className="text-sm font-medium text-gray-900 truncate">{note.title}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <button
+                      onClick={handleGenerate}
+                      disabled={generating || selectedNoteIds.length === 0}
+                      className="w-full mt-4 px-6 py-3 bg-blue-600 text-white rounded-xl text-sm font-bold shadow-md hover:bg-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {generating ? 'Generating Flashcards...' : 'Generate Flashcards'}
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {/* Manual Card */}
+              <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 sm:p-8">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Add a Card</h2>
+                <div className="space-y-4">
+                  <select
+                    value={cardDeckId}
+                    onChange={(e) => setCardDeckId(e.target.value)}
+                    className="w-full px-4 py-2.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 bg-gray-50/50"
+                  >
+                    <option value="">Select a deck</option>
+                    {decks.map((deck) => (
+                      <option key={deck.id} value={deck.id}>
+                        {deck.name}
+                      </option>
+                    ))}
+                  </select>
+                  <textarea
+                    value={cardFront}
+                    onChange={(e) => setCardFront(e.target.value)}
+                    rows={2}
+                    placeholder="Front - question or term"
+                    className="w-full px-4 py-2.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400 resize-none bg-gray-50/50"
+                  />
+                  <textarea
+                    value={cardBack}
+                    onChange={(e) => setCardBack(e.target.value)}
+                    rows={3}
+                    placeholder="Back - answer or definition"
+                    className="w-full px-4 py-2.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400 resize-none bg-gray-50/50"
+                  />
+                  <button
+                    onClick={handleAddCard}
+                    className="w-full px-6 py-3 border-2 border-blue-600 text-blue-600 rounded-xl text-sm font-bold hover:bg-blue-50 transition-all"
+                  >
+                    Add Card
+                  </button>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ export default function ForgotPasswordPage() {
 
       if (data.success) {
         setSuccess(true);
-        toast.success('Password reset email sent! Check your inbox.');
+        toast.success('Password reset link sent! Check your inbox.');
       }
     } catch (error: any) {
       const errorMessage = error.response?.data?.error || 'Failed to send password reset email';
@@ -49,8 +49,8 @@ export default function ForgotPasswordPage() {
             <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">Forgot Password?</h2>
             <p className="text-gray-600 text-sm sm:text-base">
               {success 
-                ? 'Check your email for your new password'
-                : 'Enter your email and we\'ll send you a new password'}
+                ? 'Check your email for a password reset link'
+                : 'Enter your email and we\'ll send you a link to reset your password'}
             </p>
           </div>
 
@@ -64,10 +64,10 @@ export default function ForgotPasswordPage() {
                 </div>
                 <h3 className="text-lg font-semibold text-green-900 mb-2">Email Sent!</h3>
                 <p className="text-sm text-green-700 mb-4">
-                  We've sent a new password to <strong>{email}</strong>. Please check your inbox and spam folder.
+                  If an account exists for <strong>{email}</strong>, we've sent it a reset link. Please check your inbox and spam folder.
                 </p>
                 <p className="text-xs text-green-600">
-                  Remember to change your password after logging in for security.
+                  The link works once and expires in an hour.
                 </p>
               </div>
               
@@ -109,7 +109,7 @@ export default function ForgotPasswordPage() {
                     Sending...
                   </span>
                 ) : (
-                  'Send Reset Email'
+                  'Send Reset Link'
                 )}
               </button>
             </form>
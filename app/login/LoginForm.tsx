@@ -0,0 +1,330 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { homePathFor } from '@/lib/permissions';
+import type { User } from '@/lib/schemas';
+import TwoFactorEnrollment from '@/components/TwoFactorEnrollment';
+import RecoveryCodes from '@/components/RecoveryCodes';
+
+export type LoginStep = 'password' | 'verify' | 'setup' | 'recovery-codes';
+
+interface LoginFormProps {
+  ssoProviderName: string | null;
+  initialStep?: LoginStep;
+  initialError?: string;
+}
+
+export default function LoginForm({ ssoProviderName, initialStep = 'password', initialError = '' }: LoginFormProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState(initialError);
+  const [loading, setLoading] = useState(false);
+  const [step, setStep] = useState<LoginStep>(initialStep);
+  const [code, setCode] = useState('');
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loggedInUser, setUser] = useState<User | null>(null);
+
+  const finishLogin = (user: User) => {
+    toast.success('Welcome back!');
+    // Redirect based on role
+    router.push(homePathFor(user));
+    router.refresh();
+  };
+
+  // POST to a login endpoint, showing its error; returns the body or null on failure
+  const postLogin = async (url: string, body: Record<string, string>) => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await res.json();
+      setLoading(false);
+
+      if (!res.ok) {
+        const errorMsg = data.error || 'Login failed';
+        setError(errorMsg);
+        toast.error(errorMsg);
+        // The pending sign-in is gone; start over from the password
+        if ((res.status === 401 || res.status === 423) && step !== 'password') {
+          setStep('password');
+        }
+        return null;
+      }
+
+      return data;
+    } catch {
+      const errorMsg = 'An error occurred. Please try again.';
+      setError(errorMsg);
+      toast.error(errorMsg);
+      setLoading(false);
+      return null;
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await postLogin('/api/auth/login/two-factor', { code });
+    if (data) {
+      finishLogin(data.user);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await postLogin('/api/auth/login/two-factor/setup', {});
+    if (data) {
+      setEnrollment({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl });
+      setStep('setup');
+    }
+  };
+
+  const handleConfirmSetup = async (setupCode: string) => {
+    const data = await postLogin('/api/auth/login/two-factor/setup/confirm', { code: setupCode });
+    if (data) {
+      setUser(data.user);
+      setRecoveryCodes(data.recoveryCodes);
+      setStep('recovery-codes');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        const errorMsg = data.error || 'Login failed';
+        setError(errorMsg);
+        toast.error(errorMsg);
+        setLoading(false);
+        return;
+      }
+
+      if (data.twoFactor === 'verify') {
+        setCode('');
+        setStep('verify');
+        setLoading(false);
+        return;
+      }
+
+      if (data.twoFactor === 'setup') {
+        await startSetup();
+        return;
+      }
+
+      finishLogin(data.user);
+    } catch (err) {
+      const errorMsg = 'An error occurred. Please try again.';
+      setError(errorMsg);
+      toast.error(errorMsg);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white px-4">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-2xl p-8 border border-gray-100 backdrop-blur-sm">
+          <div className="text-center mb-8">
+            <Link href="/" className="inline-block mb-4">
+              <h1 className="text-2xl font-bold text-gray-900">Ragra Prep</h1>
+            </Link>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">Welcome Back</h2>
+            <p className="text-gray-600">
+              {step === 'password' && 'Sign in to your account'}
+              {step === 'verify' && 'Enter the code from your authenticator app'}
+              {step === 'setup' && 'Your account requires two-factor authentication'}
+              {step === 'recovery-codes' && 'Two-factor authentication is on'}
+            </p>
+          </div>
+
+          {step !== 'password' && error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-6">
+              {error}
+            </div>
+          )}
+
+          {step === 'verify' && (
+            <form onSubmit={handleVerifyCode} className="space-y-6">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400 tracking-widest"
+                  placeholder="123456"
+                />
+                <p className="text-xs text-gray-500 mt-2">Lost your device? Enter one of your recovery codes instead.</p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+            </form>
+          )}
+
+          {step === 'setup' && enrollment && (
+            <TwoFactorEnrollment
+              secret={enrollment.secret}
+              qrCodeDataUrl={enrollment.qrCodeDataUrl}
+              submitting={loading}
+              onConfirm={handleConfirmSetup}
+            />
+          )}
+
+          {/* Coming back from SSO, the QR code is only generated once asked for */}
+          {step === 'setup' && !enrollment && (
+            <button
+              onClick={startSetup}
+              disabled={loading}
+              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+            >
+              {loading ? 'Loading...' : 'Set up authenticator app'}
+            </button>
+          )}
+
+          {step === 'recovery-codes' && loggedInUser && (
+            <div className="space-y-6">
+              <RecoveryCodes codes={recoveryCodes} />
+              <button
+                onClick={() => finishLogin(loggedInUser)}
+                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg hover:shadow-xl"
+              >
+                I&apos;ve saved my codes
+              </button>
+            </div>
+          )}
+
+          {step === 'password' && (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
+                  placeholder="you@example.com"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
+                  placeholder="••••••••"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+              >
+                {loading ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    Signing in...
+                  </span>
+                ) : (
+                  'Sign In'
+                )}
+              </button>
+            </form>
+          )}
+
+          {step === 'password' && ssoProviderName && (
+            <>
+              <div className="flex items-center gap-3 my-6">
+                <div className="flex-1 h-px bg-gray-200" />
+                <span className="text-xs uppercase tracking-wide text-gray-400">or</span>
+                <div className="flex-1 h-px bg-gray-200" />
+              </div>
+              <a
+                href="/api/auth/sso"
+                className="block w-full text-center border border-gray-300 text-gray-800 py-3.5 rounded-xl font-semibold hover:bg-gray-50 transition-colors"
+              >
+                Sign in with {ssoProviderName}
+              </a>
+            </>
+          )}
+
+          <div className="mt-6 space-y-3">
+            <div className="text-center">
+              <Link
+                href="/forgot-password"
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                Forgot your password?
+              </Link>
+            </div>
+            <div className="text-center">
+              <p className="text-sm text-gray-600">
+                Don't have an account?{' '}
+                <Link href="/signup" className="text-blue-600 hover:text-blue-700 font-medium">
+                  Sign up
+                </Link>
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-4 text-center">
+            <Link href="/" className="text-sm text-gray-500 hover:text-gray-700">
+              ← Back to home
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
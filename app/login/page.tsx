@@ -1,149 +1,27 @@
-'use client';
+import { ServiceFactory } from '@/lib/di/ServiceFactory';
+import { SSO_LOGIN_ERROR_MESSAGES, ssoLoginErrorSchema } from '@/lib/schemas';
+import LoginForm, { LoginStep } from './LoginForm';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
-import Link from 'next/link';
-import { toast } from 'sonner';
-
-export default function LoginPage() {
-  const router = useRouter();
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
-  const [loading, setLoading] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-    setLoading(true);
-
-    try {
-      const res = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
-      });
+interface LoginPageProps {
+  searchParams: Promise<{ 'two-factor'?: string; error?: string }>;
+}
 
-      const data = await res.json();
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const params = await searchParams;
+  const ssoProvider = ServiceFactory.getSsoProvider();
 
-      if (!res.ok) {
-        const errorMsg = data.error || 'Login failed';
-        setError(errorMsg);
-        toast.error(errorMsg);
-        setLoading(false);
-        return;
-      }
+  // The SSO callback lands here when a second factor is still owed
+  const twoFactor = params['two-factor'];
+  const initialStep: LoginStep = twoFactor === 'verify' || twoFactor === 'setup' ? twoFactor : 'password';
 
-      toast.success('Welcome back!');
-      // Redirect based on role
-      if (data.user.role === 'ADMIN') {
-        router.push('/admin/dashboard');
-      } else {
-        router.push('/dashboard');
-      }
-      router.refresh();
-    } catch (err) {
-      const errorMsg = 'An error occurred. Please try again.';
-      setError(errorMsg);
-      toast.error(errorMsg);
-      setLoading(false);
-    }
-  };
+  // Only known error codes from the SSO callback are shown; anything else in the URL is ignored
+  const error = ssoLoginErrorSchema.safeParse(params.error);
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-white px-4">
-      <div className="max-w-md w-full">
-        <div className="bg-white rounded-2xl shadow-2xl p-8 border border-gray-100 backdrop-blur-sm">
-          <div className="text-center mb-8">
-            <Link href="/" className="inline-block mb-4">
-              <h1 className="text-2xl font-bold text-gray-900">Ragra Prep</h1>
-            </Link>
-            <h2 className="text-3xl font-bold text-gray-900 mb-2">Welcome Back</h2>
-            <p className="text-gray-600">Sign in to your account</p>
-          </div>
-
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
-                {error}
-              </div>
-            )}
-
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
-                placeholder="you@example.com"
-              />
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
-                placeholder="••••••••"
-              />
-            </div>
-
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
-            >
-              {loading ? (
-                <span className="flex items-center justify-center gap-2">
-                  <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                  </svg>
-                  Signing in...
-                </span>
-              ) : (
-                'Sign In'
-              )}
-            </button>
-          </form>
-
-          <div className="mt-6 space-y-3">
-            <div className="text-center">
-              <Link
-                href="/forgot-password"
-                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
-              >
-                Forgot your password?
-              </Link>
-            </div>
-            <div className="text-center">
-              <p className="text-sm text-gray-600">
-                Don't have an account?{' '}
-                <Link href="/signup" className="text-blue-600 hover:text-blue-700 font-medium">
-                  Sign up
-                </Link>
-              </p>
-            </div>
-          </div>
-
-          <div className="mt-4 text-center">
-            <Link href="/" className="text-sm text-gray-500 hover:text-gray-700">
-              ← Back to home
-            </Link>
-          </div>
-        </div>
-      </div>
-    </div>
+    <LoginForm
+      ssoProviderName={ssoProvider?.name ?? null}
+      initialStep={initialStep}
+      initialError={error.success ? SSO_LOGIN_ERROR_MESSAGES[error.data] : undefined}
+    />
   );
 }
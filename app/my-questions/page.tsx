@@ -8,21 +8,7 @@ import axios from 'axios';
 import DashboardNav from '@/components/DashboardNav';
 import Image from 'next/image';
 import QuestionModal from '@/components/QuestionModal';
-
-interface Question {
-  id: string;
-  title: string;
-  type: string;
-  description: string;
-  images: string[];
-  userId: string | null;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-  } | null;
-}
+import type { Question } from '@/lib/schemas';
 
 export default function MyQuestionsPage() {
   const router = useRouter();
@@ -193,6 +179,24 @@ export default function MyQuestionsPage() {
                         month: 'long', 
                         day: 'numeric' 
                       })}</span>
+                      <span className="ml-auto flex items-center gap-2">
+                        <span className="font-semibold text-gray-700">
+                          {question.voteScore ?? 0} vote{(question.voteScore ?? 0) === 1 ? '' : 's'}
+                        </span>
+                        {question.hasAcceptedAnswer ? (
+                          <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+                            ✓ Accepted
+                          </span>
+                        ) : question.isAnswered ? (
+                          <span className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full text-xs font-semibold">
+                            {question.answerCount} answer{question.answerCount === 1 ? '' : 's'}
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs font-semibold">
+                            Unanswered
+                          </span>
+                        )}
+                      </span>
                     </div>
                   </div>
 
@@ -251,6 +255,9 @@ export default function MyQuestionsPage() {
           setSelectedQuestion(null);
         }}
         onDelete={handleDelete}
+        onUpdate={(updated) =>
+          setQuestions((prev) => prev.map((q) => (q.id === updated.id ? { ...q, ...updated } : q)))
+        }
         canDelete={true}
       />
     </div>
@@ -1,20 +1,12 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import DashboardNav from '@/components/DashboardNav';
 import RichTextEditor from '@/components/RichTextEditor';
+import CourseSelect from '@/components/CourseSelect';
 import { toast } from 'sonner';
 import axios from 'axios';
-
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-  shareToken?: string | null;
-  isPublic?: boolean;
-}
+import type { Note } from '@/lib/schemas';
 
 const getPlainText = (html: string) =>
   html
@@ -27,7 +19,10 @@ export default function NotesPage() {
   const [notes, setNotes] = useState<Note[]>([]);
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [courseFilter, setCourseFilter] = useState('');
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showAiPanel, setShowAiPanel] = useState(false);
@@ -36,16 +31,22 @@ export default function NotesPage() {
   const [shareUrls, setShareUrls] = useState<Record<string, string>>({});
   const [sharingNoteId, setSharingNoteId] = useState<string | null>(null);
 
-  // Fetch notes from API
-  useEffect(() => {
-    fetchNotes();
-  }, []);
-
-  const fetchNotes = async () => {
+  const fetchNotes = useCallback(async () => {
     try {
       setLoading(true);
-      const { data } = await axios.get('/api/notes');
+      const { data } = await axios.get('/api/notes', {
+        params: courseFilter ? { course: courseFilter } : {},
+      });
       setNotes(data.notes || []);
+
+      // Open the note linked from elsewhere, e.g. a missed quiz question
+      const linkedNoteId = new URLSearchParams(window.location.search).get('note');
+      if (linkedNoteId && (data.notes || []).some((n: Note) => n.id === linkedNoteId)) {
+        setSelectedNoteId(linkedNoteId);
+        setTimeout(() => {
+          document.getElementById(`note-${linkedNoteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }, 0);
+      }
     } catch (error: any) {
       if (error.response?.status === 401) {
         toast.error('Please login to view your notes');
@@ -55,7 +56,12 @@ export default function NotesPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [courseFilter]);
+
+  // Fetch notes from API
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
 
   const handleGenerateAiNote = async () => {
     if (!aiPrompt.trim()) {
@@ -100,9 +106,23 @@ export default function NotesPage() {
 
     setSaving(true);
     try {
+      if (editingNoteId) {
+        const { data } = await axios.patch(`/api/notes/${editingNoteId}`, {
+          title: title.trim(),
+          content,
+          courseId: courseId || null,
+        });
+
+        setNotes((prev) => prev.map((n) => (n.id === editingNoteId ? { ...n, ...data.note } : n)));
+        handleCancelEdit();
+        toast.success('Note updated successfully');
+        return;
+      }
+
       const { data } = await axios.post('/api/notes', {
         title: title.trim(),
         content,
+        courseId: courseId || null,
       });
 
       // Note is already logged in the API route
@@ -121,6 +141,21 @@ export default function NotesPage() {
     }
   };
 
+  const handleEditNote = (note: Note) => {
+    setEditingNoteId(note.id);
+    setTitle(note.title);
+    setContent(note.content);
+    setCourseId(note.courseId || '');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingNoteId(null);
+    setTitle('');
+    setContent('');
+    setCourseId('');
+  };
+
   const handleDeleteNote = async (id: string) => {
     try {
       await axios.delete(`/api/notes/${id}`);
@@ -128,6 +163,9 @@ export default function NotesPage() {
       if (selectedNoteId === id) {
         setSelectedNoteId(null);
       }
+      if (editingNoteId === id) {
+        handleCancelEdit();
+      }
       // Remove share URL if exists
       setShareUrls((prev) => {
         const newUrls = { ...prev };
@@ -245,7 +283,9 @@ export default function NotesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                   </svg>
                 </div>
-                <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Create a New Note</h2>
+                <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">
+                  {editingNoteId ? 'Edit Note' : 'Create a New Note'}
+                </h2>
               </div>
 
               <div className="space-y-6">
@@ -262,6 +302,15 @@ export default function NotesPage() {
                   />
                 </div>
 
+                <CourseSelect
+                  mode="assign"
+                  label="Course (optional)"
+                  labelClassName="block text-sm font-semibold text-gray-700 mb-2.5"
+                  value={courseId}
+                  onChange={setCourseId}
+                  className="w-full px-5 py-3.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 bg-gray-50/50 transition-all hover:border-gray-300"
+                />
+
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2.5">
                     Content <span className="text-red-500">*</span>
@@ -276,13 +325,10 @@ export default function NotesPage() {
                 <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4 border-t border-gray-200">
                   <button
                     type="button"
-                    onClick={() => {
-                      setTitle('');
-                      setContent('');
-                    }}
+                    onClick={handleCancelEdit}
                     className="px-5 py-2.5 border-2 border-gray-300 rounded-xl text-sm font-semibold text-gray-700 hover:bg-gray-50 hover:border-gray-400 transition-all"
                   >
-                    Clear
+                    {editingNoteId ? 'Cancel' : 'Clear'}
                   </button>
                   <button
                     type="button"
@@ -299,7 +345,7 @@ export default function NotesPage() {
                         Saving...
                       </span>
                     ) : (
-                      'Save Note'
+                      editingNoteId ? 'Save Changes' : 'Save Note'
                     )}
                   </button>
                 </div>
@@ -318,6 +364,9 @@ export default function NotesPage() {
 
           {/* Notes List - full width below editor */}
           <div className="space-y-4 sm:space-y-5">
+            <div className="flex justify-end">
+              <CourseSelect value={courseFilter} onChange={setCourseFilter} />
+            </div>
             {loading ? (
               <div className="bg-white/90 backdrop-blur-sm rounded-3xl border-2 border-dashed border-gray-300 px-8 py-16 sm:py-20 text-center min-h-[50vh] flex flex-col items-center justify-center">
                 <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 border-t-blue-600 mb-4"></div>
@@ -330,9 +379,13 @@ export default function NotesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
                 </div>
-                <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">No notes yet</h3>
+                <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">
+                  {courseFilter ? 'No notes in this course' : 'No notes yet'}
+                </h3>
                 <p className="text-base text-gray-600 max-w-md">
-                  Start by creating your first note above. It will appear here with all your other notes.
+                  {courseFilter
+                    ? 'Pick another course above, or create a note for this one.'
+                    : 'Start by creating your first note above. It will appear here with all your other notes.'}
                 </p>
               </div>
             ) : (
@@ -341,6 +394,7 @@ export default function NotesPage() {
                 return (
                   <div
                     key={note.id}
+                    id={`note-${note.id}`}
                     className="group bg-white/90 backdrop-blur-sm rounded-3xl border border-gray-200/50 shadow-lg hover:shadow-2xl transition-all duration-300 overflow-hidden"
                   >
                     <div className="p-6 sm:p-8">
@@ -352,6 +406,14 @@ export default function NotesPage() {
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                             </svg>
                             <span>Created {note.createdDate}</span>
+                            {note.course && (
+                              <span
+                                className="px-2.5 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs font-semibold"
+                                title={note.course.name}
+                              >
+                                {note.course.code}
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0 flex-wrap justify-end">
@@ -406,6 +468,12 @@ export default function NotesPage() {
                               )}
                             </button>
                           )}
+                          <button
+                            onClick={() => handleEditNote(note)}
+                            className="px-4 py-2 text-sm font-semibold text-gray-700 border-2 border-gray-200 rounded-xl hover:bg-gray-50 hover:border-gray-300 transition-all transform hover:scale-105 active:scale-95"
+                          >
+                            Edit
+                          </button>
                           <button
                             onClick={() => handleDeleteNote(note.id)}
                             className="px-4 py-2 text-sm font-semibold text-red-600 border-2 border-red-200 rounded-xl hover:bg-red-50 hover:border-red-300 transition-all transform hover:scale-105 active:scale-95"
@@ -526,4 +594,3 @@ export default function NotesPage() {
   );
 }
 
-
@@ -5,15 +5,7 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import axios from 'axios';
 import { toast } from 'sonner';
-
-interface SharedNote {
-  id: string;
-  title: string;
-  content: string;
-  author: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import type { SharedNote } from '@/lib/schemas';
 
 export default function SharedNotePage() {
   const params = useParams();
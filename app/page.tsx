@@ -1,17 +1,13 @@
 import { redirect } from 'next/navigation';
 import { getCurrentUser } from '@/lib/auth';
+import { homePathFor } from '@/lib/permissions';
 import Link from 'next/link';
 
 export default async function Home() {
   const user = await getCurrentUser();
 
   if (user) {
-    if (user.role === 'ADMIN') {
-      redirect('/admin/dashboard');
-    } else {
-      redirect('/dashboard');
-    
-    }
+    redirect(homePathFor(user));
   }
 
   return (
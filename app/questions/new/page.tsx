@@ -7,68 +7,27 @@ import axios from 'axios';
 import DashboardNav from '@/components/DashboardNav';
 import Image from 'next/image';
 import RichTextEditor from '@/components/RichTextEditor';
-
-const QUESTION_TYPES = [
-  'Mathematics',
-  'Physics',
-  'Chemistry',
-  'Biology',
-  'Computer Science',
-  'Quantum Physics',
-  'Engineering',
-  'Statistics',
-  'Calculus',
-  'Algebra',
-  'Geometry',
-  'Trigonometry',
-  'Organic Chemistry',
-  'Inorganic Chemistry',
-  'Physical Chemistry',
-  'Mechanics',
-  'Electromagnetism',
-  'Thermodynamics',
-  'Data Structures',
-  'Algorithms',
-  'Machine Learning',
-  'Deep Learning',
-  'Natural Language Processing (NLP)',
-  'Artificial Intelligence',
-  'Neural Networks',
-  'Computer Vision',
-  'Data Science',
-  'Python Programming',
-  'JavaScript',
-  'Web Development',
-  'Database Systems',
-  'Operating Systems',
-  'Computer Networks',
-  'Cybersecurity',
-  'Software Engineering',
-  'Reinforcement Learning',
-  'Transfer Learning',
-  'Generative AI',
-  'Large Language Models (LLM)',
-  'Transformers',
-  'Convolutional Neural Networks (CNN)',
-  'Recurrent Neural Networks (RNN)',
-  'Natural Language Understanding (NLU)',
-  'Natural Language Generation (NLG)',
-  'Sentiment Analysis',
-  'Text Mining',
-  'Information Retrieval',
-  'General Knowledge',
-  'Other',
-];
+import TagInput from '@/components/TagInput';
+import CourseSelect from '@/components/CourseSelect';
+import { QUESTION_TYPES } from '@/lib/questionTypes';
+import type { SimilarQuestion } from '@/lib/schemas';
 
 export default function NewQuestionPage() {
   const router = useRouter();
   const [title, setTitle] = useState('');
   const [type, setType] = useState('');
   const [description, setDescription] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
+  const [suggesting, setSuggesting] = useState(false);
   const [images, setImages] = useState<string[]>([]);
   const [uploading, setUploading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [duplicates, setDuplicates] = useState<SimilarQuestion[]>([]);
+  // Image URLs already uploaded for an attempt that was stopped by the duplicate check
+  const [uploadedImages, setUploadedImages] = useState<string[] | null>(null);
 
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -76,6 +35,7 @@ export default function NewQuestionPage() {
 
     const newFiles = Array.from(files);
     setImageFiles([...imageFiles, ...newFiles]);
+    setUploadedImages(null);
 
     // Create preview URLs
     const previewUrls = newFiles.map(file => URL.createObjectURL(file));
@@ -113,6 +73,7 @@ export default function NewQuestionPage() {
   };
 
   const removeImage = (index: number) => {
+    setUploadedImages(null);
     setImages(images.filter((_, i) => i !== index));
     setImageFiles(imageFiles.filter((_, i) => i !== index));
   };
@@ -124,8 +85,32 @@ export default function NewQuestionPage() {
       .replace(/\s+/g, ' ')
       .trim();
 
+  const suggestTags = async () => {
+    if (!title.trim() && !getPlainText(description)) {
+      toast.error('Write a title or description first');
+      return;
+    }
+
+    setSuggesting(true);
+    try {
+      const { data } = await axios.post('/api/tags/suggest', { title, description });
+      setSuggestedTags(data.tags || []);
+      if (!data.tags?.length) {
+        toast.info('No tag suggestions for this question yet');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to suggest tags');
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    await submitQuestion(false);
+  };
+
+  const submitQuestion = async (allowDuplicates: boolean) => {
     if (!title.trim() || !type.trim() || !getPlainText(description)) {
       toast.error('Title, type, and description are required');
       return;
@@ -134,8 +119,8 @@ export default function NewQuestionPage() {
     setSaving(true);
     try {
       // Upload images first if there are any
-      let uploadedImageUrls: string[] = [];
-      if (imageFiles.length > 0) {
+      let uploadedImageUrls: string[] = uploadedImages || [];
+      if (!uploadedImages && imageFiles.length > 0) {
         const uploadPromises = imageFiles.map(async (file) => {
           const formData = new FormData();
           formData.append('file', file);
@@ -148,6 +133,7 @@ export default function NewQuestionPage() {
         });
 
         uploadedImageUrls = await Promise.all(uploadPromises);
+        setUploadedImages(uploadedImageUrls);
       }
 
       await axios.post('/api/questions', {
@@ -155,12 +141,20 @@ export default function NewQuestionPage() {
         type: type.trim(),
         description: description.trim(),
         images: uploadedImageUrls,
+        tags,
+        courseId: courseId || null,
+        allowDuplicates,
       });
 
       toast.success('Question posted successfully');
       router.push('/questions');
     } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Failed to post question');
+      if (error.response?.status === 409) {
+        setDuplicates(error.response.data.details?.duplicates || []);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+      } else {
+        toast.error(error.response?.data?.error || 'Failed to post question');
+      }
     } finally {
       setSaving(false);
     }
@@ -176,6 +170,57 @@ export default function NewQuestionPage() {
           <p className="text-sm sm:text-base text-gray-600 mt-1 sm:mt-2">Share your question with the community</p>
         </div>
 
+        {duplicates.length > 0 && (
+          <div className="mb-6 bg-amber-50 border-2 border-amber-200 rounded-xl p-4 sm:p-6">
+            <h2 className="text-lg font-bold text-gray-900 mb-1">Possible duplicates</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              These questions look very similar to yours. Check whether one of them already answers it.
+            </p>
+            <ul className="space-y-2 mb-4">
+              {duplicates.map((duplicate) => (
+                <li key={duplicate.id}>
+                  <a
+                    href={`/questions?question=${duplicate.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between gap-3 p-3 bg-white rounded-lg border border-gray-200 hover:border-blue-400 transition-colors"
+                  >
+                    <span className="min-w-0">
+                      <span className="block font-medium text-gray-900 truncate">{duplicate.title}</span>
+                      <span className="text-xs text-gray-500">
+                        {duplicate.type} ·{' '}
+                        {duplicate.hasAcceptedAnswer
+                          ? 'has an accepted answer'
+                          : `${duplicate.answerCount ?? 0} answer${duplicate.answerCount === 1 ? '' : 's'}`}
+                      </span>
+                    </span>
+                    <span className="flex-shrink-0 text-sm font-semibold text-amber-700">
+                      {Math.round(duplicate.similarity * 100)}% similar
+                    </span>
+                  </a>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => submitQuestion(true)}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Posting...' : 'Post anyway'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setDuplicates([])}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+              >
+                Keep editing
+              </button>
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm p-4 sm:p-6 md:p-8 border border-gray-200 space-y-4 sm:space-y-6">
           <div>
             <label className="block text-sm font-semibold text-gray-900 mb-2">
@@ -210,6 +255,14 @@ export default function NewQuestionPage() {
             </select>
           </div>
 
+          <CourseSelect
+            mode="assign"
+            label="Course (Optional)"
+            value={courseId}
+            onChange={setCourseId}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 bg-white"
+          />
+
           <div>
             <label className="block text-sm font-semibold text-gray-900 mb-2">
               Description <span className="text-red-500">*</span>
@@ -221,6 +274,26 @@ export default function NewQuestionPage() {
             />
           </div>
 
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-semibold text-gray-900">
+                Tags (Optional)
+              </label>
+              <button
+                type="button"
+                onClick={suggestTags}
+                disabled={suggesting}
+                className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                {suggesting ? 'Suggesting...' : '✨ Suggest tags'}
+              </button>
+            </div>
+            <TagInput tags={tags} onChange={setTags} suggestions={suggestedTags} />
+            <p className="text-xs text-gray-500 mt-1">
+              Questions posted without tags are tagged automatically.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-semibold text-gray-900 mb-2">
               Images (Optional)
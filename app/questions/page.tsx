@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'sonner';
@@ -8,35 +8,39 @@ import axios from 'axios';
 import DashboardNav from '@/components/DashboardNav';
 import Image from 'next/image';
 import QuestionModal from '@/components/QuestionModal';
+import CourseSelect from '@/components/CourseSelect';
+import { QUESTION_TYPES } from '@/lib/questionTypes';
+import type { Question, QuestionSearchResult } from '@/lib/schemas';
 
-interface Question {
-  id: string;
-  title: string;
-  type: string;
-  description: string;
-  images: string[];
-  userId: string | null;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-  } | null;
-}
+// Search results also carry the highlighted matches
+type ListedQuestion = Question & Partial<Pick<QuestionSearchResult, 'highlight'>>;
 
 export default function QuestionsPage() {
   const router = useRouter();
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<ListedQuestion[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<string | null>(null);
   const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
+  const [filters, setFilters] = useState({
+    type: '',
+    course: '',
+    from: '',
+    to: '',
+    hasImages: false,
+    unanswered: false,
+    sort: 'newest',
+  });
+  const [author, setAuthor] = useState<{ id: string; name: string } | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    fetchQuestions();
     fetchCurrentUser();
+    openLinkedQuestion();
   }, []);
 
   const fetchCurrentUser = async () => {
@@ -51,17 +55,81 @@ export default function QuestionsPage() {
     }
   };
 
-  const fetchQuestions = async () => {
+  // Open the question given by ?question=<id>; merged questions resolve to their canonical question
+  const openLinkedQuestion = async () => {
+    const questionId = new URLSearchParams(window.location.search).get('question');
+    if (!questionId) return;
+
     try {
-      const { data } = await axios.get('/api/questions');
-      setQuestions(data.questions || []);
+      const { data } = await axios.get(`/api/questions/${questionId}`);
+      setSelectedQuestion(data.question);
+      setIsModalOpen(true);
+    } catch {
+      toast.error('That question could not be found');
+    }
+  };
+
+  const fetchQuestions = useCallback(async (cursor: string | null = null) => {
+    if (cursor) setLoadingMore(true);
+    try {
+      const { data } = await axios.get('/api/questions', {
+        params: {
+          sort: filters.sort,
+          ...(filters.type && { type: filters.type }),
+          ...(filters.course && { course: filters.course }),
+          ...(filters.from && { from: filters.from }),
+          ...(filters.to && { to: filters.to }),
+          ...(filters.hasImages && { hasImages: 'true' }),
+          ...(filters.unanswered && { unanswered: 'true' }),
+          ...(author && { author: author.id }),
+          ...(cursor && { cursor }),
+        },
+      });
+      setQuestions((prev) => (cursor ? [...prev, ...(data.questions || [])] : data.questions || []));
+      setNextCursor(data.nextCursor || null);
     } catch (error: any) {
-      toast.error('Failed to load questions');
+      toast.error(error.response?.data?.error || 'Failed to load questions');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
+  }, [filters, author]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !loadingMore) {
+          fetchQuestions(nextCursor);
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, fetchQuestions]);
+
+  const updateFilter = (changes: Partial<typeof filters>) => {
+    setSearchQuery('');
+    setFilters((prev) => ({ ...prev, ...changes }));
   };
 
+  const hasActiveFilters =
+    !!filters.type ||
+    !!filters.course ||
+    !!filters.from ||
+    !!filters.to ||
+    filters.hasImages ||
+    filters.unanswered ||
+    !!author;
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) {
       fetchQuestions();
@@ -72,13 +140,17 @@ export default function QuestionsPage() {
     try {
       const { data } = await axios.post('/api/questions/search', {
         query: searchQuery.trim(),
-        limit: 3,
+        limit: 10,
       });
       setQuestions(data.questions || []);
+      setNextCursor(null);
       if (data.questions && data.questions.length > 0) {
-        toast.success(`Found ${data.questions.length} similar questions`);
+        toast.success(`Found ${data.questions.length} matching questions`);
       } else {
-        toast.info('No similar questions found');
+        toast.info('No matching questions found');
+      }
+      if (data.mode === 'keyword') {
+        toast.info('Semantic search is unavailable, showing keyword matches only');
       }
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Search failed');
@@ -88,7 +160,6 @@ export default function QuestionsPage() {
     }
   };
 
-
   if (loading) {
     return (
       <div className="min-h-screen bg-white">
@@ -144,7 +215,7 @@ export default function QuestionsPage() {
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
-              placeholder="Search questions by description (semantic search)..."
+              placeholder="Search questions by keyword, course code or topic..."
               className="flex-1 px-4 py-2.5 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400 bg-white"
             />
             <button
@@ -166,6 +237,87 @@ export default function QuestionsPage() {
               </button>
             )}
           </div>
+
+          {/* Filters */}
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={filters.type}
+              onChange={(e) => updateFilter({ type: e.target.value })}
+              className="px-3 py-2 border-2 border-gray-200 rounded-xl bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              <option value="">All subjects</option>
+              {QUESTION_TYPES.map((questionType) => (
+                <option key={questionType} value={questionType}>
+                  {questionType}
+                </option>
+              ))}
+            </select>
+            <CourseSelect value={filters.course} onChange={(course) => updateFilter({ course })} />
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilter({ sort: e.target.value })}
+              className="px-3 py-2 border-2 border-gray-200 rounded-xl bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              <option value="newest">Newest</option>
+              <option value="answers">Most answered</option>
+              <option value="votes">Most voted</option>
+            </select>
+            <label className="flex items-center gap-1 text-gray-600">
+              From
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilter({ from: e.target.value })}
+                className="px-2 py-1.5 border-2 border-gray-200 rounded-xl text-gray-900"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-gray-600">
+              To
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilter({ to: e.target.value })}
+                className="px-2 py-1.5 border-2 border-gray-200 rounded-xl text-gray-900"
+              />
+            </label>
+            <label className="flex items-center gap-1.5 px-3 py-2 border-2 border-gray-200 rounded-xl text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.hasImages}
+                onChange={(e) => updateFilter({ hasImages: e.target.checked })}
+              />
+              Has images
+            </label>
+            <label className="flex items-center gap-1.5 px-3 py-2 border-2 border-gray-200 rounded-xl text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.unanswered}
+                onChange={(e) => updateFilter({ unanswered: e.target.checked })}
+              />
+              Unanswered
+            </label>
+            {author && (
+              <span className="flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-full font-medium">
+                By {author.name}
+                <button onClick={() => setAuthor(null)} className="ml-1 hover:text-blue-900" title="Remove author filter">
+                  ✕
+                </button>
+              </span>
+            )}
+            {hasActiveFilters && (
+              <button
+                onClick={() => {
+                  setAuthor(null);
+                  updateFilter({ type: '', course: '', from: '', to: '', hasImages: false, unanswered: false });
+                }}
+                className="text-gray-500 hover:text-blue-600 hover:underline"
+              >
+                Reset filters
+              </button>
+            )}
+          </div>
         </div>
 
         {questions.length === 0 ? (
@@ -175,8 +327,14 @@ export default function QuestionsPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
             </div>
-            <h3 className="text-2xl font-bold text-gray-900 mb-3">No questions yet</h3>
-            <p className="text-gray-600 mb-8 text-lg">Be the first to ask a question and help build our community</p>
+            <h3 className="text-2xl font-bold text-gray-900 mb-3">
+              {hasActiveFilters ? 'No questions match these filters' : 'No questions yet'}
+            </h3>
+            <p className="text-gray-600 mb-8 text-lg">
+              {hasActiveFilters
+                ? 'Try a different subject, course or date range'
+                : 'Be the first to ask a question and help build our community'}
+            </p>
             {currentUser && (
               <Link
                 href="/questions/new"
@@ -205,7 +363,31 @@ export default function QuestionsPage() {
                         <span className="px-4 py-1.5 bg-blue-600 text-white rounded-full text-sm font-semibold">
                           {question.type}
                         </span>
-                        <span className="text-sm text-gray-500 flex items-center gap-1">
+                        {question.course && (
+                          <span
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              updateFilter({ course: question.course!.id });
+                            }}
+                            className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-full text-sm font-semibold hover:bg-gray-200"
+                            title={`Show questions in ${question.course.name}`}
+                          >
+                            {question.course.code}
+                          </span>
+                        )}
+                        <span
+                          onClick={(e) => {
+                            if (!question.user) return;
+                            e.stopPropagation();
+                            setSearchQuery('');
+                            setAuthor({
+                              id: question.user.id,
+                              name: question.user.name || question.user.email.split('@')[0],
+                            });
+                          }}
+                          className={`text-sm text-gray-500 flex items-center gap-1 ${question.user ? 'hover:text-blue-600 hover:underline' : ''}`}
+                          title={question.user ? 'Show questions by this author' : undefined}
+                        >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                           </svg>
@@ -214,14 +396,44 @@ export default function QuestionsPage() {
                       </div>
                     </div>
                     
-                    <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4 leading-tight">
-                      {question.title}
-                    </h2>
-                    
-                    <div
-                      className="text-gray-700 leading-relaxed mb-6 prose prose-sm max-w-none prose-p:text-gray-700 prose-strong:text-gray-900 line-clamp-5"
-                      dangerouslySetInnerHTML={{ __html: question.description }}
-                    />
+                    {question.highlight ? (
+                      <>
+                        <h2
+                          className="text-2xl md:text-3xl font-bold text-gray-900 mb-4 leading-tight [&_mark]:bg-yellow-200 [&_mark]:rounded"
+                          dangerouslySetInnerHTML={{ __html: question.highlight.title }}
+                        />
+                        <p
+                          className="text-gray-700 leading-relaxed mb-6 line-clamp-5 [&_mark]:bg-yellow-200 [&_mark]:rounded"
+                          dangerouslySetInnerHTML={{ __html: question.highlight.snippet }}
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <h2 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4 leading-tight">
+                          {question.title}
+                        </h2>
+
+                        <div
+                          className="text-gray-700 leading-relaxed mb-6 prose prose-sm max-w-none prose-p:text-gray-700 prose-strong:text-gray-900 line-clamp-5"
+                          dangerouslySetInnerHTML={{ __html: question.description }}
+                        />
+                      </>
+                    )}
+
+                    {question.tags && question.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {question.tags.map((tag) => (
+                          <Link
+                            key={tag}
+                            href={`/tags/${encodeURIComponent(tag)}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="px-2.5 py-1 bg-blue-50 text-blue-700 rounded-full text-xs font-medium hover:bg-blue-100 transition-colors"
+                          >
+                            #{tag}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
 
                     <div className="flex items-center gap-2 text-sm text-gray-500 pt-4 border-t border-gray-100">
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -232,6 +444,24 @@ export default function QuestionsPage() {
                         month: 'long', 
                         day: 'numeric' 
                       })}</span>
+                      <span className="ml-auto flex items-center gap-2">
+                        <span className="font-semibold text-gray-700">
+                          {question.voteScore ?? 0} vote{(question.voteScore ?? 0) === 1 ? '' : 's'}
+                        </span>
+                        {question.hasAcceptedAnswer ? (
+                          <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+                            ✓ Accepted
+                          </span>
+                        ) : question.isAnswered ? (
+                          <span className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full text-xs font-semibold">
+                            {question.answerCount} answer{question.answerCount === 1 ? '' : 's'}
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs font-semibold">
+                            Unanswered
+                          </span>
+                        )}
+                      </span>
                     </div>
                   </div>
 
@@ -278,6 +508,10 @@ export default function QuestionsPage() {
                 </div>
               </div>
             ))}
+            <div ref={sentinelRef} />
+            {loadingMore && (
+              <div className="text-center text-gray-500 py-4">Loading more questions...</div>
+            )}
           </div>
         )}
       </div>
@@ -290,6 +524,10 @@ export default function QuestionsPage() {
           setSelectedQuestion(null);
         }}
         canDelete={false}
+        onOpenQuestion={setSelectedQuestion}
+        onUpdate={(updated) =>
+          setQuestions((prev) => prev.map((q) => (q.id === updated.id ? { ...q, ...updated } : q)))
+        }
       />
     </div>
   );
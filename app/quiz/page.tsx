@@ -1,10 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useCallback, useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import DashboardNav from '@/components/DashboardNav';
+import CourseSelect from '@/components/CourseSelect';
 import { toast } from 'sonner';
 import axios from 'axios';
+import type { Note, Quiz, QuizAttempt } from '@/lib/schemas';
 
 const QUIZ_SUBJECTS = [
   'Mathematics',
@@ -54,84 +57,95 @@ const DIFFICULTY_LEVELS = [
 
 const QUESTION_COUNTS = [3, 5, 10, 15, 20];
 
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  explanation?: string;
-}
-
-interface Quiz {
-  title: string;
-  description: string;
-  subject: string;
-  questions: QuizQuestion[];
-}
-
-const QUIZ_STORAGE_KEY = 'ragra-quiz-state';
+type NoteSummary = Pick<Note, 'id' | 'title'>;
 
 export default function QuizPage() {
   const router = useRouter();
   const [prompt, setPrompt] = useState('');
   const [subject, setSubject] = useState('');
+  const [courseId, setCourseId] = useState('');
   const [difficulty, setDifficulty] = useState('medium');
   const [numQuestions, setNumQuestions] = useState(5);
   const [loading, setLoading] = useState(false);
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [selectedAnswers, setSelectedAnswers] = useState<number[]>([]);
   const [showResults, setShowResults] = useState(false);
-  const [hydrated, setHydrated] = useState(false);
-
-  // Load quiz state from localStorage on mount
-  useEffect(() => {
+  const [submitting, setSubmitting] = useState(false);
+  const [currentAttempt, setCurrentAttempt] = useState<QuizAttempt | null>(null);
+  const [history, setHistory] = useState<Quiz[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [source, setSource] = useState<'topic' | 'notes'>('topic');
+  const [notes, setNotes] = useState<NoteSummary[]>([]);
+  const [notesLoaded, setNotesLoaded] = useState(false);
+  const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
+
+  const fetchHistory = useCallback(async () => {
     try {
-      const saved = localStorage.getItem(QUIZ_STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (parsed.quiz) {
-          setQuiz(parsed.quiz);
-          setSelectedAnswers(parsed.selectedAnswers || []);
-          setShowResults(parsed.showResults || false);
-          setPrompt(parsed.prompt || '');
-          setSubject(parsed.subject || '');
-          setDifficulty(parsed.difficulty || 'medium');
-          setNumQuestions(parsed.numQuestions || 5);
-        }
+      const { data } = await axios.get('/api/quizzes');
+      setHistory(data.quizzes || []);
+    } catch (error: any) {
+      if (error?.response?.status === 401) {
+        router.push('/login');
+        return;
       }
-    } catch (error) {
-      console.error('Error loading quiz from localStorage:', error);
+      console.error('Error fetching quiz history:', error);
     } finally {
-      setHydrated(true);
+      setHistoryLoading(false);
     }
-  }, []);
+  }, [router]);
+
+  // Load saved quizzes from the server
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
 
-  // Save quiz state to localStorage whenever it changes
+  // Load the note picker the first time the student switches to notes mode
   useEffect(() => {
-    if (!hydrated) return; // Don't save on initial mount
-    
+    if (source === 'notes' && !notesLoaded) {
+      fetchNotes();
+    }
+  }, [source, notesLoaded]);
+
+  const fetchNotes = async () => {
     try {
-      const stateToSave = {
-        quiz,
-        selectedAnswers,
-        showResults,
-        prompt,
-        subject,
-        difficulty,
-        numQuestions,
-      };
-      localStorage.setItem(QUIZ_STORAGE_KEY, JSON.stringify(stateToSave));
+      const { data } = await axios.get('/api/notes');
+      setNotes((data.notes || []).map((n: NoteSummary) => ({ id: n.id, title: n.title })));
     } catch (error) {
-      console.error('Error saving quiz to localStorage:', error);
+      console.error('Error fetching notes:', error);
+      toast.error('Failed to load your notes');
+    } finally {
+      setNotesLoaded(true);
     }
-  }, [quiz, selectedAnswers, showResults, prompt, subject, difficulty, numQuestions, hydrated]);
+  };
+
+  const toggleNote = (noteId: string) => {
+    setSelectedNoteIds((prev) =>
+      prev.includes(noteId) ? prev.filter((id) => id !== noteId) : [...prev, noteId]
+    );
+  };
+
+  const canGenerate =
+    source === 'notes' ? selectedNoteIds.length > 0 : prompt.trim().length > 0 && !!subject;
+
+  const startQuiz = (nextQuiz: Quiz) => {
+    setQuiz(nextQuiz);
+    setSelectedAnswers(new Array(nextQuiz.questions.length).fill(-1));
+    setShowResults(false);
+    setCurrentAttempt(null);
+  };
 
   const handleGenerateQuiz = async () => {
-    if (!prompt.trim()) {
+    if (source === 'notes' && selectedNoteIds.length === 0) {
+      toast.error('Please select at least one note');
+      return;
+    }
+
+    if (source === 'topic' && !prompt.trim()) {
       toast.error('Please describe what you want the quiz to cover');
       return;
     }
 
-    if (!subject) {
+    if (source === 'topic' && !subject) {
       toast.error('Please select a subject');
       return;
     }
@@ -144,35 +158,19 @@ export default function QuizPage() {
     try {
       const { data } = await axios.post('/api/ai/quiz', {
         prompt: prompt.trim(),
-        subject,
+        subject: subject || undefined,
         difficulty,
         numQuestions,
+        noteIds: source === 'notes' ? selectedNoteIds : undefined,
+        courseId: courseId || null,
       });
 
       if (!data?.quiz) {
         throw new Error('Empty quiz response');
       }
 
-      const newAnswers = new Array(data.quiz.questions.length).fill(-1);
-      setQuiz(data.quiz);
-      setSelectedAnswers(newAnswers);
-      
-      // Save to localStorage immediately
-      try {
-        const stateToSave = {
-          quiz: data.quiz,
-          selectedAnswers: newAnswers,
-          showResults: false,
-          prompt: prompt.trim(),
-          subject,
-          difficulty,
-          numQuestions,
-        };
-        localStorage.setItem(QUIZ_STORAGE_KEY, JSON.stringify(stateToSave));
-      } catch (error) {
-        console.error('Error saving new quiz to localStorage:', error);
-      }
-      
+      startQuiz(data.quiz);
+      setHistory((prev) => [data.quiz, ...prev]);
       toast.success('Quiz generated successfully!');
     } catch (error: any) {
       console.error('Quiz generation error', error);
@@ -187,47 +185,57 @@ export default function QuizPage() {
     const newAnswers = [...selectedAnswers];
     newAnswers[questionIndex] = answerIndex;
     setSelectedAnswers(newAnswers);
-    // Save to localStorage immediately
-    try {
-      const saved = localStorage.getItem(QUIZ_STORAGE_KEY);
-      if (saved && quiz) {
-        const parsed = JSON.parse(saved);
-        parsed.selectedAnswers = newAnswers;
-        localStorage.setItem(QUIZ_STORAGE_KEY, JSON.stringify(parsed));
-      }
-    } catch (error) {
-      console.error('Error saving answers to localStorage:', error);
-    }
   };
 
-  const handleSubmitQuiz = () => {
+  const handleSubmitQuiz = async () => {
+    if (!quiz) return;
     if (selectedAnswers.some(answer => answer === -1)) {
       toast.error('Please answer all questions before submitting');
       return;
     }
-    setShowResults(true);
-    // Save to localStorage immediately
+
+    setSubmitting(true);
     try {
-      const saved = localStorage.getItem(QUIZ_STORAGE_KEY);
-      if (saved && quiz) {
-        const parsed = JSON.parse(saved);
-        parsed.showResults = true;
-        localStorage.setItem(QUIZ_STORAGE_KEY, JSON.stringify(parsed));
+      const { data } = await axios.post(`/api/quizzes/${quiz.id}/attempts`, {
+        answers: selectedAnswers,
+      });
+      const attempt: QuizAttempt = data.attempt;
+      const updatedQuiz: Quiz = {
+        ...quiz,
+        attempts: [attempt, ...quiz.attempts],
+        attemptCount: quiz.attemptCount + 1,
+        bestPercentage: Math.max(quiz.bestPercentage ?? 0, attempt.percentage),
+        latestAttempt: attempt,
+      };
+
+      setQuiz(updatedQuiz);
+      setHistory((prev) => prev.map((q) => (q.id === updatedQuiz.id ? updatedQuiz : q)));
+      setCurrentAttempt(attempt);
+      setShowResults(true);
+      if (data.flashcardsAdded > 0) {
+        toast.success(
+          `${data.flashcardsAdded} missed question${data.flashcardsAdded === 1 ? '' : 's'} added to your flashcards`
+        );
       }
-    } catch (error) {
-      console.error('Error saving results to localStorage:', error);
+    } catch (error: any) {
+      console.error('Quiz submission error', error);
+      toast.error(error?.response?.data?.error || 'Failed to submit quiz');
+    } finally {
+      setSubmitting(false);
     }
   };
 
-  const calculateScore = () => {
-    if (!quiz) return 0;
-    let correct = 0;
-    quiz.questions.forEach((q, index) => {
-      if (selectedAnswers[index] === q.correctAnswer) {
-        correct++;
-      }
-    });
-    return correct;
+  const handleDeleteQuiz = async (quizId: string) => {
+    if (!confirm('Delete this quiz and all of its attempts?')) return;
+
+    try {
+      await axios.delete(`/api/quizzes/${quizId}`);
+      setHistory((prev) => prev.filter((q) => q.id !== quizId));
+      toast.success('Quiz deleted');
+    } catch (error: any) {
+      console.error('Quiz delete error', error);
+      toast.error(error?.response?.data?.error || 'Failed to delete quiz');
+    }
   };
 
   const resetQuiz = () => {
@@ -238,12 +246,8 @@ export default function QuizPage() {
     setNumQuestions(5);
     setSelectedAnswers([]);
     setShowResults(false);
-    // Clear localStorage
-    try {
-      localStorage.removeItem(QUIZ_STORAGE_KEY);
-    } catch (error) {
-      console.error('Error clearing localStorage:', error);
-    }
+    setCurrentAttempt(null);
+    setSelectedNoteIds([]);
   };
 
   return (
@@ -278,9 +282,70 @@ export default function QuizPage() {
               </div>
 
               <div className="space-y-6">
+                {/* Quiz Source */}
+                <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-xl">
+                  {([
+                    { value: 'topic', label: 'Any Topic' },
+                    { value: 'notes', label: 'From My Notes' },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setSource(option.value)}
+                      className={`px-4 py-2.5 rounded-lg text-sm font-semibold transition-all ${
+                        source === option.value
+                          ? 'bg-white text-blue-700 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {source === 'notes' && (
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2.5">
+                      Notes <span className="text-red-500">*</span>
+                    </label>
+                    {!notesLoaded ? (
+                      <p className="text-sm text-gray-500">Loading your notes...</p>
+                    ) : notes.length === 0 ? (
+                      <p className="text-sm text-gray-500">
+                        You have no notes yet.{' '}
+                        <Link href="/notes" className="text-blue-600 font-semibold hover:underline">
+                          Create one
+                        </Link>{' '}
+                        to quiz yourself on it.
+                      </p>
+                    ) : (
+                      <div className="max-h-64 overflow-y-auto space-y-2 p-3 border-2 border-gray-200 rounded-xl bg-gray-50/50">
+                        {notes.map((note) => (
+                          <label
+                            key={note.id}
+                            className={`flex items-center gap-3 px-4 py-2.5 rounded-lg cursor-pointer transition-all ${
+                              selectedNoteIds.includes(note.id)
+                                ? 'bg-blue-50 border border-blue-300'
+                                : 'bg-white border border-gray-200 hover:border-blue-300'
+                            }`}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedNoteIds.includes(note.id)}
+                              onChange={() => toggleNote(note.id)}
+                              className="w-4 h-4 text-blue-600 rounded"
+                            />
+                            <span className="text-sm font-medium text-gray-900 truncate">{note.title}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2.5">
-                    Subject <span className="text-red-500">*</span>
+                    Subject {source === 'topic' && <span className="text-red-500">*</span>}
                   </label>
                   <select
                     value={subject}
@@ -296,15 +361,29 @@ export default function QuizPage() {
                   </select>
                 </div>
 
+                <CourseSelect
+                  mode="assign"
+                  label="Course (optional)"
+                  labelClassName="block text-sm font-semibold text-gray-700 mb-2.5"
+                  value={courseId}
+                  onChange={setCourseId}
+                  className="w-full px-5 py-3.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 bg-gray-50/50 transition-all hover:border-gray-300"
+                />
+
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2.5">
-                    Topic Description <span className="text-red-500">*</span>
+                    {source === 'notes' ? 'Focus (optional)' : 'Topic Description'}{' '}
+                    {source === 'topic' && <span className="text-red-500">*</span>}
                   </label>
                   <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
                     rows={4}
-                    placeholder="e.g. Basic calculus derivatives, Quantum mechanics fundamentals, Organic chemistry reactions..."
+                    placeholder={
+                      source === 'notes'
+                        ? 'e.g. Only the reaction mechanisms, skip the history section...'
+                        : 'e.g. Basic calculus derivatives, Quantum mechanics fundamentals, Organic chemistry reactions...'
+                    }
                     className="w-full px-5 py-3.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400 resize-none bg-gray-50/50 transition-all hover:border-gray-300"
                   />
                 </div>
@@ -347,7 +426,7 @@ export default function QuizPage() {
 
                 <button
                   onClick={handleGenerateQuiz}
-                  disabled={loading || !prompt.trim() || !subject}
+                  disabled={loading || !canGenerate}
                   className="w-full px-6 py-3.5 bg-blue-600 text-white rounded-xl text-sm font-bold shadow-md hover:bg-blue-700 hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {loading ? (
@@ -364,6 +443,55 @@ export default function QuizPage() {
                 </button>
               </div>
             </div>
+
+              {/* Quiz History */}
+              <div className="mt-8 bg-white rounded-2xl shadow-lg border border-gray-200 p-6 sm:p-8">
+                <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4">Your Quiz History</h2>
+                {historyLoading ? (
+                  <p className="text-sm text-gray-500">Loading quizzes...</p>
+                ) : history.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No quizzes yet. Generate one above and it will be saved here.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {history.map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-xl border-2 border-gray-200 hover:border-blue-300 transition-all"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xs font-bold text-blue-700 uppercase tracking-wider">{item.subject}</span>
+                            <span className="text-xs text-gray-400">•</span>
+                            <span className="text-xs text-gray-500 capitalize">{item.difficulty}</span>
+                          </div>
+                          <p className="font-semibold text-gray-900 truncate">{item.title}</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {item.questions.length} questions · {item.attemptCount} attempt{item.attemptCount === 1 ? '' : 's'}
+                            {item.latestAttempt && ` · last ${item.latestAttempt.percentage}%`}
+                            {item.bestPercentage !== null && ` · best ${item.bestPercentage}%`}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => startQuiz(item)}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-all"
+                          >
+                            {item.attemptCount > 0 ? 'Retake' : 'Start'}
+                          </button>
+                          <button
+                            onClick={() => handleDeleteQuiz(item.id)}
+                            className="px-4 py-2 border-2 border-gray-200 text-gray-600 rounded-lg text-sm font-semibold hover:bg-red-50 hover:border-red-200 hover:text-red-600 transition-all"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </>
           ) : (
             <>
@@ -381,15 +509,15 @@ export default function QuizPage() {
                       <p className="text-base text-gray-700 leading-relaxed">{quiz.description}</p>
                     )}
                   </div>
-                  {showResults && (
+                  {showResults && currentAttempt && (
                     <div className="flex-shrink-0">
                       <div className="bg-blue-600 rounded-xl p-5 text-center text-white shadow-md">
                         <p className="text-xs font-bold uppercase tracking-wider mb-2">Score</p>
                         <p className="text-4xl font-extrabold mb-1">
-                          {calculateScore()}/{quiz.questions.length}
+                          {currentAttempt.score}/{currentAttempt.total}
                         </p>
                         <p className="text-base font-semibold">
-                          {Math.round((calculateScore() / quiz.questions.length) * 100)}%
+                          {currentAttempt.percentage}%
                         </p>
                       </div>
                     </div>
@@ -403,13 +531,39 @@ export default function QuizPage() {
                     </p>
                     <button
                       onClick={handleSubmitQuiz}
-                      disabled={selectedAnswers.some(answer => answer === -1)}
+                      disabled={submitting || selectedAnswers.some(answer => answer === -1)}
                       className="px-6 py-3 bg-blue-600 text-white rounded-xl text-sm font-bold shadow-md hover:bg-blue-700 hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      Submit Quiz
+                      {submitting ? 'Submitting...' : 'Submit Quiz'}
                     </button>
                   </div>
                 )}
+
+                {/* Attempt history for comparing scores */}
+                {quiz.attempts.length > 0 && (
+                  <div className="pt-4 mt-4 border-t-2 border-gray-300">
+                    <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">
+                      Previous Attempts
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {quiz.attempts.map((attempt) => (
+                        <div
+                          key={attempt.id}
+                          className={`px-3 py-2 rounded-lg border text-sm ${
+                            attempt.id === currentAttempt?.id
+                              ? 'bg-blue-50 border-blue-300 text-blue-800'
+                              : 'bg-gray-50 border-gray-200 text-gray-700'
+                          }`}
+                        >
+                          <span className="font-bold">{attempt.score}/{attempt.total}</span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            {new Date(attempt.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Questions */}
@@ -502,6 +656,16 @@ export default function QuizPage() {
                           <p className="text-sm text-gray-800 leading-relaxed">{question.explanation}</p>
                         </div>
                       )}
+
+                      {showResults && !isCorrect && question.sourceNoteId && (
+                        <Link
+                          href={`/notes?note=${question.sourceNoteId}`}
+                          className="mt-4 ml-14 inline-flex items-center gap-2 text-sm font-semibold text-blue-600 hover:text-blue-700 hover:underline"
+                        >
+                          <span>🗒️</span>
+                          Review your note{question.sourceNoteTitle ? `: ${question.sourceNoteTitle}` : ''}
+                        </Link>
+                      )}
                     </div>
                   );
                 })}
@@ -517,10 +681,7 @@ export default function QuizPage() {
                 </button>
                 {showResults && (
                 <button
-                  onClick={() => {
-                    setShowResults(false);
-                    setSelectedAnswers(new Array(quiz.questions.length).fill(-1));
-                  }}
+                  onClick={() => startQuiz(quiz)}
                   className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-xl text-sm font-bold shadow-md hover:bg-blue-700 hover:shadow-lg transition-all"
                 >
                   Retake Quiz
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import axios from 'axios';
+
+export default function ResetPasswordPage() {
+  const params = useParams();
+  const router = useRouter();
+  const token = params.token as string;
+  const [status, setStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const checkToken = async () => {
+      try {
+        const { data } = await axios.get('/api/auth/reset-password', { params: { token } });
+        setStatus(data.valid ? 'valid' : 'invalid');
+      } catch {
+        setStatus('invalid');
+      }
+    };
+
+    checkToken();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      toast.error('Password must be at least 6 characters long');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data } = await axios.post('/api/auth/reset-password', { token, password });
+
+      if (data.success) {
+        toast.success('Password reset! Sign in with your new password.');
+        router.push('/login');
+      }
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.error || 'Failed to reset password';
+      toast.error(errorMessage);
+      if (error.response?.data?.error?.startsWith('Reset link')) {
+        setStatus('invalid');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white px-4 py-12">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-2xl p-6 sm:p-8 border border-gray-100">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-2xl mb-4 shadow-lg">
+              <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            </div>
+            <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">Choose a New Password</h2>
+            <p className="text-gray-600 text-sm sm:text-base">
+              You&apos;ll be signed out on all devices after the reset
+            </p>
+          </div>
+
+          {status === 'checking' ? (
+            <p className="text-center text-gray-600">Checking your reset link...</p>
+          ) : status === 'invalid' ? (
+            <div className="space-y-6">
+              <div className="bg-red-50 border-2 border-red-200 rounded-xl p-6 text-center">
+                <h3 className="text-lg font-semibold text-red-900 mb-2">Link Expired</h3>
+                <p className="text-sm text-red-700">
+                  This reset link is invalid, has expired or was already used. Request a new one to continue.
+                </p>
+              </div>
+
+              <Link
+                href="/forgot-password"
+                className="block w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all text-center shadow-lg hover:shadow-xl"
+              >
+                Request a New Link
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
+                  placeholder="Enter new password (min 6 characters)"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 placeholder:text-gray-400"
+                  placeholder="Confirm new password"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+              >
+                {loading ? 'Resetting...' : 'Reset Password'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link
+              href="/login"
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              ← Back to Sign In
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,18 +4,23 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import axios from 'axios';
+import { isRole, ROLE_LABELS } from '@/lib/permissions';
+import type {
+  DeviceSession,
+  NotificationPreferences,
+  SessionUser,
+  TwoFactorStatus,
+  UpdateNotificationPreferencesInput,
+} from '@/lib/schemas';
 import DashboardNav from '@/components/DashboardNav';
+import TwoFactorEnrollment from '@/components/TwoFactorEnrollment';
+import RecoveryCodes from '@/components/RecoveryCodes';
 
-interface User {
-  id: string;
-  email: string;
-  name: string | null;
-  role: string;
-}
+type DigestFrequency = NotificationPreferences['digestFrequency'];
 
 export default function SettingsPage() {
   const router = useRouter();
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [resettingPassword, setResettingPassword] = useState(false);
   const [currentPassword, setCurrentPassword] = useState('');
@@ -23,6 +28,19 @@ export default function SettingsPage() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [changingPassword, setChangingPassword] = useState(false);
   const [showPasswordForm, setShowPasswordForm] = useState(false);
+  const [preferences, setPreferences] = useState<Required<UpdateNotificationPreferencesInput>>({
+    digestFrequency: 'NEVER',
+    digestAnswers: true,
+    digestDeadlines: true,
+  });
+  const [savingPreferences, setSavingPreferences] = useState(false);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorBusy, setTwoFactorBusy] = useState(false);
 
   useEffect(() => {
     fetchUser();
@@ -33,6 +51,9 @@ export default function SettingsPage() {
       const { data } = await axios.get('/api/auth/me');
       if (data.user) {
         setUser(data.user);
+        fetchPreferences();
+        fetchSessions();
+        fetchTwoFactor();
       } else {
         router.push('/login');
       }
@@ -43,10 +64,146 @@ export default function SettingsPage() {
     }
   };
 
+  const fetchPreferences = async () => {
+    try {
+      const { data } = await axios.get('/api/notifications/preferences');
+      setPreferences({
+        digestFrequency: data.preferences.digestFrequency,
+        digestAnswers: data.preferences.digestAnswers,
+        digestDeadlines: data.preferences.digestDeadlines,
+      });
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    }
+  };
+
+  const handleSavePreferences = async () => {
+    setSavingPreferences(true);
+    try {
+      await axios.put('/api/notifications/preferences', preferences);
+      toast.success('Email preferences saved');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save email preferences');
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  const fetchSessions = async () => {
+    try {
+      const { data } = await axios.get('/api/auth/sessions');
+      setSessions(data.sessions);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    }
+  };
+
+  const handleRevokeSession = async (session: DeviceSession) => {
+    setRevokingSessionId(session.id);
+    try {
+      await axios.delete(`/api/auth/sessions/${session.id}`);
+      if (session.current) {
+        router.push('/login');
+        return;
+      }
+
+      setSessions((current) => current.filter((s) => s.id !== session.id));
+      toast.success(`Logged out ${session.device}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to log out device');
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!window.confirm('Log out of every device, including this one?')) {
+      return;
+    }
+
+    try {
+      await axios.delete('/api/auth/sessions');
+      router.push('/login');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to log out everywhere');
+    }
+  };
+
+  const fetchTwoFactor = async () => {
+    try {
+      const { data } = await axios.get('/api/auth/two-factor');
+      setTwoFactor(data);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  };
+
+  const handleStartTwoFactor = async () => {
+    setTwoFactorBusy(true);
+    try {
+      const { data } = await axios.post('/api/auth/two-factor');
+      setEnrollment({ secret: data.secret, qrCodeDataUrl: data.qrCodeDataUrl });
+      setRecoveryCodes([]);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start two-factor setup');
+    } finally {
+      setTwoFactorBusy(false);
+    }
+  };
+
+  const handleConfirmTwoFactor = async (code: string) => {
+    setTwoFactorBusy(true);
+    try {
+      const { data } = await axios.post('/api/auth/two-factor/confirm', { code });
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      toast.success('Two-factor authentication is on');
+      fetchTwoFactor();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to turn on two-factor authentication');
+    } finally {
+      setTwoFactorBusy(false);
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    setTwoFactorBusy(true);
+    try {
+      const { data } = await axios.post('/api/auth/two-factor/recovery-codes', { code: twoFactorCode });
+      setRecoveryCodes(data.recoveryCodes);
+      setTwoFactorCode('');
+      toast.success('New recovery codes generated');
+      fetchTwoFactor();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to generate recovery codes');
+    } finally {
+      setTwoFactorBusy(false);
+    }
+  };
+
+  const handleDisableTwoFactor = async () => {
+    if (!window.confirm('Turn off two-factor authentication? Your recovery codes will stop working.')) {
+      return;
+    }
+
+    setTwoFactorBusy(true);
+    try {
+      await axios.post('/api/auth/two-factor/disable', { code: twoFactorCode });
+      setTwoFactorCode('');
+      setRecoveryCodes([]);
+      toast.success('Two-factor authentication is off');
+      fetchTwoFactor();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to turn off two-factor authentication');
+    } finally {
+      setTwoFactorBusy(false);
+    }
+  };
+
   const handleResetPassword = async () => {
     if (!user) return;
 
-    if (!window.confirm('Are you sure you want to reset your password? A new password will be sent to your email.')) {
+    if (!window.confirm('Send a password reset link to your email? Resetting signs you out on every device.')) {
       return;
     }
 
@@ -57,7 +214,7 @@ export default function SettingsPage() {
       });
 
       if (data.success) {
-        toast.success('Password reset email sent! Check your inbox.');
+        toast.success('Password reset link sent! Check your inbox.');
       }
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to send password reset email');
@@ -97,6 +254,7 @@ export default function SettingsPage() {
         setNewPassword('');
         setConfirmPassword('');
         setShowPasswordForm(false);
+        fetchSessions();
       }
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to change password');
@@ -146,21 +304,207 @@ export default function SettingsPage() {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
                 <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${
-                  user.role === 'ADMIN'
-                    ? 'bg-purple-100 text-purple-800'
-                    : 'bg-blue-100 text-blue-800'
+                  user.role === 'STUDENT'
+                    ? 'bg-blue-100 text-blue-800'
+                    : 'bg-purple-100 text-purple-800'
                 }`}>
-                  {user.role}
+                  {isRole(user.role) ? ROLE_LABELS[user.role] : user.role}
                 </span>
               </div>
             </div>
           </div>
 
+          {/* Email Notifications */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Email Notifications</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Get a summary of new answers to your questions and upcoming task deadlines by email.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="digestFrequency" className="block text-sm font-medium text-gray-700 mb-2">
+                  Digest frequency
+                </label>
+                <select
+                  id="digestFrequency"
+                  value={preferences.digestFrequency}
+                  onChange={(e) => setPreferences({ ...preferences, digestFrequency: e.target.value as DigestFrequency })}
+                  className="w-full sm:w-64 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 bg-white"
+                >
+                  <option value="NEVER">Never</option>
+                  <option value="DAILY">Daily</option>
+                  <option value="WEEKLY">Weekly</option>
+                </select>
+              </div>
+              <label className="flex items-center gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences.digestAnswers}
+                  disabled={preferences.digestFrequency === 'NEVER'}
+                  onChange={(e) => setPreferences({ ...preferences, digestAnswers: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                />
+                New answers to my questions
+              </label>
+              <label className="flex items-center gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences.digestDeadlines}
+                  disabled={preferences.digestFrequency === 'NEVER'}
+                  onChange={(e) => setPreferences({ ...preferences, digestDeadlines: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                />
+                Upcoming task deadlines
+              </label>
+              <button
+                onClick={handleSavePreferences}
+                disabled={savingPreferences}
+                className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+              >
+                {savingPreferences ? 'Saving...' : 'Save Preferences'}
+              </button>
+            </div>
+          </div>
+
+          {/* Active Sessions */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Active Sessions</h2>
+                <p className="text-sm text-gray-600 mt-1">Devices signed in to your account</p>
+              </div>
+              {sessions.length > 0 && (
+                <button
+                  onClick={handleRevokeAllSessions}
+                  className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700 transition-colors"
+                >
+                  Log out everywhere
+                </button>
+              )}
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {sessions.map((session) => (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {session.device}
+                      {session.current && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                      Last active {new Date(session.lastSeenAt).toLocaleString()} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={revokingSessionId === session.id}
+                    className="flex-shrink-0 px-3 py-1.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    {revokingSessionId === session.id ? 'Logging out...' : 'Log out'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Two-Factor Authentication */}
+          {twoFactor && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">Two-Factor Authentication</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Ask for a code from your authenticator app when signing in
+                    {twoFactor.required && ' (required for your role)'}
+                  </p>
+                </div>
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold ${
+                    twoFactor.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {twoFactor.enabled ? 'On' : 'Off'}
+                </span>
+              </div>
+
+              <div className="space-y-4">
+                {recoveryCodes.length > 0 && <RecoveryCodes codes={recoveryCodes} />}
+
+                {!twoFactor.enabled && !enrollment && (
+                  <button
+                    onClick={handleStartTwoFactor}
+                    disabled={twoFactorBusy}
+                    className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    Set up two-factor authentication
+                  </button>
+                )}
+
+                {enrollment && (
+                  <>
+                    <TwoFactorEnrollment
+                      secret={enrollment.secret}
+                      qrCodeDataUrl={enrollment.qrCodeDataUrl}
+                      submitting={twoFactorBusy}
+                      onConfirm={handleConfirmTwoFactor}
+                    />
+                    <button
+                      onClick={() => setEnrollment(null)}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                )}
+
+                {twoFactor.enabled && (
+                  <div>
+                    <p className="text-sm text-gray-600 mb-3">
+                      {twoFactor.recoveryCodesRemaining} recovery code{twoFactor.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                      Enter a current code to make new recovery codes
+                      {twoFactor.required ? '.' : ' or turn two-factor authentication off.'}
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <input
+                        type="text"
+                        autoComplete="one-time-code"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        placeholder="Authenticator or recovery code"
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400"
+                      />
+                      <button
+                        onClick={handleRegenerateRecoveryCodes}
+                        disabled={twoFactorBusy || !twoFactorCode.trim()}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                      >
+                        New recovery codes
+                      </button>
+                      {!twoFactor.required && (
+                        <button
+                          onClick={handleDisableTwoFactor}
+                          disabled={twoFactorBusy || !twoFactorCode.trim()}
+                          className="px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                        >
+                          Turn off
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Password Reset via Email */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h2 className="text-xl font-bold text-gray-900 mb-2">Reset Password via Email</h2>
             <p className="text-sm text-gray-600 mb-4">
-              We'll send a new password to your email address. You can change it after logging in.
+              We'll email you a link to choose a new password. The link expires in an hour.
             </p>
             <button
               onClick={handleResetPassword}
@@ -186,7 +530,7 @@ export default function SettingsPage() {
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h2 className="text-xl font-bold text-gray-900">Change Password</h2>
-                <p className="text-sm text-gray-600 mt-1">Update your password using your current password</p>
+                <p className="text-sm text-gray-600 mt-1">Update your password using your current password. Other devices will be logged out.</p>
               </div>
               <button
                 onClick={() => setShowPasswordForm(!showPasswordForm)}
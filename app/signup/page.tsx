@@ -35,7 +35,7 @@ export default function SignupPage() {
         return;
       }
 
-      toast.success('Account created successfully!');
+      toast.success('Account created! Check your inbox to verify your email.');
       // Redirect to student dashboard
       router.push('/dashboard');
       router.refresh();
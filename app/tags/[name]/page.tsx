@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import axios from 'axios';
+import DashboardNav from '@/components/DashboardNav';
+import QuestionModal from '@/components/QuestionModal';
+import type { Question, Tag } from '@/lib/schemas';
+
+export default function TagPage() {
+  const params = useParams<{ name: string }>();
+  const name = decodeURIComponent(params.name);
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [sort, setSort] = useState('newest');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(null);
+
+  const fetchTag = useCallback(async () => {
+    try {
+      const { data } = await axios.get(`/api/tags/${encodeURIComponent(name)}`);
+      setTag(data.tag);
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        setNotFound(true);
+      } else {
+        toast.error('Failed to load tag');
+      }
+    }
+  }, [name]);
+
+  useEffect(() => {
+    fetchTag();
+  }, [fetchTag]);
+
+  const fetchQuestions = useCallback(async (cursor: string | null = null) => {
+    if (cursor) setLoadingMore(true);
+    try {
+      const { data } = await axios.get('/api/questions', {
+        params: { tag: name, sort, ...(cursor && { cursor }) },
+      });
+      setQuestions((prev) => (cursor ? [...prev, ...data.questions] : data.questions));
+      setNextCursor(data.nextCursor);
+    } catch {
+      toast.error('Failed to load questions');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [name, sort]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardNav />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12">
+        <Link href="/tags" className="text-sm text-blue-600 hover:underline">
+          ← All tags
+        </Link>
+
+        {notFound ? (
+          <div className="mt-6 text-gray-600">There is no tag called “{name}”.</div>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mt-4 mb-6 sm:mb-8">
+              <div>
+                <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-900 mb-2">#{name}</h1>
+                {tag?.description && <p className="text-gray-600 mb-1">{tag.description}</p>}
+                {tag && (
+                  <p className="text-sm text-gray-500">
+                    {tag.questionCount} question{tag.questionCount === 1 ? '' : 's'}
+                  </p>
+                )}
+              </div>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value)}
+                className="px-4 py-2 border-2 border-gray-200 rounded-xl bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="newest">Newest</option>
+                <option value="votes">Most votes</option>
+                <option value="answers">Most answers</option>
+              </select>
+            </div>
+
+            {loading ? (
+              <div className="text-gray-600">Loading questions...</div>
+            ) : questions.length === 0 ? (
+              <div className="text-gray-500">No questions with this tag yet</div>
+            ) : (
+              <div className="space-y-3">
+                {questions.map((question) => (
+                  <button
+                    key={question.id}
+                    onClick={() => setSelectedQuestion(question)}
+                    className="w-full p-4 sm:p-5 text-left bg-white rounded-xl border-2 border-gray-200 hover:border-blue-400 transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-2">{question.title}</h2>
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                          <span className="px-2.5 py-1 bg-blue-600 text-white rounded-full font-semibold">
+                            {question.type}
+                          </span>
+                          {question.tags?.map((t) => (
+                            <span
+                              key={t}
+                              className={`px-2.5 py-1 rounded-full font-medium ${
+                                t === name ? 'bg-blue-100 text-blue-800' : 'bg-blue-50 text-blue-700'
+                              }`}
+                            >
+                              #{t}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex-shrink-0 text-right text-sm text-gray-500">
+                        <div className="font-semibold text-gray-700">
+                          {question.voteScore ?? 0} vote{(question.voteScore ?? 0) === 1 ? '' : 's'}
+                        </div>
+                        {question.hasAcceptedAnswer ? (
+                          <div className="text-green-700">✓ Accepted</div>
+                        ) : (
+                          <div>
+                            {question.answerCount ?? 0} answer{question.answerCount === 1 ? '' : 's'}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+                {nextCursor && (
+                  <div className="text-center pt-2">
+                    <button
+                      onClick={() => fetchQuestions(nextCursor)}
+                      disabled={loadingMore}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      {loadingMore ? 'Loading...' : 'Load more'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <QuestionModal
+        question={selectedQuestion}
+        isOpen={!!selectedQuestion}
+        onClose={() => setSelectedQuestion(null)}
+        onOpenQuestion={setSelectedQuestion}
+        onUpdate={(updated) =>
+          setQuestions((prev) => prev.map((q) => (q.id === updated.id ? { ...q, ...updated } : q)))
+        }
+      />
+    </div>
+  );
+}
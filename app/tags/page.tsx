@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import axios from 'axios';
+import DashboardNav from '@/components/DashboardNav';
+import type { Tag } from '@/lib/schemas';
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  const fetchTags = async () => {
+    try {
+      const { data } = await axios.get('/api/tags');
+      setTags(data.tags || []);
+    } catch {
+      toast.error('Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shownTags = tags.filter((tag) => tag.name.includes(filter.trim().toLowerCase().replace(/\s+/g, '-')));
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardNav />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12">
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-gray-900 mb-2">Tags</h1>
+          <p className="text-sm sm:text-base md:text-lg text-gray-600">Browse community questions by topic</p>
+        </div>
+
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter tags..."
+          className="w-full sm:w-80 mb-6 px-4 py-2.5 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+
+        {loading ? (
+          <div className="text-gray-600">Loading tags...</div>
+        ) : shownTags.length === 0 ? (
+          <div className="text-gray-500">{tags.length === 0 ? 'No tags yet' : 'No tags match'}</div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {shownTags.map((tag) => (
+              <Link
+                key={tag.id}
+                href={`/tags/${encodeURIComponent(tag.name)}`}
+                className="p-4 bg-white rounded-xl border-2 border-gray-200 hover:border-blue-400 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="px-2.5 py-1 bg-blue-50 text-blue-700 rounded-full text-sm font-medium">
+                    #{tag.name}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    {tag.questionCount} question{tag.questionCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {tag.description && <p className="mt-2 text-sm text-gray-600 line-clamp-2">{tag.description}</p>}
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,16 +7,8 @@ import axios from 'axios';
 import DashboardNav from '@/components/DashboardNav';
 import RichTextEditor from '@/components/RichTextEditor';
 import CustomDatePicker from '@/components/DatePicker';
-
-interface Task {
-  id: string;
-  title: string;
-  content: string;
-  completed: boolean;
-  deadline: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+import CourseSelect from '@/components/CourseSelect';
+import { createTaskBody, Task, updateTaskBody } from '@/lib/schemas';
 
 type TabType = 'all' | 'overdue' | 'completed' | 'pending';
 
@@ -33,11 +25,13 @@ export default function TasksPage() {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [deadline, setDeadline] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [courseFilter, setCourseFilter] = useState('');
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     fetchTasks();
-  }, []);
+  }, [courseFilter]);
 
   useEffect(() => {
     const tab = searchParams.get('tab');
@@ -48,7 +42,9 @@ export default function TasksPage() {
 
   const fetchTasks = async () => {
     try {
-      const { data } = await axios.get('/api/tasks');
+      const { data } = await axios.get('/api/tasks', {
+        params: courseFilter ? { course: courseFilter } : {},
+      });
       setTasks(data.tasks || []);
     } catch (error: any) {
       if (error.response?.status === 401) {
@@ -65,6 +61,7 @@ export default function TasksPage() {
     setTitle('');
     setContent('');
     setDeadline('');
+    setCourseId('');
     setShowModal(true);
   };
 
@@ -73,23 +70,28 @@ export default function TasksPage() {
     setTitle(task.title);
     setContent(task.content);
     setDeadline(task.deadline ? new Date(task.deadline).toISOString().slice(0, 16) : '');
+    setCourseId(task.course?.id || '');
     setShowModal(true);
   };
 
   const handleSave = async () => {
-    if (!title.trim()) {
-      toast.error('Title is required');
+    const payload = {
+      title: title.trim(),
+      content: content || '',
+      deadline: deadline || null,
+      courseId: courseId || null,
+    };
+
+    // Same rules as the API, so the message matches what the server would answer
+    const check = (editingTask ? updateTaskBody : createTaskBody).safeParse(payload);
+    if (!check.success) {
+      toast.error(check.error.issues[0].message);
       return;
     }
 
     setSaving(true);
     try {
       const url = editingTask ? `/api/tasks/${editingTask.id}` : '/api/tasks';
-      const payload = {
-        title: title.trim(),
-        content: content || '',
-        deadline: deadline || null,
-      };
 
       if (editingTask) {
         await axios.put(url, payload);
@@ -188,7 +190,7 @@ export default function TasksPage() {
         </div>
 
         {/* Tabs */}
-        <div className="mb-4 sm:mb-6 border-b border-gray-200 overflow-x-auto">
+        <div className="mb-4 sm:mb-6 border-b border-gray-200 overflow-x-auto flex items-center justify-between gap-4">
           <nav className="flex space-x-4 sm:space-x-8 min-w-max sm:min-w-0">
             {[
               { id: 'all' as TabType, label: 'All' },
@@ -212,6 +214,11 @@ export default function TasksPage() {
               </button>
             ))}
           </nav>
+          <CourseSelect
+            value={courseFilter}
+            onChange={setCourseFilter}
+            className="mb-2 px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
         </div>
 
         {/* Tasks List */}
@@ -261,6 +268,14 @@ export default function TasksPage() {
                       >
                         {task.title}
                       </h3>
+                      {task.course && (
+                        <span
+                          className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs font-semibold flex-shrink-0"
+                          title={task.course.name}
+                        >
+                          {task.course.code}
+                        </span>
+                      )}
                     </div>
                     <div className="flex gap-1 flex-shrink-0">
                       <button
@@ -386,6 +401,13 @@ export default function TasksPage() {
                     placeholder="Select deadline date and time"
                   />
                 </div>
+                <CourseSelect
+                  mode="assign"
+                  label="Course (Optional)"
+                  value={courseId}
+                  onChange={setCourseId}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-gray-900 bg-white"
+                />
                 <div>
                   <label className="block text-sm font-semibold text-gray-900 mb-2">
                     Content
@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import axios from 'axios';
+
+export default function VerifyEmailPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        await axios.post('/api/auth/verify-email', { token });
+        setStatus('verified');
+      } catch (error: any) {
+        setMessage(error.response?.data?.error || 'Failed to verify your email');
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white px-4 py-12">
+      <div className="max-w-md w-full">
+        <div className="bg-white rounded-2xl shadow-2xl p-6 sm:p-8 border border-gray-100 text-center">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-2xl mb-4 shadow-lg">
+            <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+          </div>
+
+          {status === 'verifying' && (
+            <>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">Verifying...</h2>
+              <p className="text-gray-600">Confirming your email address</p>
+            </>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">Email Verified</h2>
+              <p className="text-gray-600 mb-6">You can now post questions and share notes.</p>
+              <Link
+                href="/dashboard"
+                className="block w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all text-center shadow-lg hover:shadow-xl"
+              >
+                Go to Dashboard
+              </Link>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">Verification Failed</h2>
+              <p className="text-gray-600 mb-6">
+                {message}. Sign in and use the banner at the top of the page to get a new link.
+              </p>
+              <Link
+                href="/login"
+                className="block w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3.5 rounded-xl font-semibold hover:from-blue-700 hover:to-indigo-700 transition-all text-center shadow-lg hover:shadow-xl"
+              >
+                Go to Login
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import axios from 'axios';
+import type { Comment, MentionableUser } from '@/lib/schemas';
+
+interface CommentThreadProps {
+  comments: Comment[];
+  postUrl: string;
+  canComment: boolean;
+  canDelete: boolean;
+  onAdded: (comment: Comment) => void;
+  onDeleted: (id: string) => void;
+}
+
+// Render @handles in a comment body as highlighted chips
+const renderBody = (body: string) =>
+  body.split(/(@[A-Za-z0-9._-]+)/g).map((part, index) =>
+    part.startsWith('@') ? (
+      <span key={index} className="text-blue-600 font-medium">
+        {part}
+      </span>
+    ) : (
+      part
+    )
+  );
+
+function CommentInput({
+  placeholder,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [suggestions, setSuggestions] = useState<MentionableUser[]>([]);
+
+  const mentionQuery = body.match(/@([A-Za-z0-9._-]*)$/)?.[1] ?? null;
+
+  useEffect(() => {
+    if (!mentionQuery) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const { data } = await axios.get('/api/users/mentions', { params: { q: mentionQuery } });
+        setSuggestions(data.users || []);
+      } catch {
+        setSuggestions([]);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [mentionQuery]);
+
+  const insertMention = (handle: string) => {
+    setBody(body.replace(/@([A-Za-z0-9._-]*)$/, `@${handle} `));
+    setSuggestions([]);
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="relative mt-2">
+      <div className="flex gap-2">
+        <input
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+            if (e.key === 'Escape' && onCancel) onCancel();
+          }}
+          placeholder={placeholder}
+          maxLength={1000}
+          className="flex-1 px-3 py-1.5 text-sm border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !body.trim()}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Posting...' : 'Post'}
+        </button>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => insertMention(s.handle)}
+              className="w-full px-3 py-2 text-left text-sm hover:bg-blue-50"
+            >
+              <span className="font-medium text-gray-900">@{s.handle}</span>
+              {s.name && <span className="ml-2 text-gray-500">{s.name}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CommentThread({
+  comments,
+  postUrl,
+  canComment,
+  canDelete,
+  onAdded,
+  onDeleted,
+}: CommentThreadProps) {
+  const [showInput, setShowInput] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+
+  const topLevel = comments.filter((c) => !c.parentId);
+  const repliesTo = (id: string) => comments.filter((c) => c.parentId === id);
+
+  const postComment = async (body: string, parentId: string | null) => {
+    try {
+      const { data } = await axios.post(postUrl, { body, parentId });
+      onAdded(data.comment);
+      setShowInput(false);
+      setReplyTo(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to post comment');
+      throw error;
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this comment and its replies?')) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/comments/${id}`);
+      onDeleted(id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete comment');
+    }
+  };
+
+  const renderComment = (comment: Comment) => (
+    <div className="group flex items-start gap-2 py-1.5 text-sm text-gray-700">
+      <p className="flex-1 min-w-0 break-words">
+        {renderBody(comment.body)}
+        <span className="ml-2 text-xs text-gray-500">
+          – {comment.user.name || comment.user.email.split('@')[0]},{' '}
+          {new Date(comment.createdAt).toLocaleDateString()}
+        </span>
+        {canComment && !comment.parentId && (
+          <button
+            onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+            className="ml-2 text-xs text-blue-600 hover:underline"
+          >
+            reply
+          </button>
+        )}
+      </p>
+      {canDelete && (
+        <button
+          onClick={() => handleDelete(comment.id)}
+          className="opacity-0 group-hover:opacity-100 text-xs text-red-600 hover:underline transition-opacity"
+        >
+          delete
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-2">
+      {topLevel.map((comment) => (
+        <div key={comment.id}>
+          {renderComment(comment)}
+          <div className="ml-6 border-l-2 border-gray-100 pl-3">
+            {repliesTo(comment.id).map((reply) => (
+              <div key={reply.id}>{renderComment(reply)}</div>
+            ))}
+            {replyTo === comment.id && (
+              <CommentInput
+                placeholder="Write a reply... use @ to mention someone"
+                onSubmit={(body) => postComment(body, comment.id)}
+                onCancel={() => setReplyTo(null)}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      {canComment &&
+        (showInput ? (
+          <CommentInput
+            placeholder="Add a comment... use @ to mention someone"
+            onSubmit={(body) => postComment(body, null)}
+            onCancel={() => setShowInput(false)}
+          />
+        ) : (
+          <button
+            onClick={() => setShowInput(true)}
+            className="mt-1 text-xs text-gray-500 hover:text-blue-600"
+          >
+            Add a comment
+          </button>
+        ))}
+    </div>
+  );
+}
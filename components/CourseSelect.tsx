@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import type { Course } from '@/lib/schemas';
+
+interface CourseSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  // filter: "All courses" / "My courses" then each course; assign: "No course" then each course
+  mode?: 'filter' | 'assign';
+  className?: string;
+  // Rendered above the select, so forms hide the whole field when there are no courses
+  label?: string;
+  labelClassName?: string;
+}
+
+export default function CourseSelect({
+  value,
+  onChange,
+  mode = 'filter',
+  className,
+  label,
+  labelClassName = 'block text-sm font-semibold text-gray-900 mb-2',
+}: CourseSelectProps) {
+  const [courses, setCourses] = useState<Course[]>([]);
+
+  useEffect(() => {
+    axios
+      .get('/api/courses')
+      .then(({ data }) => setCourses(data.courses || []))
+      .catch(() => setCourses([]));
+  }, []);
+
+  // Signed out, or not enrolled anywhere: there is nothing to choose from
+  if (courses.length === 0) return null;
+
+  const select = (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={
+        className ||
+        'px-3 py-2 border-2 border-gray-200 rounded-xl bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none'
+      }
+    >
+      {mode === 'filter' ? (
+        <>
+          <option value="">All courses</option>
+          <option value="mine">My courses</option>
+        </>
+      ) : (
+        <option value="">No course</option>
+      )}
+      {courses.map((course) => (
+        <option key={course.id} value={course.id}>
+          {course.code} – {course.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  if (!label) return select;
+
+  return (
+    <div>
+      <label className={labelClassName}>{label}</label>
+      {select}
+    </div>
+  );
+}
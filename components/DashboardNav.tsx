@@ -4,6 +4,8 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState, useRef, useEffect } from 'react';
 import LogoutButton from './LogoutButton';
+import NotificationBell from './NotificationBell';
+import VerifyEmailBanner from './VerifyEmailBanner';
 
 export default function DashboardNav() {
   const pathname = usePathname();
@@ -18,8 +20,10 @@ export default function DashboardNav() {
         { href: '/tasks', label: 'Tasks', icon: '✓' },
         { href: '/questions', label: 'Community', icon: '❓' },
         { href: '/my-questions', label: 'My Questions', icon: '📝' },
+        { href: '/tags', label: 'Tags', icon: '🏷️' },
         { href: '/notes', label: 'Notes', icon: '🗒️' },
         { href: '/quiz', label: 'Quiz', icon: '📝' },
+        { href: '/flashcards', label: 'Flashcards', icon: '🃏' },
         { href: '/settings', label: 'Settings', icon: '⚙️' },
       ];
 
@@ -48,7 +52,10 @@ export default function DashboardNav() {
             <Link href="/dashboard" className="text-2xl font-bold text-gray-900">
               Ragra Prep
             </Link>
-            <LogoutButton />
+            <div className="flex items-center gap-2 sm:gap-4">
+              <NotificationBell />
+              <LogoutButton />
+            </div>
           </div>
         </div>
       </nav>
@@ -128,6 +135,8 @@ export default function DashboardNav() {
           </div>
 
           <div className="flex items-center gap-2 sm:gap-4">
+            <NotificationBell />
+
             {/* Mobile Menu Button */}
             <button
               onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
@@ -183,6 +192,7 @@ export default function DashboardNav() {
           </div>
         )}
       </div>
+      <VerifyEmailBanner />
     </nav>
   );
 }
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import type { Notification as NotificationItem } from '@/lib/schemas';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const typeIcons: Record<NotificationItem['type'], string> = {
+  ANSWER: '💬',
+  COMMENT: '🗨️',
+  MENTION: '@',
+  TASK_DEADLINE: '⏰',
+  NOTE_UPDATED: '🗒️',
+};
+
+const formatAge = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+export default function NotificationBell() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchUnreadCount = async () => {
+    try {
+      const { data } = await axios.get('/api/notifications/unread-count');
+      setUnreadCount(data.unreadCount);
+    } catch {
+      // The badge is best effort; the next poll tries again
+    }
+  };
+
+  // Poll the unread count while the page is open
+  useEffect(() => {
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const toggle = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+
+    setIsOpen(true);
+    setLoading(true);
+    try {
+      const { data } = await axios.get('/api/notifications');
+      setNotifications(data.notifications);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const { data } = await axios.patch('/api/notifications', ids ? { ids } : {});
+      setUnreadCount(data.unreadCount);
+      setNotifications((current) =>
+        current.map((n) => (!ids || ids.includes(n.id) ? { ...n, read: true } : n))
+      );
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const openNotification = async (notification: NotificationItem) => {
+    if (!notification.read) {
+      await markRead([notification.id]);
+    }
+
+    if (notification.link) {
+      setIsOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={toggle}
+        className="relative p-2 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-600 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 sm:w-96 bg-white rounded-xl shadow-xl border border-gray-200 z-50 animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="text-xs font-medium text-blue-600 hover:text-blue-700"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">You&apos;re all caught up</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={`w-full flex items-start gap-3 px-4 py-3 text-left border-b border-gray-100 last:border-b-0 transition-colors ${
+                    notification.read ? 'hover:bg-gray-50' : 'bg-blue-50 hover:bg-blue-100'
+                  }`}
+                >
+                  <span className="text-lg leading-5 w-5 text-center flex-shrink-0">{typeIcons[notification.type]}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className={`block text-sm ${notification.read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                      {notification.title}
+                    </span>
+                    {notification.body && (
+                      <span className="block text-xs text-gray-500 truncate mt-0.5">{notification.body}</span>
+                    )}
+                    <span className="block text-xs text-gray-400 mt-1">{formatAge(notification.createdAt)}</span>
+                  </span>
+                  {!notification.read && <span className="w-2 h-2 mt-1.5 bg-blue-600 rounded-full flex-shrink-0" />}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,55 +1,91 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Image from 'next/image';
 import { toast } from 'sonner';
 import axios from 'axios';
+import { can } from '@/lib/permissions';
+import type { Answer, AnswerRevision, Comment, Question, QuestionRevision, SimilarQuestion } from '@/lib/schemas';
 import RichTextEditor from './RichTextEditor';
+import CommentThread from './CommentThread';
+import TagInput from './TagInput';
 
-interface Question {
-  id: string;
-  title: string;
-  type: string;
-  description: string;
-  images: string[];
-  userId: string | null;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-  } | null;
-}
-
-interface Answer {
-  id: string;
-  description: string;
-  images: string[];
-  userId: string;
-  createdAt: string;
-  user: {
-    id: string;
-    name: string | null;
-    email: string;
-  };
-}
+// Answers come with the viewer's own vote
+type ListedAnswer = Answer & { myVote?: number };
 
 interface QuestionModalProps {
   question: Question | null;
   isOpen: boolean;
   onClose: () => void;
   onDelete?: (id: string) => void;
+  onUpdate?: (question: Question) => void;
+  // Opens a related question in place; without it related questions link to /questions
+  onOpenQuestion?: (question: Question) => void;
   canDelete?: boolean;
 }
 
+const wasEdited = (item: { createdAt: string; updatedAt?: string }) =>
+  !!item.updatedAt && new Date(item.updatedAt).getTime() - new Date(item.createdAt).getTime() > 1000;
+
+// Accepted answer first, then highest score; ties keep posting order
+const sortAnswers = (list: ListedAnswer[]) =>
+  [...list].sort(
+    (a, b) =>
+      Number(!!b.isAccepted) - Number(!!a.isAccepted) || (b.voteScore ?? 0) - (a.voteScore ?? 0)
+  );
+
+function VoteControls({
+  score,
+  myVote,
+  onVote,
+  disabled,
+}: {
+  score: number;
+  myVote: number;
+  onVote: (value: number) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-0.5">
+      <button
+        onClick={() => onVote(myVote === 1 ? 0 : 1)}
+        disabled={disabled}
+        className={`p-1 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+          myVote === 1 ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-blue-600 hover:bg-gray-100'
+        }`}
+        title="Upvote"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <span className="text-sm font-bold text-gray-900">{score}</span>
+      <button
+        onClick={() => onVote(myVote === -1 ? 0 : -1)}
+        disabled={disabled}
+        className={`p-1 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+          myVote === -1 ? 'text-red-600 bg-red-50' : 'text-gray-400 hover:text-red-600 hover:bg-gray-100'
+        }`}
+        title="Downvote"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
 export default function QuestionModal({
   question,
   isOpen,
   onClose,
   onDelete,
+  onUpdate,
+  onOpenQuestion,
   canDelete = false,
 }: QuestionModalProps) {
-  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [answers, setAnswers] = useState<ListedAnswer[]>([]);
   const [loading, setLoading] = useState(false);
   const [showAnswerForm, setShowAnswerForm] = useState(false);
   const [answerDescription, setAnswerDescription] = useState('');
@@ -57,15 +93,34 @@ export default function QuestionModal({
   const [answerImageFiles, setAnswerImageFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [currentUserRole, setCurrentUserRole] = useState<string | null>(null);
   const [deletingAnswerId, setDeletingAnswerId] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [editedQuestion, setEditedQuestion] = useState<Question | null>(null);
+  const [editingQuestion, setEditingQuestion] = useState(false);
+  const [editTitle, setEditTitle] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editingAnswerId, setEditingAnswerId] = useState<string | null>(null);
+  const [editAnswerDescription, setEditAnswerDescription] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<(QuestionRevision | AnswerRevision)[]>([]);
+  const [questionVote, setQuestionVote] = useState({ score: 0, myVote: 0 });
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [related, setRelated] = useState<SimilarQuestion[]>([]);
+  const contentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (isOpen) {
       document.body.style.overflow = 'hidden';
       if (question) {
+        setQuestionVote({ score: question.voteScore ?? 0, myVote: 0 });
         fetchAnswers();
+        fetchComments();
+        fetchRelated();
         fetchCurrentUser();
+        fetchQuestionVote();
       }
     } else {
       document.body.style.overflow = 'unset';
@@ -74,7 +129,14 @@ export default function QuestionModal({
       setAnswerImages([]);
       setAnswerImageFiles([]);
       setAnswers([]);
-      setIsAdmin(false);
+      setComments([]);
+      setRelated([]);
+      setCurrentUserRole(null);
+      setCurrentUserId(null);
+      setEditedQuestion(null);
+      setEditingQuestion(false);
+      setEditingAnswerId(null);
+      setHistoryFor(null);
     }
     return () => {
       document.body.style.overflow = 'unset';
@@ -84,12 +146,23 @@ export default function QuestionModal({
   const fetchCurrentUser = async () => {
     try {
       const { data } = await axios.get('/api/auth/me');
-      if (data.user && data.user.role === 'ADMIN') {
-        setIsAdmin(true);
+      if (data.user) {
+        setCurrentUserId(data.user.id);
+        setCurrentUserRole(data.user.role);
       }
     } catch (error) {
-      // User not logged in or not admin
-      setIsAdmin(false);
+      // User not logged in
+      setCurrentUserRole(null);
+    }
+  };
+
+  const fetchQuestionVote = async () => {
+    if (!question) return;
+    try {
+      const { data } = await axios.get(`/api/questions/${question.id}`);
+      setQuestionVote({ score: data.question.voteScore ?? 0, myVote: data.question.myVote ?? 0 });
+    } catch {
+      // Keep the score from the listing
     }
   };
 
@@ -98,7 +171,7 @@ export default function QuestionModal({
     setLoading(true);
     try {
       const { data } = await axios.get(`/api/questions/${question.id}/answers`);
-      setAnswers(data.answers || []);
+      setAnswers(sortAnswers(data.answers || []));
     } catch (error) {
       toast.error('Failed to load answers');
     } finally {
@@ -106,6 +179,41 @@ export default function QuestionModal({
     }
   };
 
+  const fetchComments = async () => {
+    if (!question) return;
+    try {
+      const { data } = await axios.get(`/api/questions/${question.id}/comments`);
+      setComments(data.comments || []);
+    } catch {
+      // Comments are secondary; the question and answers still show
+    }
+  };
+
+  const fetchRelated = async () => {
+    if (!question) return;
+    try {
+      const { data } = await axios.get(`/api/questions/${question.id}/related`);
+      setRelated(data.related || []);
+    } catch {
+      // Related questions are optional
+      setRelated([]);
+    }
+  };
+
+  const openRelated = (relatedQuestion: SimilarQuestion) => {
+    setEditingQuestion(false);
+    setEditingAnswerId(null);
+    setHistoryFor(null);
+    setShowAnswerForm(false);
+    contentRef.current?.scrollTo({ top: 0 });
+    onOpenQuestion?.(relatedQuestion);
+  };
+
+  const addComment = (comment: Comment) => setComments((prev) => [...prev, comment]);
+
+  const removeComment = (id: string) =>
+    setComments((prev) => prev.filter((c) => c.id !== id && c.parentId !== id));
+
   const handleAnswerImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
@@ -192,7 +300,166 @@ export default function QuestionModal({
     }
   };
 
-  if (!isOpen || !question) return null;
+  // Shows the saved edit until the parent passes in a fresh question
+  const shownQuestion = editedQuestion && editedQuestion.id === question?.id ? editedQuestion : question;
+  const currentUser = currentUserId && currentUserRole ? { id: currentUserId, role: currentUserRole } : null;
+  const canEditQuestion = !!shownQuestion && can(currentUser, 'question:edit', shownQuestion);
+
+  const startEditQuestion = () => {
+    if (!shownQuestion) return;
+    setEditTitle(shownQuestion.title);
+    setEditDescription(shownQuestion.description);
+    setEditTags(shownQuestion.tags || []);
+    setEditingQuestion(true);
+  };
+
+  const handleSaveQuestion = async () => {
+    if (!shownQuestion || !editTitle.trim() || !getPlainText(editDescription)) {
+      toast.error('Title and description are required');
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      const { data } = await axios.put(`/api/questions/${shownQuestion.id}`, {
+        title: editTitle.trim(),
+        description: editDescription.trim(),
+      });
+      const updated: Question = { ...shownQuestion, ...data.question };
+      if (editTags.join() !== (shownQuestion.tags || []).join()) {
+        const { data: tagData } = await axios.put(`/api/questions/${shownQuestion.id}/tags`, { tags: editTags });
+        updated.tags = tagData.tags;
+      }
+      setEditedQuestion(updated);
+      setEditingQuestion(false);
+      if (historyFor === updated.id) setHistoryFor(null);
+      onUpdate?.(updated);
+      toast.success('Question updated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update question');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const startEditAnswer = (answer: ListedAnswer) => {
+    setEditingAnswerId(answer.id);
+    setEditAnswerDescription(answer.description);
+  };
+
+  const handleSaveAnswer = async (answerId: string) => {
+    if (!getPlainText(editAnswerDescription)) {
+      toast.error('Please provide an answer description');
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      const { data } = await axios.put(`/api/answers/${answerId}`, {
+        description: editAnswerDescription.trim(),
+      });
+      setAnswers(answers.map((a) => (a.id === answerId ? { ...a, ...data.answer } : a)));
+      setEditingAnswerId(null);
+      if (historyFor === answerId) setHistoryFor(null);
+      toast.success('Answer updated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update answer');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleQuestionVote = async (value: number) => {
+    if (!shownQuestion) return;
+    if (!currentUserId) {
+      toast.error('Please log in to vote');
+      return;
+    }
+
+    try {
+      const { data } = await axios.post(`/api/questions/${shownQuestion.id}/vote`, { value });
+      setQuestionVote({ score: data.voteScore, myVote: data.myVote });
+      onUpdate?.({ ...shownQuestion, voteScore: data.voteScore });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to record vote');
+    }
+  };
+
+  const handleAnswerVote = async (answerId: string, value: number) => {
+    if (!currentUserId) {
+      toast.error('Please log in to vote');
+      return;
+    }
+
+    try {
+      const { data } = await axios.post(`/api/answers/${answerId}/vote`, { value });
+      setAnswers((prev) =>
+        sortAnswers(
+          prev.map((a) => (a.id === answerId ? { ...a, voteScore: data.voteScore, myVote: data.myVote } : a))
+        )
+      );
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to record vote');
+    }
+  };
+
+  const handleToggleAccepted = async (answer: ListedAnswer) => {
+    try {
+      if (answer.isAccepted) {
+        await axios.delete(`/api/answers/${answer.id}/accept`);
+      } else {
+        await axios.post(`/api/answers/${answer.id}/accept`);
+      }
+      setAnswers((prev) =>
+        sortAnswers(
+          // At most one answer is accepted, so every other answer ends up unaccepted
+          prev.map((a) => ({ ...a, isAccepted: a.id === answer.id ? !answer.isAccepted : false }))
+        )
+      );
+      toast.success(answer.isAccepted ? 'Answer unaccepted' : 'Answer accepted');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update accepted answer');
+    }
+  };
+
+  const toggleHistory = async (kind: 'questions' | 'answers', id: string) => {
+    if (historyFor === id) {
+      setHistoryFor(null);
+      return;
+    }
+
+    try {
+      const { data } = await axios.get(`/api/${kind}/${id}/revisions`);
+      setRevisions(data.revisions || []);
+      setHistoryFor(id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to load edit history');
+    }
+  };
+
+  const renderHistory = () => (
+    <div className="mt-3 space-y-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
+      {revisions.length === 0 ? (
+        <p className="text-xs text-gray-500">No earlier versions.</p>
+      ) : (
+        revisions.map((revision) => (
+          <div key={revision.id} className="text-sm border-b border-gray-200 last:border-0 pb-3 last:pb-0">
+            <p className="text-xs text-gray-500 mb-1">
+              Replaced {new Date(revision.createdAt).toLocaleString()}
+              {revision.editedByName && ` by ${revision.editedByName}`}
+            </p>
+            {'title' in revision && <p className="font-semibold text-gray-900">{revision.title}</p>}
+            <div
+              className="prose prose-sm max-w-none text-gray-600"
+              dangerouslySetInnerHTML={{ __html: revision.description }}
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  if (!isOpen || !question || !shownQuestion) return null;
 
   return (
     <div
@@ -204,28 +471,73 @@ export default function QuestionModal({
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
-        <div className="flex items-start justify-between p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-white">
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-white">
+          <VoteControls
+            score={questionVote.score}
+            myVote={questionVote.myVote}
+            onVote={handleQuestionVote}
+            disabled={!!currentUserId && shownQuestion.userId === currentUserId}
+          />
           <div className="flex-1">
             <div className="flex items-center gap-3 mb-3">
               <span className="px-4 py-1.5 bg-blue-600 text-white rounded-full text-sm font-semibold">
-                {question.type}
+                {shownQuestion.type}
               </span>
               <span className="text-sm text-gray-500 flex items-center gap-1">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                 </svg>
-                {question.user ? (question.user.name || question.user.email.split('@')[0]) : 'Deleted User'}
+                {shownQuestion.user ? (shownQuestion.user.name || shownQuestion.user.email.split('@')[0]) : 'Deleted User'}
               </span>
             </div>
-            <h2 className="text-2xl md:text-3xl font-bold text-gray-900 pr-8">
-              {question.title}
-            </h2>
+            {editingQuestion ? (
+              <input
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                className="w-full px-3 py-2 text-xl font-bold text-gray-900 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            ) : (
+              <h2 className="text-2xl md:text-3xl font-bold text-gray-900 pr-8">
+                {shownQuestion.title}
+              </h2>
+            )}
+            {editingQuestion ? (
+              <div className="mt-3">
+                <TagInput tags={editTags} onChange={setEditTags} />
+              </div>
+            ) : (
+              shownQuestion.tags &&
+              shownQuestion.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {shownQuestion.tags.map((tag) => (
+                    <a
+                      key={tag}
+                      href={`/tags/${encodeURIComponent(tag)}`}
+                      className="px-2.5 py-1 bg-blue-50 text-blue-700 rounded-full text-xs font-medium hover:bg-blue-100 transition-colors"
+                    >
+                      #{tag}
+                    </a>
+                  ))}
+                </div>
+              )
+            )}
           </div>
           <div className="flex gap-2">
+            {canEditQuestion && !editingQuestion && (
+              <button
+                onClick={startEditQuestion}
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Edit"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+            )}
             {canDelete && onDelete && (
               <button
                 onClick={() => {
-                  onDelete(question.id);
+                  onDelete(shownQuestion.id);
                   onClose();
                 }}
                 className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -249,22 +561,47 @@ export default function QuestionModal({
         </div>
 
         {/* Content */}
-        <div className="flex-1 overflow-y-auto p-6">
+        <div ref={contentRef} className="flex-1 overflow-y-auto p-6">
           <div className="mb-6">
             <h3 className="text-sm font-semibold text-gray-700 mb-2">Description</h3>
-            <div
-              className="prose prose-blue max-w-none text-gray-700 leading-relaxed prose-headings:text-gray-900 prose-p:text-gray-700 prose-strong:text-gray-900"
-              dangerouslySetInnerHTML={{ __html: question.description }}
-            />
+            {editingQuestion ? (
+              <>
+                <RichTextEditor
+                  content={editDescription}
+                  onChange={setEditDescription}
+                  placeholder="Describe your question..."
+                />
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={handleSaveQuestion}
+                    disabled={savingEdit}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {savingEdit ? 'Saving...' : 'Save Changes'}
+                  </button>
+                  <button
+                    onClick={() => setEditingQuestion(false)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div
+                className="prose prose-blue max-w-none text-gray-700 leading-relaxed prose-headings:text-gray-900 prose-p:text-gray-700 prose-strong:text-gray-900"
+                dangerouslySetInnerHTML={{ __html: shownQuestion.description }}
+              />
+            )}
           </div>
 
-          {question.images.length > 0 && (
+          {shownQuestion.images.length > 0 && (
             <div className="mb-6">
               <h3 className="text-sm font-semibold text-gray-700 mb-4">
-                Images ({question.images.length})
+                Images ({shownQuestion.images.length})
               </h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {question.images.map((url, index) => (
+                {shownQuestion.images.map((url, index) => (
                   <div
                     key={index}
                     className="relative aspect-video rounded-xl overflow-hidden border-2 border-gray-200 hover:border-blue-400 transition-colors group"
@@ -288,7 +625,7 @@ export default function QuestionModal({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
               <span>
-                Posted {new Date(question.createdAt).toLocaleDateString('en-US', {
+                Posted {new Date(shownQuestion.createdAt).toLocaleDateString('en-US', {
                   year: 'numeric',
                   month: 'long',
                   day: 'numeric',
@@ -296,8 +633,70 @@ export default function QuestionModal({
                   minute: '2-digit',
                 })}
               </span>
+              {wasEdited(shownQuestion) && (
+                <button
+                  onClick={() => toggleHistory('questions', shownQuestion.id)}
+                  className="text-blue-600 hover:underline"
+                >
+                  · edited
+                </button>
+              )}
             </div>
+            {historyFor === shownQuestion.id && renderHistory()}
+            <CommentThread
+              comments={comments.filter((c) => c.questionId === shownQuestion.id)}
+              postUrl={`/api/questions/${shownQuestion.id}/comments`}
+              canComment={!!currentUserId}
+              canDelete={can(currentUser, 'comment:delete')}
+              onAdded={addComment}
+              onDeleted={removeComment}
+            />
           </div>
+
+          {/* Related Questions */}
+          {related.length > 0 && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">Related questions</h3>
+              <ul className="space-y-2">
+                {related.map((item) => {
+                  const content = (
+                    <>
+                      <span className="min-w-0">
+                        <span className="block font-medium text-gray-900 truncate">{item.title}</span>
+                        <span className="text-xs text-gray-500">
+                          {item.type} ·{' '}
+                          {item.hasAcceptedAnswer
+                            ? 'has an accepted answer'
+                            : `${item.answerCount ?? 0} answer${item.answerCount === 1 ? '' : 's'}`}
+                        </span>
+                      </span>
+                      {item.hasAcceptedAnswer && (
+                        <span className="flex-shrink-0 px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+                          Solved
+                        </span>
+                      )}
+                    </>
+                  );
+                  const className =
+                    'w-full flex items-center justify-between gap-3 p-3 text-left bg-white rounded-lg border border-gray-200 hover:border-blue-400 transition-colors';
+
+                  return (
+                    <li key={item.id}>
+                      {onOpenQuestion ? (
+                        <button onClick={() => openRelated(item)} className={className}>
+                          {content}
+                        </button>
+                      ) : (
+                        <a href={`/questions?question=${item.id}`} className={className}>
+                          {content}
+                        </a>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Answers Section */}
@@ -386,62 +785,148 @@ export default function QuestionModal({
               </div>
             ) : (
               answers.map((answer) => (
-                <div key={answer.id} className="bg-white rounded-lg p-4 border border-gray-200">
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center gap-2">
-                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                        <span className="text-blue-600 font-semibold text-sm">
-                          {(answer.user.name || answer.user.email.split('@')[0])[0].toUpperCase()}
-                        </span>
+                <div
+                  key={answer.id}
+                  className={`flex gap-4 bg-white rounded-lg p-4 border ${
+                    answer.isAccepted ? 'border-green-400 ring-1 ring-green-200' : 'border-gray-200'
+                  }`}
+                >
+                  <VoteControls
+                    score={answer.voteScore ?? 0}
+                    myVote={answer.myVote ?? 0}
+                    onVote={(value) => handleAnswerVote(answer.id, value)}
+                    disabled={answer.userId === currentUserId}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                          <span className="text-blue-600 font-semibold text-sm">
+                            {(answer.user.name || answer.user.email.split('@')[0])[0].toUpperCase()}
+                          </span>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {answer.user.name || answer.user.email.split('@')[0]}
+                            {answer.isAccepted && (
+                              <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+                                ✓ Accepted
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(answer.createdAt).toLocaleDateString()}
+                            {wasEdited(answer) && (
+                              <button
+                                onClick={() => toggleHistory('answers', answer.id)}
+                                className="ml-1 text-blue-600 hover:underline"
+                              >
+                                · edited
+                              </button>
+                            )}
+                          </p>
+                        </div>
                       </div>
-                      <div>
-                        <p className="text-sm font-medium text-gray-900">
-                          {answer.user.name || answer.user.email.split('@')[0]}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {new Date(answer.createdAt).toLocaleDateString()}
-                        </p>
+                      <div className="flex gap-1">
+                        {canEditQuestion && (
+                          <button
+                            onClick={() => handleToggleAccepted(answer)}
+                            className={`p-2 rounded-lg transition-colors ${
+                              answer.isAccepted ? 'text-green-600 bg-green-50' : 'text-gray-400 hover:text-green-600 hover:bg-green-50'
+                            }`}
+                            title={answer.isAccepted ? 'Unaccept answer' : 'Accept answer'}
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                          </button>
+                        )}
+                        {can(currentUser, 'answer:edit', answer) && editingAnswerId !== answer.id && (
+                          <button
+                            onClick={() => startEditAnswer(answer)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit answer"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                          </button>
+                        )}
+                        {can(currentUser, 'answer:delete') && (
+                          <button
+                            onClick={() => handleDeleteAnswer(answer.id)}
+                            disabled={deletingAnswerId === answer.id}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Delete answer"
+                          >
+                            {deletingAnswerId === answer.id ? (
+                              <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                              </svg>
+                            ) : (
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            )}
+                          </button>
+                        )}
                       </div>
                     </div>
-                    {isAdmin && (
-                      <button
-                        onClick={() => handleDeleteAnswer(answer.id)}
-                        disabled={deletingAnswerId === answer.id}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                        title="Delete answer"
-                      >
-                        {deletingAnswerId === answer.id ? (
-                          <svg className="animate-spin h-5 w-5" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                          </svg>
-                        ) : (
-                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        )}
-                      </button>
+                    {editingAnswerId === answer.id ? (
+                      <div className="mb-3">
+                        <RichTextEditor
+                          content={editAnswerDescription}
+                          onChange={setEditAnswerDescription}
+                          placeholder="Write your answer..."
+                        />
+                        <div className="flex gap-2 mt-3">
+                          <button
+                            onClick={() => handleSaveAnswer(answer.id)}
+                            disabled={savingEdit}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            {savingEdit ? 'Saving...' : 'Save'}
+                          </button>
+                          <button
+                            onClick={() => setEditingAnswerId(null)}
+                            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div
+                        className="text-gray-700 prose prose-sm max-w-none prose-p:text-gray-700 prose-strong:text-gray-900 mb-3"
+                        dangerouslySetInnerHTML={{ __html: answer.description }}
+                      />
                     )}
+                    {historyFor === answer.id && renderHistory()}
+                    {answer.images.length > 0 && (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-3">
+                        {answer.images.map((url, index) => (
+                          <div key={index} className="relative aspect-video rounded-lg overflow-hidden border border-gray-200">
+                            <Image
+                              src={url}
+                              alt={`Answer image ${index + 1}`}
+                              width={200}
+                              height={150}
+                              className="w-full h-full object-cover"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <CommentThread
+                      comments={comments.filter((c) => c.answerId === answer.id)}
+                      postUrl={`/api/answers/${answer.id}/comments`}
+                      canComment={!!currentUserId}
+                      canDelete={can(currentUser, 'comment:delete')}
+                      onAdded={addComment}
+                      onDeleted={removeComment}
+                    />
                   </div>
-                  <div
-                    className="text-gray-700 prose prose-sm max-w-none prose-p:text-gray-700 prose-strong:text-gray-900 mb-3"
-                    dangerouslySetInnerHTML={{ __html: answer.description }}
-                  />
-                  {answer.images.length > 0 && (
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-3">
-                      {answer.images.map((url, index) => (
-                        <div key={index} className="relative aspect-video rounded-lg overflow-hidden border border-gray-200">
-                          <Image
-                            src={url}
-                            alt={`Answer image ${index + 1}`}
-                            width={200}
-                            height={150}
-                            className="w-full h-full object-cover"
-                          />
-                        </div>
-                      ))}
-                    </div>
-                  )}
                 </div>
               ))
             )}
@@ -0,0 +1,37 @@
+'use client';
+
+import { toast } from 'sonner';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy; select the codes instead');
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <p className="text-sm font-medium text-amber-900">Save your recovery codes</p>
+      <p className="text-xs text-amber-800 mt-1 mb-3">
+        Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 mb-3">
+        {codes.map((code) => (
+          <li key={code} className="font-mono text-sm text-gray-900 bg-white rounded px-2 py-1 border border-amber-200">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <button onClick={handleCopy} type="button" className="text-sm font-medium text-amber-900 hover:text-amber-700">
+        Copy codes
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import type { Tag } from '@/lib/schemas';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  maxTags?: number;
+  // Extra names offered as one-click chips, e.g. AI suggestions
+  suggestions?: string[];
+}
+
+// Same normalisation as the server: lowercase, words joined by hyphens
+const normalizeTag = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+export default function TagInput({ tags, onChange, maxTags = 5, suggestions = [] }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [matches, setMatches] = useState<Tag[]>([]);
+
+  const query = normalizeTag(input);
+
+  useEffect(() => {
+    if (!query) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const { data } = await axios.get('/api/tags', { params: { q: query } });
+        setMatches(data.tags || []);
+      } catch {
+        setMatches([]);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const addTag = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !tags.includes(tag) && tags.length < maxTags) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+    setMatches([]);
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter((t) => t !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (query) addTag(query);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const openSuggestions = suggestions.filter((s) => !tags.includes(s));
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-xl focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500 transition-all">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2.5 py-1 bg-blue-50 text-blue-700 rounded-full text-sm font-medium"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-blue-400 hover:text-blue-700"
+              title={`Remove ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {tags.length < maxTags && (
+          <input
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              if (!normalizeTag(e.target.value)) setMatches([]);
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setTimeout(() => setMatches([]), 150)}
+            placeholder={tags.length === 0 ? 'Add up to 5 tags, e.g. linear-algebra' : ''}
+            className="flex-1 min-w-[10rem] py-1 outline-none text-gray-900 placeholder:text-gray-400"
+          />
+        )}
+      </div>
+
+      {matches.length > 0 && (
+        <div className="absolute z-10 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+          {matches.map((match) => (
+            <button
+              key={match.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(match.name)}
+              className="w-full flex justify-between px-3 py-2 text-left text-sm hover:bg-blue-50"
+            >
+              <span className="font-medium text-gray-900">{match.name}</span>
+              <span className="text-gray-500">{match.questionCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {openSuggestions.length > 0 && tags.length < maxTags && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+          <span className="text-gray-500">Suggested:</span>
+          {openSuggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => addTag(suggestion)}
+              className="px-2.5 py-1 border border-dashed border-blue-300 text-blue-700 rounded-full hover:bg-blue-50 transition-colors"
+            >
+              + {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+
+interface TwoFactorEnrollmentProps {
+  secret: string;
+  qrCodeDataUrl: string;
+  submitting: boolean;
+  onConfirm: (code: string) => void;
+}
+
+export default function TwoFactorEnrollment({ secret, qrCodeDataUrl, submitting, onConfirm }: TwoFactorEnrollmentProps) {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(code);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the
+        6-digit code it shows.
+      </p>
+      <div className="flex flex-col sm:flex-row items-center gap-4">
+        <Image
+          src={qrCodeDataUrl}
+          alt="Two-factor QR code"
+          width={160}
+          height={160}
+          unoptimized
+          className="border border-gray-200 rounded-lg"
+        />
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500 mb-1">Can&apos;t scan it? Enter this key instead:</p>
+          <code className="block text-sm font-mono text-gray-900 bg-gray-100 rounded px-2 py-1 break-all">{secret}</code>
+        </div>
+      </div>
+      <div className="flex gap-3">
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          required
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-900 placeholder:text-gray-400 tracking-widest"
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Verifying...' : 'Verify'}
+        </button>
+      </div>
+    </form>
+  );
+}
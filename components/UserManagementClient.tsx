@@ -4,10 +4,12 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import axios from 'axios';
 import { toast } from 'sonner';
+import { ROLE_LABELS, ROLES } from '@/lib/permissions';
+import type { Role } from '@/lib/models/User';
 
 interface UserManagementClientProps {
   userId: string;
-  userRole: 'STUDENT' | 'ADMIN';
+  userRole: Role;
   currentUserId: string;
 }
 
@@ -37,15 +39,19 @@ export default function UserManagementClient({
     }
   };
 
-  const handleMakeAdmin = async () => {
-    if (!confirm('Are you sure you want to make this user an admin?')) {
+  const handleRoleChange = async (role: Role) => {
+    if (role === userRole) {
+      return;
+    }
+
+    if (!confirm(`Change this user's role to ${ROLE_LABELS[role]}?`)) {
       return;
     }
 
     setIsUpdatingRole(true);
     try {
-      await axios.put(`/api/users/${userId}`, { role: 'ADMIN' });
-      toast.success('User role updated to Admin');
+      await axios.put(`/api/users/${userId}`, { role });
+      toast.success(`User role updated to ${ROLE_LABELS[role]}`);
       router.refresh();
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to update user role');
@@ -58,30 +64,19 @@ export default function UserManagementClient({
 
   return (
     <div className="flex items-center gap-2">
-      {userRole === 'STUDENT' && (
-        <button
-          onClick={handleMakeAdmin}
-          disabled={isUpdatingRole || isCurrentUser}
-          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-700 text-white text-sm font-semibold rounded-lg hover:from-purple-700 hover:to-purple-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
-        >
-          {isUpdatingRole ? (
-            <>
-              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-              </svg>
-              Updating...
-            </>
-          ) : (
-            <>
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-              </svg>
-              Make Admin
-            </>
-          )}
-        </button>
-      )}
+      <select
+        value={userRole}
+        onChange={(e) => handleRoleChange(e.target.value as Role)}
+        disabled={isUpdatingRole || isCurrentUser}
+        aria-label="Role"
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {ROLES.map((role) => (
+          <option key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </option>
+        ))}
+      </select>
       <button
         onClick={handleDelete}
         disabled={isDeleting || isCurrentUser}
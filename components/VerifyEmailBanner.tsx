@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+export default function VerifyEmailBanner() {
+  const [email, setEmail] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  // Only unverified accounts see the banner
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const { data } = await axios.get('/api/auth/me');
+        if (data.user && !data.user.emailVerified) {
+          setEmail(data.user.email);
+        }
+      } catch {
+        // Signed-out pages have nothing to verify
+      }
+    };
+
+    fetchUser();
+  }, []);
+
+  const resend = async () => {
+    setSending(true);
+    try {
+      const { data } = await axios.post('/api/auth/verify-email/resend');
+      toast.success(data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!email) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border-t border-amber-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-amber-900">
+          Check <strong>{email}</strong> for a verification link. You can post questions and share notes once your email is verified.
+        </p>
+        <button
+          onClick={resend}
+          disabled={sending}
+          className="self-start sm:self-auto flex-shrink-0 text-sm font-medium text-amber-900 underline hover:text-amber-700 disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Resend email'}
+        </button>
+      </div>
+    </div>
+  );
+}
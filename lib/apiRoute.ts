@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from './auth';
+import { can } from './permissions';
+import type { AuthMode, Endpoint } from './schemas/endpoint';
+import { ResponseBuilder } from './utils/ResponseBuilder';
+
+export type SessionUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>;
+
+type UserFor<A extends AuthMode> = A extends false ? null : A extends 'optional' ? SessionUser | null : SessionUser;
+
+export interface ApiContext<A extends AuthMode, TParams, TQuery, TBody> {
+  request: NextRequest;
+  user: UserFor<A>;
+  params: TParams;
+  query: TQuery;
+  body: TBody;
+}
+
+type SegmentContext = { params: Promise<Record<string, string | string[]>> };
+
+/**
+ * Wrap a route handler with its endpoint contract: authentication, permission checks, input validation and error handling
+ * The handler gets the parsed input and returns a Response or a plain object to send as JSON;
+ * every failure uses ResponseBuilder's { success: false, error, details? } envelope
+ */
+export function apiRoute<
+  A extends AuthMode = true,
+  TParams = undefined,
+  TQuery = undefined,
+  TBody = undefined,
+>(
+  contract: Endpoint<A, TParams, TQuery, TBody>,
+  handler: (context: ApiContext<A, TParams, TQuery, TBody>) => Promise<Response | object>
+): (request: NextRequest, context: SegmentContext) => Promise<Response> {
+  const auth = (contract.auth ?? true) as AuthMode;
+
+  return async (request, segment) => {
+    try {
+      const user = auth === false ? null : await getCurrentUser();
+      if (auth === true && !user) {
+        return ResponseBuilder.unauthorized();
+      }
+
+      if (contract.permission && !can(user, contract.permission)) {
+        return ResponseBuilder.forbidden(contract.forbiddenMessage);
+      }
+
+      const params = contract.params ? parse(contract.params, await segment?.params) : undefined;
+      if (params instanceof Response) return params;
+
+      const query = contract.query ? parse(contract.query, Object.fromEntries(request.nextUrl.searchParams)) : undefined;
+      if (query instanceof Response) return query;
+
+      let body: TBody | Response | undefined;
+      if (contract.body) {
+        // An empty body parses as undefined, so schemas with a default can make the body optional
+        const text = await request.text();
+        let json: unknown;
+        try {
+          json = text ? JSON.parse(text) : undefined;
+        } catch {
+          return ResponseBuilder.badRequest('Request body must be valid JSON');
+        }
+        if (json === undefined && !contract.body.safeParse(undefined).success) {
+          return ResponseBuilder.badRequest('Request body is required');
+        }
+        body = parse(contract.body, json);
+        if (body instanceof Response) return body;
+      }
+
+      const result = await handler({
+        request,
+        user: user as UserFor<A>,
+        params: params as TParams,
+        query: query as TQuery,
+        body: body as TBody,
+      });
+
+      const response = result instanceof Response ? result : NextResponse.json(result, { status: contract.status });
+      if (contract.response && process.env.NODE_ENV !== 'production') {
+        await checkResponse(contract.response, response, request);
+      }
+
+      return response;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        const status = knownErrorStatus(contract.errors, error.message);
+        if (status) {
+          return ResponseBuilder.error(error.message, status);
+        }
+      }
+
+      console.error(`Error in ${request.method} ${request.nextUrl.pathname}:`, error);
+      return ResponseBuilder.internalError();
+    }
+  };
+}
+
+/**
+ * Validate input against a schema; a Response means it was rejected
+ * The first problem becomes the error message and every problem is listed in details
+ */
+function parse<T>(schema: z.ZodType<T>, input: unknown): T | Response {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  return ResponseBuilder.error(issues[0].message, 400, { issues });
+}
+
+/**
+ * Development check that a successful JSON response still matches the endpoint's response schema
+ * A mismatch is only logged, so a stale schema shows up in the server console without breaking the page
+ */
+async function checkResponse(schema: z.ZodType, response: Response, request: NextRequest): Promise<void> {
+  if (!response.ok || !response.headers.get('content-type')?.includes('application/json')) {
+    return;
+  }
+
+  const result = schema.safeParse(await response.clone().json());
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    console.warn(`Response of ${request.method} ${request.nextUrl.pathname} does not match its schema:`, issues);
+  }
+}
+
+function knownErrorStatus(errors: Partial<Record<number, string[]>> | undefined, message: string): number | null {
+  if (!errors) {
+    return null;
+  }
+
+  for (const [status, prefixes] of Object.entries(errors)) {
+    if (prefixes?.some((prefix) => message.startsWith(prefix))) {
+      return Number(status);
+    }
+  }
+
+  return null;
+}
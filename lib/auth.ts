@@ -1,10 +1,25 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { getPrismaClient } from './prisma';
+import type { SessionDevice } from './interfaces/ISessionService';
+import type { LoginChallengeKind } from './interfaces/IAuthService';
+import type { SsoAuthorizationState } from './interfaces/ISsoProvider';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+// How long a user has to finish a second sign-in step or come back from the SSO provider
+const LOGIN_CHALLENGE_MAX_AGE_SECONDS = 10 * 60;
+
+// lastSeenAt is only written when it is at least this stale, so most requests stay read-only
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Reverse proxies in front of the app, each appending the address it saw to X-Forwarded-For;
+// 0 means the app is reached directly and forwarding headers are ignored
+const TRUSTED_PROXY_COUNT = Math.max(0, parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10) || 0);
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
 }
@@ -13,13 +28,13 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 }
 
-export function generateToken(userId: string, email: string, role: string): string {
-  return jwt.sign({ userId, email, role }, JWT_SECRET, { expiresIn: '7d' });
+export function generateToken(userId: string, email: string, role: string, sessionId: string): string {
+  return jwt.sign({ userId, email, role, sid: sessionId }, JWT_SECRET, { expiresIn: SESSION_MAX_AGE_SECONDS });
 }
 
-export async function verifyToken(token: string): Promise<{ userId: string; email: string; role: string } | null> {
+export async function verifyToken(token: string): Promise<{ userId: string; email: string; role: string; sid?: string } | null> {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; email: string; role: string };
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; email: string; role: string; sid?: string };
     return decoded;
   } catch {
     return null;
@@ -27,6 +42,43 @@ export async function verifyToken(token: string): Promise<{ userId: string; emai
 }
 
 export async function getCurrentUser() {
+  const session = await getCurrentSession();
+  if (!session) {
+    return null;
+  }
+
+  const prisma = await getPrismaClient();
+  const record = await prisma.session.findUnique({
+    where: { id: session.sessionId },
+    select: {
+      userId: true,
+      lastSeenAt: true,
+      expiresAt: true,
+      revokedAt: true,
+      user: { select: { id: true, email: true, name: true, role: true, emailVerifiedAt: true } },
+    },
+  });
+
+  // The token is only good while its session is live
+  const now = new Date();
+  if (!record || record.userId !== session.userId || record.revokedAt || record.expiresAt <= now) {
+    return null;
+  }
+
+  if (now.getTime() - record.lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS) {
+    await prisma.session
+      .update({ where: { id: session.sessionId }, data: { lastSeenAt: now } })
+      .catch((error: any) => console.error('Error updating session last seen time:', error));
+  }
+
+  const { emailVerifiedAt, ...user } = record.user;
+  return { ...user, emailVerified: emailVerifiedAt !== null };
+}
+
+/**
+ * Read the session id and user id from the auth cookie without checking the database
+ */
+export async function getCurrentSession(): Promise<{ sessionId: string; userId: string } | null> {
   const cookieStore = await cookies();
   const token = cookieStore.get('auth-token')?.value;
 
@@ -35,17 +87,44 @@ export async function getCurrentUser() {
   }
 
   const decoded = await verifyToken(token);
-  if (!decoded) {
+  // Tokens from before server-side sessions have no session id and must sign in again
+  if (!decoded?.sid) {
     return null;
   }
 
-  const prisma = await getPrismaClient();
-  const user = await prisma.user.findUnique({
-    where: { id: decoded.userId },
-    select: { id: true, email: true, name: true, role: true },
-  });
+  return { sessionId: decoded.sid, userId: decoded.userId };
+}
+
+/**
+ * Describe the device making the current request
+ */
+export async function getRequestDevice(): Promise<SessionDevice> {
+  const headerStore = await headers();
+
+  return {
+    userAgent: headerStore.get('user-agent'),
+    ipAddress: clientIpAddress(headerStore.get('x-forwarded-for'), headerStore.get('x-real-ip')),
+  };
+}
+
+/**
+ * The client address as seen by the outermost trusted proxy
+ * Entries left of the ones our proxies appended are whatever the client sent, so they are never used
+ */
+function clientIpAddress(forwardedFor: string | null, realIp: string | null): string | null {
+  if (TRUSTED_PROXY_COUNT === 0) {
+    return null;
+  }
+
+  const hops = (forwardedFor ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length === 0) {
+    return realIp?.trim() || null;
+  }
 
-  return user;
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_COUNT)];
 }
 
 export async function setAuthToken(token: string) {
@@ -54,7 +133,7 @@ export async function setAuthToken(token: string) {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: SESSION_MAX_AGE_SECONDS,
   });
 }
 
@@ -63,3 +142,75 @@ export async function clearAuthToken() {
   cookieStore.delete('auth-token');
 }
 
+/**
+ * Remember a user who passed the password step but still owes a second factor
+ */
+export async function setLoginChallenge(userId: string, kind: LoginChallengeKind) {
+  const token = jwt.sign({ userId, kind, purpose: 'login-challenge' }, JWT_SECRET, {
+    expiresIn: LOGIN_CHALLENGE_MAX_AGE_SECONDS,
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set('login-challenge', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: LOGIN_CHALLENGE_MAX_AGE_SECONDS,
+  });
+}
+
+export async function getLoginChallenge(): Promise<{ userId: string; kind: LoginChallengeKind } | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('login-challenge')?.value;
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; kind: LoginChallengeKind; purpose?: string };
+    return decoded.purpose === 'login-challenge' ? { userId: decoded.userId, kind: decoded.kind } : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearLoginChallenge() {
+  const cookieStore = await cookies();
+  cookieStore.delete('login-challenge');
+}
+
+/**
+ * Keep the state, nonce and PKCE verifier of an SSO sign-in until the provider redirects back
+ */
+export async function setSsoState(state: SsoAuthorizationState) {
+  const token = jwt.sign({ ...state, purpose: 'sso-state' }, JWT_SECRET, { expiresIn: LOGIN_CHALLENGE_MAX_AGE_SECONDS });
+
+  const cookieStore = await cookies();
+  cookieStore.set('sso-state', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // The provider's redirect back is a cross-site top-level GET, which lax cookies still accompany
+    sameSite: 'lax',
+    maxAge: LOGIN_CHALLENGE_MAX_AGE_SECONDS,
+  });
+}
+
+export async function takeSsoState(): Promise<SsoAuthorizationState | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('sso-state')?.value;
+  cookieStore.delete('sso-state');
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as SsoAuthorizationState & { purpose?: string };
+    return decoded.purpose === 'sso-state'
+      ? { state: decoded.state, nonce: decoded.nonce, codeVerifier: decoded.codeVerifier }
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -9,19 +9,103 @@ import { IUserRepository } from '../interfaces/IUserRepository';
 import { IQuestionRepository } from '../interfaces/IQuestionRepository';
 import { IAnswerRepository } from '../interfaces/IAnswerRepository';
 import { IEmbeddingService } from '../interfaces/IEmbeddingService';
+import { IQuizRepository } from '../interfaces/IQuizRepository';
+import { INoteRepository } from '../interfaces/INoteRepository';
+import { IFlashcardRepository } from '../interfaces/IFlashcardRepository';
+import { ICommentRepository } from '../interfaces/ICommentRepository';
+import { IJobRepository } from '../interfaces/IJobRepository';
+import { ITagRepository } from '../interfaces/ITagRepository';
+import { ICourseRepository } from '../interfaces/ICourseRepository';
+import { ITaskRepository } from '../interfaces/ITaskRepository';
+import { INotificationRepository } from '../interfaces/INotificationRepository';
+import { INotificationPreferenceRepository } from '../interfaces/INotificationPreferenceRepository';
+import { IEmailTransport } from '../interfaces/IEmailTransport';
+import { IPasswordResetTokenRepository } from '../interfaces/IPasswordResetTokenRepository';
+import { ISessionRepository } from '../interfaces/ISessionRepository';
+import { IEmailVerificationTokenRepository } from '../interfaces/IEmailVerificationTokenRepository';
+import { ISignupDomainRepository } from '../interfaces/ISignupDomainRepository';
+import { IAuditEventRepository } from '../interfaces/IAuditEventRepository';
+import { IRateLimitStore } from '../interfaces/IRateLimitStore';
+import { IRecoveryCodeRepository } from '../interfaces/IRecoveryCodeRepository';
+import { ITwoFactorPolicyRepository } from '../interfaces/ITwoFactorPolicyRepository';
+import { ISsoIdentityRepository } from '../interfaces/ISsoIdentityRepository';
+import { ISsoProvider } from '../interfaces/ISsoProvider';
 import { AuthService } from '../services/AuthService';
 import { UserService } from '../services/UserService';
 import { QuestionService } from '../services/QuestionService';
-import { EmbeddingService } from '../services/EmbeddingService';
+import { GeminiEmbeddingService } from '../services/GeminiEmbeddingService';
+import { OpenAICompatibleEmbeddingService } from '../services/OpenAICompatibleEmbeddingService';
+import { HashingEmbeddingService } from '../services/HashingEmbeddingService';
+import { QuizService } from '../services/QuizService';
+import { FlashcardService } from '../services/FlashcardService';
+import { CommentService } from '../services/CommentService';
+import { JobWorker } from '../services/JobWorker';
+import { TagService } from '../services/TagService';
+import { GeminiTagSuggestionService } from '../services/GeminiTagSuggestionService';
+import { CourseService } from '../services/CourseService';
+import { NotificationService } from '../services/NotificationService';
+import { DigestService } from '../services/DigestService';
+import { ResendEmailTransport } from '../services/ResendEmailTransport';
+import { SmtpEmailTransport } from '../services/SmtpEmailTransport';
+import { FileEmailTransport } from '../services/FileEmailTransport';
+import { PasswordResetService } from '../services/PasswordResetService';
+import { SessionService } from '../services/SessionService';
+import { EmailVerificationService } from '../services/EmailVerificationService';
+import { SignupDomainService } from '../services/SignupDomainService';
+import { AuditService } from '../services/AuditService';
+import { MemoryRateLimitStore } from '../services/MemoryRateLimitStore';
+import { PostgresRateLimitStore } from '../services/PostgresRateLimitStore';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { SsoService } from '../services/SsoService';
+import { OidcSsoProvider } from '../services/OidcSsoProvider';
 import { UserRepository } from '../repositories/UserRepository';
 import { QuestionRepository } from '../repositories/QuestionRepository';
 import { AnswerRepository } from '../repositories/AnswerRepository';
+import { QuizRepository } from '../repositories/QuizRepository';
+import { NoteRepository } from '../repositories/NoteRepository';
+import { FlashcardRepository } from '../repositories/FlashcardRepository';
+import { CommentRepository } from '../repositories/CommentRepository';
+import { JobRepository } from '../repositories/JobRepository';
+import { TagRepository } from '../repositories/TagRepository';
+import { CourseRepository } from '../repositories/CourseRepository';
+import { TaskRepository } from '../repositories/TaskRepository';
+import { NotificationRepository } from '../repositories/NotificationRepository';
+import { NotificationPreferenceRepository } from '../repositories/NotificationPreferenceRepository';
+import { PasswordResetTokenRepository } from '../repositories/PasswordResetTokenRepository';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { EmailVerificationTokenRepository } from '../repositories/EmailVerificationTokenRepository';
+import { SignupDomainRepository } from '../repositories/SignupDomainRepository';
+import { AuditEventRepository } from '../repositories/AuditEventRepository';
+import { RecoveryCodeRepository } from '../repositories/RecoveryCodeRepository';
+import { TwoFactorPolicyRepository } from '../repositories/TwoFactorPolicyRepository';
+import { SsoIdentityRepository } from '../repositories/SsoIdentityRepository';
 
 export class ServiceFactory {
   private static userRepository: IUserRepository | null = null;
   private static questionRepository: IQuestionRepository | null = null;
   private static answerRepository: IAnswerRepository | null = null;
   private static embeddingService: IEmbeddingService | null = null;
+  private static quizRepository: IQuizRepository | null = null;
+  private static noteRepository: INoteRepository | null = null;
+  private static flashcardRepository: IFlashcardRepository | null = null;
+  private static commentRepository: ICommentRepository | null = null;
+  private static jobRepository: IJobRepository | null = null;
+  private static tagRepository: ITagRepository | null = null;
+  private static courseRepository: ICourseRepository | null = null;
+  private static taskRepository: ITaskRepository | null = null;
+  private static notificationRepository: INotificationRepository | null = null;
+  private static notificationPreferenceRepository: INotificationPreferenceRepository | null = null;
+  private static emailTransport: IEmailTransport | null = null;
+  private static passwordResetTokenRepository: IPasswordResetTokenRepository | null = null;
+  private static sessionRepository: ISessionRepository | null = null;
+  private static emailVerificationTokenRepository: IEmailVerificationTokenRepository | null = null;
+  private static signupDomainRepository: ISignupDomainRepository | null = null;
+  private static auditEventRepository: IAuditEventRepository | null = null;
+  private static rateLimitStore: IRateLimitStore | null = null;
+  private static recoveryCodeRepository: IRecoveryCodeRepository | null = null;
+  private static twoFactorPolicyRepository: ITwoFactorPolicyRepository | null = null;
+  private static ssoIdentityRepository: ISsoIdentityRepository | null = null;
+  private static ssoProvider: ISsoProvider | null | undefined = undefined;
 
   /**
    * Get or create UserRepository instance (Singleton pattern)
@@ -54,20 +138,396 @@ export class ServiceFactory {
   }
 
   /**
-   * Get or create EmbeddingService instance
+   * Get or create QuizRepository instance
+   */
+  static getQuizRepository(): IQuizRepository {
+    if (!this.quizRepository) {
+      this.quizRepository = new QuizRepository();
+    }
+    return this.quizRepository;
+  }
+
+  /**
+   * Get or create NoteRepository instance
+   */
+  static getNoteRepository(): INoteRepository {
+    if (!this.noteRepository) {
+      this.noteRepository = new NoteRepository();
+    }
+    return this.noteRepository;
+  }
+
+  /**
+   * Get or create FlashcardRepository instance
+   */
+  static getFlashcardRepository(): IFlashcardRepository {
+    if (!this.flashcardRepository) {
+      this.flashcardRepository = new FlashcardRepository();
+    }
+    return this.flashcardRepository;
+  }
+
+  /**
+   * Get or create CommentRepository instance
+   */
+  static getCommentRepository(): ICommentRepository {
+    if (!this.commentRepository) {
+      this.commentRepository = new CommentRepository();
+    }
+    return this.commentRepository;
+  }
+
+  /**
+   * Get or create JobRepository instance
+   */
+  static getJobRepository(): IJobRepository {
+    if (!this.jobRepository) {
+      this.jobRepository = new JobRepository();
+    }
+    return this.jobRepository;
+  }
+
+  /**
+   * Get or create TagRepository instance
+   */
+  static getTagRepository(): ITagRepository {
+    if (!this.tagRepository) {
+      this.tagRepository = new TagRepository();
+    }
+    return this.tagRepository;
+  }
+
+  /**
+   * Get or create CourseRepository instance
+   */
+  static getCourseRepository(): ICourseRepository {
+    if (!this.courseRepository) {
+      this.courseRepository = new CourseRepository();
+    }
+    return this.courseRepository;
+  }
+
+  /**
+   * Get or create TaskRepository instance
+   */
+  static getTaskRepository(): ITaskRepository {
+    if (!this.taskRepository) {
+      this.taskRepository = new TaskRepository();
+    }
+    return this.taskRepository;
+  }
+
+  /**
+   * Get or create NotificationRepository instance
+   */
+  static getNotificationRepository(): INotificationRepository {
+    if (!this.notificationRepository) {
+      this.notificationRepository = new NotificationRepository();
+    }
+    return this.notificationRepository;
+  }
+
+  /**
+   * Get or create NotificationPreferenceRepository instance
+   */
+  static getNotificationPreferenceRepository(): INotificationPreferenceRepository {
+    if (!this.notificationPreferenceRepository) {
+      this.notificationPreferenceRepository = new NotificationPreferenceRepository();
+    }
+    return this.notificationPreferenceRepository;
+  }
+
+  /**
+   * Get or create PasswordResetTokenRepository instance
+   */
+  static getPasswordResetTokenRepository(): IPasswordResetTokenRepository {
+    if (!this.passwordResetTokenRepository) {
+      this.passwordResetTokenRepository = new PasswordResetTokenRepository();
+    }
+    return this.passwordResetTokenRepository;
+  }
+
+  /**
+   * Get or create SessionRepository instance
+   */
+  static getSessionRepository(): ISessionRepository {
+    if (!this.sessionRepository) {
+      this.sessionRepository = new SessionRepository();
+    }
+    return this.sessionRepository;
+  }
+
+  /**
+   * Get or create EmailVerificationTokenRepository instance
+   */
+  static getEmailVerificationTokenRepository(): IEmailVerificationTokenRepository {
+    if (!this.emailVerificationTokenRepository) {
+      this.emailVerificationTokenRepository = new EmailVerificationTokenRepository();
+    }
+    return this.emailVerificationTokenRepository;
+  }
+
+  /**
+   * Get or create SignupDomainRepository instance
+   */
+  static getSignupDomainRepository(): ISignupDomainRepository {
+    if (!this.signupDomainRepository) {
+      this.signupDomainRepository = new SignupDomainRepository();
+    }
+    return this.signupDomainRepository;
+  }
+
+  /**
+   * Get or create AuditEventRepository instance
+   */
+  static getAuditEventRepository(): IAuditEventRepository {
+    if (!this.auditEventRepository) {
+      this.auditEventRepository = new AuditEventRepository();
+    }
+    return this.auditEventRepository;
+  }
+
+  /**
+   * Get or create RecoveryCodeRepository instance
+   */
+  static getRecoveryCodeRepository(): IRecoveryCodeRepository {
+    if (!this.recoveryCodeRepository) {
+      this.recoveryCodeRepository = new RecoveryCodeRepository();
+    }
+    return this.recoveryCodeRepository;
+  }
+
+  /**
+   * Get or create TwoFactorPolicyRepository instance
+   */
+  static getTwoFactorPolicyRepository(): ITwoFactorPolicyRepository {
+    if (!this.twoFactorPolicyRepository) {
+      this.twoFactorPolicyRepository = new TwoFactorPolicyRepository();
+    }
+    return this.twoFactorPolicyRepository;
+  }
+
+  /**
+   * Get or create SsoIdentityRepository instance
+   */
+  static getSsoIdentityRepository(): ISsoIdentityRepository {
+    if (!this.ssoIdentityRepository) {
+      this.ssoIdentityRepository = new SsoIdentityRepository();
+    }
+    return this.ssoIdentityRepository;
+  }
+
+  /**
+   * Get or create the single sign-on provider chosen by SSO_PROVIDER, or null when SSO is off
+   * - none (default): local passwords only
+   * - oidc: any OpenID Connect issuer (OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, OIDC_REDIRECT_URI,
+   *   OIDC_PROVIDER_NAME, OIDC_SCOPES, and OIDC_ROLE_CLAIM with OIDC_ADMIN_ROLE_VALUES, OIDC_MODERATOR_ROLE_VALUES and
+   *   OIDC_TA_ROLE_VALUES to decide roles, and OIDC_TRUST_EMAIL_WITHOUT_VERIFIED_CLAIM=true for issuers that never send
+   *   email_verified)
+   */
+  static getSsoProvider(): ISsoProvider | null {
+    if (this.ssoProvider === undefined) {
+      const provider = process.env.SSO_PROVIDER || 'none';
+
+      switch (provider) {
+        case 'none':
+          this.ssoProvider = null;
+          break;
+        case 'oidc': {
+          if (!process.env.OIDC_ISSUER || !process.env.OIDC_CLIENT_ID) {
+            throw new Error('SSO_PROVIDER=oidc needs OIDC_ISSUER and OIDC_CLIENT_ID');
+          }
+          const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+          const listEnv = (name: string) => process.env[name]?.split(',').map((v) => v.trim()).filter(Boolean);
+          this.ssoProvider = new OidcSsoProvider({
+            issuer: process.env.OIDC_ISSUER,
+            clientId: process.env.OIDC_CLIENT_ID,
+            clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+            redirectUri: process.env.OIDC_REDIRECT_URI || `${baseUrl}/api/auth/sso/callback`,
+            name: process.env.OIDC_PROVIDER_NAME,
+            scopes: process.env.OIDC_SCOPES,
+            roleClaim: process.env.OIDC_ROLE_CLAIM,
+            adminRoleValues: listEnv('OIDC_ADMIN_ROLE_VALUES'),
+            moderatorRoleValues: listEnv('OIDC_MODERATOR_ROLE_VALUES'),
+            teachingAssistantRoleValues: listEnv('OIDC_TA_ROLE_VALUES'),
+            trustEmailWithoutVerifiedClaim: process.env.OIDC_TRUST_EMAIL_WITHOUT_VERIFIED_CLAIM === 'true',
+          });
+          break;
+        }
+        default:
+          throw new Error(`Unknown SSO_PROVIDER: ${provider}`);
+      }
+    }
+    return this.ssoProvider ?? null;
+  }
+
+  /**
+   * Get or create the rate limit store chosen by RATE_LIMIT_STORE
+   * - memory (default): counters live in this process, fine for a single instance
+   * - postgres: counters live in rate_limit_buckets and are shared by every instance
+   */
+  static getRateLimitStore(): IRateLimitStore {
+    if (!this.rateLimitStore) {
+      const store = process.env.RATE_LIMIT_STORE || 'memory';
+
+      switch (store) {
+        case 'memory':
+          this.rateLimitStore = new MemoryRateLimitStore();
+          break;
+        case 'postgres':
+          this.rateLimitStore = new PostgresRateLimitStore();
+          break;
+        default:
+          throw new Error(`Unknown RATE_LIMIT_STORE: ${store}`);
+      }
+    }
+    return this.rateLimitStore;
+  }
+
+  /**
+   * Get or create the embedding service chosen by EMBEDDING_PROVIDER
+   * - gemini (default): Gemini API, needs GEMINI_API_KEY
+   * - openai-compatible: any OpenAI-style /embeddings server (EMBEDDING_BASE_URL, EMBEDDING_MODEL, EMBEDDING_API_KEY)
+   * - hashing: deterministic local embedder for tests and offline development
+   * EMBEDDING_DIMENSIONS sets the vector size for the last two
    */
   static getEmbeddingService(): IEmbeddingService {
     if (!this.embeddingService) {
-      this.embeddingService = new EmbeddingService();
+      const provider = process.env.EMBEDDING_PROVIDER || 'gemini';
+      const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '768', 10);
+
+      switch (provider) {
+        case 'gemini':
+          this.embeddingService = new GeminiEmbeddingService();
+          break;
+        case 'openai-compatible':
+          this.embeddingService = new OpenAICompatibleEmbeddingService(
+            process.env.EMBEDDING_BASE_URL || 'http://localhost:11434/v1',
+            process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+            dimensions,
+            process.env.EMBEDDING_API_KEY
+          );
+          break;
+        case 'hashing':
+          this.embeddingService = new HashingEmbeddingService(dimensions);
+          break;
+        default:
+          throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+      }
     }
     return this.embeddingService;
   }
 
+  /**
+   * Get or create the email transport chosen by EMAIL_TRANSPORT
+   * - resend (default): Resend API, needs RESEND_API_KEY
+   * - smtp: a plain SMTP server such as Mailpit (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+   * - file: writes .eml files to EMAIL_FILE_DIR (default .emails) instead of sending
+   */
+  static getEmailTransport(): IEmailTransport {
+    if (!this.emailTransport) {
+      const transport = process.env.EMAIL_TRANSPORT || 'resend';
+
+      switch (transport) {
+        case 'resend':
+          this.emailTransport = new ResendEmailTransport(
+            process.env.RESEND_API_KEY || 're_FS9srZH7_4WmoaoLSF97wjVv9ZKn8EJDV'
+          );
+          break;
+        case 'smtp':
+          this.emailTransport = new SmtpEmailTransport(
+            process.env.SMTP_HOST || 'localhost',
+            parseInt(process.env.SMTP_PORT || '1025', 10),
+            process.env.SMTP_SECURE === 'true',
+            process.env.SMTP_USER,
+            process.env.SMTP_PASSWORD
+          );
+          break;
+        case 'file':
+          this.emailTransport = new FileEmailTransport(process.env.EMAIL_FILE_DIR || '.emails');
+          break;
+        default:
+          throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+      }
+    }
+    return this.emailTransport;
+  }
+
   /**
    * Create AuthService with dependencies
    */
   static createAuthService(): AuthService {
-    return new AuthService(this.getUserRepository());
+    return new AuthService(
+      this.getUserRepository(),
+      this.createSessionService(),
+      this.createEmailVerificationService(),
+      this.createSignupDomainService(),
+      this.createAuditService(),
+      this.createTwoFactorService(),
+      this.createSsoService()
+    );
+  }
+
+  /**
+   * Create SessionService with dependencies
+   */
+  static createSessionService(): SessionService {
+    return new SessionService(this.getSessionRepository());
+  }
+
+  /**
+   * Create EmailVerificationService with dependencies
+   */
+  static createEmailVerificationService(): EmailVerificationService {
+    return new EmailVerificationService(this.getEmailVerificationTokenRepository(), this.getUserRepository());
+  }
+
+  /**
+   * Create AuditService with dependencies
+   */
+  static createAuditService(): AuditService {
+    return new AuditService(this.getAuditEventRepository());
+  }
+
+  /**
+   * Create SignupDomainService with dependencies
+   */
+  static createSignupDomainService(): SignupDomainService {
+    return new SignupDomainService(this.getSignupDomainRepository());
+  }
+
+  /**
+   * Create PasswordResetService with dependencies
+   */
+  static createPasswordResetService(): PasswordResetService {
+    return new PasswordResetService(
+      this.getPasswordResetTokenRepository(),
+      this.getUserRepository(),
+      this.getSessionRepository()
+    );
+  }
+
+  /**
+   * Create TwoFactorService with dependencies
+   */
+  static createTwoFactorService(): TwoFactorService {
+    return new TwoFactorService(
+      this.getUserRepository(),
+      this.getRecoveryCodeRepository(),
+      this.getTwoFactorPolicyRepository(),
+      this.getSessionRepository()
+    );
+  }
+
+  /**
+   * Create SsoService with dependencies
+   */
+  static createSsoService(): SsoService {
+    return new SsoService(
+      this.getUserRepository(),
+      this.getSsoIdentityRepository(),
+      this.createSignupDomainService()
+    );
   }
 
   /**
@@ -84,10 +544,104 @@ export class ServiceFactory {
     return new QuestionService(
       this.getQuestionRepository(),
       this.getAnswerRepository(),
-      this.getEmbeddingService()
+      this.getEmbeddingService(),
+      this.getJobRepository()
     );
   }
 
+  /**
+   * Create QuizService with dependencies
+   */
+  static createQuizService(): QuizService {
+    return new QuizService(this.getQuizRepository());
+  }
+
+  /**
+   * Create FlashcardService with dependencies
+   */
+  static createFlashcardService(): FlashcardService {
+    return new FlashcardService(this.getFlashcardRepository(), this.getQuizRepository());
+  }
+
+  /**
+   * Create CommentService with dependencies
+   */
+  static createCommentService(): CommentService {
+    return new CommentService(
+      this.getCommentRepository(),
+      this.getQuestionRepository(),
+      this.getAnswerRepository(),
+      this.getUserRepository(),
+      this.createNotificationService()
+    );
+  }
+
+  /**
+   * Create TagService with dependencies
+   */
+  static createTagService(): TagService {
+    return new TagService(
+      this.getTagRepository(),
+      this.getQuestionRepository(),
+      new GeminiTagSuggestionService(),
+      this.getJobRepository()
+    );
+  }
+
+  /**
+   * Create CourseService with dependencies
+   */
+  static createCourseService(): CourseService {
+    return new CourseService(this.getCourseRepository(), this.getUserRepository());
+  }
+
+  /**
+   * Create NotificationService with dependencies
+   */
+  static createNotificationService(): NotificationService {
+    return new NotificationService(
+      this.getNotificationRepository(),
+      this.getQuestionRepository(),
+      this.getAnswerRepository(),
+      this.getTaskRepository(),
+      this.getNoteRepository(),
+      this.getCommentRepository()
+    );
+  }
+
+  /**
+   * Create DigestService with dependencies
+   */
+  static createDigestService(): DigestService {
+    return new DigestService(
+      this.getNotificationPreferenceRepository(),
+      this.getNotificationRepository(),
+      this.getTaskRepository(),
+      this.getUserRepository(),
+      this.getJobRepository()
+    );
+  }
+
+  /**
+   * Create a JobWorker with a handler registered for every job type
+   */
+  static createJobWorker(): JobWorker {
+    const questionService = this.createQuestionService();
+    const tagService = this.createTagService();
+    const digestService = this.createDigestService();
+
+    return new JobWorker(this.getJobRepository())
+      .register('embed-question', async (job) => {
+        await questionService.regenerateEmbedding(job.payload.questionId);
+      })
+      .register('tag-question', async (job) => {
+        await tagService.autoTagQuestion(job.payload.questionId);
+      })
+      .register('send-digest', async (job) => {
+        await digestService.sendDigest(job.payload.userId);
+      });
+  }
+
   /**
    * Reset all instances (useful for testing)
    */
@@ -96,6 +650,27 @@ export class ServiceFactory {
     this.questionRepository = null;
     this.answerRepository = null;
     this.embeddingService = null;
+    this.quizRepository = null;
+    this.noteRepository = null;
+    this.flashcardRepository = null;
+    this.commentRepository = null;
+    this.jobRepository = null;
+    this.tagRepository = null;
+    this.courseRepository = null;
+    this.taskRepository = null;
+    this.notificationRepository = null;
+    this.notificationPreferenceRepository = null;
+    this.emailTransport = null;
+    this.passwordResetTokenRepository = null;
+    this.sessionRepository = null;
+    this.emailVerificationTokenRepository = null;
+    this.signupDomainRepository = null;
+    this.auditEventRepository = null;
+    this.rateLimitStore = null;
+    this.recoveryCodeRepository = null;
+    this.twoFactorPolicyRepository = null;
+    this.ssoIdentityRepository = null;
+    this.ssoProvider = undefined;
   }
 }
 
@@ -1,42 +1,223 @@
-import { Resend } from 'resend';
-
-const resend = new Resend(process.env.RESEND_API_KEY || 're_FS9srZH7_4WmoaoLSF97wjVv9ZKn8EJDV');
+import { EmailMessage, IEmailTransport } from './interfaces/IEmailTransport';
+import { DigestContent } from './interfaces/IDigestService';
 
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
 
 /**
- * Email service for sending emails using Resend
- * Follows Single Responsibility Principle - only handles email sending
+ * Email service for building and sending the app's emails
+ * Delivery goes through the transport chosen by EMAIL_TRANSPORT (see ServiceFactory.getEmailTransport)
+ * Follows Single Responsibility Principle - only handles email templates and sending
  */
 export class EmailService {
-  private static fromEmail = 'onboarding@zalnex.me';
+  private static fromEmail = process.env.EMAIL_FROM || 'onboarding@zalnex.me';
+  private static transport: IEmailTransport | null = null;
+
+  /**
+   * Use a different transport, e.g. to capture emails in tests
+   */
+  static setTransport(transport: IEmailTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a password reset link
+   */
+  static async sendPasswordResetEmail(
+    to: string,
+    token: string,
+    userName?: string | null,
+    expiresInMinutes: number = 60
+  ): Promise<void> {
+    const name = this.escape(userName || to.split('@')[0]);
+    const resetUrl = `${BASE_URL}/reset-password/${token}`;
+
+    const html = this.renderLayout('Password Reset - Ragra Prep', '🔐 Password Reset', `
+              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
+                Hello ${name},
+              </p>
+              
+              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
+                We received a request to reset the password for your Ragra Prep account. Use the button below to choose a new one.
+              </p>
+              
+              <!-- CTA Button -->
+              <table role="presentation" style="width: 100%; margin: 30px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${resetUrl}" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #4f46e5 100%); color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 6px rgba(37, 99, 235, 0.3);">
+                      Choose a New Password
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              
+              <p style="margin: 20px 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+                <strong style="color: #dc2626;">⚠️ Important:</strong> This link works once and expires in ${expiresInMinutes} minutes. Resetting your password signs you out on every device.
+              </p>
+
+              <p style="margin: 20px 0; color: #6b7280; font-size: 13px; line-height: 1.6; word-break: break-all;">
+                If the button doesn't work, copy this address into your browser:<br>
+                <a href="${resetUrl}" style="color: #2563eb;">${resetUrl}</a>
+              </p>
+              
+              <p style="margin: 30px 0 0 0; color: #6b7280; font-size: 14px; line-height: 1.6; border-top: 1px solid #e5e7eb; padding-top: 20px;">
+                If you didn't request this, you can ignore this email. Your password stays the same.
+              </p>
+    `);
+
+    try {
+      await this.send({
+        to,
+        subject: '🔐 Reset your password - Ragra Prep',
+        html,
+      });
+    } catch (error) {
+      console.error('Password reset email error:', error);
+      throw new Error('Failed to send password reset email');
+    }
+
+    console.log('Password reset email sent successfully to', to);
+  }
+
+  /**
+   * Send the link that confirms a new account's email address
+   */
+  static async sendVerificationEmail(to: string, token: string, userName?: string | null): Promise<void> {
+    const name = this.escape(userName || to.split('@')[0]);
+    const verifyUrl = `${BASE_URL}/verify-email/${token}`;
+
+    const html = this.renderLayout('Verify Your Email - Ragra Prep', '✉️ Verify Your Email', `
+              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
+                Hello ${name},
+              </p>
+
+              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
+                Welcome to Ragra Prep! Please confirm this is your email address. You can post questions and share notes once it is verified.
+              </p>
+
+              <!-- CTA Button -->
+              <table role="presentation" style="width: 100%; margin: 30px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${verifyUrl}" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #4f46e5 100%); color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 6px rgba(37, 99, 235, 0.3);">
+                      Verify Email Address
+                    </a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 20px 0; color: #6b7280; font-size: 13px; line-height: 1.6; word-break: break-all;">
+                This link expires in 48 hours. If the button doesn't work, copy this address into your browser:<br>
+                <a href="${verifyUrl}" style="color: #2563eb;">${verifyUrl}</a>
+              </p>
+
+              <p style="margin: 30px 0 0 0; color: #6b7280; font-size: 14px; line-height: 1.6; border-top: 1px solid #e5e7eb; padding-top: 20px;">
+                If you didn't create an account, you can ignore this email.
+              </p>
+    `);
+
+    await this.send({
+      to,
+      subject: '✉️ Verify your email - Ragra Prep',
+      html,
+    });
+  }
 
   /**
-   * Generate a secure random password
+   * Send a daily or weekly digest of new answers and upcoming task deadlines
    */
-  static generatePassword(length: number = 12): string {
-    const crypto = require('crypto');
-    const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-    let password = '';
-    const randomBytes = crypto.randomBytes(length);
-    for (let i = 0; i < length; i++) {
-      password += charset[randomBytes[i] % charset.length];
+  static async sendDigestEmail(to: string, userName: string | null, digest: DigestContent): Promise<void> {
+    const name = this.escape(userName || to.split('@')[0]);
+    const period = digest.frequency === 'DAILY' ? 'day' : 'week';
+    const label = digest.frequency === 'DAILY' ? 'Daily' : 'Weekly';
+
+    const answers = digest.answers.length === 0 ? '' : `
+              <h2 style="margin: 30px 0 12px 0; color: #111827; font-size: 18px; font-weight: 700;">
+                💬 New answers (${digest.answers.length})
+              </h2>
+              <table role="presentation" style="width: 100%; border-collapse: collapse;">
+                ${digest.answers.map((answer) => `
+                <tr>
+                  <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+                    <p style="margin: 0 0 4px 0; color: #374151; font-size: 15px;">${this.escape(answer.title)}</p>
+                    ${answer.question ? `<a href="${BASE_URL}${answer.link ?? ''}" style="color: #2563eb; font-size: 14px; text-decoration: none;">${this.escape(answer.question)}</a>` : ''}
+                  </td>
+                </tr>`).join('')}
+              </table>`;
+
+    const deadlines = digest.deadlines.length === 0 ? '' : `
+              <h2 style="margin: 30px 0 12px 0; color: #111827; font-size: 18px; font-weight: 700;">
+                ⏰ Coming up (${digest.deadlines.length})
+              </h2>
+              <table role="presentation" style="width: 100%; border-collapse: collapse;">
+                ${digest.deadlines.map((task) => `
+                <tr>
+                  <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb; color: #374151; font-size: 15px;">
+                    ${this.escape(task.title)}
+                  </td>
+                  <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb; color: #6b7280; font-size: 14px; text-align: right; white-space: nowrap;">
+                    ${this.formatDate(task.deadline)}
+                  </td>
+                </tr>`).join('')}
+              </table>`;
+
+    const html = this.renderLayout(`${label} Digest - Ragra Prep`, `📬 Your ${label} Digest`, `
+              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
+                Hello ${name},
+              </p>
+
+              <p style="margin: 0; color: #374151; font-size: 16px; line-height: 1.6;">
+                Here is what happened on Ragra Prep this ${period}.
+              </p>
+              ${answers}
+              ${deadlines}
+
+              <!-- CTA Button -->
+              <table role="presentation" style="width: 100%; margin: 30px 0;">
+                <tr>
+                  <td align="center">
+                    <a href="${BASE_URL}/dashboard" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #4f46e5 100%); color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 6px rgba(37, 99, 235, 0.3);">
+                      Open Your Dashboard
+                    </a>
+                  </td>
+                </tr>
+              </table>
+
+              <p style="margin: 30px 0 0 0; color: #6b7280; font-size: 14px; line-height: 1.6; border-top: 1px solid #e5e7eb; padding-top: 20px;">
+                You get this email because of your notification settings. <a href="${BASE_URL}/settings" style="color: #2563eb;">Change how often it is sent</a>.
+              </p>
+    `);
+
+    await this.send({
+      to,
+      subject: `📬 Your ${label.toLowerCase()} digest - Ragra Prep`,
+      html,
+    });
+  }
+
+  /**
+   * Hand an email to the configured transport
+   */
+  private static async send(message: Omit<EmailMessage, 'from'>): Promise<void> {
+    if (!this.transport) {
+      // Required lazily: ServiceFactory imports the services that send email
+      this.transport = require('./di/ServiceFactory').ServiceFactory.getEmailTransport() as IEmailTransport;
     }
-    return password;
+
+    await this.transport.send({ from: this.fromEmail, ...message });
   }
 
   /**
-   * Send password reset email
+   * Wrap email content in the shared header and footer
    */
-  static async sendPasswordResetEmail(to: string, newPassword: string, userName?: string | null): Promise<void> {
-    const name = userName || to.split('@')[0];
-    
-    const html = `
+  private static renderLayout(title: string, heading: string, content: string): string {
+    return `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Password Reset - Ragra Prep</title>
+  <title>${title}</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
   <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #f5f5f5; padding: 20px;">
@@ -47,7 +228,7 @@ export class EmailService {
           <tr>
             <td style="background: linear-gradient(135deg, #2563eb 0%, #4f46e5 100%); padding: 40px 30px; text-align: center;">
               <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700; letter-spacing: -0.5px;">
-                🔐 Password Reset
+                ${heading}
               </h1>
             </td>
           </tr>
@@ -55,42 +236,7 @@ export class EmailService {
           <!-- Content -->
           <tr>
             <td style="padding: 40px 30px;">
-              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
-                Hello ${name},
-              </p>
-              
-              <p style="margin: 0 0 20px 0; color: #374151; font-size: 16px; line-height: 1.6;">
-                We received a request to reset your password for your Ragra Prep account. Your new password has been generated and is ready to use.
-              </p>
-              
-              <!-- Password Box -->
-              <div style="background: linear-gradient(135deg, #f0f9ff 0%, #e0e7ff 100%); border: 2px solid #3b82f6; border-radius: 8px; padding: 20px; margin: 30px 0; text-align: center;">
-                <p style="margin: 0 0 10px 0; color: #1e40af; font-size: 14px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">
-                  Your New Password
-                </p>
-                <p style="margin: 0; color: #1e3a8a; font-size: 24px; font-weight: 700; font-family: 'Courier New', monospace; letter-spacing: 2px; word-break: break-all;">
-                  ${newPassword}
-                </p>
-              </div>
-              
-              <p style="margin: 20px 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
-                <strong style="color: #dc2626;">⚠️ Important:</strong> Please change this password after logging in for security purposes.
-              </p>
-              
-              <!-- CTA Button -->
-              <table role="presentation" style="width: 100%; margin: 30px 0;">
-                <tr>
-                  <td align="center">
-                    <a href="${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/login" style="display: inline-block; background: linear-gradient(135deg, #2563eb 0%, #4f46e5 100%); color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px; box-shadow: 0 4px 6px rgba(37, 99, 235, 0.3);">
-                      Login to Your Account
-                    </a>
-                  </td>
-                </tr>
-              </table>
-              
-              <p style="margin: 30px 0 0 0; color: #6b7280; font-size: 14px; line-height: 1.6; border-top: 1px solid #e5e7eb; padding-top: 20px;">
-                If you didn't request this password reset, please contact our support team immediately.
-              </p>
+${content}
             </td>
           </tr>
           
@@ -112,20 +258,30 @@ export class EmailService {
 </body>
 </html>
     `;
+  }
 
-    const { data, error } = await resend.emails.send({
-      from: this.fromEmail,
-      to: to,
-      subject: '🔐 Password Reset - Ragra Prep',
-      html: html,
+  /**
+   * Format a deadline for the digest, e.g. "Mon, Jan 5, 3:00 PM"
+   */
+  private static formatDate(date: Date): string {
+    return date.toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
     });
+  }
 
-    if (error) {
-      console.error('Resend email error:', error);
-      throw new Error('Failed to send password reset email');
-    }
-
-    console.log('Password reset email sent successfully:', data);
+  /**
+   * Escape user-written text before putting it in an email
+   */
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
   }
 }
-
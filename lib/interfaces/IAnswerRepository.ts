@@ -1,5 +1,14 @@
 import { IRepository } from './IRepository';
 import { Answer } from '../models/Answer';
+import { AnswerRevision } from '../models/AnswerRevision';
+
+/**
+ * Editable fields of an answer
+ */
+export interface AnswerEditInput {
+  description?: string;
+  images?: string[];
+}
 
 /**
  * Answer repository interface
@@ -7,6 +16,11 @@ import { Answer } from '../models/Answer';
  */
 export interface IAnswerRepository extends IRepository<Answer> {
   findByQuestionId(questionId: string): Promise<Answer[]>;
+  updateWithRevision(id: string, data: AnswerEditInput, editedById: string): Promise<Answer>;
+  findRevisions(answerId: string): Promise<AnswerRevision[]>;
+  vote(answerId: string, userId: string, value: number): Promise<void>;
+  findUserVotes(userId: string, answerIds: string[]): Promise<Record<string, number>>;
+  setAccepted(questionId: string, answerId: string | null): Promise<void>;
 }
 
 
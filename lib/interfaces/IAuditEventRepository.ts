@@ -0,0 +1,32 @@
+import { IRepository } from './IRepository';
+import { AuditEvent, AuditEventType } from '../models/AuditEvent';
+
+/**
+ * Fields recorded for an audit event
+ */
+export interface AuditEventInput {
+  type: AuditEventType;
+  userId?: string | null;
+  email?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  detail?: string | null;
+}
+
+/**
+ * Filters for the admin audit log
+ */
+export interface AuditEventFilter {
+  type?: AuditEventType;
+  email?: string;
+  limit?: number;
+}
+
+/**
+ * Audit event repository interface
+ * Follows Interface Segregation Principle - specific methods for AuditEvent entity
+ */
+export interface IAuditEventRepository extends Omit<IRepository<AuditEvent>, 'create'> {
+  create(data: AuditEventInput): Promise<AuditEvent>;
+  findRecent(filter: AuditEventFilter): Promise<AuditEvent[]>;
+}
@@ -0,0 +1,11 @@
+import { AuditEvent } from '../models/AuditEvent';
+import { AuditEventInput, AuditEventFilter } from './IAuditEventRepository';
+
+/**
+ * Audit service interface
+ * Follows Interface Segregation Principle - only recording and reading the audit trail
+ */
+export interface IAuditService {
+  record(event: AuditEventInput): Promise<void>;
+  listEvents(filter?: AuditEventFilter): Promise<AuditEvent[]>;
+}
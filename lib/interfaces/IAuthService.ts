@@ -1,4 +1,22 @@
 import { User } from '../models/User';
+import { TwoFactorEnrollment } from './ITwoFactorService';
+import { SsoProfile } from './ISsoProvider';
+
+/**
+ * Second sign-in step still owed after the password
+ * 'verify' asks for a code from an enrolled app; 'setup' walks a user whose role requires 2FA through enrolling
+ */
+export type LoginChallengeKind = 'verify' | 'setup';
+
+/**
+ * Outcome of the password step of signing in
+ * token is null while a second factor is still owed (twoFactor says which kind)
+ */
+export interface LoginResult {
+  user: User;
+  token: string | null;
+  twoFactor: LoginChallengeKind | null;
+}
 
 /**
  * Authentication service interface
@@ -6,8 +24,10 @@ import { User } from '../models/User';
  */
 export interface IAuthService {
   signup(email: string, password: string, name?: string): Promise<{ user: User; token: string }>;
-  login(email: string, password: string): Promise<{ user: User; token: string }>;
+  login(email: string, password: string): Promise<LoginResult>;
+  loginWithSso(profile: SsoProfile): Promise<LoginResult>;
+  completeTwoFactorLogin(code: string): Promise<{ user: User; token: string }>;
+  beginTwoFactorSetup(): Promise<TwoFactorEnrollment>;
+  completeTwoFactorSetup(code: string): Promise<{ user: User; token: string; recoveryCodes: string[] }>;
   logout(): Promise<void>;
 }
-
-
@@ -0,0 +1,24 @@
+import { IRepository } from './IRepository';
+import { Comment } from '../models/Comment';
+
+/**
+ * A new comment before it is stored
+ * Exactly one of questionId / answerId is set
+ */
+export interface CommentInput {
+  body: string;
+  questionId?: string | null;
+  answerId?: string | null;
+  parentId?: string | null;
+  mentionedUserIds: string[];
+  userId: string;
+}
+
+/**
+ * Comment repository interface
+ * Follows Interface Segregation Principle - specific methods for Comment entity
+ */
+export interface ICommentRepository extends Omit<IRepository<Comment>, 'create'> {
+  create(data: CommentInput): Promise<Comment>;
+  findForQuestionThread(questionId: string): Promise<Comment[]>;
+}
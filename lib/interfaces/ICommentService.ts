@@ -0,0 +1,12 @@
+import { Comment } from '../models/Comment';
+
+/**
+ * Comment service interface
+ * Follows Interface Segregation Principle - only comment-related methods
+ */
+export interface ICommentService {
+  getCommentsForQuestion(questionId: string): Promise<Comment[]>;
+  addQuestionComment(questionId: string, userId: string, body: string, parentId?: string | null): Promise<Comment>;
+  addAnswerComment(answerId: string, userId: string, body: string, parentId?: string | null): Promise<Comment>;
+  deleteComment(id: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import { IRepository } from './IRepository';
+import { Course } from '../models/Course';
+import { Enrollment } from '../models/Enrollment';
+
+/**
+ * Fields of a course; code must already be normalised
+ */
+export interface CourseInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  term?: string | null;
+}
+
+/**
+ * A student to enroll in a course
+ */
+export interface EnrollmentInput {
+  userId: string;
+  section?: string | null;
+}
+
+/**
+ * Course repository interface
+ * Follows Interface Segregation Principle - specific methods for Course entity
+ */
+export interface ICourseRepository extends Omit<IRepository<Course>, 'create'> {
+  create(data: CourseInput): Promise<Course>;
+  findByCode(code: string): Promise<Course | null>;
+  findByUserId(userId: string): Promise<Course[]>;
+  findEnrollments(courseId: string): Promise<Enrollment[]>;
+  isEnrolled(courseId: string, userId: string): Promise<boolean>;
+  enroll(courseId: string, enrollments: EnrollmentInput[]): Promise<number>;
+  unenroll(courseId: string, userId: string): Promise<void>;
+}
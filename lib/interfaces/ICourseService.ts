@@ -0,0 +1,34 @@
+import { Course } from '../models/Course';
+import { Enrollment } from '../models/Enrollment';
+
+/**
+ * Outcome of a bulk enrollment import
+ * invalidRows holds 1-based CSV line numbers whose email could not be read
+ */
+export interface EnrollmentImportResult {
+  enrolled: number;
+  alreadyEnrolled: number;
+  unknownEmails: string[];
+  invalidRows: number[];
+}
+
+/**
+ * Course service interface
+ * Follows Interface Segregation Principle - only course-related methods
+ */
+export interface ICourseService {
+  listCourses(): Promise<Course[]>;
+  getCourse(id: string): Promise<Course>;
+  getCoursesForUser(user: { id: string; role: string }): Promise<Course[]>;
+  resolveCourseFilter(course: string | null, userId?: string): Promise<string[] | undefined>;
+  resolveCourseForContent(user: { id: string; role: string }, courseId: unknown): Promise<string | null>;
+  createCourse(data: { code: string; name: string; description?: string | null; term?: string | null }): Promise<Course>;
+  updateCourse(
+    id: string,
+    data: { code?: string; name?: string; description?: string | null; term?: string | null }
+  ): Promise<Course>;
+  deleteCourse(id: string): Promise<void>;
+  getEnrollments(courseId: string): Promise<Enrollment[]>;
+  enrollFromCsv(courseId: string, csv: string): Promise<EnrollmentImportResult>;
+  unenroll(courseId: string, userId: string): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { DigestFrequency, NotificationPreference } from '../models/NotificationPreference';
+import { NotificationPreferenceInput } from './INotificationPreferenceRepository';
+
+/**
+ * What goes into one digest email
+ */
+export interface DigestContent {
+  frequency: Exclude<DigestFrequency, 'NEVER'>;
+  answers: { title: string; question: string | null; link: string | null; createdAt: Date }[];
+  deadlines: { title: string; deadline: Date }[];
+}
+
+/**
+ * Digest service interface
+ * Follows Interface Segregation Principle - only digest preferences, scheduling and sending
+ */
+export interface IDigestService {
+  getPreferences(userId: string): Promise<NotificationPreference>;
+  updatePreferences(userId: string, data: NotificationPreferenceInput): Promise<NotificationPreference>;
+  queueDueDigests(now?: Date): Promise<number>;
+  buildDigest(userId: string, now?: Date): Promise<DigestContent | null>;
+  sendDigest(userId: string, now?: Date): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+/**
+ * A single email ready to hand to a transport
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+/**
+ * Email transport interface
+ * Follows Interface Segregation Principle - only delivery; templates live in EmailService
+ * Implementations: Resend, a plain SMTP server (e.g. Mailpit) and a folder of .eml files
+ */
+export interface IEmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { User } from '../models/User';
+
+/**
+ * Email verification service interface
+ * Follows Interface Segregation Principle - only signup address verification
+ */
+export interface IEmailVerificationService {
+  sendVerification(user: User): Promise<void>;
+  resendVerification(userId: string): Promise<void>;
+  verifyEmail(token: string): Promise<User>;
+}
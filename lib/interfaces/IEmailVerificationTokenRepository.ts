@@ -0,0 +1,14 @@
+import { IRepository } from './IRepository';
+import { EmailVerificationToken } from '../models/EmailVerificationToken';
+
+/**
+ * Email verification token repository interface
+ * Follows Interface Segregation Principle - specific methods for EmailVerificationToken entity
+ */
+export interface IEmailVerificationTokenRepository extends Omit<IRepository<EmailVerificationToken>, 'create'> {
+  create(data: { userId: string; tokenHash: string; expiresAt: Date }): Promise<EmailVerificationToken>;
+  findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null>;
+  findLatestByUserId(userId: string): Promise<EmailVerificationToken | null>;
+  consume(id: string, at: Date): Promise<boolean>;
+  invalidateForUser(userId: string, at: Date): Promise<number>;
+}
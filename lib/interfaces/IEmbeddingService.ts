@@ -1,10 +1,19 @@
+/**
+ * A vector together with the provider that produced it
+ * Vectors are only comparable when provider and dimension match
+ */
+export interface Embedding {
+  values: number[];
+  provider: string;
+}
+
 /**
  * Embedding service interface
  * Follows Interface Segregation Principle - only embedding-related methods
+ * Implementations: Gemini, OpenAI-compatible servers and a local hashing embedder
  */
 export interface IEmbeddingService {
   generateEmbedding(text: string): Promise<number[]>;
   getDimensions(): number;
+  getProviderName(): string;
 }
-
-
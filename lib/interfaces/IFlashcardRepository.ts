@@ -0,0 +1,31 @@
+import { IRepository } from './IRepository';
+import { Flashcard, FlashcardSource } from '../models/Flashcard';
+import { FlashcardDeck } from '../models/FlashcardDeck';
+
+/**
+ * A new card before it is stored
+ */
+export interface FlashcardInput {
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  deckId: string;
+  userId: string;
+  sourceNoteId?: string | null;
+  sourceQuizQuestionId?: string | null;
+}
+
+/**
+ * Flashcard repository interface
+ * Follows Interface Segregation Principle - specific methods for Flashcard entity and its decks
+ */
+export interface IFlashcardRepository extends Omit<IRepository<Flashcard>, 'create'> {
+  create(data: FlashcardInput): Promise<Flashcard>;
+  createMany(cards: FlashcardInput[]): Promise<number>;
+  findDue(userId: string, limit: number, deckId?: string): Promise<Flashcard[]>;
+  findByDeckId(deckId: string): Promise<Flashcard[]>;
+  findDecksByUserId(userId: string): Promise<FlashcardDeck[]>;
+  findDeckById(id: string): Promise<FlashcardDeck | null>;
+  findOrCreateDeck(userId: string, name: string, description?: string | null): Promise<FlashcardDeck>;
+  deleteDeck(id: string): Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { Flashcard } from '../models/Flashcard';
+import { FlashcardDeck } from '../models/FlashcardDeck';
+
+/**
+ * Flashcard service interface
+ * Follows Interface Segregation Principle - only flashcard-related methods
+ */
+export interface IFlashcardService {
+  getDecks(userId: string): Promise<FlashcardDeck[]>;
+  createDeck(userId: string, name: string, description?: string | null): Promise<FlashcardDeck>;
+  deleteDeck(deckId: string, userId: string): Promise<void>;
+  addCard(userId: string, deckId: string, front: string, back: string): Promise<Flashcard>;
+  addCardsFromNotes(
+    userId: string,
+    deckId: string,
+    cards: { front: string; back: string; sourceNoteId: string | null }[]
+  ): Promise<number>;
+  addCardsFromQuizMisses(quizId: string, userId: string, answers: number[]): Promise<number>;
+  deleteCard(cardId: string, userId: string): Promise<void>;
+  getDueCards(userId: string, deckId?: string, limit?: number): Promise<Flashcard[]>;
+  reviewCard(cardId: string, userId: string, grade: number): Promise<Flashcard>;
+}
@@ -0,0 +1,31 @@
+import { IRepository } from './IRepository';
+import { Job, JobStatus, JobType } from '../models/Job';
+
+/**
+ * A job to queue
+ * When key is set, nothing is queued while a pending or running job has the same type and key
+ */
+export interface JobInput {
+  type: JobType;
+  key?: string | null;
+  payload?: Record<string, any>;
+  maxAttempts?: number;
+  runAt?: Date;
+  // Queue anyway when the same job is running, for work whose input changed after the run started;
+  // the copy waits for that run to end
+  followUpIfRunning?: boolean;
+}
+
+/**
+ * Job repository interface
+ * Follows Interface Segregation Principle - specific methods for the job queue
+ */
+export interface IJobRepository extends Omit<IRepository<Job>, 'create'> {
+  create(data: JobInput): Promise<Job>;
+  enqueue(data: JobInput): Promise<Job | null>;
+  claim(types: JobType[], limit: number, staleAfterMs: number): Promise<Job[]>;
+  complete(id: string): Promise<void>;
+  fail(id: string, error: string, retryAt: Date | null): Promise<void>;
+  countByStatus(): Promise<Record<JobStatus, number>>;
+  deleteFinished(before: Date): Promise<number>;
+}
@@ -0,0 +1,30 @@
+import { Job, JobType } from '../models/Job';
+
+/**
+ * Runs the work for one job; throwing marks the attempt as failed
+ */
+export type JobHandler = (job: Job) => Promise<void>;
+
+/**
+ * Recurring work, such as a sweep that queues jobs; throwing is logged and the task runs again next interval
+ */
+export type ScheduledTask = () => Promise<void>;
+
+/**
+ * Outcome of one pass over the queue
+ */
+export interface JobRunSummary {
+  completed: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Job worker interface
+ * Follows Interface Segregation Principle - only queue-processing methods
+ */
+export interface IJobWorker {
+  register(type: JobType, handler: JobHandler): this;
+  schedule(name: string, intervalMs: number, task: ScheduledTask): this;
+  runOnce(limit?: number): Promise<JobRunSummary>;
+}
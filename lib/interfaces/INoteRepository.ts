@@ -10,5 +10,7 @@ export interface INoteRepository extends IRepository<Note> {
   findByShareToken(token: string): Promise<Note | null>;
   enableSharing(id: string): Promise<Note>;
   disableSharing(id: string): Promise<Note>;
+  recordSharedView(noteId: string, userId: string): Promise<void>;
+  findSharedViewerIds(noteId: string): Promise<string[]>;
 }
 
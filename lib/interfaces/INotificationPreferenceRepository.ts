@@ -0,0 +1,23 @@
+import { IRepository } from './IRepository';
+import { NotificationPreference, DigestFrequency } from '../models/NotificationPreference';
+
+/**
+ * Fields a user can change on the settings page
+ */
+export interface NotificationPreferenceInput {
+  digestFrequency?: DigestFrequency;
+  digestAnswers?: boolean;
+  digestDeadlines?: boolean;
+}
+
+/**
+ * Notification preference repository interface
+ * Preferences are keyed by user id, so findById takes the user's id
+ * Follows Interface Segregation Principle - specific methods for NotificationPreference entity
+ */
+export interface INotificationPreferenceRepository extends Omit<IRepository<NotificationPreference>, 'create'> {
+  create(data: NotificationPreferenceInput & { userId: string }): Promise<NotificationPreference>;
+  upsert(userId: string, data: NotificationPreferenceInput): Promise<NotificationPreference>;
+  findDueForDigest(frequency: DigestFrequency, lastDigestBefore: Date): Promise<NotificationPreference[]>;
+  markDigestSent(userId: string, at: Date): Promise<void>;
+}
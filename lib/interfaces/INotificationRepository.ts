@@ -0,0 +1,28 @@
+import { IRepository } from './IRepository';
+import { Notification, NotificationType } from '../models/Notification';
+
+/**
+ * A notification to store for one user
+ */
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  key?: string | null;
+}
+
+/**
+ * Notification repository interface
+ * Follows Interface Segregation Principle - specific methods for Notification entity
+ */
+export interface INotificationRepository extends Omit<IRepository<Notification>, 'create'> {
+  create(data: NotificationInput): Promise<Notification>;
+  createMany(data: NotificationInput[]): Promise<number>;
+  findByUserId(userId: string, limit: number): Promise<Notification[]>;
+  findByTypeBetween(userId: string, type: NotificationType, from: Date, to: Date): Promise<Notification[]>;
+  countUnread(userId: string): Promise<number>;
+  markRead(userId: string, ids?: string[]): Promise<number>;
+  findUnreadUserIds(keyPrefix: string, userIds: string[]): Promise<string[]>;
+}
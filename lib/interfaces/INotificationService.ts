@@ -0,0 +1,26 @@
+import { Comment } from '../models/Comment';
+import { Note } from '../models/Note';
+import { Notification } from '../models/Notification';
+
+/**
+ * The user who caused an event, as returned by getCurrentUser
+ */
+export interface NotificationActor {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+/**
+ * Notification service interface
+ * Follows Interface Segregation Principle - only notification-related methods
+ */
+export interface INotificationService {
+  getNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  getUnreadCount(userId: string): Promise<number>;
+  markAsRead(userId: string, ids?: string[]): Promise<number>;
+  notifyAnswer(questionId: string, author: NotificationActor): Promise<void>;
+  notifyComment(comment: Comment): Promise<void>;
+  notifyNoteUpdated(note: Note, editor: NotificationActor): Promise<void>;
+  sendDeadlineReminders(userId?: string, now?: Date): Promise<number>;
+}
@@ -0,0 +1,9 @@
+/**
+ * Password reset service interface
+ * Follows Interface Segregation Principle - only reset link issuing and redeeming
+ */
+export interface IPasswordResetService {
+  requestReset(email: string): Promise<void>;
+  isValidToken(token: string): Promise<boolean>;
+  resetPassword(token: string, newPassword: string): Promise<void>;
+}
@@ -0,0 +1,13 @@
+import { IRepository } from './IRepository';
+import { PasswordResetToken } from '../models/PasswordResetToken';
+
+/**
+ * Password reset token repository interface
+ * Follows Interface Segregation Principle - specific methods for PasswordResetToken entity
+ */
+export interface IPasswordResetTokenRepository extends Omit<IRepository<PasswordResetToken>, 'create'> {
+  create(data: { userId: string; tokenHash: string; expiresAt: Date }): Promise<PasswordResetToken>;
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  consume(id: string, at: Date): Promise<boolean>;
+  invalidateForUser(userId: string, at: Date): Promise<number>;
+}
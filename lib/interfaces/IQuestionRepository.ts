@@ -1,5 +1,61 @@
 import { IRepository } from './IRepository';
 import { Question } from '../models/Question';
+import { QuestionRevision } from '../models/QuestionRevision';
+import { SearchHighlight } from '../models/QuestionSearchResult';
+import { Embedding } from './IEmbeddingService';
+
+/**
+ * Editable fields of a question
+ */
+export interface QuestionEditInput {
+  title?: string;
+  type?: string;
+  description?: string;
+  images?: string[];
+}
+
+export type QuestionSort = 'newest' | 'answers' | 'votes';
+
+/**
+ * Filters and paging for the question listing
+ * `courseIds` keeps questions from any of those courses; `cursor` is the opaque `nextCursor` of the previous page
+ */
+export interface QuestionListOptions {
+  type?: string;
+  tag?: string;
+  courseIds?: string[];
+  authorId?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  hasImages?: boolean;
+  unanswered?: boolean;
+  sort?: QuestionSort;
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * One page of the question listing
+ */
+export interface QuestionPage {
+  questions: Question[];
+  nextCursor: string | null;
+}
+
+/**
+ * An existing question close to a given embedding
+ * similarity is cosine similarity, 1 meaning identical direction
+ */
+export interface SimilarQuestion {
+  question: Question;
+  similarity: number;
+}
+
+/**
+ * Which questions an embedding backfill covers
+ * missing: no vector; outdated: missing or produced by another provider/size; all: every question
+ */
+export type EmbeddingScope = 'missing' | 'outdated' | 'all';
 
 /**
  * Question repository interface
@@ -12,9 +68,23 @@ export interface IQuestionRepository extends Omit<IRepository<Question>, 'create
     description: string;
     images: string[];
     userId: string;
-    embedding?: number[] | null;
+    courseId?: string | null;
+    embedding?: Embedding | null;
   }): Promise<Question>;
   findByUserId(userId: string): Promise<Question[]>;
-  searchByEmbedding(embedding: number[], limit?: number): Promise<Question[]>;
+  findByIds(ids: string[]): Promise<Question[]>;
+  findPage(options: QuestionListOptions): Promise<QuestionPage>;
+  searchByEmbedding(embedding: Embedding, limit?: number): Promise<Question[]>;
+  searchByKeyword(query: string, limit?: number): Promise<Question[]>;
+  findSimilar(embedding: Embedding, minSimilarity: number, limit: number, excludeId?: string): Promise<SimilarQuestion[]>;
+  findRelated(id: string, limit: number): Promise<SimilarQuestion[]>;
+  merge(sourceId: string, targetId: string): Promise<void>;
+  findSearchHighlights(ids: string[], query: string): Promise<Record<string, SearchHighlight>>;
+  updateWithRevision(id: string, data: QuestionEditInput, editedById: string): Promise<Question>;
+  updateEmbedding(id: string, embedding: Embedding | null): Promise<void>;
+  findIdsForEmbedding(scope: EmbeddingScope, provider: string, dimensions: number): Promise<string[]>;
+  findRevisions(questionId: string): Promise<QuestionRevision[]>;
+  vote(questionId: string, userId: string, value: number): Promise<void>;
+  findUserVote(questionId: string, userId: string): Promise<number>;
 }
 
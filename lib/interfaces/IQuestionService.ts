@@ -1,5 +1,16 @@
 import { Question } from '../models/Question';
 import { Answer } from '../models/Answer';
+import { QuestionRevision } from '../models/QuestionRevision';
+import { AnswerRevision } from '../models/AnswerRevision';
+import { QuestionSearchResult, SearchMode } from '../models/QuestionSearchResult';
+import {
+  EmbeddingScope,
+  QuestionEditInput,
+  QuestionListOptions,
+  QuestionPage,
+  SimilarQuestion,
+} from './IQuestionRepository';
+import { AnswerEditInput } from './IAnswerRepository';
 
 /**
  * Question service interface
@@ -7,18 +18,24 @@ import { Answer } from '../models/Answer';
  */
 export interface IQuestionService {
   getAllQuestions(): Promise<Question[]>;
+  listQuestions(options: QuestionListOptions): Promise<QuestionPage>;
   getQuestionById(id: string): Promise<Question | null>;
   getQuestionsByUserId(userId: string): Promise<Question[]>;
-  createQuestion(data: {
-    title: string;
-    type: string;
-    description: string;
-    images: string[];
-    userId: string;
-  }): Promise<Question>;
+  createQuestion(
+    data: {
+      title: string;
+      type: string;
+      description: string;
+      images: string[];
+      userId: string;
+      courseId?: string | null;
+    },
+    options?: { allowDuplicates?: boolean }
+  ): Promise<{ question: Question | null; duplicates: SimilarQuestion[] }>;
   updateQuestion(id: string, data: Partial<Question>): Promise<Question>;
   deleteQuestion(id: string): Promise<void>;
-  searchQuestions(query: string, limit?: number): Promise<Question[]>;
+  mergeQuestion(sourceId: string, targetId: string): Promise<Question>;
+  searchQuestions(query: string, limit?: number): Promise<{ results: QuestionSearchResult[]; mode: SearchMode }>;
   getAnswersForQuestion(questionId: string): Promise<Answer[]>;
   createAnswer(data: {
     description: string;
@@ -27,6 +44,19 @@ export interface IQuestionService {
     userId: string;
   }): Promise<Answer>;
   deleteAnswer(id: string): Promise<void>;
+  editQuestion(id: string, editor: { id: string; role: string }, data: QuestionEditInput): Promise<Question>;
+  editAnswer(id: string, editor: { id: string; role: string }, data: AnswerEditInput): Promise<Answer>;
+  getRelatedQuestions(id: string, limit?: number): Promise<SimilarQuestion[]>;
+  regenerateEmbedding(id: string): Promise<boolean>;
+  getQuestionIdsForEmbedding(scope: EmbeddingScope): Promise<string[]>;
+  queueMissingEmbeddings(): Promise<number>;
+  getQuestionRevisions(id: string): Promise<QuestionRevision[]>;
+  getAnswerRevisions(id: string): Promise<AnswerRevision[]>;
+  voteQuestion(questionId: string, userId: string, value: number): Promise<Question>;
+  voteAnswer(answerId: string, userId: string, value: number): Promise<Answer>;
+  getUserQuestionVote(questionId: string, userId: string): Promise<number>;
+  getUserAnswerVotes(userId: string, answerIds: string[]): Promise<Record<string, number>>;
+  setAcceptedAnswer(answerId: string, user: { id: string; role: string }, accepted: boolean): Promise<Answer>;
 }
 
 
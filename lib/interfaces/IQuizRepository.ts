@@ -0,0 +1,42 @@
+import { IRepository } from './IRepository';
+import { Quiz } from '../models/Quiz';
+import { QuizAttempt } from '../models/QuizAttempt';
+
+/**
+ * A generated question before it is stored
+ */
+export interface QuizQuestionInput {
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  explanation?: string | null;
+  sourceNoteId?: string | null;
+}
+
+/**
+ * Quiz repository interface
+ * Follows Interface Segregation Principle - specific methods for Quiz entity and its attempts
+ */
+export interface IQuizRepository extends Omit<IRepository<Quiz>, 'create'> {
+  create(
+    data: {
+      title: string;
+      description: string;
+      subject: string;
+      difficulty: string;
+      prompt: string;
+      userId: string;
+      courseId?: string | null;
+    },
+    questions?: QuizQuestionInput[]
+  ): Promise<Quiz>;
+  findByUserId(userId: string): Promise<Quiz[]>;
+  createAttempt(data: {
+    quizId: string;
+    userId: string;
+    answers: number[];
+    score: number;
+    total: number;
+  }): Promise<QuizAttempt>;
+  findAttempts(quizId: string, userId: string): Promise<QuizAttempt[]>;
+}
@@ -0,0 +1,25 @@
+import { Quiz } from '../models/Quiz';
+import { QuizAttempt } from '../models/QuizAttempt';
+import { QuizQuestionInput } from './IQuizRepository';
+
+/**
+ * Quiz service interface
+ * Follows Interface Segregation Principle - only quiz-related methods
+ */
+export interface IQuizService {
+  saveGeneratedQuiz(data: {
+    title: string;
+    description: string;
+    subject: string;
+    difficulty: string;
+    prompt: string;
+    userId: string;
+    courseId?: string | null;
+    questions: QuizQuestionInput[];
+  }): Promise<Quiz>;
+  getQuizHistory(userId: string): Promise<Quiz[]>;
+  getQuizForUser(quizId: string, userId: string): Promise<Quiz>;
+  deleteQuiz(quizId: string, userId: string): Promise<void>;
+  submitAttempt(quizId: string, userId: string, answers: number[]): Promise<QuizAttempt>;
+  getAttempts(quizId: string, userId: string): Promise<QuizAttempt[]>;
+}
@@ -0,0 +1,17 @@
+/**
+ * A counter's state after a hit
+ */
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Storage for fixed-window rate limit counters
+ * Follows Interface Segregation Principle - only counter storage, no limit policy
+ */
+export interface IRateLimitStore {
+  increment(key: string, windowMs: number, now?: Date): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+  prune(now?: Date): Promise<number>;
+}
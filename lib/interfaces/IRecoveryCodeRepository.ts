@@ -0,0 +1,14 @@
+import { IRepository } from './IRepository';
+import { RecoveryCode } from '../models/RecoveryCode';
+
+/**
+ * Recovery code repository interface
+ * Follows Interface Segregation Principle - specific methods for RecoveryCode entity
+ */
+export interface IRecoveryCodeRepository extends Omit<IRepository<RecoveryCode>, 'create'> {
+  create(data: { userId: string; codeHash: string }): Promise<RecoveryCode>;
+  replaceForUser(userId: string, codeHashes: string[]): Promise<void>;
+  deleteForUser(userId: string): Promise<number>;
+  consume(userId: string, codeHash: string, at: Date): Promise<boolean>;
+  countUnused(userId: string): Promise<number>;
+}
@@ -0,0 +1,20 @@
+import { IRepository } from './IRepository';
+import { Session } from '../models/Session';
+
+/**
+ * Session repository interface
+ * Follows Interface Segregation Principle - specific methods for Session entity
+ */
+export interface ISessionRepository extends Omit<IRepository<Session>, 'create'> {
+  create(data: {
+    userId: string;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+    expiresAt: Date;
+  }): Promise<Session>;
+  findActiveByUserId(userId: string, now: Date): Promise<Session[]>;
+  touch(id: string, at: Date): Promise<void>;
+  revoke(id: string, userId: string, at: Date): Promise<boolean>;
+  revokeAllForUser(userId: string, at: Date, exceptId?: string): Promise<number>;
+  deleteExpired(before: Date): Promise<number>;
+}
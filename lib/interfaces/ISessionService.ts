@@ -0,0 +1,22 @@
+import { Session } from '../models/Session';
+
+/**
+ * Where a sign-in came from, recorded on the session
+ */
+export interface SessionDevice {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Session service interface
+ * Follows Interface Segregation Principle - only signed-in device management
+ */
+export interface ISessionService {
+  startSession(user: { id: string; email: string; role: string }, device: SessionDevice): Promise<string>;
+  listSessions(userId: string): Promise<Session[]>;
+  revokeSession(userId: string, sessionId: string): Promise<void>;
+  revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  rotateSessions(user: { id: string; email: string; role: string }, device: SessionDevice): Promise<string>;
+  pruneExpiredSessions(now?: Date): Promise<number>;
+}
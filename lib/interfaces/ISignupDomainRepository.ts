@@ -0,0 +1,11 @@
+import { IRepository } from './IRepository';
+import { SignupDomain } from '../models/SignupDomain';
+
+/**
+ * Signup domain repository interface
+ * Follows Interface Segregation Principle - specific methods for SignupDomain entity
+ */
+export interface ISignupDomainRepository extends Omit<IRepository<SignupDomain>, 'create'> {
+  create(data: { domain: string }): Promise<SignupDomain>;
+  findByDomain(domain: string): Promise<SignupDomain | null>;
+}
@@ -0,0 +1,12 @@
+import { SignupDomain } from '../models/SignupDomain';
+
+/**
+ * Signup domain service interface
+ * Follows Interface Segregation Principle - only the signup domain allow-list
+ */
+export interface ISignupDomainService {
+  listDomains(): Promise<SignupDomain[]>;
+  addDomain(domain: string): Promise<SignupDomain>;
+  removeDomain(id: string): Promise<void>;
+  assertEmailAllowed(email: string): Promise<void>;
+}
@@ -0,0 +1,12 @@
+import { IRepository } from './IRepository';
+import { SsoIdentity } from '../models/SsoIdentity';
+
+/**
+ * SSO identity repository interface
+ * Follows Interface Segregation Principle - specific methods for SsoIdentity entity
+ */
+export interface ISsoIdentityRepository extends Omit<IRepository<SsoIdentity>, 'create'> {
+  create(data: { userId: string; provider: string; subject: string }): Promise<SsoIdentity>;
+  findByProviderSubject(provider: string, subject: string): Promise<SsoIdentity | null>;
+  touch(id: string, at: Date): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import type { Role } from '../models/User';
+
+/**
+ * Values that must survive the round trip to the identity provider, kept in a cookie meanwhile
+ */
+export interface SsoAuthorizationState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Who the identity provider says signed in
+ * role is null when the provider isn't configured to decide roles
+ */
+export interface SsoProfile {
+  provider: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name: string | null;
+  role: Role | null;
+}
+
+/**
+ * Single sign-on provider interface
+ * Follows Interface Segregation Principle - only the redirect-based sign-in handshake
+ * Implementations: OpenID Connect
+ */
+export interface ISsoProvider {
+  readonly name: string;
+  createAuthorizationRequest(): Promise<{ url: string; state: SsoAuthorizationState }>;
+  handleCallback(code: string, state: SsoAuthorizationState): Promise<SsoProfile>;
+}
@@ -0,0 +1,10 @@
+import { User } from '../models/User';
+import { SsoProfile } from './ISsoProvider';
+
+/**
+ * SSO account service interface
+ * Follows Interface Segregation Principle - only matching provider accounts to local users
+ */
+export interface ISsoService {
+  resolveUser(profile: SsoProfile): Promise<User>;
+}
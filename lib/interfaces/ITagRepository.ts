@@ -0,0 +1,16 @@
+import { IRepository } from './IRepository';
+import { Tag } from '../models/Tag';
+
+/**
+ * Tag repository interface
+ * Follows Interface Segregation Principle - specific methods for Tag entity
+ */
+export interface ITagRepository extends Omit<IRepository<Tag>, 'create'> {
+  create(data: { name: string; description?: string | null }): Promise<Tag>;
+  findByName(name: string): Promise<Tag | null>;
+  searchByPrefix(prefix: string, limit: number): Promise<Tag[]>;
+  findOrCreateMany(names: string[]): Promise<Tag[]>;
+  findQuestionTagNames(questionId: string): Promise<string[]>;
+  setQuestionTags(questionId: string, tagIds: string[]): Promise<void>;
+  merge(sourceId: string, targetId: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { Tag } from '../models/Tag';
+
+/**
+ * Tag service interface
+ * Follows Interface Segregation Principle - only tag-related methods
+ */
+export interface ITagService {
+  listTags(): Promise<Tag[]>;
+  searchTags(prefix: string): Promise<Tag[]>;
+  getTag(name: string): Promise<Tag>;
+  normalizeTagNames(names: unknown[]): string[];
+  setQuestionTags(questionId: string, editor: { id: string; role: string }, names: unknown[]): Promise<string[]>;
+  tagNewQuestion(questionId: string, names: string[]): Promise<string[]>;
+  suggestTags(title: string, description: string): Promise<string[]>;
+  autoTagQuestion(questionId: string): Promise<boolean>;
+  renameTag(name: string, newName: string): Promise<Tag>;
+  mergeTags(sourceName: string, targetName: string): Promise<Tag>;
+  deleteTag(name: string): Promise<void>;
+}
@@ -0,0 +1,8 @@
+/**
+ * Tag suggestion service interface
+ * Follows Interface Segregation Principle - only tag suggestion
+ * Implementations should prefer the known tags and may return names that still need normalising
+ */
+export interface ITagSuggestionService {
+  suggestTags(text: string, knownTags: string[], limit: number): Promise<string[]>;
+}
@@ -8,6 +8,7 @@ import { Task } from '../models/Task';
 export interface ITaskRepository extends IRepository<Task> {
   findByUserId(userId: string): Promise<Task[]>;
   toggleCompletion(id: string): Promise<Task>;
+  findOpenWithDeadlineBetween(from: Date, to: Date, userId?: string): Promise<Task[]>;
 }
 
 
@@ -0,0 +1,12 @@
+import { IRepository } from './IRepository';
+import { TwoFactorPolicy, TwoFactorPolicyRole } from '../models/TwoFactorPolicy';
+
+/**
+ * Two-factor policy repository interface
+ * Policies are keyed by role, so findById takes the role name
+ * Follows Interface Segregation Principle - specific methods for TwoFactorPolicy entity
+ */
+export interface ITwoFactorPolicyRepository extends Omit<IRepository<TwoFactorPolicy>, 'create'> {
+  create(data: { role: TwoFactorPolicyRole; required: boolean }): Promise<TwoFactorPolicy>;
+  upsert(role: TwoFactorPolicyRole, required: boolean): Promise<TwoFactorPolicy>;
+}
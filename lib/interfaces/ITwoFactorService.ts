@@ -0,0 +1,36 @@
+import { TwoFactorPolicy, TwoFactorPolicyRole } from '../models/TwoFactorPolicy';
+
+/**
+ * What an authenticator app needs to add an account
+ */
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * A user's two-factor settings as shown on the settings page
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Two-factor service interface
+ * Follows Interface Segregation Principle - only TOTP enrollment, code checks and role policies
+ */
+export interface ITwoFactorService {
+  getStatus(user: { id: string; role: string }): Promise<TwoFactorStatus>;
+  isEnabled(userId: string): Promise<boolean>;
+  beginEnrollment(user: { id: string; email: string }): Promise<TwoFactorEnrollment>;
+  confirmEnrollment(userId: string, code: string): Promise<string[]>;
+  disable(user: { id: string; role: string }, code: string): Promise<void>;
+  regenerateRecoveryCodes(userId: string, code: string): Promise<string[]>;
+  verifyCode(userId: string, code: string): Promise<boolean>;
+  isRequiredForRole(role: string): Promise<boolean>;
+  listPolicies(): Promise<TwoFactorPolicy[]>;
+  setRequired(role: TwoFactorPolicyRole, required: boolean, admin: { id: string; role: string }): Promise<TwoFactorPolicy>;
+}
@@ -14,8 +14,24 @@ export interface IUserRepository extends Omit<IRepository<User>, 'create'> {
     role?: UserRole;
   }): Promise<User>;
   findByEmail(email: string): Promise<User | null>;
+  findByEmails(emails: string[]): Promise<User[]>;
   findByRole(role: UserRole): Promise<User[]>;
   updateRole(id: string, role: UserRole): Promise<User>;
-  findWithPassword(email: string): Promise<{ user: User; password: string } | null>;
+  findWithPassword(email: string): Promise<{ user: User; password: string; lockedUntil: Date | null } | null>;
+  incrementFailedLogins(id: string): Promise<number>;
+  lockAccount(id: string, until: Date): Promise<void>;
+  clearFailedLogins(id: string): Promise<void>;
+  updatePassword(id: string, hashedPassword: string, changedAt?: Date): Promise<void>;
+  markEmailVerified(id: string, at: Date): Promise<void>;
+  findTwoFactorState(
+    id: string
+  ): Promise<{ secret: string | null; enabledAt: Date | null; lastUsedStep: number | null } | null>;
+  setTotpSecret(id: string, secret: string): Promise<void>;
+  enableTwoFactor(id: string, at: Date): Promise<void>;
+  disableTwoFactor(id: string): Promise<void>;
+  markTotpStepUsed(id: string, step: number): Promise<boolean>;
+  findWithoutTwoFactor(role: UserRole): Promise<User[]>;
+  findByMentionHandles(handles: string[]): Promise<User[]>;
+  searchByMentionHandle(prefix: string, limit?: number): Promise<User[]>;
 }
 
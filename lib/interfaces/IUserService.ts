@@ -12,6 +12,7 @@ export interface IUserService {
   getUserByEmail(email: string): Promise<User | null>;
   updateUserRole(userId: string, role: UserRole, currentUserId: string): Promise<User>;
   deleteUser(userId: string, currentUserId: string): Promise<void>;
+  searchMentionableUsers(prefix: string): Promise<User[]>;
 }
 
 
@@ -9,7 +9,42 @@ export type { IQuestionRepository } from './IQuestionRepository';
 export type { IAnswerRepository } from './IAnswerRepository';
 export type { ITaskRepository } from './ITaskRepository';
 export type { INoteRepository } from './INoteRepository';
-export type { IAuthService } from './IAuthService';
+export type { IQuizRepository } from './IQuizRepository';
+export type { IFlashcardRepository } from './IFlashcardRepository';
+export type { ICommentRepository } from './ICommentRepository';
+export type { IJobRepository } from './IJobRepository';
+export type { ITagRepository } from './ITagRepository';
+export type { ICourseRepository } from './ICourseRepository';
+export type { INotificationRepository } from './INotificationRepository';
+export type { INotificationPreferenceRepository } from './INotificationPreferenceRepository';
+export type { IPasswordResetTokenRepository } from './IPasswordResetTokenRepository';
+export type { ISessionRepository } from './ISessionRepository';
+export type { IEmailVerificationTokenRepository } from './IEmailVerificationTokenRepository';
+export type { ISignupDomainRepository } from './ISignupDomainRepository';
+export type { IAuditEventRepository, AuditEventInput, AuditEventFilter } from './IAuditEventRepository';
+export type { IAuthService, LoginResult, LoginChallengeKind } from './IAuthService';
 export type { IUserService } from './IUserService';
 export type { IQuestionService } from './IQuestionService';
-export type { IEmbeddingService } from './IEmbeddingService';
\ No newline at end of file
+export type { IQuizService } from './IQuizService';
+export type { IFlashcardService } from './IFlashcardService';
+export type { ICommentService } from './ICommentService';
+export type { ITagService } from './ITagService';
+export type { ITagSuggestionService } from './ITagSuggestionService';
+export type { ICourseService } from './ICourseService';
+export type { INotificationService } from './INotificationService';
+export type { IDigestService } from './IDigestService';
+export type { IPasswordResetService } from './IPasswordResetService';
+export type { ISessionService, SessionDevice } from './ISessionService';
+export type { IEmailVerificationService } from './IEmailVerificationService';
+export type { ISignupDomainService } from './ISignupDomainService';
+export type { IAuditService } from './IAuditService';
+export type { IRateLimitStore, RateLimitHit } from './IRateLimitStore';
+export type { IRecoveryCodeRepository } from './IRecoveryCodeRepository';
+export type { ITwoFactorPolicyRepository } from './ITwoFactorPolicyRepository';
+export type { ITwoFactorService, TwoFactorEnrollment, TwoFactorStatus } from './ITwoFactorService';
+export type { ISsoIdentityRepository } from './ISsoIdentityRepository';
+export type { ISsoProvider, SsoProfile, SsoAuthorizationState } from './ISsoProvider';
+export type { ISsoService } from './ISsoService';
+export type { IEmailTransport, EmailMessage } from './IEmailTransport';
+export type { IEmbeddingService, Embedding } from './IEmbeddingService';
+export type { IJobWorker, JobHandler, ScheduledTask } from './IJobWorker';
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { User } from './User';
+import { can } from '../permissions';
 
 /**
  * Answer model class representing an answer entity
@@ -12,6 +13,8 @@ export class Answer {
   public user: User;
   public createdAt: Date;
   public updatedAt: Date;
+  public isAccepted: boolean;
+  public voteScore: number;
 
   constructor(
     id: string,
@@ -21,7 +24,9 @@ export class Answer {
     userId: string,
     user: User,
     createdAt: Date,
-    updatedAt: Date
+    updatedAt: Date,
+    isAccepted: boolean = false,
+    voteScore: number = 0
   ) {
     this.id = id;
     this.description = description;
@@ -31,6 +36,8 @@ export class Answer {
     this.user = user;
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
+    this.isAccepted = isAccepted;
+    this.voteScore = voteScore;
   }
 
   /**
@@ -54,6 +61,13 @@ export class Answer {
     return this.userId === userId;
   }
 
+  /**
+   * Check if a user may edit this answer (its author, or a role allowed to edit anyone's)
+   */
+  public canBeEditedBy(userId: string, role: string): boolean {
+    return can({ id: userId, role }, 'answer:edit', this);
+  }
+
   /**
    * Convert to plain object
    */
@@ -67,6 +81,8 @@ export class Answer {
       user: this.user.toJSON(),
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      isAccepted: this.isAccepted,
+      voteScore: this.voteScore,
     };
   }
 }
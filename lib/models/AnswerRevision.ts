@@ -0,0 +1,46 @@
+/**
+ * AnswerRevision model class representing an answer as it was before an edit
+ * Revisions are append-only and never change once recorded
+ */
+export class AnswerRevision {
+  public id: string;
+  public answerId: string;
+  public description: string;
+  public images: string[];
+  public editedById: string | null;
+  public editedByName: string | null;
+  public createdAt: Date;
+
+  constructor(
+    id: string,
+    answerId: string,
+    description: string,
+    images: string[],
+    editedById: string | null,
+    editedByName: string | null,
+    createdAt: Date
+  ) {
+    this.id = id;
+    this.answerId = answerId;
+    this.description = description;
+    this.images = images;
+    this.editedById = editedById;
+    this.editedByName = editedByName;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      answerId: this.answerId,
+      description: this.description,
+      images: this.images,
+      editedById: this.editedById,
+      editedByName: this.editedByName,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+export type AuditEventType = 'LOGIN_FAILED' | 'ACCOUNT_LOCKED' | 'RATE_LIMITED';
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = ['LOGIN_FAILED', 'ACCOUNT_LOCKED', 'RATE_LIMITED'];
+
+/**
+ * AuditEvent model class representing one security-relevant auth event
+ */
+export class AuditEvent {
+  public id: string;
+  public type: AuditEventType;
+  public userId: string | null;
+  public email: string | null;
+  public ipAddress: string | null;
+  public userAgent: string | null;
+  public detail: string | null;
+  public createdAt: Date;
+
+  constructor(
+    id: string,
+    type: AuditEventType,
+    userId: string | null,
+    email: string | null,
+    ipAddress: string | null,
+    userAgent: string | null,
+    detail: string | null,
+    createdAt: Date
+  ) {
+    this.id = id;
+    this.type = type;
+    this.userId = userId;
+    this.email = email;
+    this.ipAddress = ipAddress;
+    this.userAgent = userAgent;
+    this.detail = detail;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      type: this.type,
+      userId: this.userId,
+      email: this.email,
+      ipAddress: this.ipAddress,
+      userAgent: this.userAgent,
+      detail: this.detail,
+      createdAt: this.createdAt,
+    };
+  }
+}
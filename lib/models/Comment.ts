@@ -0,0 +1,74 @@
+import { User } from './User';
+
+/**
+ * Comment model class representing a short comment on a question or answer
+ * Comments are threaded one level deep: a reply points at a top-level comment
+ */
+export class Comment {
+  public id: string;
+  public body: string;
+  public questionId: string | null;
+  public answerId: string | null;
+  public parentId: string | null;
+  public mentionedUserIds: string[];
+  public userId: string;
+  public user: User;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    body: string,
+    questionId: string | null,
+    answerId: string | null,
+    parentId: string | null,
+    mentionedUserIds: string[],
+    userId: string,
+    user: User,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    this.id = id;
+    this.body = body;
+    this.questionId = questionId;
+    this.answerId = answerId;
+    this.parentId = parentId;
+    this.mentionedUserIds = mentionedUserIds;
+    this.userId = userId;
+    this.user = user;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Check if comment is a reply to another comment
+   */
+  public isReply(): boolean {
+    return this.parentId !== null;
+  }
+
+  /**
+   * Check if comment belongs to a user
+   */
+  public belongsTo(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      body: this.body,
+      questionId: this.questionId,
+      answerId: this.answerId,
+      parentId: this.parentId,
+      mentionedUserIds: this.mentionedUserIds,
+      userId: this.userId,
+      user: this.user.toJSON(),
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
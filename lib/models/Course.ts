@@ -0,0 +1,84 @@
+// Uppercase letters, digits and hyphens, e.g. "MATH101" or "CS-2100"
+const COURSE_CODE_PATTERN = /^[A-Z0-9][A-Z0-9-]*$/;
+export const MAX_COURSE_CODE_LENGTH = 20;
+
+/**
+ * The course fields shown next to scoped content (questions, notes, tasks, quizzes)
+ */
+export interface CourseSummary {
+  id: string;
+  code: string;
+  name: string;
+}
+
+/**
+ * Course model class representing a class that content can be scoped to
+ * Students see a course's content once they are enrolled in it
+ */
+export class Course {
+  public id: string;
+  public code: string;
+  public name: string;
+  public description: string | null;
+  public term: string | null;
+  public studentCount: number;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    code: string,
+    name: string,
+    description: string | null,
+    term: string | null,
+    studentCount: number,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    this.id = id;
+    this.code = code;
+    this.name = name;
+    this.description = description;
+    this.term = term;
+    this.studentCount = studentCount;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Normalise a course code: uppercase, without whitespace
+   */
+  public static normalizeCode(code: string): string {
+    return code.trim().toUpperCase().replace(/\s+/g, '');
+  }
+
+  /**
+   * Check if an already normalised code is allowed
+   */
+  public static isValidCode(code: string): boolean {
+    return code.length > 0 && code.length <= MAX_COURSE_CODE_LENGTH && COURSE_CODE_PATTERN.test(code);
+  }
+
+  /**
+   * Get the fields shown next to scoped content
+   */
+  public toSummary(): CourseSummary {
+    return { id: this.id, code: this.code, name: this.name };
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      code: this.code,
+      name: this.name,
+      description: this.description,
+      term: this.term,
+      studentCount: this.studentCount,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
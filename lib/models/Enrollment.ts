@@ -0,0 +1,33 @@
+import { User } from './User';
+
+/**
+ * Enrollment model class representing a student's membership of a course
+ */
+export class Enrollment {
+  public courseId: string;
+  public userId: string;
+  public user: User;
+  public section: string | null;
+  public createdAt: Date;
+
+  constructor(courseId: string, userId: string, user: User, section: string | null, createdAt: Date) {
+    this.courseId = courseId;
+    this.userId = userId;
+    this.user = user;
+    this.section = section;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      courseId: this.courseId,
+      userId: this.userId,
+      user: this.user.toJSON(),
+      section: this.section,
+      createdAt: this.createdAt,
+    };
+  }
+}
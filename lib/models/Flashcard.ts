@@ -0,0 +1,122 @@
+export type FlashcardSource = 'MANUAL' | 'NOTE' | 'QUIZ';
+
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Flashcard model class representing a spaced-repetition card
+ * Scheduling follows the SM-2 algorithm (ease factor, interval in days, repetition count)
+ */
+export class Flashcard {
+  public id: string;
+  public front: string;
+  public back: string;
+  public source: FlashcardSource;
+  public deckId: string;
+  public userId: string;
+  public sourceNoteId: string | null;
+  public sourceQuizQuestionId: string | null;
+  public ease: number;
+  public interval: number;
+  public repetitions: number;
+  public dueAt: Date;
+  public lastReviewedAt: Date | null;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    front: string,
+    back: string,
+    source: FlashcardSource,
+    deckId: string,
+    userId: string,
+    sourceNoteId: string | null,
+    sourceQuizQuestionId: string | null,
+    ease: number,
+    interval: number,
+    repetitions: number,
+    dueAt: Date,
+    lastReviewedAt: Date | null,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    this.id = id;
+    this.front = front;
+    this.back = back;
+    this.source = source;
+    this.deckId = deckId;
+    this.userId = userId;
+    this.sourceNoteId = sourceNoteId;
+    this.sourceQuizQuestionId = sourceQuizQuestionId;
+    this.ease = ease;
+    this.interval = interval;
+    this.repetitions = repetitions;
+    this.dueAt = dueAt;
+    this.lastReviewedAt = lastReviewedAt;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Check if card is due for review
+   */
+  public isDue(now: Date = new Date()): boolean {
+    return this.dueAt <= now;
+  }
+
+  /**
+   * Apply an SM-2 review grade (0 = blackout, 5 = perfect recall)
+   * Grades below 3 reset the card to a one-day interval
+   */
+  public review(grade: number, now: Date = new Date()): void {
+    if (grade < 3) {
+      this.repetitions = 0;
+      this.interval = 1;
+    } else {
+      if (this.repetitions === 0) {
+        this.interval = 1;
+      } else if (this.repetitions === 1) {
+        this.interval = 6;
+      } else {
+        this.interval = Math.round(this.interval * this.ease);
+      }
+      this.repetitions += 1;
+    }
+
+    const penalty = 5 - grade;
+    this.ease = Math.max(MIN_EASE, this.ease + (0.1 - penalty * (0.08 + penalty * 0.02)));
+    this.dueAt = new Date(now.getTime() + this.interval * DAY_MS);
+    this.lastReviewedAt = now;
+  }
+
+  /**
+   * Check if card belongs to a user
+   */
+  public belongsTo(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      front: this.front,
+      back: this.back,
+      source: this.source,
+      deckId: this.deckId,
+      userId: this.userId,
+      sourceNoteId: this.sourceNoteId,
+      sourceQuizQuestionId: this.sourceQuizQuestionId,
+      ease: this.ease,
+      interval: this.interval,
+      repetitions: this.repetitions,
+      dueAt: this.dueAt,
+      lastReviewedAt: this.lastReviewedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * FlashcardDeck model class representing a named group of flashcards
+ */
+export class FlashcardDeck {
+  public id: string;
+  public name: string;
+  public description: string | null;
+  public userId: string;
+  public cardCount: number;
+  public dueCount: number;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    name: string,
+    description: string | null,
+    userId: string,
+    cardCount: number,
+    dueCount: number,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    this.id = id;
+    this.name = name;
+    this.description = description;
+    this.userId = userId;
+    this.cardCount = cardCount;
+    this.dueCount = dueCount;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Check if deck belongs to a user
+   */
+  public belongsTo(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      userId: this.userId,
+      cardCount: this.cardCount,
+      dueCount: this.dueCount,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+// Background work the worker knows how to run
+export type JobType = 'embed-question' | 'tag-question' | 'send-digest';
+
+// First retry waits this long; each further failure doubles it
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Job model class representing one unit of queued background work
+ * Jobs are retried with exponential backoff until maxAttempts is reached
+ */
+export class Job {
+  public id: string;
+  public type: JobType;
+  public key: string | null;
+  public payload: Record<string, any>;
+  public status: JobStatus;
+  public attempts: number;
+  public maxAttempts: number;
+  public runAt: Date;
+  public lockedAt: Date | null;
+  public lastError: string | null;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    type: JobType,
+    key: string | null,
+    payload: Record<string, any>,
+    status: JobStatus,
+    attempts: number,
+    maxAttempts: number,
+    runAt: Date,
+    lockedAt: Date | null,
+    lastError: string | null,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    this.id = id;
+    this.type = type;
+    this.key = key;
+    this.payload = payload;
+    this.status = status;
+    this.attempts = attempts;
+    this.maxAttempts = maxAttempts;
+    this.runAt = runAt;
+    this.lockedAt = lockedAt;
+    this.lastError = lastError;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Check if another failure would be retried
+   * attempts already counts the run in progress
+   */
+  public canRetry(): boolean {
+    return this.attempts < this.maxAttempts;
+  }
+
+  /**
+   * When to run again after a failed attempt
+   */
+  public nextRetryAt(now: Date = new Date()): Date {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(this.attempts - 1, 0), MAX_RETRY_DELAY_MS);
+    return new Date(now.getTime() + delay);
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      type: this.type,
+      key: this.key,
+      payload: this.payload,
+      status: this.status,
+      attempts: this.attempts,
+      maxAttempts: this.maxAttempts,
+      runAt: this.runAt,
+      lockedAt: this.lockedAt,
+      lastError: this.lastError,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
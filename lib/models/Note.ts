@@ -11,6 +11,7 @@ export class Note {
   public user: User;
   public shareToken: string | null;
   public isPublic: boolean;
+  public courseId: string | null;
   public createdAt: Date;
   public updatedAt: Date;
 
@@ -23,7 +24,8 @@ export class Note {
     createdAt: Date,
     updatedAt: Date,
     shareToken: string | null = null,
-    isPublic: boolean = false
+    isPublic: boolean = false,
+    courseId: string | null = null
   ) {
     this.id = id;
     this.title = title;
@@ -32,6 +34,7 @@ export class Note {
     this.user = user;
     this.shareToken = shareToken;
     this.isPublic = isPublic;
+    this.courseId = courseId;
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
   }
@@ -54,12 +57,19 @@ export class Note {
    * Get plain text from content
    */
   public getPlainText(): string {
-    if (typeof this.content === 'string') {
-      return this.content
+    const stripHtml = (html: string): string =>
+      html
         .replace(/<[^>]*>/g, ' ')
         .replace(/&nbsp;/g, ' ')
         .replace(/\s+/g, ' ')
         .trim();
+
+    if (typeof this.content === 'string') {
+      return stripHtml(this.content);
+    }
+    // Notes saved by /api/notes wrap the editor HTML as { html, type: 'html' }
+    if (typeof this.content === 'object' && typeof this.content?.html === 'string') {
+      return stripHtml(this.content.html);
     }
     if (typeof this.content === 'object' && this.content.type === 'doc') {
       // Extract text from TipTap JSON structure
@@ -112,6 +122,7 @@ export class Note {
       user: this.user.toJSON(),
       shareToken: this.shareToken,
       isPublic: this.isPublic,
+      courseId: this.courseId,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -0,0 +1,62 @@
+export type NotificationType = 'ANSWER' | 'COMMENT' | 'MENTION' | 'TASK_DEADLINE' | 'NOTE_UPDATED';
+
+/**
+ * Notification model class representing one event shown in a user's notification center
+ * A notification is unread until readAt is set
+ */
+export class Notification {
+  public id: string;
+  public userId: string;
+  public type: NotificationType;
+  public title: string;
+  public body: string | null;
+  public link: string | null;
+  public key: string | null;
+  public readAt: Date | null;
+  public createdAt: Date;
+
+  constructor(
+    id: string,
+    userId: string,
+    type: NotificationType,
+    title: string,
+    body: string | null,
+    link: string | null,
+    key: string | null,
+    readAt: Date | null,
+    createdAt: Date
+  ) {
+    this.id = id;
+    this.userId = userId;
+    this.type = type;
+    this.title = title;
+    this.body = body;
+    this.link = link;
+    this.key = key;
+    this.readAt = readAt;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Check if notification has been read
+   */
+  public isRead(): boolean {
+    return this.readAt !== null;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      type: this.type,
+      title: this.title,
+      body: this.body,
+      link: this.link,
+      read: this.isRead(),
+      readAt: this.readAt,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+export type DigestFrequency = 'NEVER' | 'DAILY' | 'WEEKLY';
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['NEVER', 'DAILY', 'WEEKLY'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * NotificationPreference model class representing a user's email settings
+ * Digests cover one period (a day or a week) of new answers and upcoming deadlines
+ */
+export class NotificationPreference {
+  public userId: string;
+  public digestFrequency: DigestFrequency;
+  public digestAnswers: boolean;
+  public digestDeadlines: boolean;
+  public lastDigestAt: Date | null;
+
+  constructor(
+    userId: string,
+    digestFrequency: DigestFrequency = 'NEVER',
+    digestAnswers: boolean = true,
+    digestDeadlines: boolean = true,
+    lastDigestAt: Date | null = null
+  ) {
+    this.userId = userId;
+    this.digestFrequency = digestFrequency;
+    this.digestAnswers = digestAnswers;
+    this.digestDeadlines = digestDeadlines;
+    this.lastDigestAt = lastDigestAt;
+  }
+
+  /**
+   * Length of one digest period in milliseconds, or null when digests are off
+   */
+  public static periodMs(frequency: DigestFrequency): number | null {
+    switch (frequency) {
+      case 'DAILY':
+        return DAY_MS;
+      case 'WEEKLY':
+        return 7 * DAY_MS;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Length of this user's digest period in milliseconds, or null when digests are off
+   */
+  public getDigestPeriodMs(): number | null {
+    return NotificationPreference.periodMs(this.digestFrequency);
+  }
+
+  /**
+   * Check if digests are on and at least one section is enabled
+   */
+  public wantsDigest(): boolean {
+    return this.digestFrequency !== 'NEVER' && (this.digestAnswers || this.digestDeadlines);
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      digestFrequency: this.digestFrequency,
+      digestAnswers: this.digestAnswers,
+      digestDeadlines: this.digestDeadlines,
+      lastDigestAt: this.lastDigestAt,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * PasswordResetToken model class representing one emailed password reset link
+ * Only a hash of the token is stored; a token can be used once, before it expires
+ */
+export class PasswordResetToken {
+  public id: string;
+  public userId: string;
+  public tokenHash: string;
+  public expiresAt: Date;
+  public usedAt: Date | null;
+  public createdAt: Date;
+
+  constructor(
+    id: string,
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date,
+    usedAt: Date | null,
+    createdAt: Date
+  ) {
+    this.id = id;
+    this.userId = userId;
+    this.tokenHash = tokenHash;
+    this.expiresAt = expiresAt;
+    this.usedAt = usedAt;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Check if the link's lifetime has run out
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Check if the token can still be used to reset a password
+   */
+  public isUsable(now: Date = new Date()): boolean {
+    return this.usedAt === null && !this.isExpired(now);
+  }
+
+  /**
+   * Convert to plain object (never includes the hash)
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      userId: this.userId,
+      expiresAt: this.expiresAt,
+      usedAt: this.usedAt,
+      createdAt: this.createdAt,
+    };
+  }
+}
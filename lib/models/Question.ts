@@ -1,4 +1,6 @@
 import { User } from './User';
+import { CourseSummary } from './Course';
+import { can } from '../permissions';
 
 /**
  * Question model class representing a question entity
@@ -14,6 +16,11 @@ export class Question {
   public createdAt: Date;
   public updatedAt: Date;
   public answerCount?: number;
+  public voteScore: number;
+  public hasAcceptedAnswer: boolean;
+  public mergedIntoId: string | null;
+  public tags: string[];
+  public course: CourseSummary | null;
 
   constructor(
     id: string,
@@ -25,7 +32,12 @@ export class Question {
     user: User | null,
     createdAt: Date,
     updatedAt: Date,
-    answerCount?: number
+    answerCount?: number,
+    voteScore: number = 0,
+    hasAcceptedAnswer: boolean = false,
+    mergedIntoId: string | null = null,
+    tags: string[] = [],
+    course: CourseSummary | null = null
   ) {
     this.id = id;
     this.title = title;
@@ -37,6 +49,11 @@ export class Question {
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
     this.answerCount = answerCount;
+    this.voteScore = voteScore;
+    this.hasAcceptedAnswer = hasAcceptedAnswer;
+    this.mergedIntoId = mergedIntoId;
+    this.tags = tags;
+    this.course = course;
   }
 
   /**
@@ -46,6 +63,20 @@ export class Question {
     return this.images.length > 0;
   }
 
+  /**
+   * Check if question has at least one answer
+   */
+  public isAnswered(): boolean {
+    return (this.answerCount ?? 0) > 0;
+  }
+
+  /**
+   * Check if question was merged into another (canonical) question
+   */
+  public isMerged(): boolean {
+    return this.mergedIntoId !== null;
+  }
+
   /**
    * Get author display name
    */
@@ -60,6 +91,13 @@ export class Question {
     return this.userId === userId;
   }
 
+  /**
+   * Check if a user may edit this question (its author, or a role allowed to edit anyone's)
+   */
+  public canBeEditedBy(userId: string, role: string): boolean {
+    return can({ id: userId, role }, 'question:edit', this);
+  }
+
   /**
    * Convert to plain object
    */
@@ -75,6 +113,13 @@ export class Question {
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       answerCount: this.answerCount,
+      voteScore: this.voteScore,
+      isAnswered: this.isAnswered(),
+      hasAcceptedAnswer: this.hasAcceptedAnswer,
+      mergedIntoId: this.mergedIntoId,
+      tags: this.tags,
+      courseId: this.course?.id ?? null,
+      course: this.course,
     };
   }
 }
@@ -0,0 +1,54 @@
+/**
+ * QuestionRevision model class representing a question as it was before an edit
+ * Revisions are append-only and never change once recorded
+ */
+export class QuestionRevision {
+  public id: string;
+  public questionId: string;
+  public title: string;
+  public type: string;
+  public description: string;
+  public images: string[];
+  public editedById: string | null;
+  public editedByName: string | null;
+  public createdAt: Date;
+
+  constructor(
+    id: string,
+    questionId: string,
+    title: string,
+    type: string,
+    description: string,
+    images: string[],
+    editedById: string | null,
+    editedByName: string | null,
+    createdAt: Date
+  ) {
+    this.id = id;
+    this.questionId = questionId;
+    this.title = title;
+    this.type = type;
+    this.description = description;
+    this.images = images;
+    this.editedById = editedById;
+    this.editedByName = editedByName;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      questionId: this.questionId,
+      title: this.title,
+      type: this.type,
+      description: this.description,
+      images: this.images,
+      editedById: this.editedById,
+      editedByName: this.editedByName,
+      createdAt: this.createdAt,
+    };
+  }
+}
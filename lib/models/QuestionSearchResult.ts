@@ -0,0 +1,42 @@
+import { Question } from './Question';
+
+export type SearchMatch = 'keyword' | 'semantic';
+export type SearchMode = 'hybrid' | 'keyword';
+
+/**
+ * Title and description excerpt with matched terms wrapped in <mark> tags
+ * Everything else is HTML-escaped, so it is safe to render as HTML
+ */
+export interface SearchHighlight {
+  title: string;
+  snippet: string;
+}
+
+/**
+ * QuestionSearchResult model class representing one ranked search hit
+ */
+export class QuestionSearchResult {
+  public question: Question;
+  public score: number;
+  public matchedBy: SearchMatch[];
+  public highlight: SearchHighlight | null;
+
+  constructor(question: Question, score: number, matchedBy: SearchMatch[], highlight: SearchHighlight | null = null) {
+    this.question = question;
+    this.score = score;
+    this.matchedBy = matchedBy;
+    this.highlight = highlight;
+  }
+
+  /**
+   * Convert to plain object (the question fields plus ranking details)
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      ...this.question.toJSON(),
+      score: this.score,
+      matchedBy: this.matchedBy,
+      highlight: this.highlight,
+    };
+  }
+}
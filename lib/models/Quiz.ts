@@ -0,0 +1,104 @@
+import { QuizQuestion } from './QuizQuestion';
+import { QuizAttempt } from './QuizAttempt';
+
+/**
+ * Quiz model class representing a generated quiz entity
+ */
+export class Quiz {
+  public id: string;
+  public title: string;
+  public description: string;
+  public subject: string;
+  public difficulty: string;
+  public prompt: string;
+  public userId: string;
+  public courseId: string | null;
+  public questions: QuizQuestion[];
+  public attempts: QuizAttempt[];
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    title: string,
+    description: string,
+    subject: string,
+    difficulty: string,
+    prompt: string,
+    userId: string,
+    questions: QuizQuestion[],
+    attempts: QuizAttempt[],
+    createdAt: Date,
+    updatedAt: Date,
+    courseId: string | null = null
+  ) {
+    this.id = id;
+    this.title = title;
+    this.description = description;
+    this.subject = subject;
+    this.difficulty = difficulty;
+    this.prompt = prompt;
+    this.userId = userId;
+    this.courseId = courseId;
+    this.questions = questions;
+    this.attempts = attempts;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Score a list of selected option indexes against the correct answers
+   */
+  public score(answers: number[]): number {
+    return this.questions.reduce(
+      (correct, question, index) => (question.isCorrect(answers[index]) ? correct + 1 : correct),
+      0
+    );
+  }
+
+  /**
+   * Get the highest percentage across all attempts, or null if never attempted
+   */
+  public getBestPercentage(): number | null {
+    if (this.attempts.length === 0) return null;
+    return Math.max(...this.attempts.map((a) => a.getPercentage()));
+  }
+
+  /**
+   * Get the most recent attempt, or null if never attempted
+   */
+  public getLatestAttempt(): QuizAttempt | null {
+    if (this.attempts.length === 0) return null;
+    return this.attempts.reduce((latest, a) => (a.createdAt > latest.createdAt ? a : latest));
+  }
+
+  /**
+   * Check if quiz belongs to a user
+   */
+  public belongsTo(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      title: this.title,
+      description: this.description,
+      subject: this.subject,
+      difficulty: this.difficulty,
+      prompt: this.prompt,
+      userId: this.userId,
+      courseId: this.courseId,
+      questions: this.questions.map((q) => q.toJSON()),
+      attempts: this.attempts.map((a) => a.toJSON()),
+      attemptCount: this.attempts.length,
+      bestPercentage: this.getBestPercentage(),
+      latestAttempt: this.getLatestAttempt()?.toJSON() || null,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * QuizAttempt model class representing one submitted run through a quiz
+ */
+export class QuizAttempt {
+  public id: string;
+  public quizId: string;
+  public userId: string;
+  public answers: number[];
+  public score: number;
+  public total: number;
+  public createdAt: Date;
+
+  constructor(
+    id: string,
+    quizId: string,
+    userId: string,
+    answers: number[],
+    score: number,
+    total: number,
+    createdAt: Date
+  ) {
+    this.id = id;
+    this.quizId = quizId;
+    this.userId = userId;
+    this.answers = answers;
+    this.score = score;
+    this.total = total;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Get score as a rounded percentage
+   */
+  public getPercentage(): number {
+    return this.total > 0 ? Math.round((this.score / this.total) * 100) : 0;
+  }
+
+  /**
+   * Check if attempt belongs to a user
+   */
+  public belongsTo(userId: string): boolean {
+    return this.userId === userId;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      quizId: this.quizId,
+      userId: this.userId,
+      answers: this.answers,
+      score: this.score,
+      total: this.total,
+      percentage: this.getPercentage(),
+      createdAt: this.createdAt,
+    };
+  }
+}
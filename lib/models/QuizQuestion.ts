@@ -0,0 +1,67 @@
+/**
+ * QuizQuestion model class representing a single multiple-choice question of a quiz
+ */
+export class QuizQuestion {
+  public id: string;
+  public quizId: string;
+  public position: number;
+  public question: string;
+  public options: string[];
+  public correctAnswer: number;
+  public explanation: string | null;
+  public sourceNoteId: string | null;
+  public sourceNoteTitle: string | null;
+
+  constructor(
+    id: string,
+    quizId: string,
+    position: number,
+    question: string,
+    options: string[],
+    correctAnswer: number,
+    explanation: string | null,
+    sourceNoteId: string | null = null,
+    sourceNoteTitle: string | null = null
+  ) {
+    this.id = id;
+    this.quizId = quizId;
+    this.position = position;
+    this.question = question;
+    this.options = options;
+    this.correctAnswer = correctAnswer;
+    this.explanation = explanation;
+    this.sourceNoteId = sourceNoteId;
+    this.sourceNoteTitle = sourceNoteTitle;
+  }
+
+  /**
+   * Check if the selected option index is the correct one
+   */
+  public isCorrect(selected: number): boolean {
+    return selected === this.correctAnswer;
+  }
+
+  /**
+   * Check if question was generated from one of the user's notes
+   */
+  public hasSourceNote(): boolean {
+    return this.sourceNoteId !== null;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      quizId: this.quizId,
+      position: this.position,
+      question: this.question,
+      options: this.options,
+      correctAnswer: this.correctAnswer,
+      explanation: this.explanation,
+      sourceNoteId: this.sourceNoteId,
+      sourceNoteTitle: this.sourceNoteTitle,
+    };
+  }
+}
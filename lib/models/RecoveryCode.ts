@@ -0,0 +1,38 @@
+/**
+ * RecoveryCode model class representing one single-use two-factor backup code
+ * Only a hash of the code is stored; the plain codes are shown to the user once
+ */
+export class RecoveryCode {
+  public id: string;
+  public userId: string;
+  public codeHash: string;
+  public usedAt: Date | null;
+  public createdAt: Date;
+
+  constructor(id: string, userId: string, codeHash: string, usedAt: Date | null, createdAt: Date) {
+    this.id = id;
+    this.userId = userId;
+    this.codeHash = codeHash;
+    this.usedAt = usedAt;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Check if the code can still be used to sign in
+   */
+  public isUsed(): boolean {
+    return this.usedAt !== null;
+  }
+
+  /**
+   * Convert to plain object (never includes the hash)
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      userId: this.userId,
+      usedAt: this.usedAt,
+      createdAt: this.createdAt,
+    };
+  }
+}
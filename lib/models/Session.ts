@@ -0,0 +1,87 @@
+// Checked in order: Edge and Opera user agents also mention Chrome, and Chrome's mentions Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Session model class representing one signed-in device
+ * A session is live until it expires or is revoked
+ */
+export class Session {
+  public id: string;
+  public userId: string;
+  public userAgent: string | null;
+  public ipAddress: string | null;
+  public createdAt: Date;
+  public lastSeenAt: Date;
+  public expiresAt: Date;
+  public revokedAt: Date | null;
+
+  constructor(
+    id: string,
+    userId: string,
+    userAgent: string | null,
+    ipAddress: string | null,
+    createdAt: Date,
+    lastSeenAt: Date,
+    expiresAt: Date,
+    revokedAt: Date | null
+  ) {
+    this.id = id;
+    this.userId = userId;
+    this.userAgent = userAgent;
+    this.ipAddress = ipAddress;
+    this.createdAt = createdAt;
+    this.lastSeenAt = lastSeenAt;
+    this.expiresAt = expiresAt;
+    this.revokedAt = revokedAt;
+  }
+
+  /**
+   * Check if the session can still authenticate requests
+   */
+  public isActive(now: Date = new Date()): boolean {
+    return this.revokedAt === null && this.expiresAt.getTime() > now.getTime();
+  }
+
+  /**
+   * Get a short "Browser on OS" label from the user agent
+   */
+  public getDeviceLabel(): string {
+    const ua = this.userAgent || '';
+    if (!ua) return 'Unknown device';
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1];
+    const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1];
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || ua.slice(0, 60);
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      device: this.getDeviceLabel(),
+      userAgent: this.userAgent,
+      ipAddress: this.ipAddress,
+      createdAt: this.createdAt,
+      lastSeenAt: this.lastSeenAt,
+      expiresAt: this.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * SignupDomain model class representing an email domain allowed to sign up
+ * A domain also allows its subdomains, e.g. "uni.edu" allows "cs.uni.edu"
+ */
+export class SignupDomain {
+  public id: string;
+  public domain: string;
+  public createdAt: Date;
+
+  constructor(id: string, domain: string, createdAt: Date) {
+    this.id = id;
+    this.domain = domain;
+    this.createdAt = createdAt;
+  }
+
+  /**
+   * Check if an email address belongs to this domain or one of its subdomains
+   * Anything but a bare local@domain address never matches, so a display name or second address cannot pass the check
+   */
+  public matches(email: string): boolean {
+    const parts = email.trim().toLowerCase().split('@');
+    if (parts.length !== 2 || !parts[0] || /[<>\s]/.test(email.trim())) {
+      return false;
+    }
+
+    const emailDomain = parts[1];
+    return emailDomain === this.domain || emailDomain.endsWith(`.${this.domain}`);
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      domain: this.domain,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * SsoIdentity model class representing a user's account at an external identity provider
+ * A user can be linked to several providers, but each provider account maps to one user
+ */
+export class SsoIdentity {
+  public id: string;
+  public userId: string;
+  public provider: string;
+  public subject: string;
+  public createdAt: Date;
+  public lastLoginAt: Date;
+
+  constructor(id: string, userId: string, provider: string, subject: string, createdAt: Date, lastLoginAt: Date) {
+    this.id = id;
+    this.userId = userId;
+    this.provider = provider;
+    this.subject = subject;
+    this.createdAt = createdAt;
+    this.lastLoginAt = lastLoginAt;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      userId: this.userId,
+      provider: this.provider,
+      subject: this.subject,
+      createdAt: this.createdAt,
+      lastLoginAt: this.lastLoginAt,
+    };
+  }
+}
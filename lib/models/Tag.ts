@@ -0,0 +1,65 @@
+// Letters, digits and the few symbols used in subject names such as "c++" or "c#"
+const TAG_NAME_PATTERN = /^[a-z0-9][a-z0-9+#.-]*$/;
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Tag model class representing a topic label that questions can carry
+ * Names are stored normalised so "Linear Algebra" and "linear-algebra" are the same tag
+ */
+export class Tag {
+  public id: string;
+  public name: string;
+  public description: string | null;
+  public questionCount: number;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(
+    id: string,
+    name: string,
+    description: string | null,
+    questionCount: number,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    this.id = id;
+    this.name = name;
+    this.description = description;
+    this.questionCount = questionCount;
+    this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Normalise free text into a tag name: lowercase, whitespace and underscores become hyphens
+   */
+  public static normalizeName(name: string): string {
+    return name
+      .trim()
+      .toLowerCase()
+      .replace(/[\s_]+/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+
+  /**
+   * Check if an already normalised name is allowed
+   */
+  public static isValidName(name: string): boolean {
+    return name.length > 0 && name.length <= MAX_TAG_LENGTH && TAG_NAME_PATTERN.test(name);
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      questionCount: this.questionCount,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -11,6 +11,7 @@ export class Task {
   public deadline: Date | null;
   public userId: string;
   public user: User;
+  public courseId: string | null;
   public createdAt: Date;
   public updatedAt: Date;
 
@@ -23,7 +24,8 @@ export class Task {
     userId: string,
     user: User,
     createdAt: Date,
-    updatedAt: Date
+    updatedAt: Date,
+    courseId: string | null = null
   ) {
     this.id = id;
     this.title = title;
@@ -32,6 +34,7 @@ export class Task {
     this.deadline = deadline;
     this.userId = userId;
     this.user = user;
+    this.courseId = courseId;
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
   }
@@ -83,6 +86,7 @@ export class Task {
       deadline: this.deadline,
       userId: this.userId,
       user: this.user.toJSON(),
+      courseId: this.courseId,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -0,0 +1,30 @@
+import type { Role } from './User';
+
+export type TwoFactorPolicyRole = Role;
+
+/**
+ * TwoFactorPolicy model class representing whether a role must use two-factor authentication
+ * Roles without a saved policy don't require it
+ */
+export class TwoFactorPolicy {
+  public role: TwoFactorPolicyRole;
+  public required: boolean;
+  public updatedAt: Date | null;
+
+  constructor(role: TwoFactorPolicyRole, required: boolean = false, updatedAt: Date | null = null) {
+    this.role = role;
+    this.required = required;
+    this.updatedAt = updatedAt;
+  }
+
+  /**
+   * Convert to plain object
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      role: this.role,
+      required: this.required,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
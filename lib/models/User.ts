@@ -1,3 +1,5 @@
+export type Role = 'STUDENT' | 'TEACHING_ASSISTANT' | 'MODERATOR' | 'ADMIN';
+
 /**
  * User model class representing a user entity
  */
@@ -5,17 +7,19 @@ export class User {
   public id: string;
   public email: string;
   public name: string | null;
-  public role: 'STUDENT' | 'ADMIN';
+  public role: Role;
   public createdAt: Date;
   public updatedAt: Date;
+  public emailVerifiedAt: Date | null;
 
   constructor(
     id: string,
     email: string,
     name: string | null,
-    role: 'STUDENT' | 'ADMIN',
+    role: Role,
     createdAt: Date,
-    updatedAt: Date
+    updatedAt: Date,
+    emailVerifiedAt: Date | null = null
   ) {
     this.id = id;
     this.email = email;
@@ -23,6 +27,7 @@ export class User {
     this.role = role;
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
+    this.emailVerifiedAt = emailVerifiedAt;
   }
 
   /**
@@ -39,6 +44,13 @@ export class User {
     return this.role === 'STUDENT';
   }
 
+  /**
+   * Check if the user has confirmed their email address
+   */
+  public isEmailVerified(): boolean {
+    return this.emailVerifiedAt !== null;
+  }
+
   /**
    * Get display name (name or email prefix)
    */
@@ -46,6 +58,13 @@ export class User {
     return this.name || this.email.split('@')[0];
   }
 
+  /**
+   * Get the handle used to @mention this user (email prefix)
+   */
+  public getMentionHandle(): string {
+    return this.email.split('@')[0];
+  }
+
   /**
    * Convert to plain object
    */
@@ -55,6 +74,7 @@ export class User {
       email: this.email,
       name: this.name,
       role: this.role,
+      emailVerified: this.isEmailVerified(),
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
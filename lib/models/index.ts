@@ -8,4 +8,26 @@ export { Question } from './Question';
 export { Answer } from './Answer';
 export { Task } from './Task';
 export { Note } from './Note';
-
+export { Quiz } from './Quiz';
+export { QuizQuestion } from './QuizQuestion';
+export { QuizAttempt } from './QuizAttempt';
+export { Flashcard } from './Flashcard';
+export { FlashcardDeck } from './FlashcardDeck';
+export { QuestionRevision } from './QuestionRevision';
+export { AnswerRevision } from './AnswerRevision';
+export { Comment } from './Comment';
+export { QuestionSearchResult } from './QuestionSearchResult';
+export { Job } from './Job';
+export { Tag } from './Tag';
+export { Course } from './Course';
+export { Enrollment } from './Enrollment';
+export { Notification } from './Notification';
+export { NotificationPreference } from './NotificationPreference';
+export { PasswordResetToken } from './PasswordResetToken';
+export { Session } from './Session';
+export { EmailVerificationToken } from './EmailVerificationToken';
+export { SignupDomain } from './SignupDomain';
+export { AuditEvent } from './AuditEvent';
+export { RecoveryCode } from './RecoveryCode';
+export { TwoFactorPolicy } from './TwoFactorPolicy';
+export { SsoIdentity } from './SsoIdentity';
@@ -0,0 +1,103 @@
+import type { Role } from './models/User';
+
+/**
+ * Something a user may try to do; routes, pages and services ask can() before doing it
+ */
+export type Action =
+  | 'admin:access'
+  | 'question:edit'
+  | 'question:delete'
+  | 'question:merge'
+  | 'answer:edit'
+  | 'answer:delete'
+  | 'comment:delete'
+  | 'tag:manage'
+  | 'course:view-all'
+  | 'course:manage'
+  | 'enrollment:manage'
+  | 'user:manage'
+  | 'signup-domain:manage'
+  | 'two-factor-policy:manage'
+  | 'audit-log:view'
+  | 'task:manage'
+  | 'note:manage';
+
+export const ROLES: Role[] = ['STUDENT', 'TEACHING_ASSISTANT', 'MODERATOR', 'ADMIN'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  STUDENT: 'Student',
+  TEACHING_ASSISTANT: 'Teaching Assistant',
+  MODERATOR: 'Moderator',
+  ADMIN: 'Admin',
+};
+
+// What each role may do to anyone's content
+const ROLE_PERMISSIONS: Record<Role, Action[]> = {
+  STUDENT: [],
+  // Course staff: see every course, manage who is enrolled and correct questions and answers
+  TEACHING_ASSISTANT: ['admin:access', 'course:view-all', 'enrollment:manage', 'question:edit', 'answer:edit'],
+  // Community moderation: clean up questions, answers, comments and tags
+  MODERATOR: [
+    'admin:access',
+    'question:edit',
+    'question:delete',
+    'question:merge',
+    'answer:edit',
+    'answer:delete',
+    'comment:delete',
+    'tag:manage',
+  ],
+  ADMIN: [
+    'admin:access',
+    'question:edit',
+    'question:delete',
+    'question:merge',
+    'answer:edit',
+    'answer:delete',
+    'comment:delete',
+    'tag:manage',
+    'course:view-all',
+    'course:manage',
+    'enrollment:manage',
+    'user:manage',
+    'signup-domain:manage',
+    'two-factor-policy:manage',
+    'audit-log:view',
+  ],
+};
+
+// What anyone may do to content they created themselves; tasks and notes stay private even from admins
+const OWNER_PERMISSIONS: Action[] = ['question:edit', 'answer:edit', 'task:manage', 'note:manage'];
+
+/**
+ * Check whether a user may perform an action, optionally on a resource they might own
+ */
+export function can(
+  user: { id?: string; role: string } | null | undefined,
+  action: Action,
+  resource?: { userId?: string | null } | null
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  if (resource && user.id && resource.userId === user.id && OWNER_PERMISSIONS.includes(action)) {
+    return true;
+  }
+
+  return (ROLE_PERMISSIONS[user.role as Role] || []).includes(action);
+}
+
+/**
+ * Check whether a string names a known role
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * Where a user lands after signing in: admins go to the admin dashboard, everyone else to their own
+ */
+export function homePathFor(user: { role: string }): string {
+  return user.role === 'ADMIN' ? '/admin/dashboard' : '/dashboard';
+}
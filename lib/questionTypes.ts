@@ -0,0 +1,55 @@
+/**
+ * Subject types a question can be filed under
+ * Shared by the ask-question form and the question listing filters
+ */
+export const QUESTION_TYPES = [
+  'Mathematics',
+  'Physics',
+  'Chemistry',
+  'Biology',
+  'Computer Science',
+  'Quantum Physics',
+  'Engineering',
+  'Statistics',
+  'Calculus',
+  'Algebra',
+  'Geometry',
+  'Trigonometry',
+  'Organic Chemistry',
+  'Inorganic Chemistry',
+  'Physical Chemistry',
+  'Mechanics',
+  'Electromagnetism',
+  'Thermodynamics',
+  'Data Structures',
+  'Algorithms',
+  'Machine Learning',
+  'Deep Learning',
+  'Natural Language Processing (NLP)',
+  'Artificial Intelligence',
+  'Neural Networks',
+  'Computer Vision',
+  'Data Science',
+  'Python Programming',
+  'JavaScript',
+  'Web Development',
+  'Database Systems',
+  'Operating Systems',
+  'Computer Networks',
+  'Cybersecurity',
+  'Software Engineering',
+  'Reinforcement Learning',
+  'Transfer Learning',
+  'Generative AI',
+  'Large Language Models (LLM)',
+  'Transformers',
+  'Convolutional Neural Networks (CNN)',
+  'Recurrent Neural Networks (RNN)',
+  'Natural Language Understanding (NLU)',
+  'Natural Language Generation (NLG)',
+  'Sentiment Analysis',
+  'Text Mining',
+  'Information Retrieval',
+  'General Knowledge',
+  'Other',
+];
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { getRequestDevice } from './auth';
+import { ServiceFactory } from './di/ServiceFactory';
+import { RateLimiter } from './services/RateLimiter';
+import { ResponseBuilder } from './utils/ResponseBuilder';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+interface LimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+// Per-IP limits stop one client hammering many accounts; per-account limits stop
+// a botnet spread over many IPs from hammering one account
+const AUTH_RATE_LIMITS: Record<string, { ip: LimitRule; account?: LimitRule }> = {
+  login: { ip: { limit: 30, windowMs: 15 * MINUTE }, account: { limit: 10, windowMs: 15 * MINUTE } },
+  signup: { ip: { limit: 10, windowMs: HOUR } },
+  'forgot-password': { ip: { limit: 10, windowMs: HOUR }, account: { limit: 3, windowMs: HOUR } },
+  'reset-password': { ip: { limit: 20, windowMs: HOUR } },
+  'verify-email': { ip: { limit: 20, windowMs: HOUR } },
+  'two-factor': { ip: { limit: 30, windowMs: 15 * MINUTE } },
+  sso: { ip: { limit: 30, windowMs: 15 * MINUTE } },
+};
+
+export type AuthAction = keyof typeof AUTH_RATE_LIMITS;
+
+/**
+ * Count an auth attempt against the per-IP and (when an email is given) per-account limits
+ * Returns a 429 response to send back when a limit is exceeded, or null to carry on
+ */
+export async function enforceAuthRateLimit(action: AuthAction, email?: string | null): Promise<NextResponse | null> {
+  const rules = AUTH_RATE_LIMITS[action];
+  const store = ServiceFactory.getRateLimitStore();
+  const device = await getRequestDevice();
+
+  // Without a known client address (TRUSTED_PROXY_COUNT=0) every request would share one bucket,
+  // letting a single client throttle everyone, so only the per-account limit applies
+  const checks: { scope: 'ip' | 'account'; key: string; rule: LimitRule }[] = [];
+  if (device.ipAddress) {
+    checks.push({ scope: 'ip', key: device.ipAddress, rule: rules.ip });
+  }
+  if (rules.account && email?.trim()) {
+    checks.push({ scope: 'account', key: email.trim().toLowerCase(), rule: rules.account });
+  }
+
+  for (const { scope, key, rule } of checks) {
+    const limiter = new RateLimiter(store, `${action}:${scope}`, rule.limit, rule.windowMs);
+    const result = await limiter.consume(key);
+    if (result.allowed) continue;
+
+    // One audit row per window is enough to see the attack without flooding the table
+    if (result.count === result.limit + 1) {
+      await ServiceFactory.createAuditService().record({
+        type: 'RATE_LIMITED',
+        email: email || null,
+        ipAddress: device.ipAddress,
+        userAgent: device.userAgent,
+        detail: `${action} limit per ${scope === 'ip' ? 'IP' : 'account'} (${rule.limit} per ${rule.windowMs / MINUTE} minutes)`,
+      });
+    }
+
+    const minutes = Math.ceil(result.retryAfterSeconds / 60);
+    const response = ResponseBuilder.error(
+      `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+      429
+    );
+    response.headers.set('Retry-After', String(result.retryAfterSeconds));
+    return response;
+  }
+
+  return null;
+}
@@ -1,8 +1,9 @@
 import { BaseRepository } from './BaseRepository';
 import { Answer } from '../models/Answer';
-import { User } from '../models/User';
+import { Role, User } from '../models/User';
 import { Prisma } from '@prisma/client';
-import { IAnswerRepository } from '../interfaces/IAnswerRepository';
+import { AnswerRevision } from '../models/AnswerRevision';
+import { IAnswerRepository, AnswerEditInput } from '../interfaces/IAnswerRepository';
 
 /**
  * Repository class for Answer entity operations
@@ -34,11 +35,16 @@ export class AnswerRepository extends BaseRepository<Answer> implements IAnswerR
 
     if (!answer) return null;
 
+    const score = await this.prisma.answerVote.aggregate({
+      where: { answerId: id },
+      _sum: { value: true },
+    });
+
     const user = new User(
       answer.user.id,
       answer.user.email,
       answer.user.name,
-      answer.user.role as 'STUDENT' | 'ADMIN',
+      answer.user.role as Role,
       answer.user.createdAt,
       answer.user.updatedAt
     );
@@ -51,7 +57,9 @@ export class AnswerRepository extends BaseRepository<Answer> implements IAnswerR
       answer.userId,
       user,
       answer.createdAt,
-      answer.updatedAt
+      answer.updatedAt,
+      answer.isAccepted,
+      score._sum.value ?? 0
     );
   }
 
@@ -77,22 +85,24 @@ export class AnswerRepository extends BaseRepository<Answer> implements IAnswerR
     });
 
     return answers.map((a) => {
-      const user = new User(a.user.id, a.user.email, a.user.name, a.user.role as 'STUDENT' | 'ADMIN', a.user.createdAt, a.user.updatedAt);
-      return new Answer(a.id, a.description, a.images, a.questionId, a.userId, user, a.createdAt, a.updatedAt);
+      const user = new User(a.user.id, a.user.email, a.user.name, a.user.role as Role, a.user.createdAt, a.user.updatedAt);
+      return new Answer(a.id, a.description, a.images, a.questionId, a.userId, user, a.createdAt, a.updatedAt, a.isAccepted);
     });
   }
 
   /**
    * Find answers by question ID
+   * The accepted answer comes first, then the rest by vote score
    */
   async findByQuestionId(questionId: string): Promise<Answer[]> {
     await this.initialize();
     const answers = await this.prisma.$queryRaw`
-      SELECT a.*, u.id as "user_id", u.name, u.email, u.role, u."createdAt" as "user_createdAt", u."updatedAt" as "user_updatedAt"
+      SELECT a.*, u.id as "user_id", u.name, u.email, u.role, u."createdAt" as "user_createdAt", u."updatedAt" as "user_updatedAt",
+        COALESCE((SELECT SUM(v.value) FROM answer_votes v WHERE v."answerId" = a.id), 0)::int as "voteScore"
       FROM answers a
       JOIN users u ON a."userId" = u.id
       WHERE a."questionId" = ${questionId}
-      ORDER BY a."createdAt" ASC
+      ORDER BY a."isAccepted" DESC, "voteScore" DESC, a."createdAt" ASC
     `;
 
     return (answers as any[]).map((row) => {
@@ -100,7 +110,7 @@ export class AnswerRepository extends BaseRepository<Answer> implements IAnswerR
         row.user_id,
         row.email,
         row.name,
-        row.role as 'STUDENT' | 'ADMIN',
+        row.role as Role,
         row.user_createdAt,
         row.user_updatedAt
       );
@@ -112,7 +122,9 @@ export class AnswerRepository extends BaseRepository<Answer> implements IAnswerR
         row.userId,
         user,
         row.createdAt,
-        row.updatedAt
+        row.updatedAt,
+        row.isAccepted,
+        row.voteScore
       );
     });
   }
@@ -161,6 +173,123 @@ export class AnswerRepository extends BaseRepository<Answer> implements IAnswerR
     return (await this.findById(id))!;
   }
 
+  /**
+   * Update answer content, first recording the current version as a revision
+   * Both writes happen in one transaction so history never misses an edit
+   */
+  async updateWithRevision(id: string, data: AnswerEditInput, editedById: string): Promise<Answer> {
+    await this.initialize();
+    await this.prisma.$transaction(async (tx) => {
+      const current = await tx.answer.findUnique({
+        where: { id },
+        select: { description: true, images: true },
+      });
+      if (!current) {
+        throw new Error('Answer not found');
+      }
+
+      await tx.answerRevision.create({
+        data: { answerId: id, ...current, editedById },
+      });
+
+      await tx.answer.update({
+        where: { id },
+        data: {
+          ...(data.description !== undefined && { description: data.description.trim() }),
+          ...(data.images !== undefined && { images: data.images }),
+        },
+      });
+    });
+
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Find earlier versions of an answer, newest first
+   */
+  async findRevisions(answerId: string): Promise<AnswerRevision[]> {
+    await this.initialize();
+    const revisions = await this.prisma.answerRevision.findMany({
+      where: { answerId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        editedBy: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return revisions.map(
+      (r) =>
+        new AnswerRevision(
+          r.id,
+          r.answerId,
+          r.description,
+          r.images,
+          r.editedById,
+          r.editedBy ? r.editedBy.name || r.editedBy.email.split('@')[0] : null,
+          r.createdAt
+        )
+    );
+  }
+
+  /**
+   * Set, change or clear (value 0) a user's vote on an answer
+   */
+  async vote(answerId: string, userId: string, value: number): Promise<void> {
+    await this.initialize();
+    if (value === 0) {
+      await this.prisma.answerVote.deleteMany({
+        where: { answerId, userId },
+      });
+      return;
+    }
+
+    await this.prisma.answerVote.upsert({
+      where: { answerId_userId: { answerId, userId } },
+      update: { value },
+      create: { answerId, userId, value },
+    });
+  }
+
+  /**
+   * Find a user's votes on the given answers, keyed by answer ID
+   */
+  async findUserVotes(userId: string, answerIds: string[]): Promise<Record<string, number>> {
+    await this.initialize();
+    const votes = await this.prisma.answerVote.findMany({
+      where: { userId, answerId: { in: answerIds } },
+      select: { answerId: true, value: true },
+    });
+
+    return Object.fromEntries(votes.map((v) => [v.answerId, v.value]));
+  }
+
+  /**
+   * Mark one answer of a question as accepted (or none, with null)
+   * Any previously accepted answer is cleared in the same transaction
+   */
+  async setAccepted(questionId: string, answerId: string | null): Promise<void> {
+    await this.initialize();
+    await this.prisma.$transaction([
+      this.prisma.answer.updateMany({
+        where: { questionId, isAccepted: true },
+        data: { isAccepted: false },
+      }),
+      ...(answerId
+        ? [
+            this.prisma.answer.update({
+              where: { id: answerId },
+              data: { isAccepted: true },
+            }),
+          ]
+        : []),
+    ]);
+  }
+
   /**
    * Delete answer by ID
    */
@@ -0,0 +1,121 @@
+import { BaseRepository } from './BaseRepository';
+import { AuditEvent, AuditEventType } from '../models/AuditEvent';
+import { IAuditEventRepository, AuditEventInput, AuditEventFilter } from '../interfaces/IAuditEventRepository';
+
+type AuditEventRow = {
+  id: string;
+  type: AuditEventType;
+  userId: string | null;
+  email: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  detail: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Repository class for AuditEvent entity operations
+ * Handles all database interactions for the auth audit trail
+ * Implements IAuditEventRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles audit event data access
+ */
+export class AuditEventRepository extends BaseRepository<AuditEvent> implements IAuditEventRepository {
+  /**
+   * Find event by ID
+   */
+  async findById(id: string): Promise<AuditEvent | null> {
+    await this.initialize();
+    const event = await this.prisma.auditEvent.findUnique({ where: { id } });
+
+    return event ? this.toModel(event) : null;
+  }
+
+  /**
+   * Find all events, newest first
+   */
+  async findAll(): Promise<AuditEvent[]> {
+    await this.initialize();
+    const events = await this.prisma.auditEvent.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return events.map((e) => this.toModel(e));
+  }
+
+  /**
+   * Record an event
+   */
+  async create(data: AuditEventInput): Promise<AuditEvent> {
+    await this.initialize();
+    const event = await this.prisma.auditEvent.create({
+      data: {
+        type: data.type,
+        userId: data.userId ?? null,
+        email: data.email ?? null,
+        ipAddress: data.ipAddress ?? null,
+        userAgent: data.userAgent ?? null,
+        detail: data.detail ?? null,
+      },
+    });
+
+    return this.toModel(event);
+  }
+
+  /**
+   * Audit events are append-only; only the detail can be amended
+   */
+  async update(id: string, data: Partial<AuditEvent>): Promise<AuditEvent> {
+    await this.initialize();
+    const event = await this.prisma.auditEvent.update({
+      where: { id },
+      data: {
+        ...(data.detail !== undefined && { detail: data.detail }),
+      },
+    });
+
+    return this.toModel(event);
+  }
+
+  /**
+   * Delete an event
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.auditEvent.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find the newest events, optionally of one type or for one email address
+   */
+  async findRecent(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    await this.initialize();
+    const events = await this.prisma.auditEvent.findMany({
+      where: {
+        ...(filter.type && { type: filter.type }),
+        ...(filter.email && { email: { contains: filter.email, mode: 'insensitive' as const } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit ?? 100,
+    });
+
+    return events.map((e) => this.toModel(e));
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(event: AuditEventRow): AuditEvent {
+    return new AuditEvent(
+      event.id,
+      event.type,
+      event.userId,
+      event.email,
+      event.ipAddress,
+      event.userAgent,
+      event.detail,
+      event.createdAt
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { BaseRepository } from './BaseRepository';
+import { Comment } from '../models/Comment';
+import { Role, User } from '../models/User';
+import { ICommentRepository, CommentInput } from '../interfaces/ICommentRepository';
+
+type CommentRow = {
+  id: string;
+  body: string;
+  questionId: string | null;
+  answerId: string | null;
+  parentId: string | null;
+  mentionedUserIds: string[];
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    role: string;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+};
+
+/**
+ * Repository class for Comment entity operations
+ * Handles all database interactions for comments on questions and answers
+ * Implements ICommentRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles comment data access
+ */
+export class CommentRepository extends BaseRepository<Comment> implements ICommentRepository {
+  private readonly include = {
+    user: {
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    },
+  } as const;
+
+  /**
+   * Find comment by ID
+   */
+  async findById(id: string): Promise<Comment | null> {
+    await this.initialize();
+    const comment = await this.prisma.comment.findUnique({
+      where: { id },
+      include: this.include,
+    });
+
+    return comment ? this.toModel(comment) : null;
+  }
+
+  /**
+   * Find all comments
+   */
+  async findAll(): Promise<Comment[]> {
+    await this.initialize();
+    const comments = await this.prisma.comment.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: this.include,
+    });
+
+    return comments.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Find every comment on a question and on its answers, oldest first
+   */
+  async findForQuestionThread(questionId: string): Promise<Comment[]> {
+    await this.initialize();
+    const comments = await this.prisma.comment.findMany({
+      where: {
+        OR: [{ questionId }, { answer: { questionId } }],
+      },
+      orderBy: { createdAt: 'asc' },
+      include: this.include,
+    });
+
+    return comments.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Create a new comment
+   */
+  async create(data: CommentInput): Promise<Comment> {
+    await this.initialize();
+    const comment = await this.prisma.comment.create({
+      data: {
+        body: data.body.trim(),
+        questionId: data.questionId || null,
+        answerId: data.answerId || null,
+        parentId: data.parentId || null,
+        mentionedUserIds: data.mentionedUserIds,
+        userId: data.userId,
+      },
+      include: this.include,
+    });
+
+    return this.toModel(comment);
+  }
+
+  /**
+   * Update comment body by ID
+   */
+  async update(id: string, data: Partial<Comment>): Promise<Comment> {
+    await this.initialize();
+    const comment = await this.prisma.comment.update({
+      where: { id },
+      data: {
+        ...(data.body && { body: data.body }),
+        ...(data.mentionedUserIds && { mentionedUserIds: data.mentionedUserIds }),
+      },
+      include: this.include,
+    });
+
+    return this.toModel(comment);
+  }
+
+  /**
+   * Delete comment by ID (cascade deletes its replies)
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.comment.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Map a Prisma comment row to the domain model
+   */
+  private toModel(comment: CommentRow): Comment {
+    const user = new User(
+      comment.user.id,
+      comment.user.email,
+      comment.user.name,
+      comment.user.role as Role,
+      comment.user.createdAt,
+      comment.user.updatedAt
+    );
+
+    return new Comment(
+      comment.id,
+      comment.body,
+      comment.questionId,
+      comment.answerId,
+      comment.parentId,
+      comment.mentionedUserIds,
+      comment.userId,
+      user,
+      comment.createdAt,
+      comment.updatedAt
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { BaseRepository } from './BaseRepository';
+import { Course } from '../models/Course';
+import { Enrollment } from '../models/Enrollment';
+import { Role, User } from '../models/User';
+import { ICourseRepository, CourseInput, EnrollmentInput } from '../interfaces/ICourseRepository';
+
+type CourseRow = {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  term: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { enrollments: number };
+};
+
+/**
+ * Repository class for Course entity operations
+ * Handles all database interactions for courses and their enrollments
+ * Implements ICourseRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles course data access
+ */
+export class CourseRepository extends BaseRepository<Course> implements ICourseRepository {
+  private readonly include = {
+    _count: {
+      select: {
+        enrollments: true,
+      },
+    },
+  } as const;
+
+  /**
+   * Find course by ID
+   */
+  async findById(id: string): Promise<Course | null> {
+    await this.initialize();
+    const course = await this.prisma.course.findUnique({
+      where: { id },
+      include: this.include,
+    });
+
+    return course ? this.toModel(course) : null;
+  }
+
+  /**
+   * Find course by its normalised code
+   */
+  async findByCode(code: string): Promise<Course | null> {
+    await this.initialize();
+    const course = await this.prisma.course.findUnique({
+      where: { code },
+      include: this.include,
+    });
+
+    return course ? this.toModel(course) : null;
+  }
+
+  /**
+   * Find all courses, by code
+   */
+  async findAll(): Promise<Course[]> {
+    await this.initialize();
+    const courses = await this.prisma.course.findMany({
+      orderBy: { code: 'asc' },
+      include: this.include,
+    });
+
+    return courses.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Find the courses a user is enrolled in, by code
+   */
+  async findByUserId(userId: string): Promise<Course[]> {
+    await this.initialize();
+    const courses = await this.prisma.course.findMany({
+      where: { enrollments: { some: { userId } } },
+      orderBy: { code: 'asc' },
+      include: this.include,
+    });
+
+    return courses.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Create a new course
+   */
+  async create(data: CourseInput): Promise<Course> {
+    await this.initialize();
+    const course = await this.prisma.course.create({
+      data: {
+        code: data.code,
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+        term: data.term?.trim() || null,
+      },
+      include: this.include,
+    });
+
+    return this.toModel(course);
+  }
+
+  /**
+   * Update course
+   */
+  async update(id: string, data: Partial<Course>): Promise<Course> {
+    await this.initialize();
+    const course = await this.prisma.course.update({
+      where: { id },
+      data: {
+        ...(data.code !== undefined && { code: data.code }),
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.description !== undefined && { description: data.description?.trim() || null }),
+        ...(data.term !== undefined && { term: data.term?.trim() || null }),
+      },
+      include: this.include,
+    });
+
+    return this.toModel(course);
+  }
+
+  /**
+   * Delete course; enrollments go with it and its content is kept without a course
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.course.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find a course's enrollments, by student email
+   */
+  async findEnrollments(courseId: string): Promise<Enrollment[]> {
+    await this.initialize();
+    const enrollments = await this.prisma.enrollment.findMany({
+      where: { courseId },
+      include: { user: true },
+      orderBy: { user: { email: 'asc' } },
+    });
+
+    return enrollments.map((e) => {
+      const user = new User(
+        e.user.id,
+        e.user.email,
+        e.user.name,
+        e.user.role as Role,
+        e.user.createdAt,
+        e.user.updatedAt
+      );
+      return new Enrollment(e.courseId, e.userId, user, e.section, e.createdAt);
+    });
+  }
+
+  /**
+   * Check if a user is enrolled in a course
+   */
+  async isEnrolled(courseId: string, userId: string): Promise<boolean> {
+    await this.initialize();
+    const enrollment = await this.prisma.enrollment.findUnique({
+      where: { courseId_userId: { courseId, userId } },
+      select: { userId: true },
+    });
+
+    return enrollment !== null;
+  }
+
+  /**
+   * Enroll users in a course, skipping those already enrolled
+   * Returns how many enrollments were created
+   */
+  async enroll(courseId: string, enrollments: EnrollmentInput[]): Promise<number> {
+    await this.initialize();
+    if (enrollments.length === 0) return 0;
+
+    const { count } = await this.prisma.enrollment.createMany({
+      data: enrollments.map((e) => ({ courseId, userId: e.userId, section: e.section ?? null })),
+      skipDuplicates: true,
+    });
+
+    return count;
+  }
+
+  /**
+   * Remove a user from a course
+   */
+  async unenroll(courseId: string, userId: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.enrollment.delete({
+      where: { courseId_userId: { courseId, userId } },
+    });
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(course: CourseRow): Course {
+    return new Course(
+      course.id,
+      course.code,
+      course.name,
+      course.description,
+      course.term,
+      course._count.enrollments,
+      course.createdAt,
+      course.updatedAt
+    );
+  }
+}
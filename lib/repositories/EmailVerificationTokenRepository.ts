@@ -0,0 +1,142 @@
+import { BaseRepository } from './BaseRepository';
+import { EmailVerificationToken } from '../models/EmailVerificationToken';
+import { IEmailVerificationTokenRepository } from '../interfaces/IEmailVerificationTokenRepository';
+
+type EmailVerificationTokenRow = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * Repository class for EmailVerificationToken entity operations
+ * Handles all database interactions for signup verification links
+ * Implements IEmailVerificationTokenRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles verification token data access
+ */
+export class EmailVerificationTokenRepository extends BaseRepository<EmailVerificationToken> implements IEmailVerificationTokenRepository {
+  /**
+   * Find token by ID
+   */
+  async findById(id: string): Promise<EmailVerificationToken | null> {
+    await this.initialize();
+    const token = await this.prisma.emailVerificationToken.findUnique({ where: { id } });
+
+    return token ? this.toModel(token) : null;
+  }
+
+  /**
+   * Find all tokens, newest first
+   */
+  async findAll(): Promise<EmailVerificationToken[]> {
+    await this.initialize();
+    const tokens = await this.prisma.emailVerificationToken.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return tokens.map((t) => this.toModel(t));
+  }
+
+  /**
+   * Create a token
+   */
+  async create(data: { userId: string; tokenHash: string; expiresAt: Date }): Promise<EmailVerificationToken> {
+    await this.initialize();
+    const token = await this.prisma.emailVerificationToken.create({ data });
+
+    return this.toModel(token);
+  }
+
+  /**
+   * Update a token's expiry or used time
+   */
+  async update(id: string, data: Partial<EmailVerificationToken>): Promise<EmailVerificationToken> {
+    await this.initialize();
+    const token = await this.prisma.emailVerificationToken.update({
+      where: { id },
+      data: {
+        ...(data.expiresAt !== undefined && { expiresAt: data.expiresAt }),
+        ...(data.usedAt !== undefined && { usedAt: data.usedAt }),
+      },
+    });
+
+    return this.toModel(token);
+  }
+
+  /**
+   * Delete a token
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.emailVerificationToken.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find a token by the hash of the emailed value
+   */
+  async findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null> {
+    await this.initialize();
+    const token = await this.prisma.emailVerificationToken.findUnique({ where: { tokenHash } });
+
+    return token ? this.toModel(token) : null;
+  }
+
+  /**
+   * Find the most recently sent token for a user
+   */
+  async findLatestByUserId(userId: string): Promise<EmailVerificationToken | null> {
+    await this.initialize();
+    const token = await this.prisma.emailVerificationToken.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return token ? this.toModel(token) : null;
+  }
+
+  /**
+   * Mark a token used if it is still unused and unexpired
+   * Returns false when the link was already used or has expired
+   */
+  async consume(id: string, at: Date): Promise<boolean> {
+    await this.initialize();
+    const result = await this.prisma.emailVerificationToken.updateMany({
+      where: { id, usedAt: null, expiresAt: { gt: at } },
+      data: { usedAt: at },
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Mark all of a user's unused tokens as used, e.g. when a newer link is sent
+   */
+  async invalidateForUser(userId: string, at: Date): Promise<number> {
+    await this.initialize();
+    const result = await this.prisma.emailVerificationToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: at },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(token: EmailVerificationTokenRow): EmailVerificationToken {
+    return new EmailVerificationToken(
+      token.id,
+      token.userId,
+      token.tokenHash,
+      token.expiresAt,
+      token.usedAt,
+      token.createdAt
+    );
+  }
+}
@@ -0,0 +1,271 @@
+import { BaseRepository } from './BaseRepository';
+import { Flashcard, FlashcardSource } from '../models/Flashcard';
+import { FlashcardDeck } from '../models/FlashcardDeck';
+import { IFlashcardRepository, FlashcardInput } from '../interfaces/IFlashcardRepository';
+
+type FlashcardRow = {
+  id: string;
+  front: string;
+  back: string;
+  source: string;
+  deckId: string;
+  userId: string;
+  sourceNoteId: string | null;
+  sourceQuizQuestionId: string | null;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Repository class for Flashcard entity operations
+ * Handles all database interactions for flashcards and flashcard decks
+ * Implements IFlashcardRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles flashcard data access
+ */
+export class FlashcardRepository extends BaseRepository<Flashcard> implements IFlashcardRepository {
+  /**
+   * Find flashcard by ID
+   */
+  async findById(id: string): Promise<Flashcard | null> {
+    await this.initialize();
+    const card = await this.prisma.flashcard.findUnique({
+      where: { id },
+    });
+
+    return card ? this.toModel(card) : null;
+  }
+
+  /**
+   * Find all flashcards
+   */
+  async findAll(): Promise<Flashcard[]> {
+    await this.initialize();
+    const cards = await this.prisma.flashcard.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return cards.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Find flashcards in a deck
+   */
+  async findByDeckId(deckId: string): Promise<Flashcard[]> {
+    await this.initialize();
+    const cards = await this.prisma.flashcard.findMany({
+      where: { deckId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return cards.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Find cards due for review, most overdue first
+   */
+  async findDue(userId: string, limit: number, deckId?: string): Promise<Flashcard[]> {
+    await this.initialize();
+    const cards = await this.prisma.flashcard.findMany({
+      where: {
+        userId,
+        dueAt: { lte: new Date() },
+        ...(deckId && { deckId }),
+      },
+      orderBy: { dueAt: 'asc' },
+      take: limit,
+    });
+
+    return cards.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Create a new flashcard
+   */
+  async create(data: FlashcardInput): Promise<Flashcard> {
+    await this.initialize();
+    const card = await this.prisma.flashcard.create({
+      data: {
+        front: data.front.trim(),
+        back: data.back.trim(),
+        source: data.source,
+        deckId: data.deckId,
+        userId: data.userId,
+        sourceNoteId: data.sourceNoteId || null,
+        sourceQuizQuestionId: data.sourceQuizQuestionId || null,
+      },
+    });
+
+    return this.toModel(card);
+  }
+
+  /**
+   * Create several flashcards at once
+   * Cards for a quiz question the user already has a card for are skipped
+   */
+  async createMany(cards: FlashcardInput[]): Promise<number> {
+    await this.initialize();
+    if (cards.length === 0) return 0;
+
+    const result = await this.prisma.flashcard.createMany({
+      data: cards.map((c) => ({
+        front: c.front.trim(),
+        back: c.back.trim(),
+        source: c.source,
+        deckId: c.deckId,
+        userId: c.userId,
+        sourceNoteId: c.sourceNoteId || null,
+        sourceQuizQuestionId: c.sourceQuizQuestionId || null,
+      })),
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Update flashcard content or scheduling state by ID
+   */
+  async update(id: string, data: Partial<Flashcard>): Promise<Flashcard> {
+    await this.initialize();
+    const card = await this.prisma.flashcard.update({
+      where: { id },
+      data: {
+        ...(data.front && { front: data.front }),
+        ...(data.back && { back: data.back }),
+        ...(data.deckId && { deckId: data.deckId }),
+        ...(data.ease !== undefined && { ease: data.ease }),
+        ...(data.interval !== undefined && { interval: data.interval }),
+        ...(data.repetitions !== undefined && { repetitions: data.repetitions }),
+        ...(data.dueAt !== undefined && { dueAt: data.dueAt }),
+        ...(data.lastReviewedAt !== undefined && { lastReviewedAt: data.lastReviewedAt }),
+      },
+    });
+
+    return this.toModel(card);
+  }
+
+  /**
+   * Delete flashcard by ID
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.flashcard.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find a user's decks with total and due card counts
+   */
+  async findDecksByUserId(userId: string): Promise<FlashcardDeck[]> {
+    await this.initialize();
+    const [decks, dueCounts] = await Promise.all([
+      this.prisma.flashcardDeck.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        include: { _count: { select: { cards: true } } },
+      }),
+      this.prisma.flashcard.groupBy({
+        by: ['deckId'],
+        where: { userId, dueAt: { lte: new Date() } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const dueByDeck = new Map(dueCounts.map((d) => [d.deckId, d._count._all]));
+
+    return decks.map(
+      (d) =>
+        new FlashcardDeck(
+          d.id,
+          d.name,
+          d.description,
+          d.userId,
+          d._count.cards,
+          dueByDeck.get(d.id) || 0,
+          d.createdAt,
+          d.updatedAt
+        )
+    );
+  }
+
+  /**
+   * Find deck by ID
+   */
+  async findDeckById(id: string): Promise<FlashcardDeck | null> {
+    await this.initialize();
+    const deck = await this.prisma.flashcardDeck.findUnique({
+      where: { id },
+      include: { _count: { select: { cards: true } } },
+    });
+
+    if (!deck) return null;
+
+    const dueCount = await this.prisma.flashcard.count({
+      where: { deckId: id, dueAt: { lte: new Date() } },
+    });
+
+    return new FlashcardDeck(
+      deck.id,
+      deck.name,
+      deck.description,
+      deck.userId,
+      deck._count.cards,
+      dueCount,
+      deck.createdAt,
+      deck.updatedAt
+    );
+  }
+
+  /**
+   * Find a user's deck by name, creating it if it does not exist
+   */
+  async findOrCreateDeck(userId: string, name: string, description: string | null = null): Promise<FlashcardDeck> {
+    await this.initialize();
+    const deck = await this.prisma.flashcardDeck.upsert({
+      where: { userId_name: { userId, name: name.trim() } },
+      update: {},
+      create: { userId, name: name.trim(), description },
+    });
+
+    return (await this.findDeckById(deck.id))!;
+  }
+
+  /**
+   * Delete deck by ID (cascade deletes its cards)
+   */
+  async deleteDeck(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.flashcardDeck.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Map a Prisma flashcard row to the domain model
+   */
+  private toModel(card: FlashcardRow): Flashcard {
+    return new Flashcard(
+      card.id,
+      card.front,
+      card.back,
+      card.source as FlashcardSource,
+      card.deckId,
+      card.userId,
+      card.sourceNoteId,
+      card.sourceQuizQuestionId,
+      card.ease,
+      card.interval,
+      card.repetitions,
+      card.dueAt,
+      card.lastReviewedAt,
+      card.createdAt,
+      card.updatedAt
+    );
+  }
+}
@@ -0,0 +1,249 @@
+import { Prisma } from '@prisma/client';
+import { BaseRepository } from './BaseRepository';
+import { Job, JobStatus, JobType } from '../models/Job';
+import { IJobRepository, JobInput } from '../interfaces/IJobRepository';
+
+type JobRow = {
+  id: string;
+  type: string;
+  key: string | null;
+  payload: Prisma.JsonValue;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Repository class for Job entity operations
+ * Backs the persisted job queue; claiming uses row locks so several workers can share it
+ * Implements IJobRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles job data access
+ */
+export class JobRepository extends BaseRepository<Job> implements IJobRepository {
+  /**
+   * Find job by ID
+   */
+  async findById(id: string): Promise<Job | null> {
+    await this.initialize();
+    const job = await this.prisma.job.findUnique({ where: { id } });
+
+    return job ? this.toModel(job) : null;
+  }
+
+  /**
+   * Find all jobs, newest first
+   */
+  async findAll(): Promise<Job[]> {
+    await this.initialize();
+    const jobs = await this.prisma.job.findMany({ orderBy: { createdAt: 'desc' } });
+
+    return jobs.map((j) => this.toModel(j));
+  }
+
+  /**
+   * Create a job unconditionally
+   */
+  async create(data: JobInput): Promise<Job> {
+    await this.initialize();
+    const job = await this.prisma.job.create({
+      data: {
+        type: data.type,
+        key: data.key ?? null,
+        payload: (data.payload ?? {}) as Prisma.InputJsonObject,
+        maxAttempts: data.maxAttempts,
+        runAt: data.runAt,
+      },
+    });
+
+    return this.toModel(job);
+  }
+
+  /**
+   * Queue a job unless the same work is already pending or running
+   * Returns null when an existing job already covers it; the partial unique index on pending (type, key) settles races
+   * between callers
+   */
+  async enqueue(data: JobInput): Promise<Job | null> {
+    await this.initialize();
+    if (data.key && !data.followUpIfRunning) {
+      const running = await this.prisma.job.findFirst({
+        where: { type: data.type, key: data.key, status: 'RUNNING' },
+        select: { id: true },
+      });
+      if (running) return null;
+    }
+
+    try {
+      return await this.create(data);
+    } catch (error) {
+      if (data.key && JobRepository.isUniqueViolation(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lock up to `limit` due jobs of the given types and mark them running
+   * Running jobs locked longer than staleAfterMs are assumed orphaned by a crashed worker and reclaimed
+   * A pending job waits while another job with its type and key is running, so the two never overlap
+   */
+  async claim(types: JobType[], limit: number, staleAfterMs: number): Promise<Job[]> {
+    await this.initialize();
+    if (types.length === 0) return [];
+
+    const staleBefore = new Date(Date.now() - staleAfterMs);
+    const rows = await this.prisma.$queryRaw<JobRow[]>`
+      UPDATE jobs
+      SET status = 'RUNNING'::"JobStatus",
+          "lockedAt" = NOW(),
+          attempts = attempts + 1,
+          "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM jobs AS candidate
+        WHERE type IN (${Prisma.join(types)})
+          AND (
+            (
+              status = 'PENDING'::"JobStatus"
+              AND "runAt" <= NOW()
+              AND NOT EXISTS (
+                SELECT 1 FROM jobs AS running
+                WHERE running.type = candidate.type
+                  AND running.key = candidate.key
+                  AND running.status = 'RUNNING'::"JobStatus"
+                  AND running."lockedAt" >= ${staleBefore}
+              )
+            )
+            OR (status = 'RUNNING'::"JobStatus" AND "lockedAt" < ${staleBefore})
+          )
+        ORDER BY "runAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return rows.map((row) => this.toModel(row));
+  }
+
+  /**
+   * Mark a job as finished
+   */
+  async complete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.job.update({
+      where: { id },
+      data: { status: 'COMPLETED', lockedAt: null, lastError: null },
+    });
+  }
+
+  /**
+   * Record a failed attempt; the job runs again at retryAt, or is given up on when retryAt is null
+   * When a copy was queued during the run, that copy does the retry and this job is marked failed
+   */
+  async fail(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.initialize();
+    const data = { lockedAt: null, lastError: error };
+
+    if (retryAt) {
+      try {
+        await this.prisma.job.update({ where: { id }, data: { ...data, status: 'PENDING', runAt: retryAt } });
+        return;
+      } catch (updateError) {
+        if (!JobRepository.isUniqueViolation(updateError)) throw updateError;
+      }
+    }
+
+    await this.prisma.job.update({ where: { id }, data: { ...data, status: 'FAILED' } });
+  }
+
+  /**
+   * Delete completed and failed jobs last touched before a time
+   */
+  async deleteFinished(before: Date): Promise<number> {
+    await this.initialize();
+    const result = await this.prisma.job.deleteMany({
+      where: {
+        status: { in: ['COMPLETED', 'FAILED'] },
+        updatedAt: { lt: before },
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Count jobs in each status
+   */
+  async countByStatus(): Promise<Record<JobStatus, number>> {
+    await this.initialize();
+    const groups = await this.prisma.job.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    const counts: Record<JobStatus, number> = { PENDING: 0, RUNNING: 0, COMPLETED: 0, FAILED: 0 };
+    for (const group of groups) {
+      counts[group.status] = group._count._all;
+    }
+    return counts;
+  }
+
+  /**
+   * Update a job
+   */
+  async update(id: string, data: Partial<Job>): Promise<Job> {
+    await this.initialize();
+    const job = await this.prisma.job.update({
+      where: { id },
+      data: {
+        status: data.status,
+        runAt: data.runAt,
+        maxAttempts: data.maxAttempts,
+        lastError: data.lastError,
+      },
+    });
+
+    return this.toModel(job);
+  }
+
+  /**
+   * Delete a job
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.job.delete({ where: { id } });
+  }
+
+  /**
+   * Check for a clash with the unique index on pending jobs
+   */
+  private static isUniqueViolation(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+  }
+
+  /**
+   * Map a database row to a Job model
+   */
+  private toModel(job: JobRow): Job {
+    return new Job(
+      job.id,
+      job.type as JobType,
+      job.key,
+      (job.payload ?? {}) as Record<string, any>,
+      job.status,
+      job.attempts,
+      job.maxAttempts,
+      job.runAt,
+      job.lockedAt,
+      job.lastError,
+      job.createdAt,
+      job.updatedAt
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { BaseRepository } from './BaseRepository';
 import { Note } from '../models/Note';
-import { User } from '../models/User';
+import { Role, User } from '../models/User';
 import { INoteRepository } from '../interfaces/INoteRepository';
 
 /**
@@ -37,7 +37,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.user.id,
       note.user.email,
       note.user.name,
-      note.user.role as 'STUDENT' | 'ADMIN',
+      note.user.role as Role,
       note.user.createdAt,
       note.user.updatedAt
     );
@@ -51,7 +51,8 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.createdAt,
       note.updatedAt,
       note.shareToken,
-      note.isPublic
+      note.isPublic,
+      note.courseId
     );
   }
 
@@ -77,8 +78,8 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
     });
 
     return notes.map((n) => {
-      const user = new User(n.user.id, n.user.email, n.user.name, n.user.role as 'STUDENT' | 'ADMIN', n.user.createdAt, n.user.updatedAt);
-      return new Note(n.id, n.title, n.content, n.userId, user, n.createdAt, n.updatedAt);
+      const user = new User(n.user.id, n.user.email, n.user.name, n.user.role as Role, n.user.createdAt, n.user.updatedAt);
+      return new Note(n.id, n.title, n.content, n.userId, user, n.createdAt, n.updatedAt, n.shareToken, n.isPublic, n.courseId);
     });
   }
 
@@ -105,8 +106,8 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
     });
 
     return notes.map((n) => {
-      const user = new User(n.user.id, n.user.email, n.user.name, n.user.role as 'STUDENT' | 'ADMIN', n.user.createdAt, n.user.updatedAt);
-      return new Note(n.id, n.title, n.content, n.userId, user, n.createdAt, n.updatedAt);
+      const user = new User(n.user.id, n.user.email, n.user.name, n.user.role as Role, n.user.createdAt, n.user.updatedAt);
+      return new Note(n.id, n.title, n.content, n.userId, user, n.createdAt, n.updatedAt, n.shareToken, n.isPublic, n.courseId);
     });
   }
 
@@ -117,6 +118,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
     title: string;
     content: any;
     userId: string;
+    courseId?: string | null;
   }): Promise<Note> {
     await this.initialize();
     const note = await this.prisma.note.create({
@@ -124,6 +126,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
         title: data.title.trim(),
         content: data.content,
         userId: data.userId,
+        courseId: data.courseId ?? null,
       },
       include: {
         user: {
@@ -143,7 +146,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.user.id,
       note.user.email,
       note.user.name,
-      note.user.role as 'STUDENT' | 'ADMIN',
+      note.user.role as Role,
       note.user.createdAt,
       note.user.updatedAt
     );
@@ -157,7 +160,8 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.createdAt,
       note.updatedAt,
       note.shareToken,
-      note.isPublic
+      note.isPublic,
+      note.courseId
     );
   }
 
@@ -171,6 +175,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
     if (data.content !== undefined) updateData.content = data.content;
     if (data.shareToken !== undefined) updateData.shareToken = data.shareToken;
     if (data.isPublic !== undefined) updateData.isPublic = data.isPublic;
+    if (data.courseId !== undefined) updateData.courseId = data.courseId;
 
     const note = await this.prisma.note.update({
       where: { id },
@@ -193,7 +198,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.user.id,
       note.user.email,
       note.user.name,
-      note.user.role as 'STUDENT' | 'ADMIN',
+      note.user.role as Role,
       note.user.createdAt,
       note.user.updatedAt
     );
@@ -207,7 +212,8 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.createdAt,
       note.updatedAt,
       note.shareToken,
-      note.isPublic
+      note.isPublic,
+      note.courseId
     );
   }
 
@@ -248,7 +254,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.user.id,
       note.user.email,
       note.user.name,
-      note.user.role as 'STUDENT' | 'ADMIN',
+      note.user.role as Role,
       note.user.createdAt,
       note.user.updatedAt
     );
@@ -262,7 +268,8 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.createdAt,
       note.updatedAt,
       note.shareToken,
-      note.isPublic
+      note.isPublic,
+      note.courseId
     );
   }
 
@@ -298,7 +305,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.user.id,
       note.user.email,
       note.user.name,
-      note.user.role as 'STUDENT' | 'ADMIN',
+      note.user.role as Role,
       note.user.createdAt,
       note.user.updatedAt
     );
@@ -312,15 +319,21 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.createdAt,
       note.updatedAt,
       note.shareToken,
-      note.isPublic
+      note.isPublic,
+      note.courseId
     );
   }
 
   /**
    * Disable sharing for a note
+   * Forgets who viewed it, since they lose access with the link
    */
   async disableSharing(id: string): Promise<Note> {
     await this.initialize();
+    await this.prisma.sharedNoteView.deleteMany({
+      where: { noteId: id },
+    });
+
     const note = await this.prisma.note.update({
       where: { id },
       data: {
@@ -345,7 +358,7 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.user.id,
       note.user.email,
       note.user.name,
-      note.user.role as 'STUDENT' | 'ADMIN',
+      note.user.role as Role,
       note.user.createdAt,
       note.user.updatedAt
     );
@@ -359,8 +372,33 @@ export class NoteRepository extends BaseRepository<Note> implements INoteReposit
       note.createdAt,
       note.updatedAt,
       note.shareToken,
-      note.isPublic
+      note.isPublic,
+      note.courseId
     );
   }
-}
 
+  /**
+   * Remember that a signed-in user opened a shared note
+   */
+  async recordSharedView(noteId: string, userId: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.sharedNoteView.upsert({
+      where: { noteId_userId: { noteId, userId } },
+      create: { noteId, userId },
+      update: { lastViewedAt: new Date() },
+    });
+  }
+
+  /**
+   * Find the users who have opened a shared note
+   */
+  async findSharedViewerIds(noteId: string): Promise<string[]> {
+    await this.initialize();
+    const views = await this.prisma.sharedNoteView.findMany({
+      where: { noteId },
+      select: { userId: true },
+    });
+
+    return views.map((v) => v.userId);
+  }
+}
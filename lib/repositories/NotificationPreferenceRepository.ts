@@ -0,0 +1,133 @@
+import { BaseRepository } from './BaseRepository';
+import { NotificationPreference, DigestFrequency } from '../models/NotificationPreference';
+import {
+  INotificationPreferenceRepository,
+  NotificationPreferenceInput,
+} from '../interfaces/INotificationPreferenceRepository';
+
+type NotificationPreferenceRow = {
+  userId: string;
+  digestFrequency: DigestFrequency;
+  digestAnswers: boolean;
+  digestDeadlines: boolean;
+  lastDigestAt: Date | null;
+};
+
+/**
+ * Repository class for NotificationPreference entity operations
+ * Handles all database interactions for users' email settings
+ * Implements INotificationPreferenceRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles preference data access
+ */
+export class NotificationPreferenceRepository extends BaseRepository<NotificationPreference> implements INotificationPreferenceRepository {
+  /**
+   * Find a user's preferences, or null when they never saved any
+   */
+  async findById(userId: string): Promise<NotificationPreference | null> {
+    await this.initialize();
+    const preference = await this.prisma.notificationPreference.findUnique({ where: { userId } });
+
+    return preference ? this.toModel(preference) : null;
+  }
+
+  /**
+   * Find every user's saved preferences
+   */
+  async findAll(): Promise<NotificationPreference[]> {
+    await this.initialize();
+    const preferences = await this.prisma.notificationPreference.findMany();
+
+    return preferences.map((p) => this.toModel(p));
+  }
+
+  /**
+   * Create preferences for a user
+   */
+  async create(data: NotificationPreferenceInput & { userId: string }): Promise<NotificationPreference> {
+    await this.initialize();
+    const preference = await this.prisma.notificationPreference.create({ data });
+
+    return this.toModel(preference);
+  }
+
+  /**
+   * Update a user's preferences
+   */
+  async update(userId: string, data: Partial<NotificationPreference>): Promise<NotificationPreference> {
+    await this.initialize();
+    const preference = await this.prisma.notificationPreference.update({
+      where: { userId },
+      data: {
+        ...(data.digestFrequency !== undefined && { digestFrequency: data.digestFrequency }),
+        ...(data.digestAnswers !== undefined && { digestAnswers: data.digestAnswers }),
+        ...(data.digestDeadlines !== undefined && { digestDeadlines: data.digestDeadlines }),
+        ...(data.lastDigestAt !== undefined && { lastDigestAt: data.lastDigestAt }),
+      },
+    });
+
+    return this.toModel(preference);
+  }
+
+  /**
+   * Delete a user's preferences, going back to the defaults
+   */
+  async delete(userId: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.notificationPreference.delete({
+      where: { userId },
+    });
+  }
+
+  /**
+   * Create or update a user's preferences
+   */
+  async upsert(userId: string, data: NotificationPreferenceInput): Promise<NotificationPreference> {
+    await this.initialize();
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    return this.toModel(preference);
+  }
+
+  /**
+   * Find preferences at a digest frequency whose last digest ended before a time, or that never had one
+   */
+  async findDueForDigest(frequency: DigestFrequency, lastDigestBefore: Date): Promise<NotificationPreference[]> {
+    await this.initialize();
+    const preferences = await this.prisma.notificationPreference.findMany({
+      where: {
+        digestFrequency: frequency,
+        OR: [{ lastDigestAt: null }, { lastDigestAt: { lt: lastDigestBefore } }],
+      },
+    });
+
+    return preferences.map((p) => this.toModel(p));
+  }
+
+  /**
+   * Record the end of the period the latest digest covered
+   */
+  async markDigestSent(userId: string, at: Date): Promise<void> {
+    await this.initialize();
+    await this.prisma.notificationPreference.update({
+      where: { userId },
+      data: { lastDigestAt: at },
+    });
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(preference: NotificationPreferenceRow): NotificationPreference {
+    return new NotificationPreference(
+      preference.userId,
+      preference.digestFrequency,
+      preference.digestAnswers,
+      preference.digestDeadlines,
+      preference.lastDigestAt
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { BaseRepository } from './BaseRepository';
+import { Notification, NotificationType } from '../models/Notification';
+import { INotificationRepository, NotificationInput } from '../interfaces/INotificationRepository';
+
+type NotificationRow = {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  key: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * Repository class for Notification entity operations
+ * Handles all database interactions for the notification center
+ * Implements INotificationRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles notification data access
+ */
+export class NotificationRepository extends BaseRepository<Notification> implements INotificationRepository {
+  /**
+   * Find notification by ID
+   */
+  async findById(id: string): Promise<Notification | null> {
+    await this.initialize();
+    const notification = await this.prisma.notification.findUnique({ where: { id } });
+
+    return notification ? this.toModel(notification) : null;
+  }
+
+  /**
+   * Find all notifications, newest first
+   */
+  async findAll(): Promise<Notification[]> {
+    await this.initialize();
+    const notifications = await this.prisma.notification.findMany({ orderBy: { createdAt: 'desc' } });
+
+    return notifications.map((n) => this.toModel(n));
+  }
+
+  /**
+   * Find a user's most recent notifications, newest first
+   */
+  async findByUserId(userId: string, limit: number): Promise<Notification[]> {
+    await this.initialize();
+    const notifications = await this.prisma.notification.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return notifications.map((n) => this.toModel(n));
+  }
+
+  /**
+   * Find a user's notifications of one type created in a window, oldest first
+   */
+  async findByTypeBetween(userId: string, type: NotificationType, from: Date, to: Date): Promise<Notification[]> {
+    await this.initialize();
+    const notifications = await this.prisma.notification.findMany({
+      where: { userId, type, createdAt: { gte: from, lt: to } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return notifications.map((n) => this.toModel(n));
+  }
+
+  /**
+   * Create a notification
+   */
+  async create(data: NotificationInput): Promise<Notification> {
+    await this.initialize();
+    const notification = await this.prisma.notification.create({
+      data: {
+        userId: data.userId,
+        type: data.type,
+        title: data.title,
+        body: data.body ?? null,
+        link: data.link ?? null,
+        key: data.key ?? null,
+      },
+    });
+
+    return this.toModel(notification);
+  }
+
+  /**
+   * Create several notifications at once
+   * A notification whose user already has one with the same key is skipped, so concurrent senders cannot double up
+   * Returns how many were created
+   */
+  async createMany(data: NotificationInput[]): Promise<number> {
+    await this.initialize();
+    if (data.length === 0) return 0;
+
+    const { count } = await this.prisma.notification.createMany({
+      data: data.map((n) => ({
+        userId: n.userId,
+        type: n.type,
+        title: n.title,
+        body: n.body ?? null,
+        link: n.link ?? null,
+        key: n.key ?? null,
+      })),
+      skipDuplicates: true,
+    });
+
+    return count;
+  }
+
+  /**
+   * Update notification
+   */
+  async update(id: string, data: Partial<Notification>): Promise<Notification> {
+    await this.initialize();
+    const notification = await this.prisma.notification.update({
+      where: { id },
+      data: {
+        ...(data.title !== undefined && { title: data.title }),
+        ...(data.body !== undefined && { body: data.body }),
+        ...(data.readAt !== undefined && { readAt: data.readAt }),
+      },
+    });
+
+    return this.toModel(notification);
+  }
+
+  /**
+   * Delete notification
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.notification.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async countUnread(userId: string): Promise<number> {
+    await this.initialize();
+    return await this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  /**
+   * Mark a user's notifications as read, or all of them when no ids are given
+   * Returns how many changed
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    await this.initialize();
+    const { count } = await this.prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids && { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return count;
+  }
+
+  /**
+   * Find which of the given users still have an unread notification whose event key starts with a prefix
+   */
+  async findUnreadUserIds(keyPrefix: string, userIds: string[]): Promise<string[]> {
+    await this.initialize();
+    if (userIds.length === 0) return [];
+
+    const rows = await this.prisma.notification.findMany({
+      where: { key: { startsWith: keyPrefix }, readAt: null, userId: { in: userIds } },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+
+    return rows.map((r) => r.userId);
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(notification: NotificationRow): Notification {
+    return new Notification(
+      notification.id,
+      notification.userId,
+      notification.type,
+      notification.title,
+      notification.body,
+      notification.link,
+      notification.key,
+      notification.readAt,
+      notification.createdAt
+    );
+  }
+}
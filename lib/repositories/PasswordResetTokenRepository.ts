@@ -0,0 +1,129 @@
+import { BaseRepository } from './BaseRepository';
+import { PasswordResetToken } from '../models/PasswordResetToken';
+import { IPasswordResetTokenRepository } from '../interfaces/IPasswordResetTokenRepository';
+
+type PasswordResetTokenRow = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * Repository class for PasswordResetToken entity operations
+ * Handles all database interactions for password reset links
+ * Implements IPasswordResetTokenRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles reset token data access
+ */
+export class PasswordResetTokenRepository extends BaseRepository<PasswordResetToken> implements IPasswordResetTokenRepository {
+  /**
+   * Find token by ID
+   */
+  async findById(id: string): Promise<PasswordResetToken | null> {
+    await this.initialize();
+    const token = await this.prisma.passwordResetToken.findUnique({ where: { id } });
+
+    return token ? this.toModel(token) : null;
+  }
+
+  /**
+   * Find all tokens, newest first
+   */
+  async findAll(): Promise<PasswordResetToken[]> {
+    await this.initialize();
+    const tokens = await this.prisma.passwordResetToken.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return tokens.map((t) => this.toModel(t));
+  }
+
+  /**
+   * Create a token
+   */
+  async create(data: { userId: string; tokenHash: string; expiresAt: Date }): Promise<PasswordResetToken> {
+    await this.initialize();
+    const token = await this.prisma.passwordResetToken.create({ data });
+
+    return this.toModel(token);
+  }
+
+  /**
+   * Update a token's expiry or used time
+   */
+  async update(id: string, data: Partial<PasswordResetToken>): Promise<PasswordResetToken> {
+    await this.initialize();
+    const token = await this.prisma.passwordResetToken.update({
+      where: { id },
+      data: {
+        ...(data.expiresAt !== undefined && { expiresAt: data.expiresAt }),
+        ...(data.usedAt !== undefined && { usedAt: data.usedAt }),
+      },
+    });
+
+    return this.toModel(token);
+  }
+
+  /**
+   * Delete a token
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.passwordResetToken.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find a token by the hash of the emailed value
+   */
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    await this.initialize();
+    const token = await this.prisma.passwordResetToken.findUnique({ where: { tokenHash } });
+
+    return token ? this.toModel(token) : null;
+  }
+
+  /**
+   * Mark a token used if it is still unused and unexpired
+   * Returns false when another request got there first, so a link only works once
+   */
+  async consume(id: string, at: Date): Promise<boolean> {
+    await this.initialize();
+    const result = await this.prisma.passwordResetToken.updateMany({
+      where: { id, usedAt: null, expiresAt: { gt: at } },
+      data: { usedAt: at },
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Mark all of a user's unused tokens as used, e.g. when a newer link is sent
+   */
+  async invalidateForUser(userId: string, at: Date): Promise<number> {
+    await this.initialize();
+    const result = await this.prisma.passwordResetToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: at },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(token: PasswordResetTokenRow): PasswordResetToken {
+    return new PasswordResetToken(
+      token.id,
+      token.userId,
+      token.tokenHash,
+      token.expiresAt,
+      token.usedAt,
+      token.createdAt
+    );
+  }
+}
@@ -1,8 +1,67 @@
 import { BaseRepository } from './BaseRepository';
 import { Question } from '../models/Question';
-import { User } from '../models/User';
+import { Role, User } from '../models/User';
+import { CourseSummary } from '../models/Course';
 import { Prisma } from '@prisma/client';
-import { IQuestionRepository } from '../interfaces/IQuestionRepository';
+import { QuestionRevision } from '../models/QuestionRevision';
+import { SearchHighlight } from '../models/QuestionSearchResult';
+import { SearchHighlighter } from '../utils/SearchHighlighter';
+import { Embedding } from '../interfaces/IEmbeddingService';
+import {
+  EmbeddingScope,
+  IQuestionRepository,
+  QuestionEditInput,
+  QuestionListOptions,
+  QuestionPage,
+  SimilarQuestion,
+} from '../interfaces/IQuestionRepository';
+
+type QuestionRow = {
+  id: string;
+  title: string;
+  type: string;
+  description: string;
+  images: string[];
+  userId: string | null;
+  mergedIntoId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  user: { id: string; name: string | null; email: string; role: string } | null;
+  _count: { answers: number };
+  tags: { tag: { name: string } }[];
+  course: CourseSummary | null;
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Primary sort key per listing order; ties fall back to newest first
+ * For 'newest' the key is constant, so ordering is by createdAt alone
+ */
+const SORT_KEYS = {
+  newest: Prisma.sql`0`,
+  answers: Prisma.sql`(SELECT COUNT(*) FROM answers a WHERE a."questionId" = q.id)`,
+  votes: Prisma.sql`(SELECT COALESCE(SUM(v.value), 0) FROM question_votes v WHERE v."questionId" = q.id)`,
+} as const;
+
+/**
+ * Build a pgvector literal from embedding values
+ */
+const vectorSql = (values: number[]) =>
+  Prisma.sql`ARRAY[${Prisma.join(values.map((val) => Prisma.sql`${val}`))}]::real[]::vector`;
+
+/**
+ * Restrict to questions whose stored vector is comparable with the given embedding
+ */
+const comparableTo = (embedding: Embedding) =>
+  Prisma.sql`q.embedding IS NOT NULL AND q."embeddingProvider" = ${embedding.provider} AND q."embeddingDimensions" = ${embedding.values.length}`;
+
+/**
+ * Match questions on any of the query's words (quoted phrases stay phrases);
+ * ts_rank then favours rows matching more of the terms
+ */
+const tsQuery = (query: string) =>
+  Prisma.sql`to_tsquery('english', replace(websearch_to_tsquery('english', ${query})::text, ' & ', ' | '))`;
 
 /**
  * Repository class for Question entity operations
@@ -11,6 +70,29 @@ import { IQuestionRepository } from '../interfaces/IQuestionRepository';
  * Follows Single Responsibility Principle (SRP) - only handles question data access
  */
 export class QuestionRepository extends BaseRepository<Question> implements IQuestionRepository {
+  private readonly include = {
+    user: {
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+      },
+    },
+    _count: {
+      select: {
+        answers: true,
+      },
+    },
+    tags: {
+      select: { tag: { select: { name: true } } },
+      orderBy: { tag: { name: 'asc' } },
+    },
+    course: {
+      select: { id: true, code: true, name: true },
+    },
+  } as const;
+
   /**
    * Find question by ID
    */
@@ -18,48 +100,13 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
     await this.initialize();
     const question = await this.prisma.question.findUnique({
       where: { id },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-        _count: {
-          select: {
-            answers: true,
-          },
-        },
-      },
+      include: this.include,
     });
 
     if (!question) return null;
 
-    const user = question.user
-      ? new User(
-          question.user.id,
-          question.user.email,
-          question.user.name,
-          question.user.role as 'STUDENT' | 'ADMIN',
-          new Date(),
-          new Date()
-        )
-      : null;
-
-    return new Question(
-      question.id,
-      question.title,
-      question.type,
-      question.description,
-      question.images,
-      question.userId,
-      user,
-      question.createdAt,
-      question.updatedAt,
-      question._count.answers
-    );
+    const [model] = await this.toModels([question]);
+    return model;
   }
 
   /**
@@ -68,42 +115,12 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
   async findAll(): Promise<Question[]> {
     await this.initialize();
     const questions = await this.prisma.question.findMany({
+      where: { mergedIntoId: null },
       orderBy: { createdAt: 'desc' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-        _count: {
-          select: {
-            answers: true,
-          },
-        },
-      },
+      include: this.include,
     });
 
-    return questions.map((q) => {
-      const user = q.user
-        ? new User(q.user.id, q.user.email, q.user.name, q.user.role as 'STUDENT' | 'ADMIN', new Date(), new Date())
-        : null;
-
-      return new Question(
-        q.id,
-        q.title,
-        q.type,
-        q.description,
-        q.images,
-        q.userId,
-        user,
-        q.createdAt,
-        q.updatedAt,
-        q._count.answers
-      );
-    });
+    return await this.toModels(questions);
   }
 
   /**
@@ -112,43 +129,88 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
   async findByUserId(userId: string): Promise<Question[]> {
     await this.initialize();
     const questions = await this.prisma.question.findMany({
-      where: { userId },
+      where: { userId, mergedIntoId: null },
       orderBy: { createdAt: 'desc' },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-        _count: {
-          select: {
-            answers: true,
-          },
-        },
-      },
+      include: this.include,
     });
 
-    return questions.map((q) => {
-      const user = q.user
-        ? new User(q.user.id, q.user.email, q.user.name, q.user.role as 'STUDENT' | 'ADMIN', new Date(), new Date())
-        : null;
+    return await this.toModels(questions);
+  }
 
-      return new Question(
-        q.id,
-        q.title,
-        q.type,
-        q.description,
-        q.images,
-        q.userId,
-        user,
-        q.createdAt,
-        q.updatedAt,
-        q._count.answers
-      );
+  /**
+   * Find questions by IDs, keeping the order of the IDs given
+   */
+  async findByIds(ids: string[]): Promise<Question[]> {
+    await this.initialize();
+    if (ids.length === 0) return [];
+
+    const questions = await this.prisma.question.findMany({
+      where: { id: { in: ids } },
+      include: this.include,
     });
+
+    const models = await this.toModels(questions);
+    const byId = new Map(models.map((q) => [q.id, q]));
+    return ids.map((id) => byId.get(id)).filter((q): q is Question => !!q);
+  }
+
+  /**
+   * Find one page of questions matching the filters, using keyset pagination
+   * The cursor encodes the sort key, createdAt and id of the last row returned
+   */
+  async findPage(options: QuestionListOptions): Promise<QuestionPage> {
+    await this.initialize();
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const sortKey = SORT_KEYS[options.sort || 'newest'];
+
+    const conditions: Prisma.Sql[] = [Prisma.sql`q."mergedIntoId" IS NULL`];
+    if (options.type) conditions.push(Prisma.sql`q.type = ${options.type}`);
+    if (options.tag) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM question_tags qt JOIN tags t ON t.id = qt."tagId"
+        WHERE qt."questionId" = q.id AND t.name = ${options.tag}
+      )`);
+    }
+    if (options.courseIds) {
+      conditions.push(
+        options.courseIds.length > 0
+          ? Prisma.sql`q."courseId" IN (${Prisma.join(options.courseIds)})`
+          : Prisma.sql`FALSE`
+      );
+    }
+    if (options.authorId) conditions.push(Prisma.sql`q."userId" = ${options.authorId}`);
+    if (options.createdAfter) conditions.push(Prisma.sql`q."createdAt" >= ${options.createdAfter}`);
+    if (options.createdBefore) conditions.push(Prisma.sql`q."createdAt" < ${options.createdBefore}`);
+    if (options.hasImages) conditions.push(Prisma.sql`cardinality(q.images) > 0`);
+    if (options.unanswered) {
+      conditions.push(Prisma.sql`NOT EXISTS (SELECT 1 FROM answers a WHERE a."questionId" = q.id)`);
+    }
+
+    const where = Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
+    const cursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+    const after = cursor
+      ? Prisma.sql`WHERE (s."sortKey", s."createdAt", s.id) < (${cursor.key}, ${cursor.createdAt}, ${cursor.id})`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<{ id: string; sortKey: number; createdAt: Date }[]>`
+      SELECT s.id, s."sortKey", s."createdAt"
+      FROM (
+        SELECT q.id, q."createdAt", ${sortKey}::int as "sortKey"
+        FROM questions q
+        ${where}
+      ) s
+      ${after}
+      ORDER BY s."sortKey" DESC, s."createdAt" DESC, s.id DESC
+      LIMIT ${limit + 1}
+    `;
+
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      questions: await this.findByIds(pageRows.map((row) => row.id)),
+      nextCursor: rows.length > limit && last ? this.encodeCursor(last) : null,
+    };
   }
 
   /**
@@ -160,7 +222,8 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
     description: string;
     images: string[];
     userId: string;
-    embedding?: number[] | null;
+    courseId?: string | null;
+    embedding?: Embedding | null;
   }): Promise<Question> {
     await this.initialize();
     const questionId = require('crypto').randomUUID();
@@ -173,11 +236,12 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
         : Prisma.sql`ARRAY[]::text[]`;
 
     try {
-      if (data.embedding && Array.isArray(data.embedding) && data.embedding.length > 0) {
-        const embeddingArray = Prisma.sql`ARRAY[${Prisma.join(data.embedding.map((val) => Prisma.sql`${val}`))}]::real[]`;
-
+      if (data.embedding && data.embedding.values.length > 0) {
         await this.prisma.$executeRaw`
-          INSERT INTO questions (id, title, type, description, images, "userId", embedding, "createdAt", "updatedAt")
+          INSERT INTO questions (
+            id, title, type, description, images, "userId", "courseId",
+            embedding, "embeddingProvider", "embeddingDimensions", "createdAt", "updatedAt"
+          )
           VALUES (
             ${questionId},
             ${data.title.trim()},
@@ -185,14 +249,17 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
             ${data.description.trim()},
             ${imagesSql},
             ${data.userId},
-            ${embeddingArray}::vector,
+            ${data.courseId ?? null},
+            ${vectorSql(data.embedding.values)},
+            ${data.embedding.provider},
+            ${data.embedding.values.length},
             NOW(),
             NOW()
           )
         `;
       } else {
         await this.prisma.$executeRaw`
-          INSERT INTO questions (id, title, type, description, images, "userId", "createdAt", "updatedAt")
+          INSERT INTO questions (id, title, type, description, images, "userId", "courseId", "createdAt", "updatedAt")
           VALUES (
             ${questionId},
             ${data.title.trim()},
@@ -200,6 +267,7 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
             ${data.description.trim()},
             ${imagesSql},
             ${data.userId},
+            ${data.courseId ?? null},
             NOW(),
             NOW()
           )
@@ -210,7 +278,7 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
       if (errorMessage.includes('embedding') || errorMessage.includes('column') || errorMessage.includes('42703')) {
         // Embedding column not available, insert without it
         await this.prisma.$executeRaw`
-          INSERT INTO questions (id, title, type, description, images, "userId", "createdAt", "updatedAt")
+          INSERT INTO questions (id, title, type, description, images, "userId", "courseId", "createdAt", "updatedAt")
           VALUES (
             ${questionId},
             ${data.title.trim()},
@@ -218,6 +286,7 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
             ${data.description.trim()},
             ${imagesSql},
             ${data.userId},
+            ${data.courseId ?? null},
             NOW(),
             NOW()
           )
@@ -249,6 +318,116 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
     return (await this.findById(id))!;
   }
 
+  /**
+   * Update question content, first recording the current version as a revision
+   * Both writes happen in one transaction so history never misses an edit
+   */
+  async updateWithRevision(id: string, data: QuestionEditInput, editedById: string): Promise<Question> {
+    await this.initialize();
+    await this.prisma.$transaction(async (tx) => {
+      const current = await tx.question.findUnique({
+        where: { id },
+        select: { title: true, type: true, description: true, images: true },
+      });
+      if (!current) {
+        throw new Error('Question not found');
+      }
+
+      await tx.questionRevision.create({
+        data: { questionId: id, ...current, editedById },
+      });
+
+      await tx.question.update({
+        where: { id },
+        data: {
+          ...(data.title !== undefined && { title: data.title.trim() }),
+          ...(data.type !== undefined && { type: data.type.trim() }),
+          ...(data.description !== undefined && { description: data.description.trim() }),
+          ...(data.images !== undefined && { images: data.images }),
+        },
+      });
+    });
+
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Replace the stored embedding; null clears it so the question can be re-embedded later
+   */
+  async updateEmbedding(id: string, embedding: Embedding | null): Promise<void> {
+    await this.initialize();
+    if (embedding && embedding.values.length > 0) {
+      await this.prisma.$executeRaw`
+        UPDATE questions
+        SET embedding = ${vectorSql(embedding.values)},
+            "embeddingProvider" = ${embedding.provider},
+            "embeddingDimensions" = ${embedding.values.length}
+        WHERE id = ${id}
+      `;
+    } else {
+      await this.prisma.$executeRaw`
+        UPDATE questions
+        SET embedding = NULL, "embeddingProvider" = NULL, "embeddingDimensions" = NULL
+        WHERE id = ${id}
+      `;
+    }
+  }
+
+  /**
+   * Find ids of live questions whose embedding should be (re)generated, oldest first
+   */
+  async findIdsForEmbedding(scope: EmbeddingScope, provider: string, dimensions: number): Promise<string[]> {
+    await this.initialize();
+    const condition =
+      scope === 'all'
+        ? Prisma.sql`TRUE`
+        : scope === 'outdated'
+          ? Prisma.sql`(q.embedding IS NULL OR q."embeddingProvider" IS DISTINCT FROM ${provider} OR q."embeddingDimensions" IS DISTINCT FROM ${dimensions})`
+          : Prisma.sql`q.embedding IS NULL`;
+
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT q.id FROM questions q
+      WHERE q."mergedIntoId" IS NULL AND ${condition}
+      ORDER BY q."createdAt" ASC
+    `;
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Find earlier versions of a question, newest first
+   */
+  async findRevisions(questionId: string): Promise<QuestionRevision[]> {
+    await this.initialize();
+    const revisions = await this.prisma.questionRevision.findMany({
+      where: { questionId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        editedBy: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return revisions.map(
+      (r) =>
+        new QuestionRevision(
+          r.id,
+          r.questionId,
+          r.title,
+          r.type,
+          r.description,
+          r.images,
+          r.editedById,
+          r.editedBy ? r.editedBy.name || r.editedBy.email.split('@')[0] : null,
+          r.createdAt
+        )
+    );
+  }
+
   /**
    * Delete question by ID (cascade deletes answers)
    */
@@ -261,10 +440,11 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
 
   /**
    * Search questions using vector similarity
+   * Only vectors from the same provider and of the same size are compared
    */
-  async searchByEmbedding(embedding: number[], limit: number = 3): Promise<Question[]> {
+  async searchByEmbedding(embedding: Embedding, limit: number = 3): Promise<Question[]> {
     await this.initialize();
-    const embeddingArray = Prisma.sql`ARRAY[${Prisma.join(embedding.map((val) => Prisma.sql`${val}`))}]::real[]`;
+    const embeddingArray = vectorSql(embedding.values);
 
     const results = await this.prisma.$queryRaw`
       SELECT 
@@ -280,31 +460,294 @@ export class QuestionRepository extends BaseRepository<Question> implements IQue
         u.name,
         u.email,
         u.role,
-        q.embedding <-> ${embeddingArray}::vector as distance
+        q.embedding <-> ${embeddingArray} as distance
+      FROM questions q
+      LEFT JOIN users u ON q."userId" = u.id
+      WHERE ${comparableTo(embedding)} AND q."mergedIntoId" IS NULL
+      ORDER BY q.embedding <-> ${embeddingArray}
+      LIMIT ${limit}
+    `;
+
+    return (results as any[]).map((row) => this.fromSearchRow(row));
+  }
+
+  /**
+   * Search questions by full-text match on title and description, best match first
+   */
+  async searchByKeyword(query: string, limit: number = 3): Promise<Question[]> {
+    await this.initialize();
+    const results = await this.prisma.$queryRaw`
+      SELECT
+        q.id,
+        q.title,
+        q.type,
+        q.description,
+        q.images,
+        q."userId",
+        q."createdAt",
+        q."updatedAt",
+        u.id as "user_id",
+        u.name,
+        u.email,
+        u.role,
+        ts_rank(q."searchVector", ${tsQuery(query)}) as rank
       FROM questions q
       LEFT JOIN users u ON q."userId" = u.id
-      WHERE q.embedding IS NOT NULL
-      ORDER BY q.embedding <-> ${embeddingArray}::vector
+      WHERE q."searchVector" @@ ${tsQuery(query)} AND q."mergedIntoId" IS NULL
+      ORDER BY rank DESC, q."createdAt" DESC
+      LIMIT ${limit}
+    `;
+
+    return (results as any[]).map((row) => this.fromSearchRow(row));
+  }
+
+  /**
+   * Find questions whose embedding is at least `minSimilarity` (cosine) close, most similar first
+   */
+  async findSimilar(
+    embedding: Embedding,
+    minSimilarity: number,
+    limit: number,
+    excludeId?: string
+  ): Promise<SimilarQuestion[]> {
+    await this.initialize();
+    const embeddingArray = vectorSql(embedding.values);
+
+    const rows = await this.prisma.$queryRaw<{ id: string; similarity: number }[]>`
+      SELECT q.id, 1 - (q.embedding <=> ${embeddingArray}) as similarity
+      FROM questions q
+      WHERE ${comparableTo(embedding)}
+        AND q."mergedIntoId" IS NULL
+        AND q.id <> ${excludeId ?? ''}
+        AND 1 - (q.embedding <=> ${embeddingArray}) >= ${minSimilarity}
+      ORDER BY q.embedding <=> ${embeddingArray}
+      LIMIT ${limit}
+    `;
+
+    const similarityById = new Map(rows.map((row) => [row.id, Number(row.similarity)]));
+    const questions = await this.findByIds(rows.map((row) => row.id));
+
+    return questions.map((question) => ({ question, similarity: similarityById.get(question.id)! }));
+  }
+
+  /**
+   * Find the nearest neighbours of a question by its stored embedding, excluding itself
+   * Empty when the question has no vector yet
+   */
+  async findRelated(id: string, limit: number): Promise<SimilarQuestion[]> {
+    await this.initialize();
+
+    const rows = await this.prisma.$queryRaw<{ id: string; similarity: number }[]>`
+      SELECT q.id, 1 - (q.embedding <=> src.embedding) as similarity
+      FROM questions src
+      JOIN questions q
+        ON q.id <> src.id
+        AND q.embedding IS NOT NULL
+        AND q."embeddingProvider" = src."embeddingProvider"
+        AND q."embeddingDimensions" = src."embeddingDimensions"
+      WHERE src.id = ${id}
+        AND src.embedding IS NOT NULL
+        AND q."mergedIntoId" IS NULL
+      ORDER BY q.embedding <=> src.embedding
       LIMIT ${limit}
     `;
 
-    return (results as any[]).map((row) => {
-      const user = row.user_id
-        ? new User(row.user_id, row.email, row.name, row.role as 'STUDENT' | 'ADMIN', new Date(), new Date())
+    const similarityById = new Map(rows.map((row) => [row.id, Number(row.similarity)]));
+    const questions = await this.findByIds(rows.map((row) => row.id));
+
+    return questions.map((question) => ({ question, similarity: similarityById.get(question.id)! }));
+  }
+
+  /**
+   * Merge a duplicate into a canonical question
+   * Answers and question comments move to the target; the duplicate stays behind as a redirect.
+   * Moved answers lose their accepted flag if the target already has an accepted answer.
+   */
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.$transaction(async (tx) => {
+      const targetHasAccepted = await tx.answer.count({
+        where: { questionId: targetId, isAccepted: true },
+      });
+
+      if (targetHasAccepted > 0) {
+        await tx.answer.updateMany({
+          where: { questionId: sourceId, isAccepted: true },
+          data: { isAccepted: false },
+        });
+      }
+
+      await tx.answer.updateMany({
+        where: { questionId: sourceId },
+        data: { questionId: targetId },
+      });
+
+      await tx.comment.updateMany({
+        where: { questionId: sourceId },
+        data: { questionId: targetId },
+      });
+
+      // Questions merged into the duplicate earlier now redirect straight to the target
+      await tx.question.updateMany({
+        where: { mergedIntoId: sourceId },
+        data: { mergedIntoId: targetId },
+      });
+
+      await tx.question.update({
+        where: { id: sourceId },
+        data: { mergedIntoId: targetId },
+      });
+    });
+  }
+
+  /**
+   * Build highlighted titles and description excerpts for a search query
+   */
+  async findSearchHighlights(ids: string[], query: string): Promise<Record<string, SearchHighlight>> {
+    await this.initialize();
+    if (ids.length === 0) return {};
+
+    const rows = await this.prisma.$queryRaw<{ id: string; title: string; snippet: string }[]>`
+      SELECT
+        q.id,
+        ts_headline('english', q.title, ${tsQuery(query)}, ${SearchHighlighter.headlineOptions(20)}) as title,
+        ts_headline(
+          'english',
+          regexp_replace(q.description, '<[^>]+>', ' ', 'g'),
+          ${tsQuery(query)},
+          ${SearchHighlighter.headlineOptions(30)}
+        ) as snippet
+      FROM questions q
+      WHERE q.id IN (${Prisma.join(ids)})
+    `;
+
+    return Object.fromEntries(
+      rows.map((row) => [
+        row.id,
+        { title: SearchHighlighter.toHtml(row.title), snippet: SearchHighlighter.toHtml(row.snippet) },
+      ])
+    );
+  }
+
+  /**
+   * Set, change or clear (value 0) a user's vote on a question
+   */
+  async vote(questionId: string, userId: string, value: number): Promise<void> {
+    await this.initialize();
+    if (value === 0) {
+      await this.prisma.questionVote.deleteMany({
+        where: { questionId, userId },
+      });
+      return;
+    }
+
+    await this.prisma.questionVote.upsert({
+      where: { questionId_userId: { questionId, userId } },
+      update: { value },
+      create: { questionId, userId, value },
+    });
+  }
+
+  /**
+   * Find a user's vote on a question (1, -1, or 0 if they have not voted)
+   */
+  async findUserVote(questionId: string, userId: string): Promise<number> {
+    await this.initialize();
+    const vote = await this.prisma.questionVote.findUnique({
+      where: { questionId_userId: { questionId, userId } },
+    });
+
+    return vote?.value ?? 0;
+  }
+
+  /**
+   * Encode the position after a row as an opaque cursor
+   */
+  private encodeCursor(row: { id: string; sortKey: number; createdAt: Date }): string {
+    return Buffer.from(
+      JSON.stringify({ key: Number(row.sortKey), createdAt: row.createdAt.toISOString(), id: row.id })
+    ).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor produced by encodeCursor
+   */
+  private decodeCursor(cursor: string): { key: number; createdAt: Date; id: string } {
+    try {
+      const { key, createdAt, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      const date = new Date(createdAt);
+      if (typeof key !== 'number' || typeof id !== 'string' || isNaN(date.getTime())) {
+        throw new Error();
+      }
+      return { key, createdAt: date, id };
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+  }
+
+  /**
+   * Map a raw search query row to the domain model
+   */
+  private fromSearchRow(row: any): Question {
+    const user = row.user_id
+      ? new User(row.user_id, row.email, row.name, row.role as Role, new Date(), new Date())
+      : null;
+
+    return new Question(
+      row.id,
+      row.title,
+      row.type,
+      row.description,
+      row.images || [],
+      row.userId,
+      user,
+      row.createdAt,
+      row.updatedAt
+    );
+  }
+
+  /**
+   * Map Prisma question rows to domain models, loading vote totals and accepted answers in bulk
+   */
+  private async toModels(questions: QuestionRow[]): Promise<Question[]> {
+    const ids = questions.map((q) => q.id);
+    const [scores, accepted] = await Promise.all([
+      this.prisma.questionVote.groupBy({
+        by: ['questionId'],
+        where: { questionId: { in: ids } },
+        _sum: { value: true },
+      }),
+      this.prisma.answer.findMany({
+        where: { questionId: { in: ids }, isAccepted: true },
+        select: { questionId: true },
+      }),
+    ]);
+
+    const scoreById = new Map(scores.map((s) => [s.questionId, s._sum.value ?? 0]));
+    const acceptedIds = new Set(accepted.map((a) => a.questionId));
+
+    return questions.map((q) => {
+      const user = q.user
+        ? new User(q.user.id, q.user.email, q.user.name, q.user.role as Role, new Date(), new Date())
         : null;
 
       return new Question(
-        row.id,
-        row.title,
-        row.type,
-        row.description,
-        row.images || [],
-        row.userId,
+        q.id,
+        q.title,
+        q.type,
+        q.description,
+        q.images,
+        q.userId,
         user,
-        row.createdAt,
-        row.updatedAt
+        q.createdAt,
+        q.updatedAt,
+        q._count.answers,
+        scoreById.get(q.id) ?? 0,
+        acceptedIds.has(q.id),
+        q.mergedIntoId,
+        q.tags.map((t) => t.tag.name),
+        q.course
       );
     });
   }
 }
-
@@ -0,0 +1,242 @@
+import { BaseRepository } from './BaseRepository';
+import { Quiz } from '../models/Quiz';
+import { QuizQuestion } from '../models/QuizQuestion';
+import { QuizAttempt } from '../models/QuizAttempt';
+import { IQuizRepository, QuizQuestionInput } from '../interfaces/IQuizRepository';
+
+type QuizRow = {
+  id: string;
+  title: string;
+  description: string;
+  subject: string;
+  difficulty: string;
+  prompt: string;
+  userId: string;
+  courseId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  questions: {
+    id: string;
+    quizId: string;
+    position: number;
+    question: string;
+    options: string[];
+    correctAnswer: number;
+    explanation: string | null;
+    sourceNoteId: string | null;
+    sourceNote: { title: string } | null;
+  }[];
+  attempts: {
+    id: string;
+    quizId: string;
+    userId: string;
+    answers: number[];
+    score: number;
+    total: number;
+    createdAt: Date;
+  }[];
+};
+
+/**
+ * Repository class for Quiz entity operations
+ * Handles all database interactions for quizzes, their questions and attempts
+ * Implements IQuizRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles quiz data access
+ */
+export class QuizRepository extends BaseRepository<Quiz> implements IQuizRepository {
+  private readonly include = {
+    questions: {
+      orderBy: { position: 'asc' as const },
+      include: { sourceNote: { select: { title: true } } },
+    },
+    attempts: { orderBy: { createdAt: 'desc' as const } },
+  };
+
+  /**
+   * Find quiz by ID
+   */
+  async findById(id: string): Promise<Quiz | null> {
+    await this.initialize();
+    const quiz = await this.prisma.quiz.findUnique({
+      where: { id },
+      include: this.include,
+    });
+
+    return quiz ? this.toModel(quiz) : null;
+  }
+
+  /**
+   * Find all quizzes
+   */
+  async findAll(): Promise<Quiz[]> {
+    await this.initialize();
+    const quizzes = await this.prisma.quiz.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: this.include,
+    });
+
+    return quizzes.map((q) => this.toModel(q));
+  }
+
+  /**
+   * Find quizzes by user ID, newest first
+   */
+  async findByUserId(userId: string): Promise<Quiz[]> {
+    await this.initialize();
+    const quizzes = await this.prisma.quiz.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: this.include,
+    });
+
+    return quizzes.map((q) => this.toModel(q));
+  }
+
+  /**
+   * Create a quiz together with its questions
+   */
+  async create(
+    data: {
+      title: string;
+      description: string;
+      subject: string;
+      difficulty: string;
+      prompt: string;
+      userId: string;
+      courseId?: string | null;
+    },
+    questions: QuizQuestionInput[] = []
+  ): Promise<Quiz> {
+    await this.initialize();
+    const quiz = await this.prisma.quiz.create({
+      data: {
+        title: data.title.trim(),
+        description: data.description.trim(),
+        subject: data.subject.trim(),
+        difficulty: data.difficulty,
+        prompt: data.prompt.trim(),
+        userId: data.userId,
+        courseId: data.courseId ?? null,
+        questions: {
+          create: questions.map((q, index) => ({
+            position: index,
+            question: q.question,
+            options: q.options,
+            correctAnswer: q.correctAnswer,
+            explanation: q.explanation || null,
+            sourceNoteId: q.sourceNoteId || null,
+          })),
+        },
+      },
+      include: this.include,
+    });
+
+    return this.toModel(quiz);
+  }
+
+  /**
+   * Update quiz metadata by ID (questions are immutable once generated)
+   */
+  async update(id: string, data: Partial<Quiz>): Promise<Quiz> {
+    await this.initialize();
+    const updateData: { title?: string; description?: string; subject?: string } = {};
+    if (data.title) updateData.title = data.title;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.subject) updateData.subject = data.subject;
+
+    const quiz = await this.prisma.quiz.update({
+      where: { id },
+      data: updateData,
+      include: this.include,
+    });
+
+    return this.toModel(quiz);
+  }
+
+  /**
+   * Delete quiz by ID (cascade deletes questions and attempts)
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.quiz.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Record a scored attempt for a quiz
+   */
+  async createAttempt(data: {
+    quizId: string;
+    userId: string;
+    answers: number[];
+    score: number;
+    total: number;
+  }): Promise<QuizAttempt> {
+    await this.initialize();
+    const attempt = await this.prisma.quizAttempt.create({ data });
+
+    return new QuizAttempt(
+      attempt.id,
+      attempt.quizId,
+      attempt.userId,
+      attempt.answers,
+      attempt.score,
+      attempt.total,
+      attempt.createdAt
+    );
+  }
+
+  /**
+   * Find a user's attempts for a quiz, newest first
+   */
+  async findAttempts(quizId: string, userId: string): Promise<QuizAttempt[]> {
+    await this.initialize();
+    const attempts = await this.prisma.quizAttempt.findMany({
+      where: { quizId, userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return attempts.map(
+      (a) => new QuizAttempt(a.id, a.quizId, a.userId, a.answers, a.score, a.total, a.createdAt)
+    );
+  }
+
+  /**
+   * Map a Prisma quiz row (with questions and attempts) to the domain model
+   */
+  private toModel(quiz: QuizRow): Quiz {
+    const questions = quiz.questions.map(
+      (q) =>
+        new QuizQuestion(
+          q.id,
+          q.quizId,
+          q.position,
+          q.question,
+          q.options,
+          q.correctAnswer,
+          q.explanation,
+          q.sourceNoteId,
+          q.sourceNote?.title ?? null
+        )
+    );
+    const attempts = quiz.attempts.map(
+      (a) => new QuizAttempt(a.id, a.quizId, a.userId, a.answers, a.score, a.total, a.createdAt)
+    );
+
+    return new Quiz(
+      quiz.id,
+      quiz.title,
+      quiz.description,
+      quiz.subject,
+      quiz.difficulty,
+      quiz.prompt,
+      quiz.userId,
+      questions,
+      attempts,
+      quiz.createdAt,
+      quiz.updatedAt,
+      quiz.courseId
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { BaseRepository } from './BaseRepository';
+import { RecoveryCode } from '../models/RecoveryCode';
+import { IRecoveryCodeRepository } from '../interfaces/IRecoveryCodeRepository';
+
+type RecoveryCodeRow = {
+  id: string;
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * Repository class for RecoveryCode entity operations
+ * Handles all database interactions for two-factor recovery codes
+ * Implements IRecoveryCodeRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles recovery code data access
+ */
+export class RecoveryCodeRepository extends BaseRepository<RecoveryCode> implements IRecoveryCodeRepository {
+  /**
+   * Find code by ID
+   */
+  async findById(id: string): Promise<RecoveryCode | null> {
+    await this.initialize();
+    const code = await this.prisma.recoveryCode.findUnique({ where: { id } });
+
+    return code ? this.toModel(code) : null;
+  }
+
+  /**
+   * Find all codes, newest first
+   */
+  async findAll(): Promise<RecoveryCode[]> {
+    await this.initialize();
+    const codes = await this.prisma.recoveryCode.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return codes.map((c) => this.toModel(c));
+  }
+
+  /**
+   * Create a code
+   */
+  async create(data: { userId: string; codeHash: string }): Promise<RecoveryCode> {
+    await this.initialize();
+    const code = await this.prisma.recoveryCode.create({ data });
+
+    return this.toModel(code);
+  }
+
+  /**
+   * Update a code's used time
+   */
+  async update(id: string, data: Partial<RecoveryCode>): Promise<RecoveryCode> {
+    await this.initialize();
+    const code = await this.prisma.recoveryCode.update({
+      where: { id },
+      data: {
+        ...(data.usedAt !== undefined && { usedAt: data.usedAt }),
+      },
+    });
+
+    return this.toModel(code);
+  }
+
+  /**
+   * Delete a code
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.recoveryCode.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Swap all of a user's codes for a new set in one transaction
+   */
+  async replaceForUser(userId: string, codeHashes: string[]): Promise<void> {
+    await this.initialize();
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  /**
+   * Delete all of a user's codes, e.g. when two-factor authentication is turned off
+   */
+  async deleteForUser(userId: string): Promise<number> {
+    await this.initialize();
+    const result = await this.prisma.recoveryCode.deleteMany({ where: { userId } });
+
+    return result.count;
+  }
+
+  /**
+   * Mark one of a user's codes used if it hasn't been already
+   * Returns false for an unknown or already used code
+   */
+  async consume(userId: string, codeHash: string, at: Date): Promise<boolean> {
+    await this.initialize();
+    const result = await this.prisma.recoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: at },
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Count the codes a user has left
+   */
+  async countUnused(userId: string): Promise<number> {
+    await this.initialize();
+    return await this.prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(code: RecoveryCodeRow): RecoveryCode {
+    return new RecoveryCode(code.id, code.userId, code.codeHash, code.usedAt, code.createdAt);
+  }
+}
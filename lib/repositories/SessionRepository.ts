@@ -0,0 +1,178 @@
+import { BaseRepository } from './BaseRepository';
+import { Session } from '../models/Session';
+import { ISessionRepository } from '../interfaces/ISessionRepository';
+
+type SessionRow = {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+/**
+ * Repository class for Session entity operations
+ * Handles all database interactions for signed-in devices
+ * Implements ISessionRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles session data access
+ */
+export class SessionRepository extends BaseRepository<Session> implements ISessionRepository {
+  /**
+   * Find session by ID
+   */
+  async findById(id: string): Promise<Session | null> {
+    await this.initialize();
+    const session = await this.prisma.session.findUnique({ where: { id } });
+
+    return session ? this.toModel(session) : null;
+  }
+
+  /**
+   * Find all sessions, most recently seen first
+   */
+  async findAll(): Promise<Session[]> {
+    await this.initialize();
+    const sessions = await this.prisma.session.findMany({
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((s) => this.toModel(s));
+  }
+
+  /**
+   * Create a session
+   */
+  async create(data: {
+    userId: string;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+    expiresAt: Date;
+  }): Promise<Session> {
+    await this.initialize();
+    const session = await this.prisma.session.create({
+      data: {
+        userId: data.userId,
+        userAgent: data.userAgent ?? null,
+        ipAddress: data.ipAddress ?? null,
+        expiresAt: data.expiresAt,
+      },
+    });
+
+    return this.toModel(session);
+  }
+
+  /**
+   * Update a session's expiry, last-seen or revoked time
+   */
+  async update(id: string, data: Partial<Session>): Promise<Session> {
+    await this.initialize();
+    const session = await this.prisma.session.update({
+      where: { id },
+      data: {
+        ...(data.lastSeenAt !== undefined && { lastSeenAt: data.lastSeenAt }),
+        ...(data.expiresAt !== undefined && { expiresAt: data.expiresAt }),
+        ...(data.revokedAt !== undefined && { revokedAt: data.revokedAt }),
+      },
+    });
+
+    return this.toModel(session);
+  }
+
+  /**
+   * Delete a session
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.session.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find a user's live sessions, most recently seen first
+   */
+  async findActiveByUserId(userId: string, now: Date): Promise<Session[]> {
+    await this.initialize();
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: now } },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((s) => this.toModel(s));
+  }
+
+  /**
+   * Record that a session was just used
+   */
+  async touch(id: string, at: Date): Promise<void> {
+    await this.initialize();
+    await this.prisma.session.updateMany({
+      where: { id, revokedAt: null },
+      data: { lastSeenAt: at },
+    });
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * Returns false when the session doesn't exist, belongs to someone else or was already revoked
+   */
+  async revoke(id: string, userId: string, at: Date): Promise<boolean> {
+    await this.initialize();
+    const result = await this.prisma.session.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: at },
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one
+   */
+  async revokeAllForUser(userId: string, at: Date, exceptId?: string): Promise<number> {
+    await this.initialize();
+    const result = await this.prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptId && { id: { not: exceptId } }),
+      },
+      data: { revokedAt: at },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delete sessions that expired or were revoked before a time
+   */
+  async deleteExpired(before: Date): Promise<number> {
+    await this.initialize();
+    const result = await this.prisma.session.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: before } }, { revokedAt: { lt: before } }],
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(session: SessionRow): Session {
+    return new Session(
+      session.id,
+      session.userId,
+      session.userAgent,
+      session.ipAddress,
+      session.createdAt,
+      session.lastSeenAt,
+      session.expiresAt,
+      session.revokedAt
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { BaseRepository } from './BaseRepository';
+import { SignupDomain } from '../models/SignupDomain';
+import { ISignupDomainRepository } from '../interfaces/ISignupDomainRepository';
+
+type SignupDomainRow = {
+  id: string;
+  domain: string;
+  createdAt: Date;
+};
+
+/**
+ * Repository class for SignupDomain entity operations
+ * Handles all database interactions for the signup domain allow-list
+ * Implements ISignupDomainRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles signup domain data access
+ */
+export class SignupDomainRepository extends BaseRepository<SignupDomain> implements ISignupDomainRepository {
+  /**
+   * Find domain by ID
+   */
+  async findById(id: string): Promise<SignupDomain | null> {
+    await this.initialize();
+    const domain = await this.prisma.signupDomain.findUnique({ where: { id } });
+
+    return domain ? this.toModel(domain) : null;
+  }
+
+  /**
+   * Find all allowed domains, alphabetically
+   */
+  async findAll(): Promise<SignupDomain[]> {
+    await this.initialize();
+    const domains = await this.prisma.signupDomain.findMany({
+      orderBy: { domain: 'asc' },
+    });
+
+    return domains.map((d) => this.toModel(d));
+  }
+
+  /**
+   * Allow a domain
+   */
+  async create(data: { domain: string }): Promise<SignupDomain> {
+    await this.initialize();
+    const domain = await this.prisma.signupDomain.create({ data });
+
+    return this.toModel(domain);
+  }
+
+  /**
+   * Change an allowed domain
+   */
+  async update(id: string, data: Partial<SignupDomain>): Promise<SignupDomain> {
+    await this.initialize();
+    const domain = await this.prisma.signupDomain.update({
+      where: { id },
+      data: {
+        ...(data.domain !== undefined && { domain: data.domain }),
+      },
+    });
+
+    return this.toModel(domain);
+  }
+
+  /**
+   * Remove a domain from the allow-list
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.signupDomain.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find an allowed domain by name
+   */
+  async findByDomain(domain: string): Promise<SignupDomain | null> {
+    await this.initialize();
+    const row = await this.prisma.signupDomain.findUnique({ where: { domain } });
+
+    return row ? this.toModel(row) : null;
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(domain: SignupDomainRow): SignupDomain {
+    return new SignupDomain(domain.id, domain.domain, domain.createdAt);
+  }
+}
@@ -0,0 +1,114 @@
+import { BaseRepository } from './BaseRepository';
+import { SsoIdentity } from '../models/SsoIdentity';
+import { ISsoIdentityRepository } from '../interfaces/ISsoIdentityRepository';
+
+type SsoIdentityRow = {
+  id: string;
+  userId: string;
+  provider: string;
+  subject: string;
+  createdAt: Date;
+  lastLoginAt: Date;
+};
+
+/**
+ * Repository class for SsoIdentity entity operations
+ * Handles all database interactions for links to external identity providers
+ * Implements ISsoIdentityRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles SSO identity data access
+ */
+export class SsoIdentityRepository extends BaseRepository<SsoIdentity> implements ISsoIdentityRepository {
+  /**
+   * Find identity by ID
+   */
+  async findById(id: string): Promise<SsoIdentity | null> {
+    await this.initialize();
+    const identity = await this.prisma.ssoIdentity.findUnique({ where: { id } });
+
+    return identity ? this.toModel(identity) : null;
+  }
+
+  /**
+   * Find all identities, newest first
+   */
+  async findAll(): Promise<SsoIdentity[]> {
+    await this.initialize();
+    const identities = await this.prisma.ssoIdentity.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return identities.map((i) => this.toModel(i));
+  }
+
+  /**
+   * Link a user to a provider account
+   */
+  async create(data: { userId: string; provider: string; subject: string }): Promise<SsoIdentity> {
+    await this.initialize();
+    const identity = await this.prisma.ssoIdentity.create({ data });
+
+    return this.toModel(identity);
+  }
+
+  /**
+   * Update an identity's last login time
+   */
+  async update(id: string, data: Partial<SsoIdentity>): Promise<SsoIdentity> {
+    await this.initialize();
+    const identity = await this.prisma.ssoIdentity.update({
+      where: { id },
+      data: {
+        ...(data.lastLoginAt !== undefined && { lastLoginAt: data.lastLoginAt }),
+      },
+    });
+
+    return this.toModel(identity);
+  }
+
+  /**
+   * Unlink a provider account
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.ssoIdentity.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find the link for a provider's user id
+   */
+  async findByProviderSubject(provider: string, subject: string): Promise<SsoIdentity | null> {
+    await this.initialize();
+    const identity = await this.prisma.ssoIdentity.findUnique({
+      where: { provider_subject: { provider, subject } },
+    });
+
+    return identity ? this.toModel(identity) : null;
+  }
+
+  /**
+   * Record a sign-in through this identity
+   */
+  async touch(id: string, at: Date): Promise<void> {
+    await this.initialize();
+    await this.prisma.ssoIdentity.update({
+      where: { id },
+      data: { lastLoginAt: at },
+    });
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(identity: SsoIdentityRow): SsoIdentity {
+    return new SsoIdentity(
+      identity.id,
+      identity.userId,
+      identity.provider,
+      identity.subject,
+      identity.createdAt,
+      identity.lastLoginAt
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { BaseRepository } from './BaseRepository';
+import { Tag } from '../models/Tag';
+import { ITagRepository } from '../interfaces/ITagRepository';
+
+type TagRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { questions: number };
+};
+
+/**
+ * Repository class for Tag entity operations
+ * Handles all database interactions for tags and their links to questions
+ * Implements ITagRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles tag data access
+ */
+export class TagRepository extends BaseRepository<Tag> implements ITagRepository {
+  private readonly include = {
+    _count: {
+      select: {
+        questions: { where: { question: { mergedIntoId: null } } },
+      },
+    },
+  } as const;
+
+  /**
+   * Find tag by ID
+   */
+  async findById(id: string): Promise<Tag | null> {
+    await this.initialize();
+    const tag = await this.prisma.tag.findUnique({
+      where: { id },
+      include: this.include,
+    });
+
+    return tag ? this.toModel(tag) : null;
+  }
+
+  /**
+   * Find tag by its normalised name
+   */
+  async findByName(name: string): Promise<Tag | null> {
+    await this.initialize();
+    const tag = await this.prisma.tag.findUnique({
+      where: { name },
+      include: this.include,
+    });
+
+    return tag ? this.toModel(tag) : null;
+  }
+
+  /**
+   * Find all tags, most used first
+   */
+  async findAll(): Promise<Tag[]> {
+    await this.initialize();
+    const tags = await this.prisma.tag.findMany({
+      orderBy: [{ questions: { _count: 'desc' } }, { name: 'asc' }],
+      include: this.include,
+    });
+
+    return tags.map((t) => this.toModel(t));
+  }
+
+  /**
+   * Find tags whose name starts with a prefix, most used first (for autocomplete)
+   */
+  async searchByPrefix(prefix: string, limit: number): Promise<Tag[]> {
+    await this.initialize();
+    const tags = await this.prisma.tag.findMany({
+      where: { name: { startsWith: prefix } },
+      orderBy: [{ questions: { _count: 'desc' } }, { name: 'asc' }],
+      take: limit,
+      include: this.include,
+    });
+
+    return tags.map((t) => this.toModel(t));
+  }
+
+  /**
+   * Create a new tag
+   */
+  async create(data: { name: string; description?: string | null }): Promise<Tag> {
+    await this.initialize();
+    const tag = await this.prisma.tag.create({
+      data: { name: data.name, description: data.description ?? null },
+      include: this.include,
+    });
+
+    return this.toModel(tag);
+  }
+
+  /**
+   * Get tags by name, creating the ones that do not exist yet
+   * Names must already be normalised; the result keeps their order
+   */
+  async findOrCreateMany(names: string[]): Promise<Tag[]> {
+    await this.initialize();
+    if (names.length === 0) return [];
+
+    await this.prisma.tag.createMany({
+      data: names.map((name) => ({ name })),
+      skipDuplicates: true,
+    });
+
+    const tags = await this.prisma.tag.findMany({
+      where: { name: { in: names } },
+      include: this.include,
+    });
+
+    const byName = new Map(tags.map((t) => [t.name, this.toModel(t)]));
+    return names.map((name) => byName.get(name)).filter((t): t is Tag => !!t);
+  }
+
+  /**
+   * Find the names of a question's tags, alphabetically
+   */
+  async findQuestionTagNames(questionId: string): Promise<string[]> {
+    await this.initialize();
+    const links = await this.prisma.questionTag.findMany({
+      where: { questionId },
+      select: { tag: { select: { name: true } } },
+      orderBy: { tag: { name: 'asc' } },
+    });
+
+    return links.map((link) => link.tag.name);
+  }
+
+  /**
+   * Replace the set of tags on a question
+   */
+  async setQuestionTags(questionId: string, tagIds: string[]): Promise<void> {
+    await this.initialize();
+    await this.prisma.$transaction([
+      this.prisma.questionTag.deleteMany({
+        where: { questionId, tagId: { notIn: tagIds } },
+      }),
+      this.prisma.questionTag.createMany({
+        data: tagIds.map((tagId) => ({ questionId, tagId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  /**
+   * Merge one tag into another: its questions move to the target and the source is deleted
+   */
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.$transaction(async (tx) => {
+      const links = await tx.questionTag.findMany({
+        where: { tagId: sourceId },
+        select: { questionId: true },
+      });
+
+      await tx.questionTag.createMany({
+        data: links.map((link) => ({ questionId: link.questionId, tagId: targetId })),
+        skipDuplicates: true,
+      });
+
+      // Cascades to the remaining links of the source tag
+      await tx.tag.delete({ where: { id: sourceId } });
+    });
+  }
+
+  /**
+   * Update tag
+   */
+  async update(id: string, data: Partial<Tag>): Promise<Tag> {
+    await this.initialize();
+    const tag = await this.prisma.tag.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+      },
+      include: this.include,
+    });
+
+    return this.toModel(tag);
+  }
+
+  /**
+   * Delete tag; its links to questions are removed with it
+   */
+  async delete(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.tag.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(tag: TagRow): Tag {
+    return new Tag(tag.id, tag.name, tag.description, tag._count.questions, tag.createdAt, tag.updatedAt);
+  }
+}
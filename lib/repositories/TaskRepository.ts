@@ -1,6 +1,6 @@
 import { BaseRepository } from './BaseRepository';
 import { Task } from '../models/Task';
-import { User } from '../models/User';
+import { Role, User } from '../models/User';
 import { ITaskRepository } from '../interfaces/ITaskRepository';
 
 /**
@@ -37,7 +37,7 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
       task.user.id,
       task.user.email,
       task.user.name,
-      task.user.role as 'STUDENT' | 'ADMIN',
+      task.user.role as Role,
       task.user.createdAt,
       task.user.updatedAt
     );
@@ -51,7 +51,8 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
       task.userId,
       user,
       task.createdAt,
-      task.updatedAt
+      task.updatedAt,
+      task.courseId
     );
   }
 
@@ -77,8 +78,8 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
     });
 
     return tasks.map((t) => {
-      const user = new User(t.user.id, t.user.email, t.user.name, t.user.role as 'STUDENT' | 'ADMIN', t.user.createdAt, t.user.updatedAt);
-      return new Task(t.id, t.title, t.content, t.completed, t.deadline, t.userId, user, t.createdAt, t.updatedAt);
+      const user = new User(t.user.id, t.user.email, t.user.name, t.user.role as Role, t.user.createdAt, t.user.updatedAt);
+      return new Task(t.id, t.title, t.content, t.completed, t.deadline, t.userId, user, t.createdAt, t.updatedAt, t.courseId);
     });
   }
 
@@ -105,8 +106,8 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
     });
 
     return tasks.map((t) => {
-      const user = new User(t.user.id, t.user.email, t.user.name, t.user.role as 'STUDENT' | 'ADMIN', t.user.createdAt, t.user.updatedAt);
-      return new Task(t.id, t.title, t.content, t.completed, t.deadline, t.userId, user, t.createdAt, t.updatedAt);
+      const user = new User(t.user.id, t.user.email, t.user.name, t.user.role as Role, t.user.createdAt, t.user.updatedAt);
+      return new Task(t.id, t.title, t.content, t.completed, t.deadline, t.userId, user, t.createdAt, t.updatedAt, t.courseId);
     });
   }
 
@@ -118,6 +119,7 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
     content: string;
     deadline: Date | null;
     userId: string;
+    courseId?: string | null;
   }): Promise<Task> {
     await this.initialize();
     const task = await this.prisma.task.create({
@@ -126,6 +128,7 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
         content: data.content || '',
         deadline: data.deadline,
         userId: data.userId,
+        courseId: data.courseId ?? null,
       },
       include: {
         user: {
@@ -145,7 +148,7 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
       task.user.id,
       task.user.email,
       task.user.name,
-      task.user.role as 'STUDENT' | 'ADMIN',
+      task.user.role as Role,
       task.user.createdAt,
       task.user.updatedAt
     );
@@ -159,7 +162,8 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
       task.userId,
       user,
       task.createdAt,
-      task.updatedAt
+      task.updatedAt,
+      task.courseId
     );
   }
 
@@ -173,6 +177,7 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
     if (data.content !== undefined) updateData.content = data.content;
     if (data.completed !== undefined) updateData.completed = data.completed;
     if (data.deadline !== undefined) updateData.deadline = data.deadline;
+    if (data.courseId !== undefined) updateData.courseId = data.courseId;
 
     const task = await this.prisma.task.update({
       where: { id },
@@ -195,7 +200,7 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
       task.user.id,
       task.user.email,
       task.user.name,
-      task.user.role as 'STUDENT' | 'ADMIN',
+      task.user.role as Role,
       task.user.createdAt,
       task.user.updatedAt
     );
@@ -209,7 +214,8 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
       task.userId,
       user,
       task.createdAt,
-      task.updatedAt
+      task.updatedAt,
+      task.courseId
     );
   }
 
@@ -238,5 +244,37 @@ export class TaskRepository extends BaseRepository<Task> implements ITaskReposit
 
     return await this.update(id, { completed: !task.completed });
   }
+
+  /**
+   * Find unfinished tasks whose deadline falls in a window, optionally for one user
+   */
+  async findOpenWithDeadlineBetween(from: Date, to: Date, userId?: string): Promise<Task[]> {
+    await this.initialize();
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        completed: false,
+        deadline: { gte: from, lte: to },
+        ...(userId && { userId }),
+      },
+      orderBy: { deadline: 'asc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        },
+      },
+    });
+
+    return tasks.map((t) => {
+      const user = new User(t.user.id, t.user.email, t.user.name, t.user.role as Role, t.user.createdAt, t.user.updatedAt);
+      return new Task(t.id, t.title, t.content, t.completed, t.deadline, t.userId, user, t.createdAt, t.updatedAt, t.courseId);
+    });
+  }
 }
 
@@ -0,0 +1,97 @@
+import { BaseRepository } from './BaseRepository';
+import { TwoFactorPolicy, TwoFactorPolicyRole } from '../models/TwoFactorPolicy';
+import { ITwoFactorPolicyRepository } from '../interfaces/ITwoFactorPolicyRepository';
+
+type TwoFactorPolicyRow = {
+  role: TwoFactorPolicyRole;
+  required: boolean;
+  updatedAt: Date;
+};
+
+/**
+ * Repository class for TwoFactorPolicy entity operations
+ * Handles all database interactions for per-role two-factor requirements
+ * Implements ITwoFactorPolicyRepository interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles two-factor policy data access
+ */
+export class TwoFactorPolicyRepository extends BaseRepository<TwoFactorPolicy> implements ITwoFactorPolicyRepository {
+  /**
+   * Find a role's policy, or null when it was never saved
+   */
+  async findById(role: string): Promise<TwoFactorPolicy | null> {
+    await this.initialize();
+    const policy = await this.prisma.twoFactorPolicy.findUnique({
+      where: { role: role as TwoFactorPolicyRole },
+    });
+
+    return policy ? this.toModel(policy) : null;
+  }
+
+  /**
+   * Find every saved policy
+   */
+  async findAll(): Promise<TwoFactorPolicy[]> {
+    await this.initialize();
+    const policies = await this.prisma.twoFactorPolicy.findMany({
+      orderBy: { role: 'asc' },
+    });
+
+    return policies.map((p) => this.toModel(p));
+  }
+
+  /**
+   * Create a role's policy
+   */
+  async create(data: { role: TwoFactorPolicyRole; required: boolean }): Promise<TwoFactorPolicy> {
+    await this.initialize();
+    const policy = await this.prisma.twoFactorPolicy.create({ data });
+
+    return this.toModel(policy);
+  }
+
+  /**
+   * Update a role's policy
+   */
+  async update(role: string, data: Partial<TwoFactorPolicy>): Promise<TwoFactorPolicy> {
+    await this.initialize();
+    const policy = await this.prisma.twoFactorPolicy.update({
+      where: { role: role as TwoFactorPolicyRole },
+      data: {
+        ...(data.required !== undefined && { required: data.required }),
+      },
+    });
+
+    return this.toModel(policy);
+  }
+
+  /**
+   * Delete a role's policy, going back to not requiring two-factor authentication
+   */
+  async delete(role: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.twoFactorPolicy.delete({
+      where: { role: role as TwoFactorPolicyRole },
+    });
+  }
+
+  /**
+   * Create or update a role's policy
+   */
+  async upsert(role: TwoFactorPolicyRole, required: boolean): Promise<TwoFactorPolicy> {
+    await this.initialize();
+    const policy = await this.prisma.twoFactorPolicy.upsert({
+      where: { role },
+      create: { role, required },
+      update: { required },
+    });
+
+    return this.toModel(policy);
+  }
+
+  /**
+   * Map a Prisma row to the domain model
+   */
+  private toModel(policy: TwoFactorPolicyRow): TwoFactorPolicy {
+    return new TwoFactorPolicy(policy.role, policy.required, policy.updatedAt);
+  }
+}
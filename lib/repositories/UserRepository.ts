@@ -1,5 +1,5 @@
 import { BaseRepository } from './BaseRepository';
-import { User } from '../models/User';
+import { Role, User } from '../models/User';
 import { UserRole } from '@prisma/client';
 import { IUserRepository } from '../interfaces/IUserRepository';
 
@@ -25,19 +25,20 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
       user.id,
       user.email,
       user.name,
-      user.role as 'STUDENT' | 'ADMIN',
+      user.role as Role,
       user.createdAt,
-      user.updatedAt
+      user.updatedAt,
+      user.emailVerifiedAt
     );
   }
 
   /**
-   * Find user by email
+   * Find user by email, ignoring case; the unique index on lower(email) keeps the match to one account
    */
   async findByEmail(email: string): Promise<User | null> {
     await this.initialize();
-    const user = await this.prisma.user.findUnique({
-      where: { email },
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
     });
 
     if (!user) return null;
@@ -46,9 +47,10 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
       user.id,
       user.email,
       user.name,
-      user.role as 'STUDENT' | 'ADMIN',
+      user.role as Role,
       user.createdAt,
-      user.updatedAt
+      user.updatedAt,
+      user.emailVerifiedAt
     );
   }
 
@@ -67,9 +69,10 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
           user.id,
           user.email,
           user.name,
-          user.role as 'STUDENT' | 'ADMIN',
+          user.role as Role,
           user.createdAt,
-          user.updatedAt
+          user.updatedAt,
+          user.emailVerifiedAt
         )
     );
   }
@@ -90,15 +93,16 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
           user.id,
           user.email,
           user.name,
-          user.role as 'STUDENT' | 'ADMIN',
+          user.role as Role,
           user.createdAt,
-          user.updatedAt
+          user.updatedAt,
+          user.emailVerifiedAt
         )
     );
   }
 
   /**
-   * Create a new user
+   * Create a new user, storing the email lowercase
    */
   async create(data: {
     email: string;
@@ -109,7 +113,7 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
     await this.initialize();
     const user = await this.prisma.user.create({
       data: {
-        email: data.email,
+        email: data.email.trim().toLowerCase(),
         password: data.password,
         name: data.name || null,
         role: data.role || 'STUDENT',
@@ -120,9 +124,10 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
       user.id,
       user.email,
       user.name,
-      user.role as 'STUDENT' | 'ADMIN',
+      user.role as Role,
       user.createdAt,
-      user.updatedAt
+      user.updatedAt,
+      user.emailVerifiedAt
     );
   }
 
@@ -145,9 +150,10 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
       user.id,
       user.email,
       user.name,
-      user.role as 'STUDENT' | 'ADMIN',
+      user.role as Role,
       user.createdAt,
-      user.updatedAt
+      user.updatedAt,
+      user.emailVerifiedAt
     );
   }
 
@@ -165,9 +171,10 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
       user.id,
       user.email,
       user.name,
-      user.role as 'STUDENT' | 'ADMIN',
+      user.role as Role,
       user.createdAt,
-      user.updatedAt
+      user.updatedAt,
+      user.emailVerifiedAt
     );
   }
 
@@ -188,12 +195,34 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
   }
 
   /**
-   * Get user with password (for authentication)
+   * Replace a user's password hash, recording when it changed
    */
-  async findWithPassword(email: string): Promise<{ user: User; password: string } | null> {
+  async updatePassword(id: string, hashedPassword: string, changedAt: Date = new Date()): Promise<void> {
     await this.initialize();
-    const user = await this.prisma.user.findUnique({
-      where: { email },
+    await this.prisma.user.update({
+      where: { id },
+      data: { password: hashedPassword, passwordChangedAt: changedAt },
+    });
+  }
+
+  /**
+   * Record that a user confirmed their email address
+   */
+  async markEmailVerified(id: string, at: Date): Promise<void> {
+    await this.initialize();
+    await this.prisma.user.update({
+      where: { id },
+      data: { emailVerifiedAt: at },
+    });
+  }
+
+  /**
+   * Get user with password and lockout state (for authentication), matching the email like findByEmail
+   */
+  async findWithPassword(email: string): Promise<{ user: User; password: string; lockedUntil: Date | null } | null> {
+    await this.initialize();
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
     });
 
     if (!user) return null;
@@ -203,12 +232,186 @@ export class UserRepository extends BaseRepository<User> implements IUserReposit
         user.id,
         user.email,
         user.name,
-        user.role as 'STUDENT' | 'ADMIN',
+        user.role as Role,
         user.createdAt,
-        user.updatedAt
+        user.updatedAt,
+        user.emailVerifiedAt
       ),
       password: user.password,
+      lockedUntil: user.lockedUntil,
     };
   }
-}
 
+  /**
+   * Count a failed login and return the number of consecutive failures
+   */
+  async incrementFailedLogins(id: string): Promise<number> {
+    await this.initialize();
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { failedLoginCount: { increment: 1 } },
+      select: { failedLoginCount: true },
+    });
+
+    return user.failedLoginCount;
+  }
+
+  /**
+   * Lock a user out until a time and start counting failures again
+   */
+  async lockAccount(id: string, until: Date): Promise<void> {
+    await this.initialize();
+    await this.prisma.user.update({
+      where: { id },
+      data: { lockedUntil: until, failedLoginCount: 0 },
+    });
+  }
+
+  /**
+   * Clear failed login tracking after a successful login
+   */
+  async clearFailedLogins(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.user.updateMany({
+      where: { id, OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }] },
+      data: { failedLoginCount: 0, lockedUntil: null },
+    });
+  }
+
+  /**
+   * Get a user's TOTP secret and whether two-factor authentication is on
+   */
+  async findTwoFactorState(
+    id: string
+  ): Promise<{ secret: string | null; enabledAt: Date | null; lastUsedStep: number | null } | null> {
+    await this.initialize();
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    });
+
+    if (!user) return null;
+
+    return { secret: user.totpSecret, enabledAt: user.totpEnabledAt, lastUsedStep: user.totpLastUsedStep };
+  }
+
+  /**
+   * Store a new TOTP secret that isn't active until enableTwoFactor is called
+   */
+  async setTotpSecret(id: string, secret: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.user.update({
+      where: { id },
+      data: { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null },
+    });
+  }
+
+  /**
+   * Turn on two-factor authentication with the stored secret
+   */
+  async enableTwoFactor(id: string, at: Date): Promise<void> {
+    await this.initialize();
+    await this.prisma.user.update({
+      where: { id },
+      data: { totpEnabledAt: at },
+    });
+  }
+
+  /**
+   * Turn off two-factor authentication and forget the secret
+   */
+  async disableTwoFactor(id: string): Promise<void> {
+    await this.initialize();
+    await this.prisma.user.update({
+      where: { id },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    });
+  }
+
+  /**
+   * Record the time step of an accepted code if it is newer than the last one
+   * Returns false when the step was already used, so each code works once
+   */
+  async markTotpStepUsed(id: string, step: number): Promise<boolean> {
+    await this.initialize();
+    const result = await this.prisma.user.updateMany({
+      where: { id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step },
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Find users with a role who haven't turned on two-factor authentication
+   */
+  async findWithoutTwoFactor(role: UserRole): Promise<User[]> {
+    await this.initialize();
+    const users = await this.prisma.user.findMany({
+      where: { role, totpEnabledAt: null },
+    });
+
+    return users.map(
+      (u) => new User(u.id, u.email, u.name, u.role as Role, u.createdAt, u.updatedAt, u.emailVerifiedAt)
+    );
+  }
+
+  /**
+   * Find users by email, ignoring case
+   */
+  async findByEmails(emails: string[]): Promise<User[]> {
+    await this.initialize();
+    if (emails.length === 0) return [];
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: emails.map((email) => ({ email: { equals: email, mode: 'insensitive' as const } })),
+      },
+    });
+
+    return users.map(
+      (u) => new User(u.id, u.email, u.name, u.role as Role, u.createdAt, u.updatedAt, u.emailVerifiedAt)
+    );
+  }
+
+  /**
+   * Find users by @mention handle (the part of the email before the @)
+   */
+  async findByMentionHandles(handles: string[]): Promise<User[]> {
+    await this.initialize();
+    if (handles.length === 0) return [];
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: handles.map((handle) => ({
+          email: { startsWith: `${handle}@`, mode: 'insensitive' as const },
+        })),
+      },
+    });
+
+    return users.map(
+      (u) => new User(u.id, u.email, u.name, u.role as Role, u.createdAt, u.updatedAt, u.emailVerifiedAt)
+    );
+  }
+
+  /**
+   * Find users whose @mention handle or name starts with a prefix (for autocomplete)
+   */
+  async searchByMentionHandle(prefix: string, limit: number = 5): Promise<User[]> {
+    await this.initialize();
+    const users = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { email: { startsWith: prefix, mode: 'insensitive' } },
+          { name: { startsWith: prefix, mode: 'insensitive' } },
+        ],
+      },
+      orderBy: { email: 'asc' },
+      take: limit,
+    });
+
+    return users.map(
+      (u) => new User(u.id, u.email, u.name, u.role as Role, u.createdAt, u.updatedAt, u.emailVerifiedAt)
+    );
+  }
+}
@@ -9,4 +9,19 @@ export { QuestionRepository } from './QuestionRepository';
 export { AnswerRepository } from './AnswerRepository';
 export { TaskRepository } from './TaskRepository';
 export { NoteRepository } from './NoteRepository';
-
+export { QuizRepository } from './QuizRepository';
+export { FlashcardRepository } from './FlashcardRepository';
+export { CommentRepository } from './CommentRepository';
+export { JobRepository } from './JobRepository';
+export { TagRepository } from './TagRepository';
+export { CourseRepository } from './CourseRepository';
+export { NotificationRepository } from './NotificationRepository';
+export { NotificationPreferenceRepository } from './NotificationPreferenceRepository';
+export { PasswordResetTokenRepository } from './PasswordResetTokenRepository';
+export { SessionRepository } from './SessionRepository';
+export { EmailVerificationTokenRepository } from './EmailVerificationTokenRepository';
+export { SignupDomainRepository } from './SignupDomainRepository';
+export { AuditEventRepository } from './AuditEventRepository';
+export { RecoveryCodeRepository } from './RecoveryCodeRepository';
+export { TwoFactorPolicyRepository } from './TwoFactorPolicyRepository';
+export { SsoIdentityRepository } from './SsoIdentityRepository';
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { AUDIT_EVENT_TYPES } from '../models/AuditEvent';
+import { ROLES } from '../permissions';
+import { idParams, okResponse, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+export const signupDomainSchema = z
+  .object({ id: z.string(), domain: z.string(), createdAt: timestamp })
+  .meta({ id: 'SignupDomain' });
+
+export const twoFactorPolicySchema = z
+  .object({ role: z.enum(ROLES), required: z.boolean(), updatedAt: timestamp.nullable() })
+  .meta({ id: 'TwoFactorPolicy' });
+
+export const auditEventSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(AUDIT_EVENT_TYPES),
+    userId: z.string().nullable(),
+    email: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    userAgent: z.string().nullable(),
+    detail: z.string().nullable(),
+    createdAt: timestamp,
+  })
+  .meta({ id: 'AuditEvent' });
+
+// The service normalizes the domain and explains what a valid one looks like
+export const addSignupDomainBody = z.object({ domain: z.string().default('') });
+
+export const updateTwoFactorPolicyBody = z.object({
+  role: z.enum(ROLES, { error: (issue) => `Unknown role: ${issue.input}` }),
+  required: z.boolean({ error: 'required must be true or false' }),
+});
+
+export const auditEventQuery = z.object({
+  type: z.enum(AUDIT_EVENT_TYPES, { error: (issue) => `Unknown event type: ${issue.input}` }).optional(),
+  email: z.string().optional(),
+  limit: z.coerce.number().int().optional().catch(undefined),
+});
+
+export type SignupDomain = z.infer<typeof signupDomainSchema>;
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+const SIGNUP_DOMAINS_FORBIDDEN = 'Only admins can change signup domains';
+
+export const adminEndpoints = {
+  signupDomains: endpoint({
+    method: 'GET',
+    path: '/api/signup-domains',
+    summary: 'List the email domains allowed to sign up; an empty list means signups are open',
+    tag: 'Admin',
+    permission: 'signup-domain:manage',
+    response: z.object({ domains: z.array(signupDomainSchema) }),
+  }),
+  addSignupDomain: endpoint({
+    method: 'POST',
+    path: '/api/signup-domains',
+    summary: 'Allow signups from an email domain',
+    tag: 'Admin',
+    permission: 'signup-domain:manage',
+    forbiddenMessage: SIGNUP_DOMAINS_FORBIDDEN,
+    body: addSignupDomainBody,
+    status: 201,
+    response: z.object({ domain: signupDomainSchema }),
+    errors: { 400: ['Domain is already allowed', 'Enter a domain'] },
+  }),
+  removeSignupDomain: endpoint({
+    method: 'DELETE',
+    path: '/api/signup-domains/{id}',
+    summary: 'Stop allowing signups from an email domain',
+    tag: 'Admin',
+    permission: 'signup-domain:manage',
+    forbiddenMessage: SIGNUP_DOMAINS_FORBIDDEN,
+    params: idParams,
+    response: okResponse,
+    errors: { 404: ['Domain not found'] },
+  }),
+  twoFactorPolicies: endpoint({
+    method: 'GET',
+    path: '/api/two-factor-policies',
+    summary: 'Which roles must use two-factor authentication',
+    tag: 'Admin',
+    permission: 'two-factor-policy:manage',
+    response: z.object({ policies: z.array(twoFactorPolicySchema) }),
+  }),
+  updateTwoFactorPolicy: endpoint({
+    method: 'PUT',
+    path: '/api/two-factor-policies',
+    summary: 'Require, or stop requiring, two-factor authentication for a role',
+    tag: 'Admin',
+    permission: 'two-factor-policy:manage',
+    forbiddenMessage: 'Only admins can change two-factor requirements',
+    body: updateTwoFactorPolicyBody,
+    response: z.object({ policy: twoFactorPolicySchema }),
+    errors: { 400: ['Turn on two-factor'] },
+  }),
+  auditEvents: endpoint({
+    method: 'GET',
+    path: '/api/audit-events',
+    summary: 'List recent sign-in audit events, newest first',
+    tag: 'Admin',
+    permission: 'audit-log:view',
+    query: auditEventQuery,
+    response: z.object({ events: z.array(auditEventSchema) }),
+  }),
+};
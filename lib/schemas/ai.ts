@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { requiredString } from './common';
+import { endpoint } from './endpoint';
+import { quizSchema } from './quizzes';
+
+export const generateNotesBody = z.object({
+  prompt: requiredString('Prompt is required'),
+  subject: z.string().optional(),
+});
+
+// Largest quiz one request may ask the model for; the quiz page offers up to this many
+export const MAX_QUIZ_QUESTIONS = 20;
+
+// With noteIds the questions come only from those notes, and the prompt may be left out
+export const generateQuizBody = z
+  .object({
+    prompt: z.string().optional(),
+    subject: z.string().optional(),
+    difficulty: z.string().optional(),
+    numQuestions: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_QUIZ_QUESTIONS, `A quiz can have at most ${MAX_QUIZ_QUESTIONS} questions`)
+      .optional(),
+    noteIds: z.array(z.string()).optional(),
+    courseId: z.string().nullish(),
+  })
+  .refine((b) => (b.noteIds && b.noteIds.length > 0) || b.prompt?.trim(), 'Prompt is required');
+
+// Without a deckId the cards go to a new deck named after the notes
+export const generateFlashcardsBody = z.object({
+  noteIds: z.array(z.string(), { error: 'Select at least one note' }).min(1, 'Select at least one note'),
+  deckId: z.string().optional(),
+});
+
+export type GenerateQuizInput = z.input<typeof generateQuizBody>;
+export type GenerateFlashcardsInput = z.input<typeof generateFlashcardsBody>;
+
+export const aiEndpoints = {
+  embeddings: endpoint({
+    method: 'POST',
+    path: '/api/ai/embeddings',
+    summary: 'Embed a piece of text with the configured embedding provider',
+    tag: 'AI',
+    auth: false,
+    body: z.object({ text: requiredString('Text is required') }),
+    response: z.object({ embedding: z.array(z.number()), dimensions: z.number(), provider: z.string() }),
+  }),
+  notes: endpoint({
+    method: 'POST',
+    path: '/api/ai/notes',
+    summary: 'Write study notes as HTML from a prompt',
+    tag: 'AI',
+    auth: false,
+    body: generateNotesBody,
+    response: z.object({ content: z.string() }),
+  }),
+  quiz: endpoint({
+    method: 'POST',
+    path: '/api/ai/quiz',
+    summary: `Generate and save a quiz of up to ${MAX_QUIZ_QUESTIONS} questions from a prompt or from the selected notes`,
+    tag: 'AI',
+    body: generateQuizBody,
+    status: 201,
+    response: z.object({ quiz: quizSchema }),
+    errors: {
+      400: ['Course not found'],
+      403: ['You are not enrolled in this course'],
+    },
+  }),
+  flashcards: endpoint({
+    method: 'POST',
+    path: '/api/ai/flashcards',
+    summary: 'Extract flashcards from the selected notes',
+    tag: 'AI',
+    body: generateFlashcardsBody,
+    status: 201,
+    response: z.object({ deckId: z.string(), created: z.number() }),
+    errors: {
+      403: ['You can only access your own flashcards'],
+      404: ['Deck not found'],
+    },
+  }),
+};
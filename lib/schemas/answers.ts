@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { idParams, imageList, requiredString, timestamp, uploadResponse, voteValue } from './common';
+import { endpoint } from './endpoint';
+import { voteBody } from './questions';
+import { userSchema } from './users';
+
+export const answerSchema = z
+  .object({
+    id: z.string(),
+    description: z.string(),
+    images: z.array(z.string()),
+    questionId: z.string(),
+    userId: z.string(),
+    user: userSchema,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    isAccepted: z.boolean(),
+    voteScore: z.number(),
+  })
+  .meta({ id: 'Answer' });
+
+export const answerRevisionSchema = z
+  .object({
+    id: z.string(),
+    answerId: z.string(),
+    description: z.string(),
+    images: z.array(z.string()),
+    editedById: z.string().nullable(),
+    editedByName: z.string().nullable(),
+    createdAt: timestamp,
+  })
+  .meta({ id: 'AnswerRevision' });
+
+export const createAnswerBody = z.object({
+  description: requiredString('Description is required'),
+  images: imageList.optional(),
+});
+
+export const editAnswerBody = z.object({
+  description: z.string().trim().min(1, 'Description cannot be empty').optional(),
+  images: imageList.optional(),
+});
+
+export type Answer = z.infer<typeof answerSchema>;
+export type AnswerRevision = z.infer<typeof answerRevisionSchema>;
+export type CreateAnswerInput = z.input<typeof createAnswerBody>;
+
+const answerResponse = z.object({ answer: answerSchema });
+
+const ACCEPT_ERRORS = {
+  403: ['Only the question author can accept an answer'],
+  404: ['Answer not found', 'Question not found'],
+};
+
+export const answerEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/questions/{id}/answers',
+    summary: "Get a question's answers, accepted first and then by score, with the current user's votes",
+    tag: 'Answers',
+    auth: 'optional',
+    params: idParams,
+    response: z.object({ answers: z.array(answerSchema.extend({ myVote: z.number() })) }),
+  }),
+  create: endpoint({
+    method: 'POST',
+    path: '/api/questions/{id}/answers',
+    summary: 'Answer a question',
+    tag: 'Answers',
+    params: idParams,
+    body: createAnswerBody,
+    status: 201,
+    // A 409 carries the canonical question's id in details.mergedIntoId
+    errors: { 404: ['Question not found'], 409: ['Question was merged into another question'] },
+    response: z.object({
+      answer: z.object({
+        id: z.string(),
+        description: z.string(),
+        images: z.array(z.string()),
+        userId: z.string(),
+        questionId: z.string(),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        user: z.object({ id: z.string(), name: z.string().nullable(), email: z.string() }),
+      }),
+    }),
+  }),
+  upload: endpoint({
+    method: 'POST',
+    path: '/api/questions/{id}/answers/upload',
+    summary: 'Upload an image for an answer',
+    tag: 'Answers',
+    params: idParams,
+    upload: true,
+    response: uploadResponse,
+  }),
+  edit: endpoint({
+    method: 'PUT',
+    path: '/api/answers/{id}',
+    summary: 'Edit an answer; the previous version is kept as a revision',
+    tag: 'Answers',
+    params: idParams,
+    body: editAnswerBody,
+    response: answerResponse,
+    errors: {
+      403: ['You can only edit your own answers'],
+      404: ['Answer not found'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/answers/{id}',
+    summary: 'Delete an answer',
+    tag: 'Answers',
+    permission: 'answer:delete',
+    forbiddenMessage: 'Only moderators and admins can delete answers',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+  }),
+  accept: endpoint({
+    method: 'POST',
+    path: '/api/answers/{id}/accept',
+    summary: 'Mark an answer as accepted, replacing any earlier accepted answer',
+    tag: 'Answers',
+    params: idParams,
+    response: answerResponse,
+    errors: ACCEPT_ERRORS,
+  }),
+  unaccept: endpoint({
+    method: 'DELETE',
+    path: '/api/answers/{id}/accept',
+    summary: 'Unmark an accepted answer',
+    tag: 'Answers',
+    params: idParams,
+    response: answerResponse,
+    errors: ACCEPT_ERRORS,
+  }),
+  revisions: endpoint({
+    method: 'GET',
+    path: '/api/answers/{id}/revisions',
+    summary: 'Get the edit history of an answer, newest first',
+    tag: 'Answers',
+    auth: false,
+    params: idParams,
+    response: z.object({ revisions: z.array(answerRevisionSchema) }),
+    errors: { 404: ['Answer not found'] },
+  }),
+  vote: endpoint({
+    method: 'POST',
+    path: '/api/answers/{id}/vote',
+    summary: "Upvote (1), downvote (-1) or clear (0) the current user's vote on an answer",
+    tag: 'Answers',
+    params: idParams,
+    body: voteBody,
+    response: z.object({ voteScore: z.number(), myVote: voteValue }),
+    errors: { 403: ['You cannot vote on your own post'], 404: ['Answer not found'] },
+  }),
+};
@@ -0,0 +1,346 @@
+import { z } from 'zod';
+import { idParams, okResponse, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+import { sessionUserSchema, userSchema } from './users';
+
+const CREDENTIALS_REQUIRED = 'Email and password are required';
+const PASSWORDS_REQUIRED = 'Current password and new password are required';
+
+// Addresses are compared and stored lowercase; the format check also keeps out the angle brackets and line breaks
+// that would otherwise reach mail headers
+const emailAddress = (message: string) =>
+  requiredString(message).toLowerCase().pipe(z.email('Enter a valid email address'));
+
+// Passwords are taken exactly as typed, so no trimming
+const password = (message: string) => z.string({ error: message }).min(1, message);
+
+export const deviceSessionSchema = z
+  .object({
+    id: z.string(),
+    device: z.string(),
+    userAgent: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    createdAt: timestamp,
+    lastSeenAt: timestamp,
+    expiresAt: timestamp,
+    // The session making the request
+    current: z.boolean(),
+  })
+  .meta({ id: 'DeviceSession' });
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+});
+
+// Secret and QR code for an authenticator app; nothing changes for sign-in until the setup is confirmed
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCodeDataUrl: z.string(),
+});
+
+export const loginChallengeSchema = z.enum(['verify', 'setup']);
+
+// Why the SSO callback sent the user back to /login?error=; the login page shows fixed text for each,
+// so the query string can't be used to put arbitrary words on the page
+export const ssoLoginErrorSchema = z.enum([
+  'rate-limited',
+  'refused',
+  'expired',
+  'no-email',
+  'unverified-email',
+  'signups-limited',
+  'locked',
+  'failed',
+]);
+
+export const SSO_LOGIN_ERROR_MESSAGES: Record<z.infer<typeof ssoLoginErrorSchema>, string> = {
+  'rate-limited': 'Too many sign-in attempts. Try again later',
+  refused: 'Sign-in was cancelled or refused by the identity provider',
+  expired: 'Sign-in expired. Please try again',
+  'no-email': 'Your SSO account has no email address',
+  'unverified-email': 'Your SSO email address is not verified, so it cannot be linked to an existing account',
+  'signups-limited': 'Signups are limited to approved email domains',
+  locked: 'Account is temporarily locked. Try again later',
+  failed: 'Single sign-on failed. Please try again',
+};
+
+export const signupBody = z.object({
+  email: emailAddress(CREDENTIALS_REQUIRED),
+  password: password(CREDENTIALS_REQUIRED),
+  name: z.string().nullish(),
+});
+
+export const loginBody = z.object({
+  email: emailAddress(CREDENTIALS_REQUIRED),
+  password: password(CREDENTIALS_REQUIRED),
+});
+
+export const changePasswordBody = z.object({
+  currentPassword: password(PASSWORDS_REQUIRED),
+  newPassword: password(PASSWORDS_REQUIRED).min(6, 'New password must be at least 6 characters long'),
+});
+
+export const resetPasswordBody = z.object({
+  token: requiredString('Token and new password are required'),
+  password: password('Token and new password are required'),
+});
+
+// An authenticator code or a recovery code
+export const twoFactorCodeBody = z.object({ code: requiredString('Authentication code is required') });
+
+export type DeviceSession = z.infer<typeof deviceSessionSchema>;
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+export type LoginChallenge = z.infer<typeof loginChallengeSchema>;
+export type SsoLoginError = z.infer<typeof ssoLoginErrorSchema>;
+export type SignupInput = z.input<typeof signupBody>;
+export type LoginInput = z.input<typeof loginBody>;
+export type ChangePasswordInput = z.input<typeof changePasswordBody>;
+
+const LOCKED = 'Account is temporarily locked';
+const SIGN_IN_EXPIRED = 'Sign-in expired';
+
+const successMessage = z.object({ success: z.literal(true), message: z.string() });
+const signedIn = z.object({ success: z.literal(true), user: userSchema });
+const recoveryCodes = z.array(z.string());
+
+export const authEndpoints = {
+  signup: endpoint({
+    method: 'POST',
+    path: '/api/auth/signup',
+    summary: 'Create an account and sign in',
+    tag: 'Auth',
+    auth: false,
+    body: signupBody,
+    response: signedIn,
+    errors: {
+      400: ['User with this email already exists'],
+      403: ['Signups are limited'],
+    },
+  }),
+  login: endpoint({
+    method: 'POST',
+    path: '/api/auth/login',
+    summary: 'Sign in with a password; twoFactor says which second step is still owed, if any',
+    tag: 'Auth',
+    auth: false,
+    body: loginBody,
+    response: z.object({
+      success: z.literal(true),
+      user: userSchema.optional(),
+      twoFactor: loginChallengeSchema.optional(),
+    }),
+    errors: {
+      401: ['Invalid email or password'],
+      423: [LOCKED],
+    },
+  }),
+  loginTwoFactor: endpoint({
+    method: 'POST',
+    path: '/api/auth/login/two-factor',
+    summary: 'Finish signing in with an authenticator or recovery code',
+    tag: 'Auth',
+    auth: false,
+    body: twoFactorCodeBody,
+    response: signedIn,
+    errors: {
+      400: ['Invalid authentication code'],
+      401: [SIGN_IN_EXPIRED],
+      423: [LOCKED],
+    },
+  }),
+  loginTwoFactorSetup: endpoint({
+    method: 'POST',
+    path: '/api/auth/login/two-factor/setup',
+    summary: "Start the two-factor setup a user's role requires before they can sign in",
+    tag: 'Auth',
+    auth: false,
+    response: twoFactorEnrollmentSchema.extend({ success: z.literal(true) }),
+    errors: { 401: [SIGN_IN_EXPIRED], 423: [LOCKED] },
+  }),
+  loginTwoFactorSetupConfirm: endpoint({
+    method: 'POST',
+    path: '/api/auth/login/two-factor/setup/confirm',
+    summary: 'Confirm the required two-factor setup and sign in; the recovery codes are only shown this once',
+    tag: 'Auth',
+    auth: false,
+    body: twoFactorCodeBody,
+    response: signedIn.extend({ recoveryCodes }),
+    errors: {
+      400: ['Invalid authentication code', 'Start two-factor setup first'],
+      401: [SIGN_IN_EXPIRED],
+      423: [LOCKED],
+    },
+  }),
+  logout: endpoint({
+    method: 'POST',
+    path: '/api/auth/logout',
+    summary: 'Sign out of this device',
+    tag: 'Auth',
+    auth: false,
+    response: okResponse,
+  }),
+  me: endpoint({
+    method: 'GET',
+    path: '/api/auth/me',
+    summary: 'The signed-in user',
+    tag: 'Auth',
+    auth: 'optional',
+    response: z.object({ user: sessionUserSchema }),
+  }),
+  sso: endpoint({
+    method: 'GET',
+    path: '/api/auth/sso',
+    summary: 'Start signing in through the SSO provider',
+    tag: 'Auth',
+    auth: false,
+    redirect: true,
+  }),
+  ssoCallback: endpoint({
+    method: 'GET',
+    path: '/api/auth/sso/callback',
+    summary: 'Where the SSO provider sends the user back; redirects into the app, or to /login?error=<code> on errors',
+    tag: 'Auth',
+    auth: false,
+    query: z.object({
+      code: z.string().optional(),
+      state: z.string().optional(),
+      error: z.string().optional(),
+      error_description: z.string().optional(),
+    }),
+    redirect: true,
+  }),
+  changePassword: endpoint({
+    method: 'PUT',
+    path: '/api/auth/change-password',
+    summary: 'Change the current password; other devices are signed out',
+    tag: 'Auth',
+    body: changePasswordBody,
+    response: successMessage,
+  }),
+  forgotPassword: endpoint({
+    method: 'POST',
+    path: '/api/auth/forgot-password',
+    summary: 'Email a password reset link; the answer is the same whether or not the account exists',
+    tag: 'Auth',
+    auth: false,
+    body: z.object({ email: emailAddress('Email is required') }),
+    response: successMessage,
+  }),
+  checkResetToken: endpoint({
+    method: 'GET',
+    path: '/api/auth/reset-password',
+    summary: 'Check a reset link before showing the new password form',
+    tag: 'Auth',
+    auth: false,
+    query: z.object({ token: requiredString('Token is required') }),
+    response: z.object({ success: z.literal(true), valid: z.boolean() }),
+  }),
+  resetPassword: endpoint({
+    method: 'POST',
+    path: '/api/auth/reset-password',
+    summary: 'Set a new password from a reset link and sign the account out everywhere',
+    tag: 'Auth',
+    auth: false,
+    body: resetPasswordBody,
+    response: successMessage,
+    errors: { 400: ['Reset link', 'Password must'] },
+  }),
+  verifyEmail: endpoint({
+    method: 'POST',
+    path: '/api/auth/verify-email',
+    summary: "Confirm an account's email address with the token from the emailed link",
+    tag: 'Auth',
+    auth: false,
+    body: z.object({ token: requiredString('Token is required') }),
+    response: signedIn,
+    errors: { 400: ['Verification link'] },
+  }),
+  resendVerification: endpoint({
+    method: 'POST',
+    path: '/api/auth/verify-email/resend',
+    summary: 'Send the signed-in user a new verification link',
+    tag: 'Auth',
+    response: successMessage,
+    errors: { 400: ['Email is already verified'], 429: ['Please wait'] },
+  }),
+};
+
+export const sessionEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/auth/sessions',
+    summary: "List the current user's signed-in devices",
+    tag: 'Sessions',
+    response: z.object({ success: z.literal(true), sessions: z.array(deviceSessionSchema) }),
+  }),
+  revokeAll: endpoint({
+    method: 'DELETE',
+    path: '/api/auth/sessions',
+    summary: 'Sign out everywhere, including this device',
+    tag: 'Sessions',
+    response: z.object({ success: z.literal(true), revoked: z.number() }),
+  }),
+  revoke: endpoint({
+    method: 'DELETE',
+    path: '/api/auth/sessions/{id}',
+    summary: 'Sign out one device; current says whether it was this one',
+    tag: 'Sessions',
+    params: idParams,
+    response: z.object({ success: z.literal(true), current: z.boolean() }),
+    errors: { 404: ['Session not found'] },
+  }),
+};
+
+export const twoFactorEndpoints = {
+  status: endpoint({
+    method: 'GET',
+    path: '/api/auth/two-factor',
+    summary: "The current user's two-factor status",
+    tag: 'Two-factor',
+    response: twoFactorStatusSchema.extend({ success: z.literal(true) }),
+  }),
+  enroll: endpoint({
+    method: 'POST',
+    path: '/api/auth/two-factor',
+    summary: 'Start adding an authenticator app',
+    tag: 'Two-factor',
+    response: twoFactorEnrollmentSchema.extend({ success: z.literal(true) }),
+    errors: { 400: ['Two-factor authentication is already on'] },
+  }),
+  confirm: endpoint({
+    method: 'POST',
+    path: '/api/auth/two-factor/confirm',
+    summary: 'Turn two-factor on with a code from the new app; the recovery codes are only shown this once',
+    tag: 'Two-factor',
+    body: twoFactorCodeBody,
+    response: z.object({ success: z.literal(true), recoveryCodes }),
+    errors: {
+      400: ['Invalid authentication code', 'Start two-factor setup first', 'Two-factor authentication is already on'],
+    },
+  }),
+  disable: endpoint({
+    method: 'POST',
+    path: '/api/auth/two-factor/disable',
+    summary: "Turn two-factor off with a current code; not allowed when the user's role requires it",
+    tag: 'Two-factor',
+    body: twoFactorCodeBody,
+    response: okResponse,
+    errors: {
+      400: ['Invalid authentication code', 'Two-factor authentication is not on'],
+      403: ['Two-factor authentication is required for your role'],
+    },
+  }),
+  regenerateRecoveryCodes: endpoint({
+    method: 'POST',
+    path: '/api/auth/two-factor/recovery-codes',
+    summary: 'Replace the recovery codes, invalidating the old ones',
+    tag: 'Two-factor',
+    body: twoFactorCodeBody,
+    response: z.object({ success: z.literal(true), recoveryCodes }),
+    errors: { 400: ['Invalid authentication code', 'Two-factor authentication is not on'] },
+  }),
+};
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { idParams, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+import { userSchema } from './users';
+
+export const commentSchema = z
+  .object({
+    id: z.string(),
+    body: z.string(),
+    // Exactly one of questionId and answerId is set
+    questionId: z.string().nullable(),
+    answerId: z.string().nullable(),
+    parentId: z.string().nullable(),
+    mentionedUserIds: z.array(z.string()),
+    userId: z.string(),
+    user: userSchema,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Comment' });
+
+// A reply names its parent comment; replies can only be one level deep
+export const createCommentBody = z.object({
+  body: requiredString('Comment cannot be empty'),
+  parentId: z.string().nullish(),
+});
+
+export type Comment = z.infer<typeof commentSchema>;
+export type CreateCommentInput = z.input<typeof createCommentBody>;
+
+const commentResponse = z.object({ comment: commentSchema });
+
+export const commentEndpoints = {
+  listForQuestion: endpoint({
+    method: 'GET',
+    path: '/api/questions/{id}/comments',
+    summary: 'Get all comments on a question and its answers, oldest first',
+    tag: 'Comments',
+    auth: false,
+    params: idParams,
+    response: z.object({ comments: z.array(commentSchema) }),
+  }),
+  createOnQuestion: endpoint({
+    method: 'POST',
+    path: '/api/questions/{id}/comments',
+    summary: 'Comment on a question, or reply to one of its comments',
+    tag: 'Comments',
+    params: idParams,
+    body: createCommentBody,
+    status: 201,
+    response: commentResponse,
+    errors: {
+      400: ['Replies can only be one level deep', 'Comment must be'],
+      404: ['Question not found', 'Comment not found'],
+    },
+  }),
+  createOnAnswer: endpoint({
+    method: 'POST',
+    path: '/api/answers/{id}/comments',
+    summary: 'Comment on an answer, or reply to one of its comments',
+    tag: 'Comments',
+    params: idParams,
+    body: createCommentBody,
+    status: 201,
+    response: commentResponse,
+    errors: {
+      400: ['Replies can only be one level deep', 'Comment must be'],
+      404: ['Answer not found', 'Comment not found'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/comments/{id}',
+    summary: 'Delete a comment and its replies',
+    tag: 'Comments',
+    permission: 'comment:delete',
+    forbiddenMessage: 'Only moderators and admins can delete comments',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+    errors: { 404: ['Comment not found'] },
+  }),
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+/**
+ * A string that must not be blank once trimmed; the message is used when it is missing or empty
+ */
+export const requiredString = (message: string) => z.string({ error: message }).trim().min(1, message);
+
+// Image URLs from the upload endpoints
+export const imageList = z.array(z.string(), { error: 'Images must be a list of URLs' });
+
+export const idParams = z.object({ id: z.string() });
+
+// Dates are sent as ISO 8601 strings
+export const timestamp = z.iso.datetime();
+
+export const voteValue = z.union([z.literal(1), z.literal(-1), z.literal(0)], { error: 'Vote must be 1, -1 or 0' });
+
+/**
+ * Every failure: the first problem in error, and for invalid input each problem in details.issues
+ */
+export const apiErrorSchema = z
+  .object({
+    success: z.literal(false),
+    error: z.string(),
+    details: z.record(z.string(), z.unknown()).optional(),
+  })
+  .meta({ id: 'Error' });
+
+export type ApiError = z.infer<typeof apiErrorSchema>;
+
+export const messageResponse = z.object({ message: z.string() });
+
+export const okResponse = z.object({ success: z.literal(true) });
+
+export const uploadResponse = z.object({ url: z.string(), path: z.string() });
+
+export const courseSummarySchema = z.object({ id: z.string(), code: z.string(), name: z.string() }).meta({ id: 'CourseSummary' });
+
+export type CourseSummary = z.infer<typeof courseSummarySchema>;
+
+/**
+ * A model's toJSON() in the shape the API sends it, for server pages passing data to client components
+ * Dates become ISO strings, so the client types from this folder hold on both paths
+ */
+export function serialize<T extends z.ZodType>(_schema: T, value: unknown): z.output<T> {
+  return JSON.parse(JSON.stringify(value));
+}
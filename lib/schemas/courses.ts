@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { idParams, messageResponse, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+import { userSchema } from './users';
+
+export const courseSchema = z
+  .object({
+    id: z.string(),
+    code: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    term: z.string().nullable(),
+    studentCount: z.number(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Course' });
+
+export const enrollmentSchema = z
+  .object({
+    courseId: z.string(),
+    userId: z.string(),
+    user: userSchema,
+    section: z.string().nullable(),
+    createdAt: timestamp,
+  })
+  .meta({ id: 'Enrollment' });
+
+export const enrollmentImportResultSchema = z.object({
+  enrolled: z.number(),
+  alreadyEnrolled: z.number(),
+  unknownEmails: z.array(z.string()),
+  // Line numbers of rows without a valid email
+  invalidRows: z.array(z.number()),
+});
+
+export const createCourseBody = z.object({
+  code: requiredString('Code and name are required'),
+  name: requiredString('Code and name are required'),
+  description: z.string().nullish(),
+  term: z.string().nullish(),
+});
+
+export const updateCourseBody = z.object({
+  code: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().nullish(),
+  term: z.string().nullish(),
+});
+
+// Rows of email[,section]; students need an account already
+export const enrollStudentsBody = z.object({ csv: requiredString('CSV is required') });
+
+export type Course = z.infer<typeof courseSchema>;
+export type Enrollment = z.infer<typeof enrollmentSchema>;
+export type EnrollmentImportResult = z.infer<typeof enrollmentImportResultSchema>;
+export type CreateCourseInput = z.input<typeof createCourseBody>;
+
+const courseResponse = z.object({ course: courseSchema });
+
+export const courseEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/courses',
+    summary: 'List the courses the current user can use: every course for staff, enrolled courses otherwise',
+    tag: 'Courses',
+    response: z.object({ courses: z.array(courseSchema) }),
+  }),
+  create: endpoint({
+    method: 'POST',
+    path: '/api/courses',
+    summary: 'Create a course',
+    tag: 'Courses',
+    permission: 'course:manage',
+    forbiddenMessage: 'Only admins can create courses',
+    body: createCourseBody,
+    status: 201,
+    response: courseResponse,
+    errors: { 400: ['Course codes may only', 'A course with that code'] },
+  }),
+  update: endpoint({
+    method: 'PATCH',
+    path: '/api/courses/{id}',
+    summary: "Update a course's code, name, description or term",
+    tag: 'Courses',
+    permission: 'course:manage',
+    forbiddenMessage: 'Only admins can edit courses',
+    params: idParams,
+    body: updateCourseBody,
+    response: courseResponse,
+    errors: {
+      400: ['Course codes may only', 'A course with that code', 'Course name is required'],
+      404: ['Course not found'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/courses/{id}',
+    summary: 'Delete a course; its content is kept without a course',
+    tag: 'Courses',
+    permission: 'course:manage',
+    forbiddenMessage: 'Only admins can delete courses',
+    params: idParams,
+    response: messageResponse,
+    errors: { 404: ['Course not found'] },
+  }),
+  enrollments: endpoint({
+    method: 'GET',
+    path: '/api/courses/{id}/enrollments',
+    summary: 'List the students enrolled in a course',
+    tag: 'Courses',
+    permission: 'enrollment:manage',
+    forbiddenMessage: 'Only teaching assistants and admins can view enrollments',
+    params: idParams,
+    response: z.object({ enrollments: z.array(enrollmentSchema) }),
+    errors: { 404: ['Course not found'] },
+  }),
+  enroll: endpoint({
+    method: 'POST',
+    path: '/api/courses/{id}/enrollments',
+    summary: 'Bulk-enroll students from CSV text; unknown emails are reported back',
+    tag: 'Courses',
+    permission: 'enrollment:manage',
+    forbiddenMessage: 'Only teaching assistants and admins can enroll students',
+    params: idParams,
+    body: enrollStudentsBody,
+    response: enrollmentImportResultSchema,
+    errors: {
+      400: ['CSV is empty', 'CSV may contain'],
+      404: ['Course not found'],
+    },
+  }),
+  unenroll: endpoint({
+    method: 'DELETE',
+    path: '/api/courses/{id}/enrollments/{userId}',
+    summary: 'Remove a student from a course',
+    tag: 'Courses',
+    permission: 'enrollment:manage',
+    forbiddenMessage: 'Only teaching assistants and admins can remove students from courses',
+    params: z.object({ id: z.string(), userId: z.string() }),
+    response: messageResponse,
+    errors: { 404: ['Enrollment not found'] },
+  }),
+};
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import type { Action } from '../permissions';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// true: must be signed in; 'optional': the user when signed in, else null; false: the session isn't read
+export type AuthMode = boolean | 'optional';
+
+/**
+ * The contract of one API operation
+ * apiRoute enforces it on the server, pages import its schemas and types, and /api/openapi.json documents it
+ */
+export interface Endpoint<A extends AuthMode = AuthMode, TParams = unknown, TQuery = unknown, TBody = unknown> {
+  method: HttpMethod;
+  // Path parameters in braces, e.g. /api/questions/{id}
+  path: string;
+  summary: string;
+  // Groups operations in the OpenAPI document
+  tag: string;
+  auth?: A;
+  // Checked with can(); answered with 403 and forbiddenMessage
+  permission?: Action;
+  forbiddenMessage?: string;
+  params?: z.ZodType<TParams>;
+  query?: z.ZodType<TQuery>;
+  body?: z.ZodType<TBody>;
+  // Multipart upload with a "file" field, read by the handler itself
+  upload?: boolean;
+  // Status of a successful JSON response when the handler returns a plain object
+  status?: number;
+  // What a successful response looks like once serialized; dates arrive as ISO strings
+  response?: z.ZodType;
+  // The operation answers with a redirect rather than JSON
+  redirect?: boolean;
+  // Errors thrown by services whose message starts with one of these are sent back with that status
+  errors?: Partial<Record<number, string[]>>;
+}
+
+/**
+ * Declare an endpoint; the identity function keeps the literal auth mode and the schema types
+ */
+export function endpoint<A extends AuthMode = true, TParams = undefined, TQuery = undefined, TBody = undefined>(
+  definition: Endpoint<A, TParams, TQuery, TBody>
+): Endpoint<A, TParams, TQuery, TBody> {
+  return definition;
+}
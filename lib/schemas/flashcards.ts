@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { idParams, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+const GRADE_ERROR = 'Grade must be an integer from 0 to 5';
+
+export const flashcardSchema = z
+  .object({
+    id: z.string(),
+    front: z.string(),
+    back: z.string(),
+    source: z.enum(['MANUAL', 'NOTE', 'QUIZ']),
+    deckId: z.string(),
+    userId: z.string(),
+    sourceNoteId: z.string().nullable(),
+    sourceQuizQuestionId: z.string().nullable(),
+    ease: z.number(),
+    // Days until the next review
+    interval: z.number(),
+    repetitions: z.number(),
+    dueAt: timestamp,
+    lastReviewedAt: timestamp.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Flashcard' });
+
+export const flashcardDeckSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    userId: z.string(),
+    cardCount: z.number(),
+    dueCount: z.number(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'FlashcardDeck' });
+
+export const createDeckBody = z.object({
+  name: requiredString('Deck name is required'),
+  description: z.string().nullish(),
+});
+
+export const createFlashcardBody = z.object({
+  deckId: requiredString('Deck ID is required'),
+  front: z.string().default(''),
+  back: z.string().default(''),
+});
+
+// 0 = forgot, 5 = perfect
+export const reviewFlashcardBody = z.object({
+  cardId: requiredString('Card ID and grade are required'),
+  grade: z.number({ error: 'Card ID and grade are required' }).int(GRADE_ERROR).min(0, GRADE_ERROR).max(5, GRADE_ERROR),
+});
+
+export type Flashcard = z.infer<typeof flashcardSchema>;
+export type FlashcardDeck = z.infer<typeof flashcardDeckSchema>;
+
+const OWNER_ERROR = 'You can only access your own flashcards';
+
+export const flashcardEndpoints = {
+  decks: endpoint({
+    method: 'GET',
+    path: '/api/flashcards/decks',
+    summary: "List the current user's decks with due counts",
+    tag: 'Flashcards',
+    response: z.object({ success: z.literal(true), decks: z.array(flashcardDeckSchema) }),
+  }),
+  createDeck: endpoint({
+    method: 'POST',
+    path: '/api/flashcards/decks',
+    summary: 'Create a deck',
+    tag: 'Flashcards',
+    body: createDeckBody,
+    status: 201,
+    response: z.object({ success: z.literal(true), deck: flashcardDeckSchema }),
+  }),
+  deleteDeck: endpoint({
+    method: 'DELETE',
+    path: '/api/flashcards/decks/{id}',
+    summary: 'Delete a deck and all of its cards',
+    tag: 'Flashcards',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+    errors: { 403: [OWNER_ERROR], 404: ['Deck not found'] },
+  }),
+  create: endpoint({
+    method: 'POST',
+    path: '/api/flashcards',
+    summary: 'Add a hand-written card to a deck',
+    tag: 'Flashcards',
+    body: createFlashcardBody,
+    status: 201,
+    response: z.object({ success: z.literal(true), card: flashcardSchema }),
+    errors: {
+      400: ['Both sides of a card are required'],
+      403: [OWNER_ERROR],
+      404: ['Deck not found'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/flashcards/{id}',
+    summary: 'Delete a card',
+    tag: 'Flashcards',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+    errors: { 403: [OWNER_ERROR], 404: ['Flashcard not found'] },
+  }),
+  due: endpoint({
+    method: 'GET',
+    path: '/api/flashcards/review',
+    summary: 'Get the cards due for review, optionally from one deck',
+    tag: 'Flashcards',
+    query: z.object({
+      deckId: z.string().optional(),
+      // Clamped to 1..100
+      limit: z.coerce.number().int().default(20).catch(20),
+    }),
+    response: z.object({ success: z.literal(true), cards: z.array(flashcardSchema) }),
+    errors: { 403: [OWNER_ERROR], 404: ['Deck not found'] },
+  }),
+  review: endpoint({
+    method: 'POST',
+    path: '/api/flashcards/review',
+    summary: 'Grade a reviewed card and reschedule it',
+    tag: 'Flashcards',
+    body: reviewFlashcardBody,
+    response: z.object({ success: z.literal(true), card: flashcardSchema }),
+    errors: { 403: [OWNER_ERROR], 404: ['Flashcard not found'] },
+  }),
+};
@@ -0,0 +1,70 @@
+/**
+ * Central export file for the API contracts
+ * Safe to import from client components: import type { Question, Answer } from '@/lib/schemas'
+ */
+
+import { z } from 'zod';
+import { adminEndpoints } from './admin';
+import { aiEndpoints } from './ai';
+import { answerEndpoints } from './answers';
+import { authEndpoints, sessionEndpoints, twoFactorEndpoints } from './auth';
+import { commentEndpoints } from './comments';
+import { courseEndpoints } from './courses';
+import { Endpoint, endpoint } from './endpoint';
+import { flashcardEndpoints } from './flashcards';
+import { noteEndpoints } from './notes';
+import { notificationEndpoints } from './notifications';
+import { questionEndpoints } from './questions';
+import { quizEndpoints } from './quizzes';
+import { tagEndpoints } from './tags';
+import { taskEndpoints } from './tasks';
+import { userEndpoints } from './users';
+
+export * from './endpoint';
+export * from './common';
+export * from './users';
+export * from './questions';
+export * from './answers';
+export * from './comments';
+export * from './tags';
+export * from './courses';
+export * from './tasks';
+export * from './notes';
+export * from './flashcards';
+export * from './quizzes';
+export * from './notifications';
+export * from './auth';
+export * from './admin';
+export * from './ai';
+
+export const docsEndpoints = {
+  openApi: endpoint({
+    method: 'GET',
+    path: '/api/openapi.json',
+    summary: 'This API described as an OpenAPI 3.1 document',
+    tag: 'Docs',
+    auth: false,
+    response: z.record(z.string(), z.unknown()),
+  }),
+};
+
+// Every route under app/api, in the order the OpenAPI document lists them
+export const endpoints: Endpoint[] = [
+  authEndpoints,
+  sessionEndpoints,
+  twoFactorEndpoints,
+  questionEndpoints,
+  answerEndpoints,
+  commentEndpoints,
+  tagEndpoints,
+  courseEndpoints,
+  taskEndpoints,
+  noteEndpoints,
+  flashcardEndpoints,
+  quizEndpoints,
+  notificationEndpoints,
+  aiEndpoints,
+  userEndpoints,
+  adminEndpoints,
+  docsEndpoints,
+].flatMap((group) => Object.values(group));
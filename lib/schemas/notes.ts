@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { courseSummarySchema, idParams, okResponse, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+export const noteSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    // HTML from the editor
+    content: z.string(),
+    courseId: z.string().nullable(),
+    // Sharing state and the course are only listed; create and edit answers leave them out
+    shareToken: z.string().nullable().optional(),
+    isPublic: z.boolean().optional(),
+    course: courseSummarySchema.nullable().optional(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Note' });
+
+export const sharedNoteSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    content: z.string(),
+    author: z.string(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'SharedNote' });
+
+// Content is HTML from the editor; anything else is stored as its JSON text
+export const createNoteBody = z.object({
+  title: requiredString('Title is required'),
+  content: z.unknown().refine((content) => !!content, 'Content is required'),
+  courseId: z.string().nullish(),
+});
+
+// courseId null moves the note out of its course
+export const updateNoteBody = z.object({
+  title: z.string().trim().min(1, 'Title is required').optional(),
+  content: z.unknown().optional(),
+  courseId: z.string().nullish(),
+});
+
+export type Note = z.infer<typeof noteSchema>;
+export type SharedNote = z.infer<typeof sharedNoteSchema>;
+export type CreateNoteInput = z.input<typeof createNoteBody>;
+
+const noteResponse = z.object({ note: noteSchema });
+
+export const noteEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/notes',
+    summary: "List the current user's notes",
+    tag: 'Notes',
+    // A course id, or "mine" for notes in any of the user's courses
+    query: z.object({ course: z.string().optional() }),
+    response: z.object({ notes: z.array(noteSchema) }),
+  }),
+  create: endpoint({
+    method: 'POST',
+    path: '/api/notes',
+    summary: 'Create a note',
+    tag: 'Notes',
+    body: createNoteBody,
+    status: 201,
+    response: noteResponse,
+    errors: {
+      400: ['Course not found'],
+      403: ['You are not enrolled in this course'],
+    },
+  }),
+  update: endpoint({
+    method: 'PATCH',
+    path: '/api/notes/{id}',
+    summary: "Edit a note's title, content or course; readers of its share link are notified",
+    tag: 'Notes',
+    params: idParams,
+    body: updateNoteBody,
+    response: noteResponse,
+    errors: {
+      400: ['Course not found'],
+      403: ['You are not enrolled in this course'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/notes/{id}',
+    summary: 'Delete a note',
+    tag: 'Notes',
+    params: idParams,
+    response: okResponse,
+  }),
+  share: endpoint({
+    method: 'POST',
+    path: '/api/notes/{id}/share',
+    summary: 'Make a note readable by anyone with its share link',
+    tag: 'Notes',
+    params: idParams,
+    response: z.object({
+      success: z.literal(true),
+      shareToken: z.string(),
+      shareUrl: z.string(),
+      message: z.string(),
+    }),
+  }),
+  unshare: endpoint({
+    method: 'DELETE',
+    path: '/api/notes/{id}/share',
+    summary: 'Turn off sharing for a note',
+    tag: 'Notes',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+  }),
+  shared: endpoint({
+    method: 'GET',
+    path: '/api/notes/shared/{token}',
+    summary: 'Read a shared note; signed-in readers hear about later edits',
+    tag: 'Notes',
+    auth: 'optional',
+    params: z.object({ token: z.string() }),
+    response: z.object({ success: z.literal(true), note: sharedNoteSchema }),
+  }),
+};
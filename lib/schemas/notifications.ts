@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { DIGEST_FREQUENCIES } from '../models/NotificationPreference';
+import { timestamp } from './common';
+import { endpoint } from './endpoint';
+
+const DIGEST_SECTION_ERROR = 'Digest sections must be true or false';
+
+export const notificationSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(['ANSWER', 'COMMENT', 'MENTION', 'TASK_DEADLINE', 'NOTE_UPDATED']),
+    title: z.string(),
+    body: z.string().nullable(),
+    link: z.string().nullable(),
+    read: z.boolean(),
+    readAt: timestamp.nullable(),
+    createdAt: timestamp,
+  })
+  .meta({ id: 'Notification' });
+
+export const notificationPreferencesSchema = z
+  .object({
+    digestFrequency: z.enum(DIGEST_FREQUENCIES),
+    digestAnswers: z.boolean(),
+    digestDeadlines: z.boolean(),
+    lastDigestAt: timestamp.nullable(),
+  })
+  .meta({ id: 'NotificationPreferences' });
+
+// Some ids, or an empty body for all of them
+export const markNotificationsReadBody = z
+  .object({ ids: z.array(z.string(), { error: 'ids must be an array of notification ids' }).optional() })
+  .default({});
+
+export const updateNotificationPreferencesBody = z.object({
+  digestFrequency: z
+    .enum(DIGEST_FREQUENCIES, { error: `Digest frequency must be one of ${DIGEST_FREQUENCIES.join(', ')}` })
+    .optional(),
+  digestAnswers: z.boolean({ error: DIGEST_SECTION_ERROR }).optional(),
+  digestDeadlines: z.boolean({ error: DIGEST_SECTION_ERROR }).optional(),
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+export type UpdateNotificationPreferencesInput = z.input<typeof updateNotificationPreferencesBody>;
+
+const preferencesResponse = z.object({ preferences: notificationPreferencesSchema });
+
+export const notificationEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/notifications',
+    summary: "Get the current user's most recent notifications",
+    tag: 'Notifications',
+    // Default 20
+    query: z.object({ limit: z.coerce.number().int().optional().catch(undefined) }),
+    response: z.object({ notifications: z.array(notificationSchema) }),
+  }),
+  markRead: endpoint({
+    method: 'PATCH',
+    path: '/api/notifications',
+    summary: 'Mark notifications as read',
+    tag: 'Notifications',
+    body: markNotificationsReadBody,
+    response: z.object({ updated: z.number(), unreadCount: z.number() }),
+  }),
+  unreadCount: endpoint({
+    method: 'GET',
+    path: '/api/notifications/unread-count',
+    summary: "Count the current user's unread notifications",
+    tag: 'Notifications',
+    response: z.object({ unreadCount: z.number() }),
+  }),
+  preferences: endpoint({
+    method: 'GET',
+    path: '/api/notifications/preferences',
+    summary: "Get the current user's email digest preferences",
+    tag: 'Notifications',
+    response: preferencesResponse,
+  }),
+  updatePreferences: endpoint({
+    method: 'PUT',
+    path: '/api/notifications/preferences',
+    summary: "Update the current user's email digest preferences",
+    tag: 'Notifications',
+    body: updateNotificationPreferencesBody,
+    response: preferencesResponse,
+    errors: { 400: ['Digest'] },
+  }),
+};
@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { courseSummarySchema, idParams, imageList, okResponse, requiredString, timestamp, uploadResponse, voteValue } from './common';
+import { endpoint } from './endpoint';
+import { userSchema } from './users';
+
+const REQUIRED_FIELDS = 'Title, type, and description are required';
+const NOT_EMPTY = 'Title, type, and description cannot be empty';
+const DATE_FORMAT_ERROR = 'Dates must be in YYYY-MM-DD format';
+
+const dateParam = z.iso.date({ error: DATE_FORMAT_ERROR }).transform((value) => new Date(value));
+
+export const questionSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    type: z.string(),
+    description: z.string(),
+    images: z.array(z.string()),
+    userId: z.string().nullable(),
+    user: userSchema.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    answerCount: z.number().optional(),
+    voteScore: z.number(),
+    isAnswered: z.boolean(),
+    hasAcceptedAnswer: z.boolean(),
+    mergedIntoId: z.string().nullable(),
+    tags: z.array(z.string()),
+    courseId: z.string().nullable(),
+    course: courseSummarySchema.nullable(),
+  })
+  .meta({ id: 'Question' });
+
+// A question close to another one, with its cosine similarity
+export const similarQuestionSchema = questionSchema.extend({ similarity: z.number() }).meta({ id: 'SimilarQuestion' });
+
+export const questionRevisionSchema = z
+  .object({
+    id: z.string(),
+    questionId: z.string(),
+    title: z.string(),
+    type: z.string(),
+    description: z.string(),
+    images: z.array(z.string()),
+    editedById: z.string().nullable(),
+    editedByName: z.string().nullable(),
+    createdAt: timestamp,
+  })
+  .meta({ id: 'QuestionRevision' });
+
+export const searchModeSchema = z.enum(['hybrid', 'keyword']);
+
+export const questionSearchResultSchema = questionSchema
+  .extend({
+    score: z.number(),
+    matchedBy: z.array(z.enum(['keyword', 'semantic'])),
+    // Matched terms wrapped in <mark>; everything else is HTML-escaped
+    highlight: z.object({ title: z.string(), snippet: z.string() }).nullable(),
+  })
+  .meta({ id: 'QuestionSearchResult' });
+
+export const questionListQuery = z.object({
+  type: z.string().optional(),
+  tag: z.string().optional(),
+  // A course id, or "mine" for the signed-in user's courses
+  course: z.string().optional(),
+  author: z.string().optional(),
+  from: dateParam.optional(),
+  // Inclusive
+  to: dateParam.optional(),
+  hasImages: z.string().optional(),
+  unanswered: z.string().optional(),
+  sort: z.enum(['newest', 'answers', 'votes'], { error: 'Sort must be newest, answers or votes' }).default('newest'),
+  limit: z.coerce.number().int().positive().optional(),
+  // nextCursor of the previous page
+  cursor: z.string().optional(),
+});
+
+export const createQuestionBody = z.object({
+  title: requiredString(REQUIRED_FIELDS),
+  type: requiredString(REQUIRED_FIELDS),
+  description: requiredString(REQUIRED_FIELDS),
+  images: imageList.optional(),
+  // Questions posted without tags are tagged in the background from AI suggestions
+  tags: z.array(z.string(), { error: 'Tags must be a list of names' }).optional(),
+  courseId: z.string().nullish(),
+  allowDuplicates: z.boolean().optional(),
+});
+
+export const editQuestionBody = z.object({
+  title: z.string().trim().min(1, NOT_EMPTY).optional(),
+  type: z.string().trim().min(1, NOT_EMPTY).optional(),
+  description: z.string().trim().min(1, NOT_EMPTY).optional(),
+  images: imageList.optional(),
+});
+
+export const questionTagsBody = z.object({ tags: z.array(z.string(), { error: 'Tags must be an array of names' }) });
+
+export const voteBody = z.object({ value: voteValue });
+
+export const searchQuestionsBody = z.object({
+  query: requiredString('Search query is required'),
+  limit: z.coerce.number().default(3),
+});
+
+// The 409 answer to a likely duplicate carries them in details.duplicates
+export const duplicateQuestionsDetails = z.object({ duplicates: z.array(similarQuestionSchema) });
+
+export type Question = z.infer<typeof questionSchema>;
+export type SimilarQuestion = z.infer<typeof similarQuestionSchema>;
+export type QuestionRevision = z.infer<typeof questionRevisionSchema>;
+export type QuestionSearchResult = z.infer<typeof questionSearchResultSchema>;
+export type CreateQuestionInput = z.input<typeof createQuestionBody>;
+export type EditQuestionInput = z.input<typeof editQuestionBody>;
+
+const questionResponse = z.object({ question: questionSchema });
+
+export const questionEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/questions',
+    summary: 'List questions with answer and accepted flags and vote totals',
+    tag: 'Questions',
+    auth: false,
+    query: questionListQuery,
+    response: z.object({ questions: z.array(questionSchema), nextCursor: z.string().nullable() }),
+    errors: { 400: ['Invalid cursor'] },
+  }),
+  create: endpoint({
+    method: 'POST',
+    path: '/api/questions',
+    summary: 'Ask a question; likely duplicates are answered with 409 unless allowDuplicates is true',
+    tag: 'Questions',
+    body: createQuestionBody,
+    status: 201,
+    response: questionResponse,
+    errors: {
+      400: ['Tags may only', 'A question can have at most', 'Course not found'],
+      403: ['You are not enrolled in this course'],
+    },
+  }),
+  mine: endpoint({
+    method: 'GET',
+    path: '/api/questions/my',
+    summary: "List the current user's questions",
+    tag: 'Questions',
+    response: z.object({ questions: z.array(questionSchema) }),
+  }),
+  get: endpoint({
+    method: 'GET',
+    path: '/api/questions/{id}',
+    summary: "Get a question with the current user's vote; merged questions redirect to their canonical one",
+    tag: 'Questions',
+    auth: 'optional',
+    params: idParams,
+    response: z.object({ question: questionSchema.extend({ myVote: z.number() }) }),
+  }),
+  edit: endpoint({
+    method: 'PUT',
+    path: '/api/questions/{id}',
+    summary: 'Edit a question; the previous version is kept as a revision',
+    tag: 'Questions',
+    params: idParams,
+    body: editQuestionBody,
+    response: questionResponse,
+    errors: {
+      403: ['You can only edit your own questions'],
+      404: ['Question not found'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/questions/{id}',
+    summary: 'Delete a question',
+    tag: 'Questions',
+    permission: 'question:delete',
+    forbiddenMessage: 'Only moderators and admins can delete questions',
+    params: idParams,
+    response: okResponse,
+  }),
+  merge: endpoint({
+    method: 'POST',
+    path: '/api/questions/{id}/merge',
+    summary: 'Merge a question into a canonical one, moving its answers and comments there',
+    tag: 'Questions',
+    permission: 'question:merge',
+    forbiddenMessage: 'Only moderators and admins can merge questions',
+    params: idParams,
+    body: z.object({ targetId: requiredString('Target question is required') }),
+    response: questionResponse,
+    errors: {
+      400: ['A question cannot be merged into itself', 'Question has already been merged'],
+      404: ['Question not found'],
+    },
+  }),
+  related: endpoint({
+    method: 'GET',
+    path: '/api/questions/{id}/related',
+    summary: 'Get the questions most similar to this one by embedding',
+    tag: 'Questions',
+    auth: false,
+    params: idParams,
+    // Default 5, at most 20
+    query: z.object({ limit: z.coerce.number().int().positive().optional().catch(undefined) }),
+    response: z.object({ related: z.array(similarQuestionSchema) }),
+    errors: { 404: ['Question not found'] },
+  }),
+  revisions: endpoint({
+    method: 'GET',
+    path: '/api/questions/{id}/revisions',
+    summary: 'Get the edit history of a question, newest first',
+    tag: 'Questions',
+    auth: false,
+    params: idParams,
+    response: z.object({ revisions: z.array(questionRevisionSchema) }),
+    errors: { 404: ['Question not found'] },
+  }),
+  setTags: endpoint({
+    method: 'PUT',
+    path: '/api/questions/{id}/tags',
+    summary: "Replace a question's tags; tags that do not exist yet are created",
+    tag: 'Questions',
+    params: idParams,
+    body: questionTagsBody,
+    response: z.object({ tags: z.array(z.string()) }),
+    errors: {
+      400: ['Tags may only', 'A question can have at most'],
+      403: ['You can only tag your own questions'],
+      404: ['Question not found'],
+    },
+  }),
+  vote: endpoint({
+    method: 'POST',
+    path: '/api/questions/{id}/vote',
+    summary: "Upvote (1), downvote (-1) or clear (0) the current user's vote on a question",
+    tag: 'Questions',
+    params: idParams,
+    body: voteBody,
+    response: z.object({ voteScore: z.number(), myVote: voteValue }),
+    errors: { 403: ['You cannot vote on your own post'], 404: ['Question not found'] },
+  }),
+  search: endpoint({
+    method: 'POST',
+    path: '/api/questions/search',
+    summary: 'Hybrid keyword and semantic search; keyword only when no embedding provider is configured',
+    tag: 'Questions',
+    auth: false,
+    body: searchQuestionsBody,
+    response: z.object({
+      questions: z.array(questionSearchResultSchema),
+      query: z.string(),
+      count: z.number(),
+      mode: searchModeSchema,
+    }),
+  }),
+  upload: endpoint({
+    method: 'POST',
+    path: '/api/questions/upload',
+    summary: 'Upload an image for a question',
+    tag: 'Questions',
+    upload: true,
+    response: uploadResponse,
+  }),
+};
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { idParams, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+export const quizQuestionSchema = z
+  .object({
+    id: z.string(),
+    quizId: z.string(),
+    position: z.number(),
+    question: z.string(),
+    options: z.array(z.string()),
+    // Index into options
+    correctAnswer: z.number(),
+    explanation: z.string().nullable(),
+    sourceNoteId: z.string().nullable(),
+    sourceNoteTitle: z.string().nullable(),
+  })
+  .meta({ id: 'QuizQuestion' });
+
+export const quizAttemptSchema = z
+  .object({
+    id: z.string(),
+    quizId: z.string(),
+    userId: z.string(),
+    answers: z.array(z.number()),
+    score: z.number(),
+    total: z.number(),
+    percentage: z.number(),
+    createdAt: timestamp,
+  })
+  .meta({ id: 'QuizAttempt' });
+
+export const quizSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string(),
+    subject: z.string(),
+    difficulty: z.string(),
+    prompt: z.string(),
+    userId: z.string(),
+    courseId: z.string().nullable(),
+    questions: z.array(quizQuestionSchema),
+    attempts: z.array(quizAttemptSchema),
+    attemptCount: z.number(),
+    bestPercentage: z.number().nullable(),
+    latestAttempt: quizAttemptSchema.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Quiz' });
+
+// One chosen option index per question, in question order
+export const submitQuizAttemptBody = z.object({
+  answers: z.array(z.number({ error: 'Answers must be valid option indexes' }), { error: 'Answers are required' }),
+});
+
+export type Quiz = z.infer<typeof quizSchema>;
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type QuizAttempt = z.infer<typeof quizAttemptSchema>;
+
+const QUIZ_ERRORS = { 403: ['You can only access your own quizzes'], 404: ['Quiz not found'] };
+
+export const quizEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/quizzes',
+    summary: "The current user's saved quizzes with their attempts, newest first",
+    tag: 'Quizzes',
+    response: z.object({ success: z.literal(true), quizzes: z.array(quizSchema) }),
+  }),
+  get: endpoint({
+    method: 'GET',
+    path: '/api/quizzes/{id}',
+    summary: 'Get a saved quiz with its questions and attempts',
+    tag: 'Quizzes',
+    params: idParams,
+    response: z.object({ success: z.literal(true), quiz: quizSchema }),
+    errors: QUIZ_ERRORS,
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/quizzes/{id}',
+    summary: 'Delete a saved quiz and all of its attempts',
+    tag: 'Quizzes',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+    errors: QUIZ_ERRORS,
+  }),
+  attempts: endpoint({
+    method: 'GET',
+    path: '/api/quizzes/{id}/attempts',
+    summary: "List the current user's attempts at a quiz, newest first",
+    tag: 'Quizzes',
+    params: idParams,
+    response: z.object({ success: z.literal(true), attempts: z.array(quizAttemptSchema) }),
+    errors: QUIZ_ERRORS,
+  }),
+  submitAttempt: endpoint({
+    method: 'POST',
+    path: '/api/quizzes/{id}/attempts',
+    summary: 'Submit answers; the score is computed on the server and missed questions become flashcards',
+    tag: 'Quizzes',
+    params: idParams,
+    body: submitQuizAttemptBody,
+    status: 201,
+    response: z.object({ success: z.literal(true), attempt: quizAttemptSchema, flashcardsAdded: z.number() }),
+    errors: {
+      ...QUIZ_ERRORS,
+      400: ['An answer is required for every question', 'Answers must be valid option indexes'],
+    },
+  }),
+};
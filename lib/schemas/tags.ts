@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { messageResponse, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+export const tagSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    questionCount: z.number(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Tag' });
+
+// Tag names are URL-encoded in the path
+const tagParams = z.object({ name: z.string() });
+
+export const renameTagBody = z.object({ name: requiredString('New tag name is required') });
+
+export const mergeTagBody = z.object({ target: requiredString('Target tag is required') });
+
+export const suggestTagsBody = z
+  .object({ title: z.string().default(''), description: z.string().default('') })
+  .refine((b) => b.title.trim() || b.description.trim(), 'Title or description is required');
+
+export type Tag = z.infer<typeof tagSchema>;
+
+const tagResponse = z.object({ tag: tagSchema });
+
+export const tagEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/tags',
+    summary: 'List tags with question counts, most used first; with q, autocomplete matches for that prefix',
+    tag: 'Tags',
+    auth: false,
+    query: z.object({ q: z.string().optional() }),
+    response: z.object({ tags: z.array(tagSchema) }),
+  }),
+  get: endpoint({
+    method: 'GET',
+    path: '/api/tags/{name}',
+    summary: 'Get a tag with its question count; its questions come from /api/questions?tag=',
+    tag: 'Tags',
+    auth: false,
+    params: tagParams,
+    response: tagResponse,
+    errors: { 404: ['Tag not found'] },
+  }),
+  rename: endpoint({
+    method: 'PATCH',
+    path: '/api/tags/{name}',
+    summary: 'Rename a tag',
+    tag: 'Tags',
+    permission: 'tag:manage',
+    forbiddenMessage: 'Only moderators and admins can rename tags',
+    params: tagParams,
+    body: renameTagBody,
+    response: tagResponse,
+    errors: {
+      400: ['A tag with that name', 'Tags may only'],
+      404: ['Tag not found'],
+    },
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/tags/{name}',
+    summary: 'Delete a tag and remove it from every question',
+    tag: 'Tags',
+    permission: 'tag:manage',
+    forbiddenMessage: 'Only moderators and admins can delete tags',
+    params: tagParams,
+    response: messageResponse,
+    errors: { 404: ['Tag not found'] },
+  }),
+  merge: endpoint({
+    method: 'POST',
+    path: '/api/tags/{name}/merge',
+    summary: 'Merge a tag into another; its questions get the target tag and it is deleted',
+    tag: 'Tags',
+    permission: 'tag:manage',
+    forbiddenMessage: 'Only moderators and admins can merge tags',
+    params: tagParams,
+    body: mergeTagBody,
+    response: tagResponse,
+    errors: {
+      400: ['A tag cannot be merged into itself'],
+      404: ['Tag not found'],
+    },
+  }),
+  suggest: endpoint({
+    method: 'POST',
+    path: '/api/tags/suggest',
+    summary: 'Suggest tags for a question being written',
+    tag: 'Tags',
+    body: suggestTagsBody,
+    response: z.object({ tags: z.array(z.string()) }),
+  }),
+};
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { courseSummarySchema, idParams, okResponse, requiredString, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+export const taskSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    content: z.string(),
+    completed: z.boolean(),
+    deadline: timestamp.nullable(),
+    userId: z.string(),
+    courseId: z.string().nullable(),
+    // Left out when a single task is fetched
+    course: courseSummarySchema.nullable().optional(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'Task' });
+
+// A deadline that isn't a valid date is dropped rather than rejected
+export const createTaskBody = z.object({
+  title: requiredString('Title is required'),
+  content: z.string().nullish(),
+  deadline: z.string().nullish(),
+  courseId: z.string().nullish(),
+});
+
+// An empty or invalid deadline clears it; courseId null moves the task out of its course
+export const updateTaskBody = z.object({
+  title: z.string().trim().min(1, 'Title is required').optional(),
+  content: z.string().nullish(),
+  completed: z.boolean({ error: 'completed must be true or false' }).optional(),
+  deadline: z.string().nullish(),
+  courseId: z.string().nullish(),
+});
+
+export type Task = z.infer<typeof taskSchema>;
+export type CreateTaskInput = z.input<typeof createTaskBody>;
+export type UpdateTaskInput = z.input<typeof updateTaskBody>;
+
+const taskResponse = z.object({ task: taskSchema });
+
+const COURSE_ERRORS = {
+  400: ['Course not found'],
+  403: ['You are not enrolled in this course'],
+};
+
+export const taskEndpoints = {
+  list: endpoint({
+    method: 'GET',
+    path: '/api/tasks',
+    summary: "List the current user's tasks",
+    tag: 'Tasks',
+    // A course id, or "mine" for tasks in any of the user's courses
+    query: z.object({ course: z.string().optional() }),
+    response: z.object({ tasks: z.array(taskSchema) }),
+  }),
+  create: endpoint({
+    method: 'POST',
+    path: '/api/tasks',
+    summary: 'Create a task',
+    tag: 'Tasks',
+    body: createTaskBody,
+    status: 201,
+    response: taskResponse,
+    errors: COURSE_ERRORS,
+  }),
+  get: endpoint({
+    method: 'GET',
+    path: '/api/tasks/{id}',
+    summary: "Get one of the current user's tasks",
+    tag: 'Tasks',
+    params: idParams,
+    response: taskResponse,
+  }),
+  update: endpoint({
+    method: 'PUT',
+    path: '/api/tasks/{id}',
+    summary: 'Update a task',
+    tag: 'Tasks',
+    params: idParams,
+    body: updateTaskBody,
+    response: taskResponse,
+    errors: COURSE_ERRORS,
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/tasks/{id}',
+    summary: 'Delete a task',
+    tag: 'Tasks',
+    params: idParams,
+    response: okResponse,
+  }),
+};
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { ROLES } from '../permissions';
+import { idParams, timestamp } from './common';
+import { endpoint } from './endpoint';
+
+export const roleSchema = z.enum(ROLES, { error: `Invalid role. Must be one of ${ROLES.join(', ')}` });
+
+export const userSchema = z
+  .object({
+    id: z.string(),
+    email: z.string(),
+    name: z.string().nullable(),
+    role: z.enum(ROLES),
+    emailVerified: z.boolean(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .meta({ id: 'User' });
+
+// The signed-in user as the session sees it
+export const sessionUserSchema = z
+  .object({
+    id: z.string(),
+    email: z.string(),
+    name: z.string().nullable(),
+    role: z.enum(ROLES),
+    emailVerified: z.boolean(),
+  })
+  .meta({ id: 'SessionUser' });
+
+export const mentionableUserSchema = z.object({ id: z.string(), name: z.string().nullable(), handle: z.string() });
+
+export const updateUserRoleBody = z.object({ role: roleSchema });
+
+export type User = z.infer<typeof userSchema>;
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+export type MentionableUser = z.infer<typeof mentionableUserSchema>;
+
+export const userEndpoints = {
+  mentions: endpoint({
+    method: 'GET',
+    path: '/api/users/mentions',
+    summary: 'Suggest users for @mention autocomplete',
+    tag: 'Users',
+    query: z.object({ q: z.string().default('') }),
+    response: z.object({ users: z.array(mentionableUserSchema) }),
+  }),
+  updateRole: endpoint({
+    method: 'PUT',
+    path: '/api/users/{id}',
+    summary: "Assign a user's role",
+    tag: 'Users',
+    permission: 'user:manage',
+    params: idParams,
+    body: updateUserRoleBody,
+    response: z.object({
+      success: z.literal(true),
+      message: z.string(),
+      user: z.object({ id: z.string(), email: z.string(), name: z.string().nullable(), role: z.enum(ROLES), createdAt: timestamp }),
+    }),
+  }),
+  delete: endpoint({
+    method: 'DELETE',
+    path: '/api/users/{id}',
+    summary: 'Delete a user; their questions stay without an author',
+    tag: 'Users',
+    permission: 'user:manage',
+    params: idParams,
+    response: z.object({ success: z.literal(true), message: z.string() }),
+  }),
+};
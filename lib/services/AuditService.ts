@@ -0,0 +1,43 @@
+import { IAuditService } from '../interfaces/IAuditService';
+import { IAuditEventRepository, AuditEventInput, AuditEventFilter } from '../interfaces/IAuditEventRepository';
+import { AuditEvent } from '../models/AuditEvent';
+import { AuditEventRepository } from '../repositories/AuditEventRepository';
+
+const MAX_EVENTS = 500;
+
+/**
+ * Service class for the auth audit trail
+ * Implements IAuditService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles audit logging
+ */
+export class AuditService implements IAuditService {
+  private auditEventRepository: IAuditEventRepository;
+
+  constructor(auditEventRepository?: IAuditEventRepository) {
+    this.auditEventRepository = auditEventRepository || new AuditEventRepository();
+  }
+
+  /**
+   * Record an event; a failure is logged rather than failing the request being audited
+   */
+  async record(event: AuditEventInput): Promise<void> {
+    try {
+      await this.auditEventRepository.create({
+        ...event,
+        email: event.email?.trim().toLowerCase() || null,
+        userAgent: event.userAgent?.slice(0, 500) ?? null,
+      });
+    } catch (error) {
+      console.error('Error recording audit event:', error);
+    }
+  }
+
+  /**
+   * Get the newest events for the admin audit log
+   */
+  async listEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const limit = Math.min(Math.max(filter.limit ?? 100, 1), MAX_EVENTS);
+    return await this.auditEventRepository.findRecent({ ...filter, limit });
+  }
+}
@@ -1,8 +1,29 @@
 import { IUserRepository } from '../interfaces/IUserRepository';
-import { IAuthService } from '../interfaces/IAuthService';
-import { hashPassword, verifyPassword, generateToken, setAuthToken, clearAuthToken } from '../auth';
+import { IAuthService, LoginResult, LoginChallengeKind } from '../interfaces/IAuthService';
+import { ISessionService } from '../interfaces/ISessionService';
+import { IEmailVerificationService } from '../interfaces/IEmailVerificationService';
+import { ISignupDomainService } from '../interfaces/ISignupDomainService';
+import { IAuditService } from '../interfaces/IAuditService';
+import { ITwoFactorService, TwoFactorEnrollment } from '../interfaces/ITwoFactorService';
+import { SessionDevice } from '../interfaces/ISessionService';
+import { ISsoService } from '../interfaces/ISsoService';
+import { SsoProfile } from '../interfaces/ISsoProvider';
+import {
+  hashPassword,
+  verifyPassword,
+  clearAuthToken,
+  getCurrentSession,
+  getRequestDevice,
+  setLoginChallenge,
+  getLoginChallenge,
+  clearLoginChallenge,
+} from '../auth';
 import { User } from '../models/User';
 
+// Consecutive wrong passwords before an account is locked, and for how long
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
 /**
  * Service class for authentication operations
  * Handles business logic for user authentication
@@ -12,17 +33,44 @@ import { User } from '../models/User';
  */
 export class AuthService implements IAuthService {
   private userRepository: IUserRepository;
+  private sessionService: ISessionService;
+  private emailVerificationService: IEmailVerificationService;
+  private signupDomainService: ISignupDomainService;
+  private auditService: IAuditService;
+  private twoFactorService: ITwoFactorService;
+  private ssoService: ISsoService;
 
-  constructor(userRepository?: IUserRepository) {
+  constructor(
+    userRepository?: IUserRepository,
+    sessionService?: ISessionService,
+    emailVerificationService?: IEmailVerificationService,
+    signupDomainService?: ISignupDomainService,
+    auditService?: IAuditService,
+    twoFactorService?: ITwoFactorService,
+    ssoService?: ISsoService
+  ) {
     // Dependency Injection - allows for testing with mock repositories
     // If not provided, create default implementation (backward compatibility)
     this.userRepository = userRepository || new (require('../repositories/UserRepository').UserRepository)();
+    this.sessionService = sessionService || new (require('./SessionService').SessionService)();
+    this.emailVerificationService =
+      emailVerificationService || new (require('./EmailVerificationService').EmailVerificationService)();
+    this.signupDomainService = signupDomainService || new (require('./SignupDomainService').SignupDomainService)();
+    this.auditService = auditService || new (require('./AuditService').AuditService)();
+    this.twoFactorService = twoFactorService || new (require('./TwoFactorService').TwoFactorService)();
+    this.ssoService = ssoService || new (require('./SsoService').SsoService)();
   }
 
   /**
-   * Register a new user
+   * Register a new user and email them a verification link
    */
   async signup(email: string, password: string, name?: string): Promise<{ user: User; token: string }> {
+    // The allow-list check, the stored account and the verification email all use this one address
+    email = email.trim().toLowerCase();
+
+    // Admins can restrict signups to campus email domains
+    await this.signupDomainService.assertEmailAllowed(email);
+
     // Check if user already exists
     const existingUser = await this.userRepository.findByEmail(email);
     if (existingUser) {
@@ -38,44 +86,203 @@ export class AuthService implements IAuthService {
       role: 'STUDENT',
     });
 
-    // Generate token
-    const token = generateToken(user.id, user.email, user.role);
+    // The account works right away, but posting and sharing wait for verification
+    try {
+      await this.emailVerificationService.sendVerification(user);
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
 
-    // Set auth token cookie
-    await setAuthToken(token);
+    // Start a session for this device and set the auth token cookie
+    const token = await this.sessionService.startSession(user, await getRequestDevice());
 
     return { user, token };
   }
 
   /**
    * Login user
+   * Repeated wrong passwords lock the account for a while; failures go to the audit trail
+   * With two-factor authentication on (or required for the role) no session starts until the second step
    */
-  async login(email: string, password: string): Promise<{ user: User; token: string }> {
+  async login(email: string, password: string): Promise<LoginResult> {
+    const device = await getRequestDevice();
+    const audit = { email, ipAddress: device.ipAddress, userAgent: device.userAgent };
+
     // Find user with password
     const userData = await this.userRepository.findWithPassword(email);
     if (!userData) {
+      await this.auditService.record({ ...audit, type: 'LOGIN_FAILED', detail: 'Unknown email' });
       throw new Error('Invalid email or password');
     }
 
+    const userId = userData.user.id;
+    const now = new Date();
+
+    // Locked accounts don't get a password check at all
+    if (userData.lockedUntil && userData.lockedUntil > now) {
+      await this.auditService.record({ ...audit, type: 'LOGIN_FAILED', userId, detail: 'Account locked' });
+      throw AuthService.lockedError(userData.lockedUntil, now);
+    }
+
     // Verify password
     const isValid = await verifyPassword(password, userData.password);
     if (!isValid) {
+      await this.recordFailedLogin(userId, email, device, 'Wrong password');
       throw new Error('Invalid email or password');
     }
 
-    // Generate token
-    const token = generateToken(userData.user.id, userData.user.email, userData.user.role);
+    return await this.completeFirstFactor(userData.user, device);
+  }
+
+  /**
+   * Login with an account from the SSO provider, creating or linking the local user on first use
+   * Two-factor settings and account lockouts apply the same as for password logins
+   */
+  async loginWithSso(profile: SsoProfile): Promise<LoginResult> {
+    const user = await this.ssoService.resolveUser(profile);
+    const device = await getRequestDevice();
+
+    const now = new Date();
+    const userData = await this.userRepository.findWithPassword(user.email);
+    if (userData?.lockedUntil && userData.lockedUntil > now) {
+      await this.auditService.record({
+        type: 'LOGIN_FAILED',
+        email: user.email,
+        userId: user.id,
+        ipAddress: device.ipAddress,
+        userAgent: device.userAgent,
+        detail: 'Account locked (SSO)',
+      });
+      throw AuthService.lockedError(userData.lockedUntil, now);
+    }
+
+    return await this.completeFirstFactor(user, device);
+  }
+
+  /**
+   * Finish signing in with an authenticator or recovery code
+   * Wrong codes count toward the same lockout as wrong passwords
+   */
+  async completeTwoFactorLogin(code: string): Promise<{ user: User; token: string }> {
+    const user = await this.getChallengedUser('verify');
+    const device = await getRequestDevice();
+
+    if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+      await this.recordFailedLogin(user.id, user.email, device, 'Wrong two-factor code');
+      throw new Error('Invalid authentication code');
+    }
+
+    await this.userRepository.clearFailedLogins(user.id);
+    await clearLoginChallenge();
+
+    const token = await this.sessionService.startSession(user, device);
+
+    return { user, token };
+  }
+
+  /**
+   * Start enrolling an authenticator app for a user whose role requires 2FA before they can sign in
+   */
+  async beginTwoFactorSetup(): Promise<TwoFactorEnrollment> {
+    const user = await this.getChallengedUser('setup');
+    return await this.twoFactorService.beginEnrollment(user);
+  }
+
+  /**
+   * Finish the required enrollment and sign in, returning the new recovery codes
+   */
+  async completeTwoFactorSetup(code: string): Promise<{ user: User; token: string; recoveryCodes: string[] }> {
+    const user = await this.getChallengedUser('setup');
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(user.id, code);
+
+    await this.userRepository.clearFailedLogins(user.id);
+    await clearLoginChallenge();
+
+    const token = await this.sessionService.startSession(user, await getRequestDevice());
+
+    return { user, token, recoveryCodes };
+  }
+
+  /**
+   * Start a session once the password (or SSO) step passed, unless a second factor is still owed
+   */
+  private async completeFirstFactor(user: User, device: SessionDevice): Promise<LoginResult> {
+    let twoFactor: LoginResult['twoFactor'] = null;
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      twoFactor = 'verify';
+    } else if (await this.twoFactorService.isRequiredForRole(user.role)) {
+      twoFactor = 'setup';
+    }
+
+    if (twoFactor) {
+      // Failed logins keep counting until the second factor is passed too
+      await setLoginChallenge(user.id, twoFactor);
+      return { user, token: null, twoFactor };
+    }
+
+    await this.userRepository.clearFailedLogins(user.id);
 
-    // Set auth token cookie
-    await setAuthToken(token);
+    // Start a session for this device and set the auth token cookie
+    const token = await this.sessionService.startSession(user, device);
 
-    return { user: userData.user, token };
+    return { user, token, twoFactor: null };
   }
 
   /**
-   * Logout user
+   * Get the user who passed the password step, checking they are at the expected second step
+   */
+  private async getChallengedUser(kind: LoginChallengeKind): Promise<User> {
+    const challenge = await getLoginChallenge();
+    const user = challenge?.kind === kind ? await this.userRepository.findById(challenge.userId) : null;
+    if (!user) {
+      throw new Error('Sign-in expired. Please sign in again');
+    }
+
+    // A lockout from wrong codes also ends the pending sign-in
+    const now = new Date();
+    const userData = await this.userRepository.findWithPassword(user.email);
+    if (userData?.lockedUntil && userData.lockedUntil > now) {
+      await clearLoginChallenge();
+      throw AuthService.lockedError(userData.lockedUntil, now);
+    }
+
+    return user;
+  }
+
+  /**
+   * Count a failed login, locking the account once there are too many in a row
+   */
+  private async recordFailedLogin(userId: string, email: string, device: SessionDevice, reason: string): Promise<void> {
+    const audit = { email, userId, ipAddress: device.ipAddress, userAgent: device.userAgent };
+    const failures = await this.userRepository.incrementFailedLogins(userId);
+    await this.auditService.record({ ...audit, type: 'LOGIN_FAILED', detail: `${reason} (${failures} in a row)` });
+
+    if (failures >= MAX_FAILED_LOGINS) {
+      await this.userRepository.lockAccount(userId, new Date(Date.now() + LOCKOUT_MS));
+      await this.auditService.record({
+        ...audit,
+        type: 'ACCOUNT_LOCKED',
+        detail: `Locked for ${LOCKOUT_MS / 60000} minutes after ${failures} failed logins`,
+      });
+    }
+  }
+
+  private static lockedError(lockedUntil: Date, now: Date): Error {
+    const minutes = Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000);
+    return new Error(`Account is temporarily locked. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`);
+  }
+
+  /**
+   * Logout user, revoking this device's session
    */
   async logout(): Promise<void> {
+    const session = await getCurrentSession();
+    if (session) {
+      await this.sessionService.revokeSession(session.userId, session.sessionId).catch(() => {
+        // Already revoked or expired; clearing the cookie is all that's left
+      });
+    }
+
     await clearAuthToken();
   }
 }
@@ -0,0 +1,151 @@
+import { ICommentRepository } from '../interfaces/ICommentRepository';
+import { ICommentService } from '../interfaces/ICommentService';
+import { IQuestionRepository } from '../interfaces/IQuestionRepository';
+import { IAnswerRepository } from '../interfaces/IAnswerRepository';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { INotificationService } from '../interfaces/INotificationService';
+import { Comment } from '../models/Comment';
+import { CommentRepository } from '../repositories/CommentRepository';
+import { QuestionRepository } from '../repositories/QuestionRepository';
+import { AnswerRepository } from '../repositories/AnswerRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { NotificationService } from './NotificationService';
+
+const MAX_COMMENT_LENGTH = 1000;
+const MENTION_PATTERN = /@([A-Za-z0-9._-]+)/g;
+
+/**
+ * Service class for Comment operations
+ * Handles business logic for threaded comments and @mentions
+ * Implements ICommentService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles comment business logic
+ */
+export class CommentService implements ICommentService {
+  private commentRepository: ICommentRepository;
+  private questionRepository: IQuestionRepository;
+  private answerRepository: IAnswerRepository;
+  private userRepository: IUserRepository;
+  private notificationService: INotificationService;
+
+  constructor(
+    commentRepository?: ICommentRepository,
+    questionRepository?: IQuestionRepository,
+    answerRepository?: IAnswerRepository,
+    userRepository?: IUserRepository,
+    notificationService?: INotificationService
+  ) {
+    this.commentRepository = commentRepository || new CommentRepository();
+    this.questionRepository = questionRepository || new QuestionRepository();
+    this.answerRepository = answerRepository || new AnswerRepository();
+    this.userRepository = userRepository || new UserRepository();
+    this.notificationService = notificationService || new NotificationService();
+  }
+
+  /**
+   * Get every comment on a question and its answers
+   */
+  async getCommentsForQuestion(questionId: string): Promise<Comment[]> {
+    return await this.commentRepository.findForQuestionThread(questionId);
+  }
+
+  /**
+   * Comment on a question, or reply to a comment on it
+   */
+  async addQuestionComment(
+    questionId: string,
+    userId: string,
+    body: string,
+    parentId: string | null = null
+  ): Promise<Comment> {
+    const question = await this.questionRepository.findById(questionId);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    return await this.addComment({ questionId, answerId: null }, userId, body, parentId);
+  }
+
+  /**
+   * Comment on an answer, or reply to a comment on it
+   */
+  async addAnswerComment(
+    answerId: string,
+    userId: string,
+    body: string,
+    parentId: string | null = null
+  ): Promise<Comment> {
+    const answer = await this.answerRepository.findById(answerId);
+    if (!answer) {
+      throw new Error('Answer not found');
+    }
+
+    return await this.addComment({ questionId: null, answerId }, userId, body, parentId);
+  }
+
+  /**
+   * Delete a comment and its replies
+   */
+  async deleteComment(id: string): Promise<void> {
+    const comment = await this.commentRepository.findById(id);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    await this.commentRepository.delete(id);
+  }
+
+  /**
+   * Validate and store a comment on a question or answer, then notify the people involved
+   */
+  private async addComment(
+    target: { questionId: string | null; answerId: string | null },
+    userId: string,
+    body: string,
+    parentId: string | null
+  ): Promise<Comment> {
+    const text = body.trim();
+    if (!text) {
+      throw new Error('Comment cannot be empty');
+    }
+
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`Comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    if (parentId) {
+      const parent = await this.commentRepository.findById(parentId);
+      if (!parent) {
+        throw new Error('Comment not found');
+      }
+
+      if (parent.isReply() || parent.questionId !== target.questionId || parent.answerId !== target.answerId) {
+        throw new Error('Replies can only be one level deep');
+      }
+    }
+
+    const mentionedUserIds = await this.resolveMentions(text, userId);
+
+    const comment = await this.commentRepository.create({
+      body: text,
+      ...target,
+      parentId,
+      mentionedUserIds,
+      userId,
+    });
+
+    await this.notificationService.notifyComment(comment);
+    return comment;
+  }
+
+  /**
+   * Look up the users @mentioned in a comment body, ignoring the author
+   */
+  private async resolveMentions(body: string, authorId: string): Promise<string[]> {
+    const handles = [...new Set([...body.matchAll(MENTION_PATTERN)].map((m) => m[1].replace(/\.+$/, '').toLowerCase()))];
+    if (handles.length === 0) return [];
+
+    const users = await this.userRepository.findByMentionHandles(handles);
+    return users.map((u) => u.id).filter((id) => id !== authorId);
+  }
+}
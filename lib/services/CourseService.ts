@@ -0,0 +1,265 @@
+import { ICourseRepository } from '../interfaces/ICourseRepository';
+import { ICourseService, EnrollmentImportResult } from '../interfaces/ICourseService';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { Course, MAX_COURSE_CODE_LENGTH } from '../models/Course';
+import { Enrollment } from '../models/Enrollment';
+import { can } from '../permissions';
+import { CourseRepository } from '../repositories/CourseRepository';
+import { UserRepository } from '../repositories/UserRepository';
+
+// Large classes fit comfortably; anything bigger is more likely a wrong file
+const MAX_CSV_ROWS = 2000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Service class for Course operations
+ * Handles business logic for courses, enrollments and scoping content to a course
+ * Implements ICourseService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles course business logic
+ */
+export class CourseService implements ICourseService {
+  private courseRepository: ICourseRepository;
+  private userRepository: IUserRepository;
+
+  constructor(courseRepository?: ICourseRepository, userRepository?: IUserRepository) {
+    this.courseRepository = courseRepository || new CourseRepository();
+    this.userRepository = userRepository || new UserRepository();
+  }
+
+  /**
+   * Get all courses
+   */
+  async listCourses(): Promise<Course[]> {
+    return await this.courseRepository.findAll();
+  }
+
+  /**
+   * Get a course by ID
+   */
+  async getCourse(id: string): Promise<Course> {
+    const course = await this.courseRepository.findById(id);
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    return course;
+  }
+
+  /**
+   * Get the courses a user can scope content to: every course for admins and teaching assistants, enrolled ones otherwise
+   */
+  async getCoursesForUser(user: { id: string; role: string }): Promise<Course[]> {
+    if (can(user, 'course:view-all')) {
+      return await this.courseRepository.findAll();
+    }
+
+    return await this.courseRepository.findByUserId(user.id);
+  }
+
+  /**
+   * Turn a `course` query parameter into the course IDs to filter on
+   * "mine" means every course the user is enrolled in (none when signed out); no value means no filter
+   */
+  async resolveCourseFilter(course: string | null, userId?: string): Promise<string[] | undefined> {
+    if (!course) return undefined;
+    if (course !== 'mine') return [course];
+    if (!userId) return [];
+
+    const courses = await this.courseRepository.findByUserId(userId);
+    return courses.map((c) => c.id);
+  }
+
+  /**
+   * Validate the course given for new content; students may only use courses they are enrolled in
+   * Returns null when no course was given
+   */
+  async resolveCourseForContent(user: { id: string; role: string }, courseId: unknown): Promise<string | null> {
+    if (courseId === undefined || courseId === null || courseId === '') return null;
+    if (typeof courseId !== 'string') {
+      throw new Error('Course not found');
+    }
+
+    const course = await this.getCourse(courseId);
+    if (!can(user, 'course:view-all') && !(await this.courseRepository.isEnrolled(course.id, user.id))) {
+      throw new Error('You are not enrolled in this course');
+    }
+
+    return course.id;
+  }
+
+  /**
+   * Create a course
+   */
+  async createCourse(data: {
+    code: string;
+    name: string;
+    description?: string | null;
+    term?: string | null;
+  }): Promise<Course> {
+    const code = await this.validateCode(data.code);
+    if (!data.name?.trim()) {
+      throw new Error('Course name is required');
+    }
+
+    return await this.courseRepository.create({ ...data, code });
+  }
+
+  /**
+   * Update a course's details
+   */
+  async updateCourse(
+    id: string,
+    data: { code?: string; name?: string; description?: string | null; term?: string | null }
+  ): Promise<Course> {
+    const course = await this.getCourse(id);
+    const code = data.code !== undefined ? await this.validateCode(data.code, course.id) : undefined;
+    if (data.name !== undefined && !data.name.trim()) {
+      throw new Error('Course name is required');
+    }
+
+    return await this.courseRepository.update(id, {
+      code,
+      name: data.name,
+      description: data.description,
+      term: data.term,
+    });
+  }
+
+  /**
+   * Delete a course; its questions, notes, tasks and quizzes stay, without a course
+   */
+  async deleteCourse(id: string): Promise<void> {
+    await this.getCourse(id);
+    await this.courseRepository.delete(id);
+  }
+
+  /**
+   * Get a course's enrolled students
+   */
+  async getEnrollments(courseId: string): Promise<Enrollment[]> {
+    await this.getCourse(courseId);
+    return await this.courseRepository.findEnrollments(courseId);
+  }
+
+  /**
+   * Enroll students from CSV text
+   * Rows are `email[,section]`; a header row naming an "email" column (and optionally "section") is also accepted
+   */
+  async enrollFromCsv(courseId: string, csv: string): Promise<EnrollmentImportResult> {
+    await this.getCourse(courseId);
+
+    const rows = this.parseCsv(csv);
+    if (rows.length === 0) {
+      throw new Error('CSV is empty');
+    }
+
+    let emailColumn = 0;
+    let sectionColumn = 1;
+    let firstRow = 0;
+    const header = rows[0].cells.map((cell) => cell.toLowerCase());
+    if (header.includes('email')) {
+      emailColumn = header.indexOf('email');
+      sectionColumn = header.indexOf('section');
+      firstRow = 1;
+    }
+
+    if (rows.length - firstRow > MAX_CSV_ROWS) {
+      throw new Error(`CSV may contain at most ${MAX_CSV_ROWS} students`);
+    }
+
+    const invalidRows: number[] = [];
+    const sectionByEmail = new Map<string, string | null>();
+    for (const row of rows.slice(firstRow)) {
+      const email = (row.cells[emailColumn] || '').toLowerCase();
+      if (!EMAIL_PATTERN.test(email)) {
+        invalidRows.push(row.line);
+        continue;
+      }
+      sectionByEmail.set(email, (sectionColumn >= 0 && row.cells[sectionColumn]) || null);
+    }
+
+    const users = await this.userRepository.findByEmails(Array.from(sectionByEmail.keys()));
+    const foundEmails = new Set(users.map((user) => user.email.toLowerCase()));
+    const enrolled = await this.courseRepository.enroll(
+      courseId,
+      users.map((user) => ({ userId: user.id, section: sectionByEmail.get(user.email.toLowerCase()) }))
+    );
+
+    return {
+      enrolled,
+      alreadyEnrolled: users.length - enrolled,
+      unknownEmails: Array.from(sectionByEmail.keys()).filter((email) => !foundEmails.has(email)),
+      invalidRows,
+    };
+  }
+
+  /**
+   * Remove a student from a course
+   */
+  async unenroll(courseId: string, userId: string): Promise<void> {
+    if (!(await this.courseRepository.isEnrolled(courseId, userId))) {
+      throw new Error('Enrollment not found');
+    }
+
+    await this.courseRepository.unenroll(courseId, userId);
+  }
+
+  /**
+   * Normalise a course code and make sure no other course uses it
+   */
+  private async validateCode(code: string, courseId?: string): Promise<string> {
+    const normalized = Course.normalizeCode(code || '');
+    if (!Course.isValidCode(normalized)) {
+      throw new Error(
+        `Course codes may only contain letters, digits and hyphens (at most ${MAX_COURSE_CODE_LENGTH} characters)`
+      );
+    }
+
+    const existing = await this.courseRepository.findByCode(normalized);
+    if (existing && existing.id !== courseId) {
+      throw new Error('A course with that code already exists');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Split CSV text into trimmed cells, honouring double-quoted fields; blank lines are skipped
+   */
+  private parseCsv(csv: string): { line: number; cells: string[] }[] {
+    return csv
+      .split(/\r?\n/)
+      .map((text, index) => ({ line: index + 1, text }))
+      .filter(({ text }) => text.trim().length > 0)
+      .map(({ line, text }) => {
+        const cells: string[] = [];
+        let cell = '';
+        let quoted = false;
+
+        for (let i = 0; i < text.length; i++) {
+          const char = text[i];
+          if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+              cell += '"';
+              i++;
+            } else if (char === '"') {
+              quoted = false;
+            } else {
+              cell += char;
+            }
+          } else if (char === '"') {
+            quoted = true;
+          } else if (char === ',' || char === ';') {
+            cells.push(cell.trim());
+            cell = '';
+          } else {
+            cell += char;
+          }
+        }
+        cells.push(cell.trim());
+
+        return { line, cells };
+      });
+  }
+}
@@ -0,0 +1,150 @@
+import { IDigestService, DigestContent } from '../interfaces/IDigestService';
+import {
+  INotificationPreferenceRepository,
+  NotificationPreferenceInput,
+} from '../interfaces/INotificationPreferenceRepository';
+import { INotificationRepository } from '../interfaces/INotificationRepository';
+import { ITaskRepository } from '../interfaces/ITaskRepository';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { IJobRepository } from '../interfaces/IJobRepository';
+import { NotificationPreference, DIGEST_FREQUENCIES } from '../models/NotificationPreference';
+import { NotificationPreferenceRepository } from '../repositories/NotificationPreferenceRepository';
+import { NotificationRepository } from '../repositories/NotificationRepository';
+import { TaskRepository } from '../repositories/TaskRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { JobRepository } from '../repositories/JobRepository';
+import { EmailService } from '../email';
+
+// A digest counts as due this much before a full period has passed, so a late run does not push every later one back
+const DIGEST_SLACK_MS = 60 * 60 * 1000;
+
+/**
+ * Service class for email digests
+ * Handles digest preferences, decides who is due and builds the daily or weekly email
+ * Implements IDigestService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles digest business logic
+ */
+export class DigestService implements IDigestService {
+  private preferenceRepository: INotificationPreferenceRepository;
+  private notificationRepository: INotificationRepository;
+  private taskRepository: ITaskRepository;
+  private userRepository: IUserRepository;
+  private jobRepository: IJobRepository;
+
+  constructor(
+    preferenceRepository?: INotificationPreferenceRepository,
+    notificationRepository?: INotificationRepository,
+    taskRepository?: ITaskRepository,
+    userRepository?: IUserRepository,
+    jobRepository?: IJobRepository
+  ) {
+    this.preferenceRepository = preferenceRepository || new NotificationPreferenceRepository();
+    this.notificationRepository = notificationRepository || new NotificationRepository();
+    this.taskRepository = taskRepository || new TaskRepository();
+    this.userRepository = userRepository || new UserRepository();
+    this.jobRepository = jobRepository || new JobRepository();
+  }
+
+  /**
+   * Get a user's preferences, falling back to the defaults when none were saved
+   */
+  async getPreferences(userId: string): Promise<NotificationPreference> {
+    return (await this.preferenceRepository.findById(userId)) || new NotificationPreference(userId);
+  }
+
+  /**
+   * Validate and save a user's preferences
+   */
+  async updatePreferences(userId: string, data: NotificationPreferenceInput): Promise<NotificationPreference> {
+    if (data.digestFrequency !== undefined && !DIGEST_FREQUENCIES.includes(data.digestFrequency)) {
+      throw new Error(`Digest frequency must be one of ${DIGEST_FREQUENCIES.join(', ')}`);
+    }
+
+    if (
+      (data.digestAnswers !== undefined && typeof data.digestAnswers !== 'boolean') ||
+      (data.digestDeadlines !== undefined && typeof data.digestDeadlines !== 'boolean')
+    ) {
+      throw new Error('Digest sections must be true or false');
+    }
+
+    return await this.preferenceRepository.upsert(userId, {
+      ...(data.digestFrequency !== undefined && { digestFrequency: data.digestFrequency }),
+      ...(data.digestAnswers !== undefined && { digestAnswers: data.digestAnswers }),
+      ...(data.digestDeadlines !== undefined && { digestDeadlines: data.digestDeadlines }),
+    });
+  }
+
+  /**
+   * Queue a send-digest job for every user whose digest period has passed
+   * Returns how many jobs were added; users already queued are skipped
+   */
+  async queueDueDigests(now: Date = new Date()): Promise<number> {
+    let queued = 0;
+
+    for (const frequency of ['DAILY', 'WEEKLY'] as const) {
+      const periodMs = NotificationPreference.periodMs(frequency)!;
+      const due = await this.preferenceRepository.findDueForDigest(
+        frequency,
+        new Date(now.getTime() - periodMs + DIGEST_SLACK_MS)
+      );
+
+      for (const preference of due) {
+        if (!preference.wantsDigest()) continue;
+        const job = await this.jobRepository.enqueue({
+          type: 'send-digest',
+          key: preference.userId,
+          payload: { userId: preference.userId },
+        });
+        if (job) queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Collect a user's digest: answers to their questions since the last digest and tasks due in the next period
+   * Returns null when the user has digests turned off
+   */
+  async buildDigest(userId: string, now: Date = new Date()): Promise<DigestContent | null> {
+    const preference = await this.preferenceRepository.findById(userId);
+    if (!preference || !preference.wantsDigest()) return null;
+
+    const periodMs = preference.getDigestPeriodMs()!;
+    const since = preference.lastDigestAt ?? new Date(now.getTime() - periodMs);
+
+    const answers = preference.digestAnswers
+      ? await this.notificationRepository.findByTypeBetween(userId, 'ANSWER', since, now)
+      : [];
+    const tasks = preference.digestDeadlines
+      ? await this.taskRepository.findOpenWithDeadlineBetween(now, new Date(now.getTime() + periodMs), userId)
+      : [];
+
+    return {
+      frequency: preference.digestFrequency as DigestContent['frequency'],
+      answers: answers.map((n) => ({ title: n.title, question: n.body, link: n.link, createdAt: n.createdAt })),
+      deadlines: tasks.map((t) => ({ title: t.title, deadline: t.deadline! })),
+    };
+  }
+
+  /**
+   * Email a user their digest and move their digest period on
+   * Nothing is emailed when there is nothing to report; returns whether an email went out
+   */
+  async sendDigest(userId: string, now: Date = new Date()): Promise<boolean> {
+    const digest = await this.buildDigest(userId, now);
+    if (!digest) return false;
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) return false;
+
+    const hasContent = digest.answers.length > 0 || digest.deadlines.length > 0;
+    if (hasContent) {
+      await EmailService.sendDigestEmail(user.email, user.name, digest);
+    }
+
+    await this.preferenceRepository.markDigestSent(userId, now);
+    return hasContent;
+  }
+}
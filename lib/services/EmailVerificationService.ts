@@ -0,0 +1,94 @@
+import { createHash, randomBytes } from 'crypto';
+import { IEmailVerificationService } from '../interfaces/IEmailVerificationService';
+import { IEmailVerificationTokenRepository } from '../interfaces/IEmailVerificationTokenRepository';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { User } from '../models/User';
+import { EmailVerificationTokenRepository } from '../repositories/EmailVerificationTokenRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { EmailService } from '../email';
+
+const VERIFICATION_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+// Stops the "resend" button from being used to flood an inbox
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Service class for verifying the email address of new signups
+ * Implements IEmailVerificationService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles email verification logic
+ */
+export class EmailVerificationService implements IEmailVerificationService {
+  private tokenRepository: IEmailVerificationTokenRepository;
+  private userRepository: IUserRepository;
+
+  constructor(tokenRepository?: IEmailVerificationTokenRepository, userRepository?: IUserRepository) {
+    this.tokenRepository = tokenRepository || new EmailVerificationTokenRepository();
+    this.userRepository = userRepository || new UserRepository();
+  }
+
+  /**
+   * Email a new verification link, replacing any earlier one
+   */
+  async sendVerification(user: User): Promise<void> {
+    const now = new Date();
+    const token = randomBytes(32).toString('hex');
+
+    await this.tokenRepository.invalidateForUser(user.id, now);
+    await this.tokenRepository.create({
+      userId: user.id,
+      tokenHash: EmailVerificationService.hashToken(token),
+      expiresAt: new Date(now.getTime() + VERIFICATION_TOKEN_TTL_MS),
+    });
+
+    await EmailService.sendVerificationEmail(user.email, token, user.name);
+  }
+
+  /**
+   * Send another link to a user who hasn't verified yet
+   */
+  async resendVerification(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.isEmailVerified()) {
+      throw new Error('Email is already verified');
+    }
+
+    const latest = await this.tokenRepository.findLatestByUserId(userId);
+    if (latest && Date.now() - latest.createdAt.getTime() < RESEND_COOLDOWN_MS) {
+      throw new Error('Please wait a minute before requesting another verification email');
+    }
+
+    await this.sendVerification(user);
+  }
+
+  /**
+   * Mark the address verified using the token from a verification link
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const verificationToken = await this.tokenRepository.findByTokenHash(EmailVerificationService.hashToken(token));
+    const now = new Date();
+
+    if (!verificationToken || !(await this.tokenRepository.consume(verificationToken.id, now))) {
+      throw new Error('Verification link is invalid or has expired');
+    }
+
+    await this.userRepository.markEmailVerified(verificationToken.userId, now);
+
+    const user = await this.userRepository.findById(verificationToken.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Hash a token for storage
+   */
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
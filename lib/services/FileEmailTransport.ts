@@ -0,0 +1,33 @@
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { EmailMessage, IEmailTransport } from '../interfaces/IEmailTransport';
+import { MimeMessage } from '../utils/MimeMessage';
+
+/**
+ * Email transport that writes each email to a folder as an .eml file instead of sending it
+ * Open the files in any mail client to check templates during development
+ * Implements IEmailTransport interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles delivery
+ */
+export class FileEmailTransport implements IEmailTransport {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Write one email to the folder
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const now = new Date();
+    const recipient = MimeMessage.address(message.to).replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${now.toISOString().replace(/[:.]/g, '-')}-${recipient}-${randomBytes(3).toString('hex')}.eml`);
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(file, MimeMessage.build(message, now), 'utf8');
+
+    console.log(`Email to ${message.to} written to ${file}`);
+  }
+}
@@ -0,0 +1,199 @@
+import { IFlashcardRepository } from '../interfaces/IFlashcardRepository';
+import { IFlashcardService } from '../interfaces/IFlashcardService';
+import { IQuizRepository } from '../interfaces/IQuizRepository';
+import { Flashcard } from '../models/Flashcard';
+import { FlashcardDeck } from '../models/FlashcardDeck';
+import { FlashcardRepository } from '../repositories/FlashcardRepository';
+import { QuizRepository } from '../repositories/QuizRepository';
+
+const QUIZ_MISSES_DECK = 'Quiz Misses';
+const DEFAULT_REVIEW_LIMIT = 20;
+
+/**
+ * Service class for Flashcard operations
+ * Handles business logic for decks, card creation and spaced-repetition reviews
+ * Implements IFlashcardService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles flashcard business logic
+ */
+export class FlashcardService implements IFlashcardService {
+  private flashcardRepository: IFlashcardRepository;
+  private quizRepository: IQuizRepository;
+
+  constructor(flashcardRepository?: IFlashcardRepository, quizRepository?: IQuizRepository) {
+    this.flashcardRepository = flashcardRepository || new FlashcardRepository();
+    this.quizRepository = quizRepository || new QuizRepository();
+  }
+
+  /**
+   * Get a user's decks with card and due counts
+   */
+  async getDecks(userId: string): Promise<FlashcardDeck[]> {
+    return await this.flashcardRepository.findDecksByUserId(userId);
+  }
+
+  /**
+   * Create a deck, or return the existing deck with the same name
+   */
+  async createDeck(userId: string, name: string, description: string | null = null): Promise<FlashcardDeck> {
+    if (!name.trim()) {
+      throw new Error('Deck name is required');
+    }
+
+    return await this.flashcardRepository.findOrCreateDeck(userId, name, description);
+  }
+
+  /**
+   * Delete a deck owned by the user, together with its cards
+   */
+  async deleteDeck(deckId: string, userId: string): Promise<void> {
+    await this.getDeckForUser(deckId, userId);
+    await this.flashcardRepository.deleteDeck(deckId);
+  }
+
+  /**
+   * Add a hand-written card to one of the user's decks
+   */
+  async addCard(userId: string, deckId: string, front: string, back: string): Promise<Flashcard> {
+    if (!front.trim() || !back.trim()) {
+      throw new Error('Both sides of a card are required');
+    }
+
+    await this.getDeckForUser(deckId, userId);
+
+    return await this.flashcardRepository.create({
+      front,
+      back,
+      source: 'MANUAL',
+      deckId,
+      userId,
+    });
+  }
+
+  /**
+   * Add cards extracted from the user's notes
+   */
+  async addCardsFromNotes(
+    userId: string,
+    deckId: string,
+    cards: { front: string; back: string; sourceNoteId: string | null }[]
+  ): Promise<number> {
+    await this.getDeckForUser(deckId, userId);
+
+    return await this.flashcardRepository.createMany(
+      cards
+        .filter((card) => card.front.trim() && card.back.trim())
+        .map((card) => ({
+          ...card,
+          source: 'NOTE' as const,
+          deckId,
+          userId,
+        }))
+    );
+  }
+
+  /**
+   * Turn the questions a user got wrong in an attempt into cards
+   * Cards go to the user's "Quiz Misses" deck; a question only ever produces one card
+   */
+  async addCardsFromQuizMisses(quizId: string, userId: string, answers: number[]): Promise<number> {
+    const quiz = await this.quizRepository.findById(quizId);
+    if (!quiz || !quiz.belongsTo(userId)) {
+      throw new Error('Quiz not found');
+    }
+
+    const missed = quiz.questions.filter((q, index) => !q.isCorrect(answers[index]));
+    if (missed.length === 0) return 0;
+
+    const deck = await this.flashcardRepository.findOrCreateDeck(
+      userId,
+      QUIZ_MISSES_DECK,
+      'Questions you answered incorrectly in quizzes'
+    );
+
+    return await this.flashcardRepository.createMany(
+      missed.map((q) => ({
+        front: q.question,
+        back: q.explanation
+          ? `${q.options[q.correctAnswer]}\n\n${q.explanation}`
+          : q.options[q.correctAnswer],
+        source: 'QUIZ' as const,
+        deckId: deck.id,
+        userId,
+        sourceNoteId: q.sourceNoteId,
+        sourceQuizQuestionId: q.id,
+      }))
+    );
+  }
+
+  /**
+   * Delete a card owned by the user
+   */
+  async deleteCard(cardId: string, userId: string): Promise<void> {
+    await this.getCardForUser(cardId, userId);
+    await this.flashcardRepository.delete(cardId);
+  }
+
+  /**
+   * Get cards due for review, optionally limited to one deck
+   */
+  async getDueCards(userId: string, deckId?: string, limit: number = DEFAULT_REVIEW_LIMIT): Promise<Flashcard[]> {
+    if (deckId) {
+      await this.getDeckForUser(deckId, userId);
+    }
+
+    return await this.flashcardRepository.findDue(userId, limit, deckId);
+  }
+
+  /**
+   * Grade a review (0-5) and reschedule the card
+   */
+  async reviewCard(cardId: string, userId: string, grade: number): Promise<Flashcard> {
+    if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+      throw new Error('Grade must be an integer from 0 to 5');
+    }
+
+    const card = await this.getCardForUser(cardId, userId);
+    card.review(grade);
+
+    return await this.flashcardRepository.update(card.id, {
+      ease: card.ease,
+      interval: card.interval,
+      repetitions: card.repetitions,
+      dueAt: card.dueAt,
+      lastReviewedAt: card.lastReviewedAt,
+    });
+  }
+
+  /**
+   * Get a deck, making sure it belongs to the user
+   */
+  private async getDeckForUser(deckId: string, userId: string): Promise<FlashcardDeck> {
+    const deck = await this.flashcardRepository.findDeckById(deckId);
+    if (!deck) {
+      throw new Error('Deck not found');
+    }
+
+    if (!deck.belongsTo(userId)) {
+      throw new Error('You can only access your own flashcards');
+    }
+
+    return deck;
+  }
+
+  /**
+   * Get a card, making sure it belongs to the user
+   */
+  private async getCardForUser(cardId: string, userId: string): Promise<Flashcard> {
+    const card = await this.flashcardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Flashcard not found');
+    }
+
+    if (!card.belongsTo(userId)) {
+      throw new Error('You can only access your own flashcards');
+    }
+
+    return card;
+  }
+}
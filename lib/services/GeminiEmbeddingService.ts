@@ -1,18 +1,18 @@
 import { IEmbeddingService } from '../interfaces/IEmbeddingService';
 
 /**
- * Service class for generating text embeddings
- * Handles AI embedding generation using Gemini API
+ * Service class for generating text embeddings with the Gemini API
  * Implements IEmbeddingService interface - follows Interface Segregation Principle (ISP)
  * Follows Single Responsibility Principle (SRP) - only handles embedding generation
  */
-export class EmbeddingService implements IEmbeddingService {
+export class GeminiEmbeddingService implements IEmbeddingService {
   private readonly apiKey: string | undefined;
-  private readonly model: string = 'text-embedding-004';
+  private readonly model: string;
   private readonly dimensions: number = 768;
 
-  constructor() {
-    this.apiKey = process.env.GEMINI_API_KEY;
+  constructor(apiKey: string | undefined = process.env.GEMINI_API_KEY, model: string = 'text-embedding-004') {
+    this.apiKey = apiKey;
+    this.model = model;
   }
 
   /**
@@ -74,5 +74,11 @@ export class EmbeddingService implements IEmbeddingService {
   getDimensions(): number {
     return this.dimensions;
   }
-}
 
+  /**
+   * Get the provider name stored next to each vector
+   */
+  getProviderName(): string {
+    return `gemini:${this.model}`;
+  }
+}
@@ -0,0 +1,70 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ITagSuggestionService } from '../interfaces/ITagSuggestionService';
+
+// Keep prompts small; a question plus the tag vocabulary is plenty
+const MAX_TEXT_CHARS = 4000;
+const MAX_KNOWN_TAGS = 200;
+
+/**
+ * Service class for suggesting question tags with the Gemini API
+ * Implements ITagSuggestionService interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only turns question text into candidate tag names
+ */
+export class GeminiTagSuggestionService implements ITagSuggestionService {
+  private readonly apiKey: string | undefined;
+  private readonly model: string;
+
+  constructor(apiKey: string | undefined = process.env.GEMINI_API_KEY, model: string = 'gemini-2.5-flash') {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  /**
+   * Ask the model for tags, returning raw names (callers normalise and validate them)
+   */
+  async suggestTags(text: string, knownTags: string[], limit: number): Promise<string[]> {
+    if (!this.apiKey) {
+      throw new Error('AI is not configured. Missing GEMINI_API_KEY.');
+    }
+
+    const model = new GoogleGenerativeAI(this.apiKey).getGenerativeModel({ model: this.model });
+    const vocabulary = knownTags.slice(0, MAX_KNOWN_TAGS).join(', ');
+
+    const prompt = `You label student questions with topic tags.
+
+Return ONLY a JSON array (no markdown, no extra text) of at most ${limit} tags, for example ["linear-algebra", "eigenvalues"].
+
+Rules:
+1. Tags are short topics: lowercase, words joined by hyphens, at most 30 characters
+2. Prefer tags from the existing list when one fits; only invent a tag when none does
+3. Go from the broad subject to the specific concept; skip generic tags like "homework" or "question"
+
+Existing tags: ${vocabulary || '(none yet)'}
+
+--- Question ---
+${text.slice(0, MAX_TEXT_CHARS)}
+--- End of question ---`;
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    return this.parseTags(response.text()).slice(0, limit);
+  }
+
+  /**
+   * Pull the JSON array of tag names out of the model's reply
+   */
+  private parseTags(text: string): string[] {
+    const cleanedText = text.trim().replace(/```json\s*/g, '').replace(/```\s*/g, '');
+    const jsonMatch = cleanedText.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error('No JSON array found in tag suggestion response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Invalid tag suggestion response');
+    }
+
+    return parsed.filter((tag): tag is string => typeof tag === 'string');
+  }
+}
@@ -0,0 +1,67 @@
+import { IEmbeddingService } from '../interfaces/IEmbeddingService';
+
+/**
+ * Service class for generating text embeddings locally by feature hashing
+ * Words and word pairs are hashed into a fixed number of buckets and the result is L2-normalised.
+ * Deterministic and offline, so it suits tests and development; it only captures word overlap, not meaning.
+ * Implements IEmbeddingService interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles embedding generation
+ */
+export class HashingEmbeddingService implements IEmbeddingService {
+  private readonly dimensions: number;
+
+  constructor(dimensions: number = 768) {
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Generate embedding for text
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    if (!text || !text.trim()) {
+      throw new Error('Text is required for embedding generation');
+    }
+
+    const tokens = text
+      .replace(/<[^>]+>/g, ' ')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const feature of features) {
+      const hash = this.hash(feature);
+      // The top bit picks the sign so unrelated collisions tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Get embedding dimensions
+   */
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  /**
+   * Get the provider name stored next to each vector
+   */
+  getProviderName(): string {
+    return 'hashing';
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,99 @@
+import { IJobRepository } from '../interfaces/IJobRepository';
+import { IJobWorker, JobHandler, JobRunSummary, ScheduledTask } from '../interfaces/IJobWorker';
+import { Job, JobType } from '../models/Job';
+import { JobRepository } from '../repositories/JobRepository';
+
+const DEFAULT_BATCH_SIZE = 10;
+// A job still running after this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Worker that drains the persisted job queue
+ * Handlers are registered per job type; failures are retried with backoff until a job runs out of attempts
+ * Scheduled tasks run every interval before the queue is drained; schedules live in memory, so each starts on the first pass
+ * Implements IJobWorker interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only schedules and records job runs; the work lives in handlers
+ */
+export class JobWorker implements IJobWorker {
+  private jobRepository: IJobRepository;
+  private handlers = new Map<JobType, JobHandler>();
+  private schedules: { name: string; intervalMs: number; task: ScheduledTask; lastRunAt: number | null }[] = [];
+
+  constructor(jobRepository?: IJobRepository) {
+    this.jobRepository = jobRepository || new JobRepository();
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  register(type: JobType, handler: JobHandler): this {
+    this.handlers.set(type, handler);
+    return this;
+  }
+
+  /**
+   * Run a task every intervalMs, e.g. a sweep that queues jobs
+   */
+  schedule(name: string, intervalMs: number, task: ScheduledTask): this {
+    this.schedules.push({ name, intervalMs, task, lastRunAt: null });
+    return this;
+  }
+
+  /**
+   * Run the scheduled tasks that are due, then claim a batch of due jobs and run them one after another
+   */
+  async runOnce(limit: number = DEFAULT_BATCH_SIZE): Promise<JobRunSummary> {
+    await this.runSchedules();
+
+    const summary: JobRunSummary = { completed: 0, retried: 0, failed: 0 };
+    const jobs = await this.jobRepository.claim([...this.handlers.keys()], limit, STALE_LOCK_MS);
+
+    for (const job of jobs) {
+      try {
+        await this.handlers.get(job.type)!(job);
+        await this.jobRepository.complete(job.id);
+        summary.completed++;
+      } catch (error: any) {
+        const retryAt = job.canRetry() ? job.nextRetryAt() : null;
+        await this.jobRepository.fail(job.id, error?.message || String(error), retryAt);
+        this.logFailure(job, error, retryAt);
+        if (retryAt) {
+          summary.retried++;
+        } else {
+          summary.failed++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Run every scheduled task whose interval has passed
+   */
+  private async runSchedules(now: number = Date.now()): Promise<void> {
+    for (const schedule of this.schedules) {
+      if (schedule.lastRunAt !== null && now - schedule.lastRunAt < schedule.intervalMs) continue;
+
+      schedule.lastRunAt = now;
+      try {
+        await schedule.task();
+      } catch (error) {
+        console.error(`Scheduled task ${schedule.name} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Log a failed attempt and whether it will be retried
+   */
+  private logFailure(job: Job, error: any, retryAt: Date | null): void {
+    const attempt = `${job.type} ${job.key ?? job.id} (attempt ${job.attempts}/${job.maxAttempts})`;
+    if (retryAt) {
+      console.warn(`Job ${attempt} failed, retrying at ${retryAt.toISOString()}:`, error?.message || error);
+    } else {
+      console.error(`Job ${attempt} failed permanently:`, error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { IRateLimitStore, RateLimitHit } from '../interfaces/IRateLimitStore';
+
+// Expired counters are swept on a hit at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Rate limit store that keeps counters in this process's memory
+ * Counters are per instance and lost on restart; use the Postgres store when running several instances
+ * Implements IRateLimitStore interface - follows Interface Segregation Principle (ISP)
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+  private counters = new Map<string, RateLimitHit>();
+  private lastSweep = 0;
+
+  /**
+   * Count a hit, starting a new window if the last one has ended
+   */
+  async increment(key: string, windowMs: number, now: Date = new Date()): Promise<RateLimitHit> {
+    if (now.getTime() - this.lastSweep >= SWEEP_INTERVAL_MS) {
+      await this.prune(now);
+    }
+
+    const current = this.counters.get(key);
+    const hit = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+
+    this.counters.set(key, hit);
+    return { ...hit };
+  }
+
+  /**
+   * Forget a counter
+   */
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  /**
+   * Drop counters whose window has ended
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    this.lastSweep = now.getTime();
+    let removed = 0;
+
+    for (const [key, hit] of this.counters) {
+      if (hit.resetAt <= now) {
+        this.counters.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
@@ -0,0 +1,217 @@
+import { INotificationRepository, NotificationInput } from '../interfaces/INotificationRepository';
+import { INotificationService, NotificationActor } from '../interfaces/INotificationService';
+import { IQuestionRepository } from '../interfaces/IQuestionRepository';
+import { IAnswerRepository } from '../interfaces/IAnswerRepository';
+import { ITaskRepository } from '../interfaces/ITaskRepository';
+import { INoteRepository } from '../interfaces/INoteRepository';
+import { ICommentRepository } from '../interfaces/ICommentRepository';
+import { Comment } from '../models/Comment';
+import { Note } from '../models/Note';
+import { Notification } from '../models/Notification';
+import { NotificationRepository } from '../repositories/NotificationRepository';
+import { QuestionRepository } from '../repositories/QuestionRepository';
+import { AnswerRepository } from '../repositories/AnswerRepository';
+import { TaskRepository } from '../repositories/TaskRepository';
+import { NoteRepository } from '../repositories/NoteRepository';
+import { CommentRepository } from '../repositories/CommentRepository';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_BODY_LENGTH = 140;
+// Tasks due within this window get a one-off reminder
+const DEADLINE_REMINDER_WINDOW_MS = parseInt(process.env.DEADLINE_REMINDER_WINDOW_MS || String(24 * 60 * 60 * 1000), 10);
+
+/**
+ * Service class for Notification operations
+ * Turns answers, comments, deadlines and shared note edits into notifications
+ * Implements INotificationService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles notification business logic
+ */
+export class NotificationService implements INotificationService {
+  private notificationRepository: INotificationRepository;
+  private questionRepository: IQuestionRepository;
+  private answerRepository: IAnswerRepository;
+  private taskRepository: ITaskRepository;
+  private noteRepository: INoteRepository;
+  private commentRepository: ICommentRepository;
+
+  constructor(
+    notificationRepository?: INotificationRepository,
+    questionRepository?: IQuestionRepository,
+    answerRepository?: IAnswerRepository,
+    taskRepository?: ITaskRepository,
+    noteRepository?: INoteRepository,
+    commentRepository?: ICommentRepository
+  ) {
+    this.notificationRepository = notificationRepository || new NotificationRepository();
+    this.questionRepository = questionRepository || new QuestionRepository();
+    this.answerRepository = answerRepository || new AnswerRepository();
+    this.taskRepository = taskRepository || new TaskRepository();
+    this.noteRepository = noteRepository || new NoteRepository();
+    this.commentRepository = commentRepository || new CommentRepository();
+  }
+
+  /**
+   * Get a user's most recent notifications, newest first
+   */
+  async getNotifications(userId: string, limit: number = DEFAULT_LIMIT): Promise<Notification[]> {
+    return await this.notificationRepository.findByUserId(userId, Math.min(Math.max(limit, 1), MAX_LIMIT));
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return await this.notificationRepository.countUnread(userId);
+  }
+
+  /**
+   * Mark some of a user's notifications as read, or all of them when no ids are given
+   */
+  async markAsRead(userId: string, ids?: string[]): Promise<number> {
+    return await this.notificationRepository.markRead(userId, ids);
+  }
+
+  /**
+   * Tell a question's author that someone answered it
+   */
+  async notifyAnswer(questionId: string, author: NotificationActor): Promise<void> {
+    await this.send(async () => {
+      const question = await this.questionRepository.findById(questionId);
+      if (!question?.userId || question.userId === author.id) return [];
+
+      return [{
+        userId: question.userId,
+        type: 'ANSWER',
+        title: `${this.displayName(author)} answered your question`,
+        body: this.truncate(question.title),
+        link: `/questions?question=${question.id}`,
+      }];
+    });
+  }
+
+  /**
+   * Tell the people involved in a comment about it
+   * Each user gets one notification: being @mentioned wins over a reply, which wins over a comment on their post
+   */
+  async notifyComment(comment: Comment): Promise<void> {
+    await this.send(async () => {
+      let questionId = comment.questionId;
+      let ownerId: string | null = null;
+      let target = 'question';
+
+      if (comment.answerId) {
+        const answer = await this.answerRepository.findById(comment.answerId);
+        if (!answer) return [];
+        questionId = answer.questionId;
+        ownerId = answer.userId;
+        target = 'answer';
+      } else if (questionId) {
+        const question = await this.questionRepository.findById(questionId);
+        ownerId = question?.userId ?? null;
+      }
+
+      const parent = comment.parentId ? await this.commentRepository.findById(comment.parentId) : null;
+      const author = comment.user.getDisplayName();
+      const recipients = new Map<string, Pick<NotificationInput, 'type' | 'title'>>();
+
+      if (ownerId) {
+        recipients.set(ownerId, { type: 'COMMENT', title: `${author} commented on your ${target}` });
+      }
+      if (parent) {
+        recipients.set(parent.userId, { type: 'COMMENT', title: `${author} replied to your comment` });
+      }
+      for (const userId of comment.mentionedUserIds) {
+        recipients.set(userId, { type: 'MENTION', title: `${author} mentioned you in a comment` });
+      }
+      recipients.delete(comment.userId);
+
+      return [...recipients].map(([userId, event]) => ({
+        userId,
+        ...event,
+        body: this.truncate(comment.body),
+        link: questionId ? `/questions?question=${questionId}` : null,
+      }));
+    });
+  }
+
+  /**
+   * Tell the signed-in users who opened a shared note that it changed
+   * Users who have not read the previous update yet are not notified again
+   */
+  async notifyNoteUpdated(note: Note, editor: NotificationActor): Promise<void> {
+    await this.send(async () => {
+      if (!note.isPublic || !note.shareToken) return [];
+
+      // One key per edit; the prefix finds any earlier update the viewer has not read
+      const keyPrefix = `note-updated:${note.id}:`;
+      const key = `${keyPrefix}${note.updatedAt.getTime()}`;
+      const viewerIds = (await this.noteRepository.findSharedViewerIds(note.id)).filter((id) => id !== editor.id);
+      const pending = new Set(await this.notificationRepository.findUnreadUserIds(keyPrefix, viewerIds));
+
+      return viewerIds
+        .filter((userId) => !pending.has(userId))
+        .map((userId) => ({
+          userId,
+          type: 'NOTE_UPDATED',
+          title: `${this.displayName(editor)} updated a shared note`,
+          body: this.truncate(note.title),
+          link: `/notes/shared/${note.shareToken}`,
+          key,
+        }));
+    });
+  }
+
+  /**
+   * Remind users of unfinished tasks that are due soon, for one user or everyone
+   * Each deadline is reminded once; moving it sends a new reminder
+   * Returns how many reminders were sent
+   */
+  async sendDeadlineReminders(userId?: string, now: Date = new Date()): Promise<number> {
+    const until = new Date(now.getTime() + DEADLINE_REMINDER_WINDOW_MS);
+    const tasks = await this.taskRepository.findOpenWithDeadlineBetween(now, until, userId);
+    if (tasks.length === 0) return 0;
+
+    // Deadlines already reminded of are skipped by the unique (userId, key) index
+    return await this.notificationRepository.createMany(
+      tasks.map((task) => {
+        const hours = Math.max(1, Math.round((task.deadline!.getTime() - now.getTime()) / (60 * 60 * 1000)));
+        return {
+          userId: task.userId,
+          type: 'TASK_DEADLINE',
+          title: `"${this.truncate(task.title, 60)}" is due soon`,
+          body: `Due in about ${hours} hour${hours === 1 ? '' : 's'}`,
+          link: '/tasks',
+          key: `task-deadline:${task.id}:${task.deadline!.getTime()}`,
+        };
+      })
+    );
+  }
+
+  /**
+   * Build and store notifications for an event
+   * Problems are logged only, so the answer, comment or note that caused the event is still saved
+   */
+  private async send(build: () => Promise<NotificationInput[]>): Promise<void> {
+    try {
+      await this.notificationRepository.createMany(await build());
+    } catch (error) {
+      console.error('Error sending notifications:', error);
+    }
+  }
+
+  /**
+   * Name to show for the user who caused an event
+   */
+  private displayName(user: NotificationActor): string {
+    return user.name || user.email.split('@')[0];
+  }
+
+  /**
+   * Shorten text for the one-line preview in the bell dropdown
+   */
+  private truncate(text: string, length: number = MAX_BODY_LENGTH): string {
+    return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+  }
+}
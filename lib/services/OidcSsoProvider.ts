@@ -0,0 +1,274 @@
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ISsoProvider, SsoAuthorizationState, SsoProfile } from '../interfaces/ISsoProvider';
+import type { Role } from '../models/User';
+
+export interface OidcSsoProviderOptions {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  name?: string;
+  scopes?: string;
+  roleClaim?: string;
+  adminRoleValues?: string[];
+  moderatorRoleValues?: string[];
+  teachingAssistantRoleValues?: string[];
+  // Count an email as verified when the issuer sends no email_verified claim; only for issuers that vouch for every address
+  trustEmailWithoutVerifiedClaim?: boolean;
+}
+
+// Claims from the ID token or userinfo; each one is checked before it is used
+type Claims = Record<string, unknown>;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+// Discovery and signing keys are refetched after this long, so key rotation at the issuer is picked up
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * SSO provider for any OpenID Connect issuer (Keycloak, Entra ID, Google Workspace, Okta, ...)
+ * Uses the authorization code flow with PKCE and checks the ID token's signature against the issuer's JWKS
+ * Implements ISsoProvider interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles the OIDC handshake
+ */
+export class OidcSsoProvider implements ISsoProvider {
+  public readonly name: string;
+  private readonly options: OidcSsoProviderOptions;
+  private discovery: { value: OidcDiscovery; fetchedAt: number } | null = null;
+  private jwks: { keys: (JsonWebKey & { kid?: string })[]; fetchedAt: number } | null = null;
+
+  constructor(options: OidcSsoProviderOptions) {
+    this.options = { ...options, issuer: options.issuer.replace(/\/+$/, '') };
+    this.name = options.name || 'Single sign-on';
+  }
+
+  /**
+   * Build the issuer's sign-in URL along with the values to check when the user comes back
+   */
+  async createAuthorizationRequest(): Promise<{ url: string; state: SsoAuthorizationState }> {
+    const discovery = await this.getDiscovery();
+    const state: SsoAuthorizationState = {
+      state: OidcSsoProvider.randomValue(),
+      nonce: OidcSsoProvider.randomValue(),
+      codeVerifier: OidcSsoProvider.randomValue(),
+    };
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.options.clientId,
+      redirect_uri: this.options.redirectUri,
+      scope: this.options.scopes || 'openid email profile',
+      state: state.state,
+      nonce: state.nonce,
+      code_challenge: createHash('sha256').update(state.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Exchange the authorization code for tokens and read the user from the verified ID token
+   */
+  async handleCallback(code: string, state: SsoAuthorizationState): Promise<SsoProfile> {
+    const discovery = await this.getDiscovery();
+
+    const basicAuth = Buffer.from(
+      `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`
+    ).toString('base64');
+    const tokenResponse = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${basicAuth}`,
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.options.redirectUri,
+        code_verifier: state.codeVerifier,
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      console.error('OIDC token error:', tokenResponse.status, await tokenResponse.text());
+      throw new Error('SSO sign-in failed');
+    }
+
+    const tokens = (await tokenResponse.json()) as { id_token?: unknown; access_token?: unknown };
+    if (typeof tokens.id_token !== 'string' || !tokens.id_token) {
+      throw new Error('SSO sign-in failed');
+    }
+
+    const { claims, subject } = await this.verifyIdToken(tokens.id_token, state.nonce);
+
+    // Some issuers keep the email and groups out of the ID token and only serve them from userinfo
+    const missingRole = !!this.options.roleClaim && this.readClaim(claims, this.options.roleClaim) === undefined;
+    if (
+      (typeof claims.email !== 'string' || missingRole) &&
+      discovery.userinfo_endpoint &&
+      typeof tokens.access_token === 'string'
+    ) {
+      const userinfo = await this.fetchUserinfo(discovery.userinfo_endpoint, tokens.access_token);
+      if (userinfo.sub === subject) {
+        Object.assign(claims, { ...userinfo, ...claims });
+      }
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+    if (!email) {
+      throw new Error('Your SSO account has no email address');
+    }
+
+    return {
+      provider: this.options.issuer,
+      subject,
+      email,
+      emailVerified: this.isEmailVerified(claims.email_verified),
+      name: typeof claims.name === 'string' ? claims.name : null,
+      role: this.mapRole(claims),
+    };
+  }
+
+  /**
+   * Read the email_verified claim; some issuers send it as a string
+   * A missing claim only counts when the issuer is configured as trusted for email addresses
+   */
+  private isEmailVerified(claim: unknown): boolean {
+    if (claim === undefined) {
+      return this.options.trustEmailWithoutVerifiedClaim === true;
+    }
+    return claim === true || claim === 'true';
+  }
+
+  /**
+   * Check the ID token's signature, issuer, audience, expiry and nonce, returning its claims and subject
+   */
+  private async verifyIdToken(idToken: string, nonce: string): Promise<{ claims: Claims; subject: string }> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('SSO sign-in failed');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    let claims: Claims;
+    try {
+      claims = jwt.verify(idToken, createPublicKey({ key, format: 'jwk' }), {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: this.options.issuer,
+        audience: this.options.clientId,
+        clockTolerance: 60,
+      }) as Claims;
+    } catch (error) {
+      console.error('OIDC ID token rejected:', error);
+      throw new Error('SSO sign-in failed');
+    }
+
+    if (typeof claims.nonce !== 'string' || claims.nonce !== nonce || typeof claims.sub !== 'string' || !claims.sub) {
+      throw new Error('SSO sign-in failed');
+    }
+
+    return { claims, subject: claims.sub };
+  }
+
+  /**
+   * Find the issuer's public key for a key id, refetching the JWKS once in case keys were rotated
+   */
+  private async getSigningKey(kid: string | undefined): Promise<JsonWebKey> {
+    for (const refresh of [false, true]) {
+      if (refresh || !this.jwks || Date.now() - this.jwks.fetchedAt > METADATA_TTL_MS) {
+        const discovery = await this.getDiscovery();
+        const response = await fetch(discovery.jwks_uri);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch OIDC signing keys: ${response.status}`);
+        }
+        this.jwks = { keys: (await response.json()).keys || [], fetchedAt: Date.now() };
+      }
+
+      const key = this.jwks.keys.find((k) => (kid ? k.kid === kid : k.use !== 'enc'));
+      if (key) return key;
+    }
+
+    throw new Error('SSO sign-in failed');
+  }
+
+  /**
+   * Read the issuer's metadata from /.well-known/openid-configuration
+   */
+  private async getDiscovery(): Promise<OidcDiscovery> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < METADATA_TTL_MS) {
+      return this.discovery.value;
+    }
+
+    const response = await fetch(`${this.options.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed for ${this.options.issuer}: ${response.status}`);
+    }
+
+    const value = (await response.json()) as OidcDiscovery;
+    if (value.issuer.replace(/\/+$/, '') !== this.options.issuer) {
+      throw new Error(`OIDC discovery returned issuer ${value.issuer}, expected ${this.options.issuer}`);
+    }
+
+    this.discovery = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  private async fetchUserinfo(endpoint: string, accessToken: string): Promise<Claims> {
+    const response = await fetch(endpoint, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) {
+      console.error('OIDC userinfo error:', response.status);
+      return {};
+    }
+
+    const userinfo: unknown = await response.json();
+    return userinfo && typeof userinfo === 'object' && !Array.isArray(userinfo) ? (userinfo as Claims) : {};
+  }
+
+  /**
+   * Turn the configured claim into a role; the most privileged matching role wins and anything else is STUDENT
+   */
+  private mapRole(claims: Claims): Role | null {
+    if (!this.options.roleClaim) {
+      return null;
+    }
+
+    // A list of values, or one string of them separated by spaces or commas
+    const value = this.readClaim(claims, this.options.roleClaim);
+    const list: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,]+/) : [];
+    const values = list.filter((v): v is string => typeof v === 'string').map((v) => v.toLowerCase());
+    const mappings: [Role, string[]][] = [
+      ['ADMIN', this.options.adminRoleValues || ['admin']],
+      ['MODERATOR', this.options.moderatorRoleValues || ['moderator']],
+      ['TEACHING_ASSISTANT', this.options.teachingAssistantRoleValues || ['teaching_assistant', 'ta']],
+    ];
+
+    const match = mappings.find(([, roleValues]) => roleValues.some((r) => values.includes(r.toLowerCase())));
+    return match ? match[0] : 'STUDENT';
+  }
+
+  /**
+   * Read a claim by dotted path, e.g. "realm_access.roles" for Keycloak
+   */
+  private readClaim(claims: Claims, path: string): unknown {
+    return path
+      .split('.')
+      .reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Claims)[key] : undefined),
+        claims
+      );
+  }
+
+  private static randomValue(): string {
+    return randomBytes(32).toString('base64url');
+  }
+}
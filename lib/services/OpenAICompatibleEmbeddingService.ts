@@ -0,0 +1,80 @@
+import { IEmbeddingService } from '../interfaces/IEmbeddingService';
+
+/**
+ * Service class for generating text embeddings with any server exposing the
+ * OpenAI `POST /embeddings` API (Ollama, LM Studio, vLLM, llama.cpp, OpenAI itself)
+ * Implements IEmbeddingService interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles embedding generation
+ */
+export class OpenAICompatibleEmbeddingService implements IEmbeddingService {
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly dimensions: number;
+  private readonly apiKey: string | undefined;
+
+  constructor(baseUrl: string, model: string, dimensions: number, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.dimensions = dimensions;
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Generate embedding for text
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    if (!text || !text.trim()) {
+      throw new Error('Text is required for embedding generation');
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: text.trim(),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Embedding server error:', errorText);
+        throw new Error('Failed to generate embedding');
+      }
+
+      const data = await response.json();
+      const embedding = data.data?.[0]?.embedding;
+
+      if (!embedding || !Array.isArray(embedding)) {
+        throw new Error('Invalid embedding response');
+      }
+
+      if (embedding.length !== this.dimensions) {
+        throw new Error(`Expected ${this.dimensions} dimensions, got ${embedding.length}`);
+      }
+
+      return embedding;
+    } catch (error: any) {
+      console.error('Error generating embedding:', error);
+      throw new Error(`Failed to generate embedding: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get embedding dimensions
+   */
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  /**
+   * Get the provider name stored next to each vector
+   */
+  getProviderName(): string {
+    return `openai-compatible:${this.model}`;
+  }
+}
@@ -0,0 +1,97 @@
+import { createHash, randomBytes } from 'crypto';
+import { IPasswordResetService } from '../interfaces/IPasswordResetService';
+import { IPasswordResetTokenRepository } from '../interfaces/IPasswordResetTokenRepository';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { ISessionRepository } from '../interfaces/ISessionRepository';
+import { PasswordResetTokenRepository } from '../repositories/PasswordResetTokenRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { hashPassword } from '../auth';
+import { EmailService } from '../email';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Service class for password reset links
+ * Emails single-use, expiring links and sets the new password when one is redeemed
+ * Implements IPasswordResetService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles password reset logic
+ */
+export class PasswordResetService implements IPasswordResetService {
+  private tokenRepository: IPasswordResetTokenRepository;
+  private userRepository: IUserRepository;
+  private sessionRepository: ISessionRepository;
+
+  constructor(
+    tokenRepository?: IPasswordResetTokenRepository,
+    userRepository?: IUserRepository,
+    sessionRepository?: ISessionRepository
+  ) {
+    this.tokenRepository = tokenRepository || new PasswordResetTokenRepository();
+    this.userRepository = userRepository || new UserRepository();
+    this.sessionRepository = sessionRepository || new SessionRepository();
+  }
+
+  /**
+   * Email a reset link to the account with this address, if there is one
+   * Resolves the same way for unknown addresses so callers can't probe for accounts
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email.trim().toLowerCase());
+    if (!user) return;
+
+    const now = new Date();
+    const token = randomBytes(32).toString('hex');
+
+    // Only the newest link works
+    await this.tokenRepository.invalidateForUser(user.id, now);
+    await this.tokenRepository.create({
+      userId: user.id,
+      tokenHash: PasswordResetService.hashToken(token),
+      expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_MS),
+    });
+
+    try {
+      await EmailService.sendPasswordResetEmail(user.email, token, user.name, RESET_TOKEN_TTL_MS / 60000);
+    } catch (error) {
+      // The response must not depend on delivery, so the failure is only logged
+      console.error('Error sending password reset email:', error);
+    }
+  }
+
+  /**
+   * Check that a token from a reset link can still be used
+   */
+  async isValidToken(token: string): Promise<boolean> {
+    const resetToken = await this.tokenRepository.findByTokenHash(PasswordResetService.hashToken(token));
+    return !!resetToken && resetToken.isUsable();
+  }
+
+  /**
+   * Set a new password using a reset link, signing the user out everywhere
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+    }
+
+    const resetToken = await this.tokenRepository.findByTokenHash(PasswordResetService.hashToken(token));
+    const now = new Date();
+
+    if (!resetToken || !(await this.tokenRepository.consume(resetToken.id, now))) {
+      throw new Error('Reset link is invalid or has expired');
+    }
+
+    await this.userRepository.updatePassword(resetToken.userId, await hashPassword(newPassword), now);
+    await this.sessionRepository.revokeAllForUser(resetToken.userId, now);
+  }
+
+  /**
+   * Hash a token for storage; tokens are random enough that a fast hash is fine
+   */
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,58 @@
+import { PrismaClient } from '@prisma/client';
+import { IRateLimitStore, RateLimitHit } from '../interfaces/IRateLimitStore';
+import { getPrismaClient } from '../prisma';
+
+/**
+ * Rate limit store backed by the rate_limit_buckets table, shared by every app instance
+ * Implements IRateLimitStore interface - follows Interface Segregation Principle (ISP)
+ */
+export class PostgresRateLimitStore implements IRateLimitStore {
+  private prisma: PrismaClient | null = null;
+
+  /**
+   * Count a hit in one statement, so concurrent requests can't both see the old count
+   */
+  async increment(key: string, windowMs: number, now: Date = new Date()): Promise<RateLimitHit> {
+    const prisma = await this.getClient();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    const rows = await prisma.$queryRaw<{ count: number; resetAt: Date }[]>`
+      INSERT INTO "rate_limit_buckets" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "rate_limit_buckets"."resetAt" <= ${now} THEN 1 ELSE "rate_limit_buckets"."count" + 1 END,
+        "resetAt" = CASE WHEN "rate_limit_buckets"."resetAt" <= ${now} THEN ${resetAt} ELSE "rate_limit_buckets"."resetAt" END
+      RETURNING "count", "resetAt"
+    `;
+
+    return { count: Number(rows[0].count), resetAt: rows[0].resetAt };
+  }
+
+  /**
+   * Forget a counter
+   */
+  async reset(key: string): Promise<void> {
+    const prisma = await this.getClient();
+    await prisma.rateLimitBucket.deleteMany({ where: { key } });
+  }
+
+  /**
+   * Delete counters whose window has ended
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    const prisma = await this.getClient();
+    const result = await prisma.rateLimitBucket.deleteMany({ where: { resetAt: { lte: now } } });
+
+    return result.count;
+  }
+
+  /**
+   * Get the Prisma client, connecting on first use
+   */
+  private async getClient(): Promise<PrismaClient> {
+    if (!this.prisma) {
+      this.prisma = await getPrismaClient();
+    }
+    return this.prisma;
+  }
+}
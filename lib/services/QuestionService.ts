@@ -1,9 +1,31 @@
-import { IQuestionRepository } from '../interfaces/IQuestionRepository';
-import { IAnswerRepository } from '../interfaces/IAnswerRepository';
-import { IEmbeddingService } from '../interfaces/IEmbeddingService';
+import {
+  EmbeddingScope,
+  IQuestionRepository,
+  QuestionEditInput,
+  QuestionListOptions,
+  QuestionPage,
+  SimilarQuestion,
+} from '../interfaces/IQuestionRepository';
+import { IAnswerRepository, AnswerEditInput } from '../interfaces/IAnswerRepository';
+import { IEmbeddingService, Embedding } from '../interfaces/IEmbeddingService';
+import { IJobRepository } from '../interfaces/IJobRepository';
 import { IQuestionService } from '../interfaces/IQuestionService';
 import { Question } from '../models/Question';
 import { Answer } from '../models/Answer';
+import { QuestionRevision } from '../models/QuestionRevision';
+import { AnswerRevision } from '../models/AnswerRevision';
+import { QuestionSearchResult, SearchMatch, SearchMode } from '../models/QuestionSearchResult';
+
+// Reciprocal-rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+// How many candidates each ranker contributes before fusion
+const MIN_SEARCH_CANDIDATES = 20;
+const MAX_PAGE_SIZE = 50;
+// Cosine similarity above which a new question is flagged as a possible duplicate
+const DUPLICATE_SIMILARITY_THRESHOLD = parseFloat(process.env.DUPLICATE_SIMILARITY_THRESHOLD || '0.85');
+const MAX_DUPLICATES = 5;
+const DEFAULT_RELATED = 5;
+const MAX_RELATED = 20;
 
 /**
  * Service class for Question operations
@@ -16,17 +38,20 @@ export class QuestionService implements IQuestionService {
   private questionRepository: IQuestionRepository;
   private answerRepository: IAnswerRepository;
   private embeddingService: IEmbeddingService;
+  private jobRepository: IJobRepository;
 
   constructor(
     questionRepository?: IQuestionRepository,
     answerRepository?: IAnswerRepository,
-    embeddingService?: IEmbeddingService
+    embeddingService?: IEmbeddingService,
+    jobRepository?: IJobRepository
   ) {
     // Dependency Injection - allows for testing with mock dependencies
     // If not provided, create default implementations (backward compatibility)
     this.questionRepository = questionRepository || new (require('../repositories/QuestionRepository').QuestionRepository)();
     this.answerRepository = answerRepository || new (require('../repositories/AnswerRepository').AnswerRepository)();
-    this.embeddingService = embeddingService || new (require('./EmbeddingService').EmbeddingService)();
+    this.embeddingService = embeddingService || require('../di/ServiceFactory').ServiceFactory.getEmbeddingService();
+    this.jobRepository = jobRepository || new (require('../repositories/JobRepository').JobRepository)();
   }
 
   /**
@@ -36,6 +61,20 @@ export class QuestionService implements IQuestionService {
     return await this.questionRepository.findAll();
   }
 
+  /**
+   * Get one page of questions, filtered and sorted
+   */
+  async listQuestions(options: QuestionListOptions): Promise<QuestionPage> {
+    if (options.sort && !['newest', 'answers', 'votes'].includes(options.sort)) {
+      throw new Error('Sort must be newest, answers or votes');
+    }
+
+    return await this.questionRepository.findPage({
+      ...options,
+      limit: Math.min(Math.max(options.limit || 20, 1), MAX_PAGE_SIZE),
+    });
+  }
+
   /**
    * Get question by ID
    */
@@ -53,34 +92,153 @@ export class QuestionService implements IQuestionService {
   /**
    * Create a new question
    */
-  async createQuestion(data: {
-    title: string;
-    type: string;
-    description: string;
-    images: string[];
-    userId: string;
-  }): Promise<Question> {
+  async createQuestion(
+    data: {
+      title: string;
+      type: string;
+      description: string;
+      images: string[];
+      userId: string;
+      courseId?: string | null;
+    },
+    options: { allowDuplicates?: boolean } = {}
+  ): Promise<{ question: Question | null; duplicates: SimilarQuestion[] }> {
     // Generate embedding for semantic search
-    let embedding: number[] | null = null;
+    let embedding: Embedding | null = null;
     try {
-      const embeddingText = `${data.title.trim()} ${data.description.trim()}`;
-      embedding = await this.embeddingService.generateEmbedding(embeddingText);
+      embedding = await this.embed(`${data.title.trim()} ${data.description.trim()}`);
     } catch (error) {
       console.error('Error generating embedding:', error);
-      // Continue without embedding
+      // Continue without embedding; the job queue retries it once the question is saved
     }
 
-    return await this.questionRepository.create({
+    // Nothing is saved while there are likely duplicates, unless the author chose to post anyway
+    if (embedding && !options.allowDuplicates) {
+      const duplicates = await this.questionRepository.findSimilar(
+        embedding,
+        DUPLICATE_SIMILARITY_THRESHOLD,
+        MAX_DUPLICATES
+      );
+      if (duplicates.length > 0) {
+        return { question: null, duplicates };
+      }
+    }
+
+    const question = await this.questionRepository.create({
       ...data,
       embedding,
     });
+
+    if (!embedding) {
+      await this.queueEmbedding(question.id);
+    }
+
+    return { question, duplicates: [] };
   }
 
   /**
    * Update question
    */
   async updateQuestion(id: string, data: Partial<Question>): Promise<Question> {
-    return await this.questionRepository.update(id, data);
+    const question = await this.questionRepository.update(id, data);
+    if (data.title !== undefined || data.description !== undefined) {
+      await this.refreshEmbedding(question);
+    }
+    return question;
+  }
+
+  /**
+   * Edit a question as its author or an admin, keeping the previous version as a revision
+   */
+  async editQuestion(
+    id: string,
+    editor: { id: string; role: string },
+    data: QuestionEditInput
+  ): Promise<Question> {
+    const question = await this.questionRepository.findById(id);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (!question.canBeEditedBy(editor.id, editor.role)) {
+      throw new Error('You can only edit your own questions');
+    }
+
+    const updated = await this.questionRepository.updateWithRevision(id, data, editor.id);
+
+    if (updated.title !== question.title || updated.description !== question.description) {
+      await this.refreshEmbedding(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Get the questions closest in meaning to a question, most similar first
+   */
+  async getRelatedQuestions(id: string, limit: number = DEFAULT_RELATED): Promise<SimilarQuestion[]> {
+    const question = await this.questionRepository.findById(id);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    return await this.questionRepository.findRelated(
+      question.mergedIntoId ?? question.id,
+      Math.min(Math.max(limit, 1), MAX_RELATED)
+    );
+  }
+
+  /**
+   * Generate and store a question's embedding, throwing if the provider fails
+   * Returns false when the question no longer exists or has been merged away
+   */
+  async regenerateEmbedding(id: string): Promise<boolean> {
+    const question = await this.questionRepository.findById(id);
+    if (!question || question.isMerged()) {
+      return false;
+    }
+
+    const embedding = await this.embed(`${question.title.trim()} ${question.description.trim()}`);
+    await this.questionRepository.updateEmbedding(question.id, embedding);
+    return true;
+  }
+
+  /**
+   * Ids of questions an embedding backfill would cover, compared against the current provider
+   */
+  async getQuestionIdsForEmbedding(scope: EmbeddingScope): Promise<string[]> {
+    return await this.questionRepository.findIdsForEmbedding(
+      scope,
+      this.embeddingService.getProviderName(),
+      this.embeddingService.getDimensions()
+    );
+  }
+
+  /**
+   * Queue embedding jobs for every question without a vector
+   * Returns how many jobs were added; questions already queued are skipped
+   */
+  async queueMissingEmbeddings(): Promise<number> {
+    const ids = await this.getQuestionIdsForEmbedding('missing');
+    let queued = 0;
+    for (const id of ids) {
+      if (await this.jobRepository.enqueue({ type: 'embed-question', key: id, payload: { questionId: id } })) {
+        queued++;
+      }
+    }
+    return queued;
+  }
+
+  /**
+   * Get earlier versions of a question, newest first
+   */
+  async getQuestionRevisions(id: string): Promise<QuestionRevision[]> {
+    const question = await this.questionRepository.findById(id);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    return await this.questionRepository.findRevisions(id);
   }
 
   /**
@@ -91,14 +249,77 @@ export class QuestionService implements IQuestionService {
   }
 
   /**
-   * Search questions using semantic search
+   * Search questions by combining full-text and semantic rankings with reciprocal-rank fusion
+   * Falls back to keyword-only results when an embedding cannot be generated
+   */
+  async searchQuestions(
+    query: string,
+    limit: number = 3
+  ): Promise<{ results: QuestionSearchResult[]; mode: SearchMode }> {
+    const text = query.trim();
+    const candidates = Math.max(limit * 5, MIN_SEARCH_CANDIDATES);
+
+    const [keywordHits, semanticHits] = await Promise.all([
+      this.questionRepository.searchByKeyword(text, candidates),
+      this.semanticSearch(text, candidates),
+    ]);
+
+    const fused = new Map<string, { score: number; matchedBy: SearchMatch[] }>();
+    const addRanking = (hits: Question[], match: SearchMatch) => {
+      hits.forEach((question, index) => {
+        const entry = fused.get(question.id) || { score: 0, matchedBy: [] };
+        entry.score += 1 / (RRF_K + index + 1);
+        entry.matchedBy.push(match);
+        fused.set(question.id, entry);
+      });
+    };
+
+    addRanking(keywordHits, 'keyword');
+    if (semanticHits) addRanking(semanticHits, 'semantic');
+
+    const topIds = [...fused.entries()]
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, limit)
+      .map(([id]) => id);
+
+    const [questions, highlights] = await Promise.all([
+      this.questionRepository.findByIds(topIds),
+      this.questionRepository.findSearchHighlights(topIds, text),
+    ]);
+
+    return {
+      results: questions.map((question) => {
+        const { score, matchedBy } = fused.get(question.id)!;
+        return new QuestionSearchResult(question, score, matchedBy, highlights[question.id] || null);
+      }),
+      mode: semanticHits ? 'hybrid' : 'keyword',
+    };
+  }
+
+  /**
+   * Merge a duplicate question into a canonical one; the duplicate then redirects to it
    */
-  async searchQuestions(query: string, limit: number = 3): Promise<Question[]> {
-    // Generate embedding for search query
-    const searchEmbedding = await this.embeddingService.generateEmbedding(query);
-    
-    // Perform vector similarity search
-    return await this.questionRepository.searchByEmbedding(searchEmbedding, limit);
+  async mergeQuestion(sourceId: string, targetId: string): Promise<Question> {
+    if (sourceId === targetId) {
+      throw new Error('A question cannot be merged into itself');
+    }
+
+    const [source, target] = await Promise.all([
+      this.questionRepository.findById(sourceId),
+      this.questionRepository.findById(targetId),
+    ]);
+
+    if (!source || !target) {
+      throw new Error('Question not found');
+    }
+
+    if (source.isMerged() || target.isMerged()) {
+      throw new Error('Question has already been merged');
+    }
+
+    await this.questionRepository.merge(sourceId, targetId);
+
+    return (await this.questionRepository.findById(targetId))!;
   }
 
   /**
@@ -132,5 +353,189 @@ export class QuestionService implements IQuestionService {
   async deleteAnswer(id: string): Promise<void> {
     await this.answerRepository.delete(id);
   }
-}
 
+  /**
+   * Edit an answer as its author or an admin, keeping the previous version as a revision
+   */
+  async editAnswer(
+    id: string,
+    editor: { id: string; role: string },
+    data: AnswerEditInput
+  ): Promise<Answer> {
+    const answer = await this.answerRepository.findById(id);
+    if (!answer) {
+      throw new Error('Answer not found');
+    }
+
+    if (!answer.canBeEditedBy(editor.id, editor.role)) {
+      throw new Error('You can only edit your own answers');
+    }
+
+    return await this.answerRepository.updateWithRevision(id, data, editor.id);
+  }
+
+  /**
+   * Get earlier versions of an answer, newest first
+   */
+  async getAnswerRevisions(id: string): Promise<AnswerRevision[]> {
+    const answer = await this.answerRepository.findById(id);
+    if (!answer) {
+      throw new Error('Answer not found');
+    }
+
+    return await this.answerRepository.findRevisions(id);
+  }
+
+  /**
+   * Upvote (1), downvote (-1) or clear (0) a vote on someone else's question
+   */
+  async voteQuestion(questionId: string, userId: string, value: number): Promise<Question> {
+    this.assertValidVote(value);
+
+    const question = await this.questionRepository.findById(questionId);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (question.belongsTo(userId)) {
+      throw new Error('You cannot vote on your own post');
+    }
+
+    await this.questionRepository.vote(questionId, userId, value);
+    return (await this.questionRepository.findById(questionId))!;
+  }
+
+  /**
+   * Upvote (1), downvote (-1) or clear (0) a vote on someone else's answer
+   */
+  async voteAnswer(answerId: string, userId: string, value: number): Promise<Answer> {
+    this.assertValidVote(value);
+
+    const answer = await this.answerRepository.findById(answerId);
+    if (!answer) {
+      throw new Error('Answer not found');
+    }
+
+    if (answer.belongsTo(userId)) {
+      throw new Error('You cannot vote on your own post');
+    }
+
+    await this.answerRepository.vote(answerId, userId, value);
+    return (await this.answerRepository.findById(answerId))!;
+  }
+
+  /**
+   * Get a user's vote on a question (1, -1 or 0)
+   */
+  async getUserQuestionVote(questionId: string, userId: string): Promise<number> {
+    return await this.questionRepository.findUserVote(questionId, userId);
+  }
+
+  /**
+   * Get a user's votes on a set of answers, keyed by answer ID
+   */
+  async getUserAnswerVotes(userId: string, answerIds: string[]): Promise<Record<string, number>> {
+    return await this.answerRepository.findUserVotes(userId, answerIds);
+  }
+
+  /**
+   * Mark or unmark an answer as accepted
+   * Only the question author or staff may do this, and a question has at most one accepted answer
+   */
+  async setAcceptedAnswer(
+    answerId: string,
+    user: { id: string; role: string },
+    accepted: boolean
+  ): Promise<Answer> {
+    const answer = await this.answerRepository.findById(answerId);
+    if (!answer) {
+      throw new Error('Answer not found');
+    }
+
+    const question = await this.questionRepository.findById(answer.questionId);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (!question.canBeEditedBy(user.id, user.role)) {
+      throw new Error('Only the question author can accept an answer');
+    }
+
+    if (accepted) {
+      await this.answerRepository.setAccepted(question.id, answer.id);
+    } else if (answer.isAccepted) {
+      await this.answerRepository.setAccepted(question.id, null);
+    }
+
+    return (await this.answerRepository.findById(answerId))!;
+  }
+
+  /**
+   * Votes are +1, -1, or 0 to clear
+   */
+  private assertValidVote(value: number): void {
+    if (![1, -1, 0].includes(value)) {
+      throw new Error('Vote must be 1, -1 or 0');
+    }
+  }
+
+  /**
+   * Recompute a question's embedding after its text changed
+   * If generation fails the old vector is cleared rather than left pointing at stale text,
+   * and a background job retries it
+   */
+  private async refreshEmbedding(question: Question): Promise<void> {
+    let embedding: Embedding | null = null;
+    try {
+      embedding = await this.embed(`${question.title.trim()} ${question.description.trim()}`);
+    } catch (error) {
+      console.error('Error regenerating embedding:', error);
+    }
+
+    await this.questionRepository.updateEmbedding(question.id, embedding);
+    if (!embedding) {
+      await this.queueEmbedding(question.id);
+    }
+  }
+
+  /**
+   * Queue a background retry of a question's embedding
+   * A job already running may have read the text before this edit, so a follow-up is queued behind it
+   * Queueing problems are logged only; the periodic sweep for missing embeddings picks the question up later
+   */
+  private async queueEmbedding(questionId: string): Promise<void> {
+    try {
+      await this.jobRepository.enqueue({
+        type: 'embed-question',
+        key: questionId,
+        payload: { questionId },
+        followUpIfRunning: true,
+      });
+    } catch (error) {
+      console.error('Error queueing embedding job:', error);
+    }
+  }
+
+  /**
+   * Nearest-neighbour search on embeddings, or null when embeddings are unavailable
+   */
+  private async semanticSearch(query: string, limit: number): Promise<Question[] | null> {
+    try {
+      const embedding = await this.embed(query);
+      return await this.questionRepository.searchByEmbedding(embedding, limit);
+    } catch (error: any) {
+      console.warn('Semantic search unavailable, using keyword search only:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Embed text, tagging the vector with the provider that produced it
+   */
+  private async embed(text: string): Promise<Embedding> {
+    return {
+      values: await this.embeddingService.generateEmbedding(text),
+      provider: this.embeddingService.getProviderName(),
+    };
+  }
+}
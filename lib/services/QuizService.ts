@@ -0,0 +1,107 @@
+import { IQuizRepository, QuizQuestionInput } from '../interfaces/IQuizRepository';
+import { IQuizService } from '../interfaces/IQuizService';
+import { Quiz } from '../models/Quiz';
+import { QuizAttempt } from '../models/QuizAttempt';
+import { QuizRepository } from '../repositories/QuizRepository';
+
+/**
+ * Service class for Quiz operations
+ * Handles business logic for saved quizzes and scored attempts
+ * Implements IQuizService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles quiz business logic
+ */
+export class QuizService implements IQuizService {
+  private quizRepository: IQuizRepository;
+
+  constructor(quizRepository?: IQuizRepository) {
+    this.quizRepository = quizRepository || new QuizRepository();
+  }
+
+  /**
+   * Persist a quiz produced by the AI generator
+   */
+  async saveGeneratedQuiz(data: {
+    title: string;
+    description: string;
+    subject: string;
+    difficulty: string;
+    prompt: string;
+    userId: string;
+    courseId?: string | null;
+    questions: QuizQuestionInput[];
+  }): Promise<Quiz> {
+    const { questions, ...quiz } = data;
+    if (questions.length === 0) {
+      throw new Error('Quiz must have at least one question');
+    }
+
+    return await this.quizRepository.create(quiz, questions);
+  }
+
+  /**
+   * Get all quizzes a user has generated, with their attempts
+   */
+  async getQuizHistory(userId: string): Promise<Quiz[]> {
+    return await this.quizRepository.findByUserId(userId);
+  }
+
+  /**
+   * Get a quiz, making sure it belongs to the user
+   */
+  async getQuizForUser(quizId: string, userId: string): Promise<Quiz> {
+    const quiz = await this.quizRepository.findById(quizId);
+    if (!quiz) {
+      throw new Error('Quiz not found');
+    }
+
+    if (!quiz.belongsTo(userId)) {
+      throw new Error('You can only access your own quizzes');
+    }
+
+    return quiz;
+  }
+
+  /**
+   * Delete a quiz owned by the user
+   */
+  async deleteQuiz(quizId: string, userId: string): Promise<void> {
+    await this.getQuizForUser(quizId, userId);
+    await this.quizRepository.delete(quizId);
+  }
+
+  /**
+   * Score submitted answers on the server and record the attempt
+   */
+  async submitAttempt(quizId: string, userId: string, answers: number[]): Promise<QuizAttempt> {
+    const quiz = await this.getQuizForUser(quizId, userId);
+
+    if (answers.length !== quiz.questions.length) {
+      throw new Error('An answer is required for every question');
+    }
+
+    const invalid = answers.some(
+      (answer, index) =>
+        !Number.isInteger(answer) || answer < 0 || answer >= quiz.questions[index].options.length
+    );
+    if (invalid) {
+      throw new Error('Answers must be valid option indexes');
+    }
+
+    return await this.quizRepository.createAttempt({
+      quizId,
+      userId,
+      answers,
+      score: quiz.score(answers),
+      total: quiz.questions.length,
+    });
+  }
+
+  /**
+   * Get a user's attempts for one of their quizzes, newest first
+   */
+  async getAttempts(quizId: string, userId: string): Promise<QuizAttempt[]> {
+    await this.getQuizForUser(quizId, userId);
+    return await this.quizRepository.findAttempts(quizId, userId);
+  }
+}
@@ -0,0 +1,60 @@
+import { IRateLimitStore } from '../interfaces/IRateLimitStore';
+
+/**
+ * Outcome of one rate-limited action
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window rate limiter: at most `limit` hits per key in each `windowMs`
+ * Counters live in the injected store, so one policy works with memory or Postgres storage
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ */
+export class RateLimiter {
+  private store: IRateLimitStore;
+  private name: string;
+  private limit: number;
+  private windowMs: number;
+
+  constructor(store: IRateLimitStore, name: string, limit: number, windowMs: number) {
+    this.store = store;
+    this.name = name;
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Count one attempt for a key and say whether it is within the limit
+   */
+  async consume(key: string, now: Date = new Date()): Promise<RateLimitResult> {
+    const hit = await this.store.increment(this.storeKey(key), this.windowMs, now);
+
+    return {
+      allowed: hit.count <= this.limit,
+      count: hit.count,
+      limit: this.limit,
+      remaining: Math.max(0, this.limit - hit.count),
+      retryAfterSeconds: Math.max(1, Math.ceil((hit.resetAt.getTime() - now.getTime()) / 1000)),
+    };
+  }
+
+  /**
+   * Clear a key's counter, e.g. after a successful login
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.reset(this.storeKey(key));
+  }
+
+  /**
+   * Namespace keys so limiters sharing a store don't collide
+   */
+  private storeKey(key: string): string {
+    return `${this.name}:${key.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,35 @@
+import { Resend } from 'resend';
+import { EmailMessage, IEmailTransport } from '../interfaces/IEmailTransport';
+
+/**
+ * Email transport that delivers through the Resend API
+ * Implements IEmailTransport interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles delivery
+ */
+export class ResendEmailTransport implements IEmailTransport {
+  private readonly resend: Resend;
+
+  constructor(apiKey: string) {
+    this.resend = new Resend(apiKey);
+  }
+
+  /**
+   * Send one email
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const { data, error } = await this.resend.emails.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      ...(message.text && { text: message.text }),
+    });
+
+    if (error) {
+      console.error('Resend email error:', error);
+      throw new Error('Failed to send email');
+    }
+
+    console.log('Email sent through Resend:', data);
+  }
+}
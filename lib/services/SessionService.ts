@@ -0,0 +1,79 @@
+import { ISessionService, SessionDevice } from '../interfaces/ISessionService';
+import { ISessionRepository } from '../interfaces/ISessionRepository';
+import { Session } from '../models/Session';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { generateToken, setAuthToken, SESSION_MAX_AGE_SECONDS } from '../auth';
+
+// Ended sessions are kept this long before they are deleted
+const SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Service class for Session operations
+ * Starts sessions at sign-in and lets users see and sign out their devices
+ * Implements ISessionService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles session business logic
+ */
+export class SessionService implements ISessionService {
+  private sessionRepository: ISessionRepository;
+
+  constructor(sessionRepository?: ISessionRepository) {
+    this.sessionRepository = sessionRepository || new SessionRepository();
+  }
+
+  /**
+   * Start a session for a user, set the auth cookie and return its token
+   */
+  async startSession(user: { id: string; email: string; role: string }, device: SessionDevice): Promise<string> {
+    const session = await this.sessionRepository.create({
+      userId: user.id,
+      userAgent: device.userAgent?.slice(0, 500) ?? null,
+      ipAddress: device.ipAddress,
+      expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+    });
+
+    const token = generateToken(user.id, user.email, user.role, session.id);
+    await setAuthToken(token);
+
+    return token;
+  }
+
+  /**
+   * Get a user's signed-in devices
+   */
+  async listSessions(userId: string): Promise<Session[]> {
+    return await this.sessionRepository.findActiveByUserId(userId, new Date());
+  }
+
+  /**
+   * Sign one of a user's devices out
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.sessionRepository.revoke(sessionId, userId, new Date());
+    if (!revoked) {
+      throw new Error('Session not found');
+    }
+  }
+
+  /**
+   * Sign a user out everywhere, optionally keeping the current device
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    return await this.sessionRepository.revokeAllForUser(userId, new Date(), exceptSessionId);
+  }
+
+  /**
+   * Replace all of a user's sessions with a fresh one for this device, e.g. after a password change
+   */
+  async rotateSessions(user: { id: string; email: string; role: string }, device: SessionDevice): Promise<string> {
+    await this.sessionRepository.revokeAllForUser(user.id, new Date());
+    return await this.startSession(user, device);
+  }
+
+  /**
+   * Delete sessions that ended more than a month ago
+   */
+  async pruneExpiredSessions(now: Date = new Date()): Promise<number> {
+    return await this.sessionRepository.deleteExpired(new Date(now.getTime() - SESSION_RETENTION_MS));
+  }
+}
@@ -0,0 +1,68 @@
+import { ISignupDomainService } from '../interfaces/ISignupDomainService';
+import { ISignupDomainRepository } from '../interfaces/ISignupDomainRepository';
+import { SignupDomain } from '../models/SignupDomain';
+import { SignupDomainRepository } from '../repositories/SignupDomainRepository';
+
+const DOMAIN_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/;
+
+/**
+ * Service class for the signup domain allow-list
+ * With no domains configured anyone can sign up; otherwise only addresses at those domains
+ * Implements ISignupDomainService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles signup domain rules
+ */
+export class SignupDomainService implements ISignupDomainService {
+  private signupDomainRepository: ISignupDomainRepository;
+
+  constructor(signupDomainRepository?: ISignupDomainRepository) {
+    this.signupDomainRepository = signupDomainRepository || new SignupDomainRepository();
+  }
+
+  /**
+   * Get the allowed domains
+   */
+  async listDomains(): Promise<SignupDomain[]> {
+    return await this.signupDomainRepository.findAll();
+  }
+
+  /**
+   * Allow signups from a domain, accepting "uni.edu" or "@uni.edu"
+   */
+  async addDomain(domain: string): Promise<SignupDomain> {
+    const normalized = (domain || '').trim().toLowerCase().replace(/^@/, '');
+    if (!DOMAIN_PATTERN.test(normalized)) {
+      throw new Error('Enter a domain like university.edu');
+    }
+
+    if (await this.signupDomainRepository.findByDomain(normalized)) {
+      throw new Error('Domain is already allowed');
+    }
+
+    return await this.signupDomainRepository.create({ domain: normalized });
+  }
+
+  /**
+   * Stop allowing a domain
+   */
+  async removeDomain(id: string): Promise<void> {
+    const domain = await this.signupDomainRepository.findById(id);
+    if (!domain) {
+      throw new Error('Domain not found');
+    }
+
+    await this.signupDomainRepository.delete(id);
+  }
+
+  /**
+   * Throw if signups are restricted and the address is not at an allowed domain
+   */
+  async assertEmailAllowed(email: string): Promise<void> {
+    const domains = await this.signupDomainRepository.findAll();
+    if (domains.length === 0 || domains.some((d) => d.matches(email))) {
+      return;
+    }
+
+    throw new Error(`Signups are limited to ${domains.map((d) => `@${d.domain}`).join(', ')} email addresses`);
+  }
+}
@@ -0,0 +1,182 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { EmailMessage, IEmailTransport } from '../interfaces/IEmailTransport';
+import { MimeMessage } from '../utils/MimeMessage';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+type SmtpReply = { code: number; text: string };
+
+/**
+ * Email transport that speaks SMTP directly to a server
+ * Meant for local catch-all servers such as Mailpit or MailHog; supports implicit TLS and AUTH PLAIN but not STARTTLS
+ * Implements IEmailTransport interface - follows Interface Segregation Principle (ISP)
+ * Follows Single Responsibility Principle (SRP) - only handles delivery
+ */
+export class SmtpEmailTransport implements IEmailTransport {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly secure: boolean;
+  private readonly user: string | undefined;
+  private readonly password: string | undefined;
+  private readonly timeoutMs: number;
+
+  constructor(
+    host: string,
+    port: number,
+    secure: boolean = false,
+    user?: string,
+    password?: string,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.host = host;
+    this.port = port;
+    this.secure = secure;
+    this.user = user;
+    this.password = password;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Send one email in a single SMTP session
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const from = MimeMessage.address(message.from);
+    const to = MimeMessage.address(message.to);
+    const session = await SmtpSession.open(this.host, this.port, this.secure, this.timeoutMs);
+
+    try {
+      await session.expect(220);
+      await session.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+
+      if (this.user) {
+        const credentials = Buffer.from(`\0${this.user}\0${this.password ?? ''}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${from}>`, 250);
+      await session.command(`RCPT TO:<${to}>`, 250, 251);
+      await session.command('DATA', 354);
+
+      // Lines starting with a dot are doubled so the server does not read them as the end of DATA
+      const body = MimeMessage.build(message).replace(/\r\n\./g, '\r\n..');
+      await session.command(`${body}\r\n.`, 250);
+      await session.command('QUIT', 221);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+/**
+ * One connection to an SMTP server, pairing each command with the server's reply
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  private error: Error | null = null;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.abort(error));
+    socket.on('close', () => this.abort(new Error('SMTP connection closed')));
+  }
+
+  /**
+   * Connect to the server, over TLS when secure is set
+   */
+  static open(host: string, port: number, secure: boolean, timeoutMs: number): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+      socket.once('error', reject);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpSession(socket));
+      });
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return await this.expect(...expected);
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   */
+  async expect(...expected: number[]): Promise<SmtpReply> {
+    const reply = await this.next();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.socket.end();
+  }
+
+  /**
+   * Take the next complete reply, waiting for it if needed
+   */
+  private next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /**
+   * Split incoming data into replies; a multi-line reply ends with a line like "250 OK"
+   */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), text: this.lines.join('\n') };
+        this.lines = [];
+
+        const waiter = this.waiting.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fail every pending command once the connection breaks
+   */
+  private abort(error: Error): void {
+    if (this.error) return;
+    this.error = error;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+}
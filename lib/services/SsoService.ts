@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import { ISsoService } from '../interfaces/ISsoService';
+import { SsoProfile } from '../interfaces/ISsoProvider';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { ISsoIdentityRepository } from '../interfaces/ISsoIdentityRepository';
+import { ISignupDomainService } from '../interfaces/ISignupDomainService';
+import { UserRepository } from '../repositories/UserRepository';
+import { SsoIdentityRepository } from '../repositories/SsoIdentityRepository';
+import { SignupDomainService } from './SignupDomainService';
+import { User } from '../models/User';
+import { hashPassword } from '../auth';
+
+/**
+ * Service class for SSO accounts
+ * Finds the local user for a provider account, linking by email or creating the user on first sign-in
+ * Implements ISsoService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles SSO account matching
+ */
+export class SsoService implements ISsoService {
+  private userRepository: IUserRepository;
+  private ssoIdentityRepository: ISsoIdentityRepository;
+  private signupDomainService: ISignupDomainService;
+
+  constructor(
+    userRepository?: IUserRepository,
+    ssoIdentityRepository?: ISsoIdentityRepository,
+    signupDomainService?: ISignupDomainService
+  ) {
+    this.userRepository = userRepository || new UserRepository();
+    this.ssoIdentityRepository = ssoIdentityRepository || new SsoIdentityRepository();
+    this.signupDomainService = signupDomainService || new SignupDomainService();
+  }
+
+  /**
+   * Get the user for a provider account
+   * When the provider decides roles, the user's role follows it on every sign-in
+   */
+  async resolveUser(profile: SsoProfile): Promise<User> {
+    const now = new Date();
+    let user = await this.findLinkedUser(profile, now);
+
+    if (!user) {
+      const [existing] = await this.userRepository.findByEmails([profile.email]);
+      if (existing) {
+        // Linking on an unverified address would let anyone claim an account by typing its email at the provider
+        if (!profile.emailVerified) {
+          throw new Error('Your SSO email address is not verified, so it cannot be linked to an existing account');
+        }
+        user = existing;
+      } else {
+        user = await this.createUser(profile, now);
+      }
+
+      await this.ssoIdentityRepository.create({ userId: user.id, provider: profile.provider, subject: profile.subject });
+    }
+
+    if (profile.role && user.role !== profile.role) {
+      user = await this.userRepository.updateRole(user.id, profile.role);
+    }
+
+    return user;
+  }
+
+  private async findLinkedUser(profile: SsoProfile, now: Date): Promise<User | null> {
+    const identity = await this.ssoIdentityRepository.findByProviderSubject(profile.provider, profile.subject);
+    if (!identity) return null;
+
+    await this.ssoIdentityRepository.touch(identity.id, now);
+    return await this.userRepository.findById(identity.userId);
+  }
+
+  /**
+   * Create a user for a first SSO sign-in
+   * The random password can't be guessed; the user can still set one with a reset link
+   */
+  private async createUser(profile: SsoProfile, now: Date): Promise<User> {
+    await this.signupDomainService.assertEmailAllowed(profile.email);
+
+    const user = await this.userRepository.create({
+      email: profile.email,
+      password: await hashPassword(randomBytes(32).toString('hex')),
+      name: profile.name,
+      role: profile.role || 'STUDENT',
+    });
+
+    if (!profile.emailVerified) {
+      return user;
+    }
+
+    await this.userRepository.markEmailVerified(user.id, now);
+    return (await this.userRepository.findById(user.id)) || user;
+  }
+}
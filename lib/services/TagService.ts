@@ -0,0 +1,253 @@
+import { ITagRepository } from '../interfaces/ITagRepository';
+import { ITagService } from '../interfaces/ITagService';
+import { ITagSuggestionService } from '../interfaces/ITagSuggestionService';
+import { IQuestionRepository } from '../interfaces/IQuestionRepository';
+import { IJobRepository } from '../interfaces/IJobRepository';
+import { Tag, MAX_TAG_LENGTH } from '../models/Tag';
+import { TagRepository } from '../repositories/TagRepository';
+import { QuestionRepository } from '../repositories/QuestionRepository';
+import { JobRepository } from '../repositories/JobRepository';
+import { GeminiTagSuggestionService } from './GeminiTagSuggestionService';
+
+const MAX_TAGS_PER_QUESTION = 5;
+const AUTOCOMPLETE_LIMIT = 10;
+// Suggestions offered in the ask form, and applied to questions posted without tags
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Service class for Tag operations
+ * Handles business logic for tagging questions, tag suggestions and tag curation
+ * Implements ITagService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles tag business logic
+ */
+export class TagService implements ITagService {
+  private tagRepository: ITagRepository;
+  private questionRepository: IQuestionRepository;
+  private tagSuggestionService: ITagSuggestionService;
+  private jobRepository: IJobRepository;
+
+  constructor(
+    tagRepository?: ITagRepository,
+    questionRepository?: IQuestionRepository,
+    tagSuggestionService?: ITagSuggestionService,
+    jobRepository?: IJobRepository
+  ) {
+    this.tagRepository = tagRepository || new TagRepository();
+    this.questionRepository = questionRepository || new QuestionRepository();
+    this.tagSuggestionService = tagSuggestionService || new GeminiTagSuggestionService();
+    this.jobRepository = jobRepository || new JobRepository();
+  }
+
+  /**
+   * Get all tags, most used first
+   */
+  async listTags(): Promise<Tag[]> {
+    return await this.tagRepository.findAll();
+  }
+
+  /**
+   * Autocomplete tags from what the user has typed so far
+   */
+  async searchTags(prefix: string): Promise<Tag[]> {
+    const normalized = Tag.normalizeName(prefix);
+    if (!normalized) return [];
+
+    return await this.tagRepository.searchByPrefix(normalized, AUTOCOMPLETE_LIMIT);
+  }
+
+  /**
+   * Get a tag by name
+   */
+  async getTag(name: string): Promise<Tag> {
+    const tag = await this.tagRepository.findByName(Tag.normalizeName(name));
+    if (!tag) {
+      throw new Error('Tag not found');
+    }
+
+    return tag;
+  }
+
+  /**
+   * Normalise and validate the tag names given for a question, dropping duplicates
+   */
+  normalizeTagNames(names: unknown[]): string[] {
+    const normalized = Array.from(
+      new Set(
+        names
+          .filter((name): name is string => typeof name === 'string')
+          .map((name) => Tag.normalizeName(name))
+          .filter((name) => name.length > 0)
+      )
+    );
+
+    if (normalized.some((name) => !Tag.isValidName(name))) {
+      throw new Error(
+        `Tags may only contain letters, digits, hyphens, "+", "#" and "." (at most ${MAX_TAG_LENGTH} characters)`
+      );
+    }
+
+    if (normalized.length > MAX_TAGS_PER_QUESTION) {
+      throw new Error(`A question can have at most ${MAX_TAGS_PER_QUESTION} tags`);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Replace a question's tags as its author or an admin; unknown tags are created
+   */
+  async setQuestionTags(
+    questionId: string,
+    editor: { id: string; role: string },
+    names: unknown[]
+  ): Promise<string[]> {
+    const question = await this.questionRepository.findById(questionId);
+    if (!question) {
+      throw new Error('Question not found');
+    }
+
+    if (!question.canBeEditedBy(editor.id, editor.role)) {
+      throw new Error('You can only tag your own questions');
+    }
+
+    return await this.applyTags(questionId, this.normalizeTagNames(names));
+  }
+
+  /**
+   * Tag a question that was just posted
+   * Without tags from the author, a background job tags it from AI suggestions
+   */
+  async tagNewQuestion(questionId: string, names: string[]): Promise<string[]> {
+    if (names.length > 0) {
+      return await this.applyTags(questionId, names);
+    }
+
+    try {
+      await this.jobRepository.enqueue({
+        type: 'tag-question',
+        key: questionId,
+        payload: { questionId },
+      });
+    } catch (error) {
+      console.error('Error queueing tagging job:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Suggest tags for a question's text
+   * Uses AI when available and falls back to matching existing tag names in the text
+   */
+  async suggestTags(title: string, description: string): Promise<string[]> {
+    const text = `${title.trim()}\n\n${this.toPlainText(description)}`;
+    if (!text.trim()) return [];
+
+    const knownTags = (await this.tagRepository.findAll()).map((tag) => tag.name);
+
+    try {
+      const suggested = await this.tagSuggestionService.suggestTags(text, knownTags, MAX_SUGGESTIONS);
+      const valid = Array.from(
+        new Set(suggested.map((name) => Tag.normalizeName(name)).filter((name) => Tag.isValidName(name)))
+      );
+      return valid.slice(0, MAX_SUGGESTIONS);
+    } catch (error: any) {
+      console.warn('AI tag suggestions unavailable, matching existing tags instead:', error.message);
+      return this.matchKnownTags(text, knownTags);
+    }
+  }
+
+  /**
+   * Apply suggested tags to a question that still has none
+   * Returns false when there was nothing to do
+   */
+  async autoTagQuestion(questionId: string): Promise<boolean> {
+    const question = await this.questionRepository.findById(questionId);
+    if (!question || question.isMerged() || question.tags.length > 0) {
+      return false;
+    }
+
+    const names = await this.suggestTags(question.title, question.description);
+    if (names.length === 0) {
+      return false;
+    }
+
+    await this.applyTags(questionId, names);
+    return true;
+  }
+
+  /**
+   * Rename a tag; every question carrying it follows
+   */
+  async renameTag(name: string, newName: string): Promise<Tag> {
+    const tag = await this.getTag(name);
+    const [normalized] = this.normalizeTagNames([newName]);
+    if (!normalized) {
+      throw new Error('Tag name is required');
+    }
+
+    if (normalized === tag.name) {
+      return tag;
+    }
+
+    if (await this.tagRepository.findByName(normalized)) {
+      throw new Error('A tag with that name already exists; merge the tags instead');
+    }
+
+    return await this.tagRepository.update(tag.id, { name: normalized });
+  }
+
+  /**
+   * Merge one tag into another and return the surviving tag
+   */
+  async mergeTags(sourceName: string, targetName: string): Promise<Tag> {
+    const source = await this.getTag(sourceName);
+    const target = await this.getTag(targetName);
+
+    if (source.id === target.id) {
+      throw new Error('A tag cannot be merged into itself');
+    }
+
+    await this.tagRepository.merge(source.id, target.id);
+    return (await this.tagRepository.findById(target.id))!;
+  }
+
+  /**
+   * Delete a tag, removing it from every question
+   */
+  async deleteTag(name: string): Promise<void> {
+    const tag = await this.getTag(name);
+    await this.tagRepository.delete(tag.id);
+  }
+
+  /**
+   * Link a question to tags by name, creating missing tags
+   */
+  private async applyTags(questionId: string, names: string[]): Promise<string[]> {
+    const tags = await this.tagRepository.findOrCreateMany(names);
+    await this.tagRepository.setQuestionTags(questionId, tags.map((tag) => tag.id));
+    return tags.map((tag) => tag.name);
+  }
+
+  /**
+   * Existing tags whose words all appear in the text, most used first
+   */
+  private matchKnownTags(text: string, knownTags: string[]): string[] {
+    const words = ` ${text.toLowerCase().replace(/[^a-z0-9+#.]+/g, ' ')} `;
+
+    return knownTags
+      .filter((name) => words.includes(` ${name.replace(/-/g, ' ')} `))
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Strip rich-text markup from a description
+   */
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
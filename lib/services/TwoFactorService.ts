@@ -0,0 +1,226 @@
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { ITwoFactorService, TwoFactorEnrollment, TwoFactorStatus } from '../interfaces/ITwoFactorService';
+import { IUserRepository } from '../interfaces/IUserRepository';
+import { IRecoveryCodeRepository } from '../interfaces/IRecoveryCodeRepository';
+import { ITwoFactorPolicyRepository } from '../interfaces/ITwoFactorPolicyRepository';
+import { ISessionRepository } from '../interfaces/ISessionRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { RecoveryCodeRepository } from '../repositories/RecoveryCodeRepository';
+import { TwoFactorPolicyRepository } from '../repositories/TwoFactorPolicyRepository';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { TwoFactorPolicy, TwoFactorPolicyRole } from '../models/TwoFactorPolicy';
+import { Totp } from '../utils/Totp';
+
+const ISSUER = process.env.TOTP_ISSUER || 'Ragra Prep';
+const RECOVERY_CODE_COUNT = 10;
+// 80 bits each, shown as four groups of five hex digits
+const RECOVERY_CODE_BYTES = 10;
+const POLICY_ROLES: TwoFactorPolicyRole[] = ['ADMIN', 'MODERATOR', 'TEACHING_ASSISTANT', 'STUDENT'];
+
+/**
+ * Service class for two-factor authentication
+ * Enrolls authenticator apps, checks TOTP and recovery codes and manages which roles must use 2FA
+ * Implements ITwoFactorService interface - follows Interface Segregation Principle (ISP)
+ * Uses Dependency Injection - follows Dependency Inversion Principle (DIP)
+ * Follows Single Responsibility Principle (SRP) - only handles second-factor logic
+ */
+export class TwoFactorService implements ITwoFactorService {
+  private userRepository: IUserRepository;
+  private recoveryCodeRepository: IRecoveryCodeRepository;
+  private policyRepository: ITwoFactorPolicyRepository;
+  private sessionRepository: ISessionRepository;
+
+  constructor(
+    userRepository?: IUserRepository,
+    recoveryCodeRepository?: IRecoveryCodeRepository,
+    policyRepository?: ITwoFactorPolicyRepository,
+    sessionRepository?: ISessionRepository
+  ) {
+    this.userRepository = userRepository || new UserRepository();
+    this.recoveryCodeRepository = recoveryCodeRepository || new RecoveryCodeRepository();
+    this.policyRepository = policyRepository || new TwoFactorPolicyRepository();
+    this.sessionRepository = sessionRepository || new SessionRepository();
+  }
+
+  /**
+   * Get whether a user has 2FA on, whether their role requires it and how many recovery codes are left
+   */
+  async getStatus(user: { id: string; role: string }): Promise<TwoFactorStatus> {
+    const [enabled, required, recoveryCodesRemaining] = await Promise.all([
+      this.isEnabled(user.id),
+      this.isRequiredForRole(user.role),
+      this.recoveryCodeRepository.countUnused(user.id),
+    ]);
+
+    return { enabled, required, recoveryCodesRemaining };
+  }
+
+  /**
+   * Check if a user has finished enrolling an authenticator app
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const state = await this.userRepository.findTwoFactorState(userId);
+    return !!state?.enabledAt;
+  }
+
+  /**
+   * Generate a new secret for the user to scan; 2FA stays off until a code from it is confirmed
+   */
+  async beginEnrollment(user: { id: string; email: string }): Promise<TwoFactorEnrollment> {
+    if (await this.isEnabled(user.id)) {
+      throw new Error('Two-factor authentication is already on');
+    }
+
+    const secret = Totp.generateSecret();
+    await this.userRepository.setTotpSecret(user.id, secret);
+
+    const otpauthUrl = Totp.keyUri(secret, user.email, ISSUER);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Turn 2FA on once the user proves their app works, returning their recovery codes
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const state = await this.userRepository.findTwoFactorState(userId);
+    if (state?.enabledAt) {
+      throw new Error('Two-factor authentication is already on');
+    }
+    if (!state?.secret) {
+      throw new Error('Start two-factor setup first');
+    }
+
+    const step = Totp.verify(state.secret, code);
+    if (step === null || !(await this.userRepository.markTotpStepUsed(userId, step))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await this.userRepository.enableTwoFactor(userId, new Date());
+    return await this.issueRecoveryCodes(userId);
+  }
+
+  /**
+   * Turn 2FA off after checking a current code, unless the user's role requires it
+   */
+  async disable(user: { id: string; role: string }, code: string): Promise<void> {
+    if (!(await this.isEnabled(user.id))) {
+      throw new Error('Two-factor authentication is not on');
+    }
+    if (await this.isRequiredForRole(user.role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+    if (!(await this.verifyCode(user.id, code))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await this.userRepository.disableTwoFactor(user.id);
+    await this.recoveryCodeRepository.deleteForUser(user.id);
+  }
+
+  /**
+   * Replace a user's recovery codes after checking a current code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw new Error('Two-factor authentication is not on');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    return await this.issueRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a 6-digit authenticator code or a recovery code; either works only once
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const state = await this.userRepository.findTwoFactorState(userId);
+    if (!state?.secret || !state.enabledAt) {
+      return false;
+    }
+
+    // Authenticator codes are six digits; anything else is treated as a recovery code
+    const trimmed = code.replace(/\s/g, '');
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = Totp.verify(state.secret, trimmed);
+      return step !== null && (await this.userRepository.markTotpStepUsed(userId, step));
+    }
+
+    return await this.recoveryCodeRepository.consume(userId, TwoFactorService.hashRecoveryCode(userId, trimmed), new Date());
+  }
+
+  /**
+   * Check if members of a role must use 2FA to sign in
+   */
+  async isRequiredForRole(role: string): Promise<boolean> {
+    const policy = await this.policyRepository.findById(role);
+    return policy?.required ?? false;
+  }
+
+  /**
+   * Get the policy for every role, including roles that were never configured
+   */
+  async listPolicies(): Promise<TwoFactorPolicy[]> {
+    const saved = await this.policyRepository.findAll();
+    return POLICY_ROLES.map((role) => saved.find((p) => p.role === role) || new TwoFactorPolicy(role));
+  }
+
+  /**
+   * Require (or stop requiring) 2FA for a role
+   * Members of the role without 2FA are signed out so their next sign-in walks them through setup
+   */
+  async setRequired(
+    role: TwoFactorPolicyRole,
+    required: boolean,
+    admin: { id: string; role: string }
+  ): Promise<TwoFactorPolicy> {
+    if (!POLICY_ROLES.includes(role)) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+
+    // Otherwise the admin would lock themselves out of their next sign-in
+    if (required && admin.role === role && !(await this.isEnabled(admin.id))) {
+      throw new Error('Turn on two-factor authentication for your own account first');
+    }
+
+    const policy = await this.policyRepository.upsert(role, required);
+
+    if (required) {
+      const now = new Date();
+      const users = await this.userRepository.findWithoutTwoFactor(role);
+      for (const user of users) {
+        await this.sessionRepository.revokeAllForUser(user.id, now);
+      }
+    }
+
+    return policy;
+  }
+
+  /**
+   * Generate a fresh set of recovery codes, replacing any old ones
+   */
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      randomBytes(RECOVERY_CODE_BYTES).toString('hex').match(/.{5}/g)!.join('-')
+    );
+
+    await this.recoveryCodeRepository.replaceForUser(
+      userId,
+      codes.map((c) => TwoFactorService.hashRecoveryCode(userId, c))
+    );
+    return codes;
+  }
+
+  /**
+   * Hash a recovery code for storage, ignoring case and dashes
+   * The user id salts the hash, so a leaked table cannot be cracked for every account at once
+   */
+  private static hashRecoveryCode(userId: string, code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return createHash('sha256').update(`${userId}:${normalized}`).digest('hex');
+  }
+}
@@ -51,9 +51,9 @@ export class UserService implements IUserService {
    * Update user role
    */
   async updateUserRole(userId: string, role: UserRole, currentUserId: string): Promise<User> {
-    // Prevent admin from changing their own role to STUDENT
-    if (userId === currentUserId && role === 'STUDENT') {
-      throw new Error('You cannot change your own role to STUDENT');
+    // Prevent admin from changing their own role and locking themselves out
+    if (userId === currentUserId && role !== 'ADMIN') {
+      throw new Error('You cannot change your own role');
     }
 
     return await this.userRepository.updateRole(userId, role);
@@ -78,6 +78,16 @@ export class UserService implements IUserService {
     await this.userRepository.delete(userId);
   }
 
+  /**
+   * Find users to suggest while typing an @mention
+   */
+  async searchMentionableUsers(prefix: string): Promise<User[]> {
+    const query = prefix.trim().replace(/^@/, '');
+    if (!query) return [];
+
+    return await this.userRepository.searchByMentionHandle(query);
+  }
+
   /**
    * Create admin user
    */
@@ -6,5 +6,29 @@
 export { AuthService } from './AuthService';
 export { UserService } from './UserService';
 export { QuestionService } from './QuestionService';
-export { EmbeddingService } from './EmbeddingService';
-
+export { GeminiEmbeddingService } from './GeminiEmbeddingService';
+export { OpenAICompatibleEmbeddingService } from './OpenAICompatibleEmbeddingService';
+export { HashingEmbeddingService } from './HashingEmbeddingService';
+export { QuizService } from './QuizService';
+export { FlashcardService } from './FlashcardService';
+export { CommentService } from './CommentService';
+export { JobWorker } from './JobWorker';
+export { TagService } from './TagService';
+export { GeminiTagSuggestionService } from './GeminiTagSuggestionService';
+export { CourseService } from './CourseService';
+export { NotificationService } from './NotificationService';
+export { DigestService } from './DigestService';
+export { ResendEmailTransport } from './ResendEmailTransport';
+export { SmtpEmailTransport } from './SmtpEmailTransport';
+export { FileEmailTransport } from './FileEmailTransport';
+export { PasswordResetService } from './PasswordResetService';
+export { SessionService } from './SessionService';
+export { EmailVerificationService } from './EmailVerificationService';
+export { SignupDomainService } from './SignupDomainService';
+export { AuditService } from './AuditService';
+export { RateLimiter } from './RateLimiter';
+export { MemoryRateLimitStore } from './MemoryRateLimitStore';
+export { PostgresRateLimitStore } from './PostgresRateLimitStore';
+export { TwoFactorService } from './TwoFactorService';
+export { SsoService } from './SsoService';
+export { OidcSsoProvider } from './OidcSsoProvider';
@@ -0,0 +1,97 @@
+import { randomBytes } from 'crypto';
+import { EmailMessage } from '../interfaces/IEmailTransport';
+
+/**
+ * Utility class for serialising an email as an RFC 5322 message
+ * Used by the transports that do not go through an email API (SMTP and .eml files)
+ */
+export class MimeMessage {
+  /**
+   * Build the full message: headers plus a multipart/alternative text and HTML body
+   */
+  static build(message: EmailMessage, date: Date = new Date()): string {
+    const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+    const domain = this.address(message.from).split('@')[1] || 'localhost';
+    const text = message.text ?? this.htmlToText(message.html);
+
+    return [
+      `From: ${this.headerValue(message.from)}`,
+      `To: ${this.headerValue(message.to)}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.base64Lines(text),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.base64Lines(message.html),
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+  }
+
+  /**
+   * Extract the bare address from "Name <user@example.com>"
+   * Throws when the value could smuggle in another header or SMTP command
+   */
+  static address(value: string): string {
+    const match = this.headerValue(value).match(/^[^<>]*<([^<>]+)>\s*$/);
+    const address = (match ? match[1] : value).trim();
+    if (/[<>\s]/.test(address)) {
+      throw new Error(`Invalid email address: ${JSON.stringify(value)}`);
+    }
+    return address;
+  }
+
+  /**
+   * Rough plain-text version of an HTML body for clients that do not render HTML
+   */
+  static htmlToText(html: string): string {
+    return html
+      .replace(/<(style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|tr|h[1-6]|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n\s*\n\s*/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Refuse header values with line breaks, which would start a new header
+   */
+  private static headerValue(value: string): string {
+    if (/[\r\n]/.test(value)) {
+      throw new Error('Email header values cannot contain line breaks');
+    }
+    return value;
+  }
+
+  /**
+   * Encode a header value as an RFC 2047 word when it is not plain ASCII
+   */
+  private static encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+  }
+
+  /**
+   * Base64-encode a body, wrapped at 76 characters per line
+   */
+  private static base64Lines(value: string): string {
+    return Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n').trimEnd();
+  }
+}
@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { apiErrorSchema } from '../schemas/common';
+import type { Endpoint } from '../schemas/endpoint';
+
+type JsonSchema = Record<string, any>;
+
+const SCHEMA_REF = '#/components/schemas/';
+
+/**
+ * Utility class for turning endpoint contracts into an OpenAPI 3.1 document
+ * Schemas registered with .meta({ id }) become shared components; everything else is inlined
+ */
+export class OpenApiBuilder {
+  /**
+   * Build the document for a list of endpoints
+   */
+  static build(endpoints: Endpoint[]): JsonSchema {
+    const components: Record<string, JsonSchema> = {};
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+
+    const convert = (schema: z.ZodType, io: 'input' | 'output') => this.toJsonSchema(schema, io, components);
+    const errorRef = { $ref: `${SCHEMA_REF}Error` };
+    components.Error = convert(apiErrorSchema, 'output');
+
+    for (const endpoint of endpoints) {
+      const operation: JsonSchema = {
+        tags: [endpoint.tag],
+        summary: endpoint.summary,
+        operationId: `${endpoint.method.toLowerCase()}${this.operationName(endpoint.path)}`,
+      };
+
+      const description = this.describeAccess(endpoint);
+      if (description) {
+        operation.description = description;
+      }
+      if ((endpoint.auth ?? true) !== false) {
+        operation.security = endpoint.auth === 'optional' ? [{ cookieAuth: [] }, {}] : [{ cookieAuth: [] }];
+      }
+
+      const parameters = [
+        ...this.parameters(endpoint.params && convert(endpoint.params, 'input'), 'path'),
+        ...this.parameters(endpoint.query && convert(endpoint.query, 'input'), 'query'),
+      ];
+      if (parameters.length > 0) {
+        operation.parameters = parameters;
+      }
+
+      if (endpoint.body) {
+        operation.requestBody = {
+          required: !endpoint.body.safeParse(undefined).success,
+          content: { 'application/json': { schema: convert(endpoint.body, 'input') } },
+        };
+      } else if (endpoint.upload) {
+        operation.requestBody = {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: { file: { type: 'string', format: 'binary' } },
+                required: ['file'],
+              },
+            },
+          },
+        };
+      }
+
+      operation.responses = {
+        ...this.successResponse(endpoint, convert),
+        ...Object.fromEntries(
+          Object.entries(this.errorDescriptions(endpoint)).map(([status, text]) => [
+            status,
+            { description: text, content: { 'application/json': { schema: errorRef } } },
+          ])
+        ),
+      };
+
+      paths[endpoint.path] ??= {};
+      paths[endpoint.path][endpoint.method.toLowerCase()] = operation;
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: 'Musa API',
+        version: '0.1.0',
+        description: 'Every failure answers with the Error schema; dates are ISO 8601 strings',
+      },
+      tags: Array.from(new Set(endpoints.map((e) => e.tag))).map((name) => ({ name })),
+      paths,
+      components: {
+        schemas: Object.fromEntries(Object.entries(components).sort(([a], [b]) => a.localeCompare(b))),
+        securitySchemes: {
+          cookieAuth: { type: 'apiKey', in: 'cookie', name: 'auth-token' },
+        },
+      },
+    };
+  }
+
+  /**
+   * Convert a schema, moving its named subschemas into the shared components
+   */
+  private static toJsonSchema(schema: z.ZodType, io: 'input' | 'output', components: Record<string, JsonSchema>): JsonSchema {
+    const json = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+    const { $defs, ...rest } = this.withComponentRefs(json);
+    delete rest.$schema;
+
+    for (const [id, definition] of Object.entries<JsonSchema>($defs ?? {})) {
+      components[id] ??= definition;
+    }
+
+    // A named schema at the top comes back inline; refer to it like everywhere else
+    const id = z.globalRegistry.get(schema)?.id;
+    if (id) {
+      components[id] ??= rest;
+      return { $ref: `${SCHEMA_REF}${id}` };
+    }
+
+    return rest;
+  }
+
+  /**
+   * Point $defs references at components/schemas
+   */
+  private static withComponentRefs(json: JsonSchema): JsonSchema {
+    return JSON.parse(JSON.stringify(json).replaceAll('"#/$defs/', `"${SCHEMA_REF}`));
+  }
+
+  /**
+   * One parameter per property of an object schema
+   */
+  private static parameters(schema: JsonSchema | undefined, location: 'path' | 'query'): JsonSchema[] {
+    if (!schema?.properties) {
+      return [];
+    }
+
+    const required = new Set<string>(schema.required ?? []);
+    return Object.entries<JsonSchema>(schema.properties).map(([name, { description, ...property }]) => ({
+      name,
+      in: location,
+      required: location === 'path' || required.has(name),
+      ...(description && { description }),
+      schema: property,
+    }));
+  }
+
+  private static successResponse(
+    endpoint: Endpoint,
+    convert: (schema: z.ZodType, io: 'input' | 'output') => JsonSchema
+  ): Record<string, JsonSchema> {
+    if (endpoint.redirect) {
+      return { 302: { description: 'Redirect' } };
+    }
+
+    const status = endpoint.status ?? 200;
+    if (!endpoint.response) {
+      return { [status]: { description: 'Success' } };
+    }
+
+    return {
+      [status]: {
+        description: 'Success',
+        content: { 'application/json': { schema: convert(endpoint.response, 'output') } },
+      },
+    };
+  }
+
+  /**
+   * Which failures an endpoint can answer with; known service errors are listed by the start of their message
+   */
+  private static errorDescriptions(endpoint: Endpoint): Record<number, string> {
+    const descriptions: Record<number, string[]> = {};
+    const add = (status: number, text: string) => (descriptions[status] ??= []).push(text);
+
+    if (endpoint.params || endpoint.query || endpoint.body || endpoint.upload) {
+      add(400, 'Invalid input');
+    }
+    if ((endpoint.auth ?? true) === true) {
+      add(401, 'Not signed in');
+    }
+    if (endpoint.permission) {
+      add(403, endpoint.forbiddenMessage ?? 'Forbidden');
+    }
+    for (const [status, prefixes] of Object.entries(endpoint.errors ?? {})) {
+      for (const prefix of prefixes ?? []) {
+        add(Number(status), prefix);
+      }
+    }
+    add(500, 'Internal server error');
+
+    return Object.fromEntries(Object.entries(descriptions).map(([status, texts]) => [status, texts.join('; ')]));
+  }
+
+  /**
+   * Who may call the endpoint, in words
+   */
+  private static describeAccess(endpoint: Endpoint): string | null {
+    if (endpoint.permission) {
+      return `Requires the ${endpoint.permission} permission`;
+    }
+    if (endpoint.auth === 'optional') {
+      return 'Signing in is optional; the answer may include details for the signed-in user';
+    }
+    if (endpoint.auth === false) {
+      return 'No sign-in needed';
+    }
+    return null;
+  }
+
+  /**
+   * PascalCase name from a path, e.g. /api/questions/{id}/vote becomes QuestionsByIdVote
+   */
+  private static operationName(path: string): string {
+    return path
+      .replace(/^\/api\//, '')
+      .split(/[/.-]/)
+      .filter(Boolean)
+      .map((part) => {
+        const param = part.match(/^\{(\w+)\}$/);
+        const word = param ? `By${param[1][0].toUpperCase()}${param[1].slice(1)}` : part;
+        return word[0].toUpperCase() + word.slice(1);
+      })
+      .join('');
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Utility class for turning Postgres ts_headline output into safe HTML
+ * The database marks matches with control characters; the text is escaped first
+ * and only then are the markers replaced with <mark> tags
+ */
+export class SearchHighlighter {
+  static readonly START = '\u0002';
+  static readonly STOP = '\u0003';
+
+  /**
+   * Options string for ts_headline using the marker characters
+   */
+  static headlineOptions(maxWords: number): string {
+    return `StartSel=${this.START}, StopSel=${this.STOP}, MaxWords=${maxWords}, MinWords=${Math.ceil(maxWords / 2)}, MaxFragments=2, FragmentDelimiter=" … "`;
+  }
+
+  /**
+   * Convert marked-up headline text to HTML
+   */
+  static toHtml(text: string): string {
+    return this.escape(this.decodeEntities(text))
+      .split(this.START).join('<mark>')
+      .split(this.STOP).join('</mark>');
+  }
+
+  /**
+   * Decode the entities rich-text descriptions are stored with
+   */
+  private static decodeEntities(text: string): string {
+    return text
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Escape HTML special characters
+   */
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "quiz_questions" ADD COLUMN     "sourceNoteId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "quiz_questions" ADD CONSTRAINT "quiz_questions_sourceNoteId_fkey" FOREIGN KEY ("sourceNoteId") REFERENCES "notes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
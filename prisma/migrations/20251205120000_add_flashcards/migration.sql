@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "FlashcardSource" AS ENUM ('MANUAL', 'NOTE', 'QUIZ');
+
+-- CreateTable
+CREATE TABLE "flashcard_decks" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "flashcard_decks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "flashcards" (
+    "id" TEXT NOT NULL,
+    "front" TEXT NOT NULL,
+    "back" TEXT NOT NULL,
+    "source" "FlashcardSource" NOT NULL DEFAULT 'MANUAL',
+    "deckId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sourceNoteId" TEXT,
+    "sourceQuizQuestionId" TEXT,
+    "ease" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "flashcards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flashcard_decks_userId_name_key" ON "flashcard_decks"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "flashcards_userId_dueAt_idx" ON "flashcards"("userId", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flashcards_userId_sourceQuizQuestionId_key" ON "flashcards"("userId", "sourceQuizQuestionId");
+
+-- AddForeignKey
+ALTER TABLE "flashcard_decks" ADD CONSTRAINT "flashcard_decks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_deckId_fkey" FOREIGN KEY ("deckId") REFERENCES "flashcard_decks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_sourceNoteId_fkey" FOREIGN KEY ("sourceNoteId") REFERENCES "notes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "flashcards" ADD CONSTRAINT "flashcards_sourceQuizQuestionId_fkey" FOREIGN KEY ("sourceQuizQuestionId") REFERENCES "quiz_questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+-- Title is weighted above the description; HTML tags are stripped from the description before indexing
+ALTER TABLE "questions" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', regexp_replace(coalesce("description", ''), '<[^>]+>', ' ', 'g')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "questions_searchVector_idx" ON "questions" USING GIN ("searchVector");
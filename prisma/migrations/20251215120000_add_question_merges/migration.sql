@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "mergedIntoId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
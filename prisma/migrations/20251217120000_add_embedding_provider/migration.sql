@@ -0,0 +1,10 @@
+-- AlterTable
+-- Drop the fixed size so providers with other vector sizes can be stored
+ALTER TABLE "questions" ALTER COLUMN "embedding" TYPE vector;
+ALTER TABLE "questions" ADD COLUMN "embeddingProvider" TEXT,
+ADD COLUMN "embeddingDimensions" INTEGER;
+
+-- Existing vectors all came from Gemini text-embedding-004
+UPDATE "questions"
+SET "embeddingProvider" = 'gemini:text-embedding-004', "embeddingDimensions" = vector_dims("embedding")
+WHERE "embedding" IS NOT NULL;
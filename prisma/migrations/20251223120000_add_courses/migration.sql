@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "courses" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "term" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "courses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "enrollments" (
+    "courseId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "section" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "enrollments_pkey" PRIMARY KEY ("courseId","userId")
+);
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "courseId" TEXT;
+
+-- AlterTable
+ALTER TABLE "questions" ADD COLUMN "courseId" TEXT;
+
+-- AlterTable
+ALTER TABLE "notes" ADD COLUMN "courseId" TEXT;
+
+-- AlterTable
+ALTER TABLE "quizzes" ADD COLUMN "courseId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "courses_code_key" ON "courses"("code");
+
+-- CreateIndex
+CREATE INDEX "enrollments_userId_idx" ON "enrollments"("userId");
+
+-- CreateIndex
+CREATE INDEX "tasks_courseId_idx" ON "tasks"("courseId");
+
+-- CreateIndex
+CREATE INDEX "questions_courseId_idx" ON "questions"("courseId");
+
+-- CreateIndex
+CREATE INDEX "notes_courseId_idx" ON "notes"("courseId");
+
+-- CreateIndex
+CREATE INDEX "quizzes_courseId_idx" ON "quizzes"("courseId");
+
+-- AddForeignKey
+ALTER TABLE "enrollments" ADD CONSTRAINT "enrollments_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "enrollments" ADD CONSTRAINT "enrollments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "questions" ADD CONSTRAINT "questions_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notes" ADD CONSTRAINT "notes_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quizzes" ADD CONSTRAINT "quizzes_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('ANSWER', 'COMMENT', 'MENTION', 'TASK_DEADLINE', 'NOTE_UPDATED');
+
+-- CreateTable
+CREATE TABLE "shared_note_views" (
+    "noteId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastViewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shared_note_views_pkey" PRIMARY KEY ("noteId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "link" TEXT,
+    "key" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shared_note_views_userId_idx" ON "shared_note_views"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_userId_key_key" ON "notifications"("userId", "key");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "shared_note_views" ADD CONSTRAINT "shared_note_views_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shared_note_views" ADD CONSTRAINT "shared_note_views_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
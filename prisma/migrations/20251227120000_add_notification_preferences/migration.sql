@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('NEVER', 'DAILY', 'WEEKLY');
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "userId" TEXT NOT NULL,
+    "digestFrequency" "DigestFrequency" NOT NULL DEFAULT 'NEVER',
+    "digestAnswers" BOOLEAN NOT NULL DEFAULT true,
+    "digestDeadlines" BOOLEAN NOT NULL DEFAULT true,
+    "lastDigestAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_preferences_digestFrequency_lastDigestAt_idx" ON "notification_preferences"("digestFrequency", "lastDigestAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "AuditEventType" AS ENUM ('LOGIN_FAILED', 'ACCOUNT_LOCKED', 'RATE_LIMITED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "failedLoginCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "type" "AuditEventType" NOT NULL,
+    "userId" TEXT,
+    "email" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "detail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rate_limit_buckets" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_buckets_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_createdAt_idx" ON "audit_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_type_createdAt_idx" ON "audit_events"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_email_idx" ON "audit_events"("email");
+
+-- CreateIndex
+CREATE INDEX "rate_limit_buckets_resetAt_idx" ON "rate_limit_buckets"("resetAt");
+
+-- AddForeignKey
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "totpSecret" TEXT,
+ADD COLUMN "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN "totpLastUsedStep" INTEGER;
+
+-- CreateTable
+-- codeHash is sha256 of "<userId>:<code>", so the same code hashes differently for every user
+CREATE TABLE "recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "two_factor_policies" (
+    "role" "UserRole" NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "two_factor_policies_pkey" PRIMARY KEY ("role")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recovery_codes_codeHash_key" ON "recovery_codes"("codeHash");
+
+-- CreateIndex
+CREATE INDEX "recovery_codes_userId_idx" ON "recovery_codes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "recovery_codes" ADD CONSTRAINT "recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
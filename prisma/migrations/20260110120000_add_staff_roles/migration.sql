@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'TEACHING_ASSISTANT';
+ALTER TYPE "UserRole" ADD VALUE 'MODERATOR';
@@ -0,0 +1,25 @@
+-- Sign-in looks emails up ignoring case, so two accounts that differ only by case would make it ambiguous;
+-- stop here and list them, since merging accounts needs a person to decide which one to keep
+DO $$
+DECLARE
+    duplicates TEXT;
+BEGIN
+    SELECT string_agg("lowerEmail", ', ') INTO duplicates
+    FROM (
+        SELECT lower("email") AS "lowerEmail"
+        FROM "users"
+        GROUP BY lower("email")
+        HAVING COUNT(*) > 1
+    ) AS clashes;
+
+    IF duplicates IS NOT NULL THEN
+        RAISE EXCEPTION 'Merge or rename the accounts whose emails differ only by case before migrating: %', duplicates;
+    END IF;
+END $$;
+
+-- New addresses are stored lowercase; bring the existing ones in line
+UPDATE "users" SET "email" = lower("email") WHERE "email" <> lower("email");
+
+-- CreateIndex
+-- Prisma cannot declare expression indexes, so it lives here only
+CREATE UNIQUE INDEX "users_email_lower_key" ON "users"(lower("email"));
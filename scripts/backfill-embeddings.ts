@@ -0,0 +1,99 @@
+import 'dotenv/config';
+import { getPrismaClient } from '../lib/prisma';
+import { ServiceFactory } from '../lib/di/ServiceFactory';
+import { EmbeddingScope } from '../lib/interfaces/IQuestionRepository';
+
+// Usage: npm run embeddings:backfill -- [--scope=missing|outdated|all] [--rate=60] [--dry-run]
+//   missing   questions with no vector
+//   outdated  (default) also vectors from a different provider or size than the configured one
+//   all       regenerate every question
+// --rate caps embedding requests per minute to stay within the provider's quota
+
+const SCOPES: EmbeddingScope[] = ['missing', 'outdated', 'all'];
+
+function parseArgs(argv: string[]) {
+  const option = (name: string) =>
+    argv.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const scope = (option('scope') || 'outdated') as EmbeddingScope;
+  if (!SCOPES.includes(scope)) {
+    throw new Error(`--scope must be one of ${SCOPES.join(', ')}`);
+  }
+
+  const rate = parseInt(option('rate') || '60', 10);
+  if (!Number.isFinite(rate) || rate < 1) {
+    throw new Error('--rate must be a positive number of requests per minute');
+  }
+
+  return { scope, rate, dryRun: argv.includes('--dry-run') };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function backfillEmbeddings() {
+  try {
+    const { scope, rate, dryRun } = parseArgs(process.argv.slice(2));
+    const embeddingService = ServiceFactory.getEmbeddingService();
+    const questionService = ServiceFactory.createQuestionService();
+
+    const ids = await questionService.getQuestionIdsForEmbedding(scope);
+    console.log(
+      `${ids.length} question(s) to embed with ${embeddingService.getProviderName()} ` +
+        `(${embeddingService.getDimensions()} dimensions, scope: ${scope}, ${rate}/min)`
+    );
+
+    if (dryRun || ids.length === 0) {
+      return;
+    }
+
+    const interval = 60000 / rate;
+    const startedAt = Date.now();
+    let embedded = 0;
+    let skipped = 0;
+    const failed: string[] = [];
+
+    for (const [index, id] of ids.entries()) {
+      const requestStartedAt = Date.now();
+      let status: string;
+      try {
+        if (await questionService.regenerateEmbedding(id)) {
+          embedded++;
+          status = 'ok';
+        } else {
+          skipped++;
+          status = 'skipped (deleted or merged)';
+        }
+      } catch (error: any) {
+        failed.push(id);
+        status = `failed: ${error.message}`;
+      }
+
+      const done = index + 1;
+      const remainingMs = ((Date.now() - startedAt) / done) * (ids.length - done);
+      console.log(
+        `[${done}/${ids.length}] ${Math.round((done / ids.length) * 100)}% ${id} ${status}` +
+          (done < ids.length ? ` (~${Math.ceil(remainingMs / 1000)}s left)` : '')
+      );
+
+      // Space request starts evenly to respect the rate limit
+      const wait = interval - (Date.now() - requestStartedAt);
+      if (done < ids.length && wait > 0) {
+        await sleep(wait);
+      }
+    }
+
+    console.log(`Done: ${embedded} embedded, ${skipped} skipped, ${failed.length} failed`);
+    if (failed.length > 0) {
+      console.log('Rerun to retry the failed questions; those without any vector are also retried by the embedding worker');
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Error backfilling embeddings:', error);
+    process.exitCode = 1;
+  } finally {
+    const prisma = await getPrismaClient();
+    await prisma.$disconnect();
+  }
+}
+
+backfillEmbeddings();
@@ -0,0 +1,201 @@
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import jwt from 'jsonwebtoken';
+
+// Usage: npm run oidc:mock
+// A throwaway OpenID Connect issuer for trying SSO locally. Its sign-in page lets you type any
+// email, name and role, so first logins, account linking and role mapping can all be exercised.
+// Point the app at it with:
+//   SSO_PROVIDER=oidc
+//   OIDC_ISSUER=http://localhost:9400
+//   OIDC_CLIENT_ID=ragra-prep          (any id and secret are accepted)
+//   OIDC_CLIENT_SECRET=dev-secret
+//   OIDC_ROLE_CLAIM=roles
+// Keys are generated on start, so restart the app's server if you restart this one.
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '9400', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const KEY_ID = 'mock-oidc-key';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string | null;
+  codeChallenge: string | null;
+  claims: Record<string, any>;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Record<string, any>>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readForm = async (req: IncomingMessage): Promise<URLSearchParams> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString());
+};
+
+// Sign-in form standing in for the campus login page; the authorize query is carried through hidden fields
+const renderSignIn = (res: ServerResponse, query: URLSearchParams) => {
+  const hidden = [...query.entries()]
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('\n');
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 360px; margin: 64px auto">
+  <h2>Mock OIDC sign-in</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" value="student@example.edu" style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" value="Sam Student" style="width: 100%"></label></p>
+    <p><label>Roles (comma separated)<br><input name="roles" value="student" style="width: 100%"></label></p>
+    <p><label><input type="checkbox" name="email_verified" value="true" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`);
+};
+
+const handleAuthorize = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  if (req.method === 'GET') {
+    renderSignIn(res, url.searchParams);
+    return;
+  }
+
+  const form = await readForm(req);
+  const redirectUri = form.get('redirect_uri');
+  if (form.get('response_type') !== 'code' || !redirectUri || !form.get('client_id')) {
+    sendJson(res, 400, { error: 'invalid_request' });
+    return;
+  }
+
+  const email = (form.get('email') || '').trim().toLowerCase();
+  const code = randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: form.get('client_id')!,
+    redirectUri,
+    nonce: form.get('nonce'),
+    codeChallenge: form.get('code_challenge'),
+    claims: {
+      // The email stands in for a stable account id, so signing in again as the same email is the same account
+      sub: createHash('sha256').update(email).digest('hex').slice(0, 24),
+      email,
+      email_verified: form.get('email_verified') === 'true',
+      name: form.get('name') || undefined,
+      roles: (form.get('roles') || '').split(',').map((r) => r.trim()).filter(Boolean),
+    },
+  });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', code);
+  if (form.get('state')) {
+    target.searchParams.set('state', form.get('state')!);
+  }
+
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+};
+
+const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+  const form = await readForm(req);
+
+  // Accept client_secret_basic and client_secret_post; any credentials will do
+  let clientId = form.get('client_id');
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Basic ')) {
+    const [id] = Buffer.from(authorization.slice(6), 'base64').toString().split(':');
+    clientId = decodeURIComponent(id);
+  }
+
+  const pending = codes.get(form.get('code') || '');
+  codes.delete(form.get('code') || '');
+
+  if (form.get('grant_type') !== 'authorization_code' || !pending || pending.clientId !== clientId) {
+    sendJson(res, 400, { error: 'invalid_grant' });
+    return;
+  }
+  if (pending.redirectUri !== form.get('redirect_uri')) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    return;
+  }
+  if (pending.codeChallenge) {
+    const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      return;
+    }
+  }
+
+  const idToken = jwt.sign({ ...pending.claims, ...(pending.nonce && { nonce: pending.nonce }) }, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: pending.clientId,
+    expiresIn: 300,
+  });
+  const accessToken = randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, pending.claims);
+
+  sendJson(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', ISSUER);
+
+  try {
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          userinfo_endpoint: `${ISSUER}/userinfo`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+        });
+        return;
+      case '/jwks':
+        sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+        return;
+      case '/authorize':
+        await handleAuthorize(req, res, url);
+        return;
+      case '/token':
+        await handleToken(req, res);
+        return;
+      case '/userinfo': {
+        const claims = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, '') || '');
+        if (claims) {
+          sendJson(res, 200, claims);
+        } else {
+          sendJson(res, 401, { error: 'invalid_token' });
+        }
+        return;
+      }
+      default:
+        sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (error) {
+    console.error('Mock OIDC error:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC issuer running at ${ISSUER}`);
+});
@@ -0,0 +1,110 @@
+import 'dotenv/config';
+import { getPrismaClient } from '../lib/prisma';
+import { ServiceFactory } from '../lib/di/ServiceFactory';
+
+// Usage: npm run worker [-- --once]
+// Drains the job queue, polling every JOB_POLL_INTERVAL_MS, and on their own schedules
+// queues embedding jobs for questions that were saved without a vector, sends reminders
+// for task deadlines that are coming up, queues the email digests that are due and
+// deletes sessions that ended over a month ago, rate limit windows that have closed and
+// jobs that completed or failed over a month ago.
+// --once runs each schedule once and drains what is due, for use from cron.
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10);
+const SWEEP_INTERVAL_MS = parseInt(process.env.EMBEDDING_SWEEP_INTERVAL_MS || '600000', 10);
+const DIGEST_INTERVAL_MS = parseInt(process.env.DIGEST_SWEEP_INTERVAL_MS || '900000', 10);
+const SESSION_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const RATE_LIMIT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const JOB_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runWorker() {
+  const once = process.argv.includes('--once');
+  let stopping = false;
+  const stop = () => {
+    console.log('Stopping worker after the current batch...');
+    stopping = true;
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  try {
+    const questionService = ServiceFactory.createQuestionService();
+    const notificationService = ServiceFactory.createNotificationService();
+    const digestService = ServiceFactory.createDigestService();
+    const sessionService = ServiceFactory.createSessionService();
+    const rateLimitStore = ServiceFactory.getRateLimitStore();
+    const jobRepository = ServiceFactory.getJobRepository();
+
+    const worker = ServiceFactory.createJobWorker()
+      .schedule('embedding-sweep', SWEEP_INTERVAL_MS, async () => {
+        const queued = await questionService.queueMissingEmbeddings();
+        if (queued > 0) {
+          console.log(`Queued ${queued} question(s) without an embedding`);
+        }
+      })
+      .schedule('deadline-reminders', SWEEP_INTERVAL_MS, async () => {
+        const reminded = await notificationService.sendDeadlineReminders();
+        if (reminded > 0) {
+          console.log(`Sent ${reminded} deadline reminder(s)`);
+        }
+      })
+      .schedule('email-digests', DIGEST_INTERVAL_MS, async () => {
+        const queued = await digestService.queueDueDigests();
+        if (queued > 0) {
+          console.log(`Queued ${queued} email digest(s)`);
+        }
+      })
+      .schedule('session-prune', SESSION_PRUNE_INTERVAL_MS, async () => {
+        const deleted = await sessionService.pruneExpiredSessions();
+        if (deleted > 0) {
+          console.log(`Deleted ${deleted} ended session(s)`);
+        }
+      })
+      // Only the Postgres store has anything to clear from here; the memory store sweeps itself
+      .schedule('rate-limit-prune', RATE_LIMIT_PRUNE_INTERVAL_MS, async () => {
+        const deleted = await rateLimitStore.prune();
+        if (deleted > 0) {
+          console.log(`Deleted ${deleted} expired rate limit bucket(s)`);
+        }
+      })
+      .schedule('job-prune', JOB_PRUNE_INTERVAL_MS, async () => {
+        const deleted = await jobRepository.deleteFinished(new Date(Date.now() - JOB_RETENTION_MS));
+        if (deleted > 0) {
+          console.log(`Deleted ${deleted} finished job(s)`);
+        }
+      });
+
+    console.log(once ? 'Running job queue once' : `Worker started, polling every ${POLL_INTERVAL_MS}ms`);
+
+    while (!stopping) {
+      const summary = await worker.runOnce();
+      const processed = summary.completed + summary.retried + summary.failed;
+      if (processed > 0) {
+        console.log(
+          `Processed ${processed} job(s): ${summary.completed} completed, ${summary.retried} to retry, ${summary.failed} failed`
+        );
+      }
+
+      if (once) {
+        // Keep draining until nothing is due, then exit
+        if (processed === 0) break;
+        continue;
+      }
+
+      if (processed === 0) {
+        await sleep(POLL_INTERVAL_MS);
+      }
+    }
+  } catch (error) {
+    console.error('Error running worker:', error);
+    process.exitCode = 1;
+  } finally {
+    const prisma = await getPrismaClient();
+    await prisma.$disconnect();
+  }
+}
+
+runWorker();